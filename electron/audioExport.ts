@@ -0,0 +1,238 @@
+/**
+ * Audio Export
+ *
+ * Plans an ad-free copy of an episode for ffmpeg: the renderer sends the
+ * ranges to cut (in the original timeline), the chapters to keep and the
+ * tags; this module works out the ranges that remain, moves the chapters onto
+ * the shortened timeline, and writes the ffmetadata file and ffmpeg arguments.
+ * The result is an MP3 with ID3 tags, chapters and cover art. Running ffmpeg
+ * and choosing the output folder happen in main.ts.
+ */
+
+import {
+  expectNumber,
+  expectOptions,
+  expectString,
+  FileAccessError,
+  validateFilename,
+} from './fileAccess';
+
+export interface TimeRange {
+  start: number; // seconds
+  end: number;
+}
+
+export interface ExportChapter {
+  start: number; // seconds
+  title: string;
+}
+
+export interface ExportTags {
+  title: string;
+  artist?: string;
+  album?: string;
+  date?: string;
+  track?: string;
+  comment?: string;
+}
+
+export interface ExportRequest {
+  jobId: string;
+  inputFilename: string;
+  outputFilename: string;
+  cuts: TimeRange[];
+  chapters: ExportChapter[] | null; // null = no chapter metadata
+  tags: ExportTags;
+  artworkUrl?: string;
+}
+
+export type ExportStatus = 'preparing' | 'encoding' | 'completed' | 'failed' | 'cancelled';
+
+export interface ExportProgress {
+  jobId: string;
+  status: ExportStatus;
+  progress: number; // 0-1
+  outputPath?: string;
+  error?: string;
+}
+
+export const EXPORT_CANCELLED_MESSAGE = 'Export cancelled';
+
+// Cuts shorter than this are ignored and kept pieces shorter than this dropped
+const MIN_RANGE_SECONDS = 0.5;
+
+/**
+ * Sorted, non-overlapping cuts clamped to the episode.
+ */
+export function normalizeCuts(cuts: TimeRange[], duration: number): TimeRange[] {
+  const sorted = cuts
+    .map(cut => ({ start: Math.max(0, cut.start), end: Math.min(duration, cut.end) }))
+    .filter(cut => cut.end - cut.start >= MIN_RANGE_SECONDS)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: TimeRange[] = [];
+  for (const cut of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && cut.start <= last.end + MIN_RANGE_SECONDS) {
+      last.end = Math.max(last.end, cut.end);
+    } else {
+      merged.push({ ...cut });
+    }
+  }
+  return merged;
+}
+
+/**
+ * The parts of the episode that remain after the cuts.
+ */
+export function getKeptRanges(duration: number, cuts: TimeRange[]): TimeRange[] {
+  const kept: TimeRange[] = [];
+  let position = 0;
+  for (const cut of normalizeCuts(cuts, duration)) {
+    if (cut.start - position >= MIN_RANGE_SECONDS) kept.push({ start: position, end: cut.start });
+    position = cut.end;
+  }
+  if (duration - position >= MIN_RANGE_SECONDS) kept.push({ start: position, end: duration });
+  return kept;
+}
+
+/**
+ * Maps a time in the original episode onto the exported timeline.
+ */
+export function toExportedTime(time: number, kept: TimeRange[]): number {
+  let exported = 0;
+  for (const range of kept) {
+    if (time <= range.start) break;
+    exported += Math.min(time, range.end) - range.start;
+  }
+  return exported;
+}
+
+/**
+ * Chapters on the exported timeline, with their end times. Without source
+ * chapters every kept piece becomes a chapter; chapters that were cut out
+ * entirely are dropped.
+ */
+export function mapChapters(kept: TimeRange[], chapters: ExportChapter[]): (ExportChapter & { end: number })[] {
+  const total = toExportedTime(Infinity, kept);
+  const source = chapters.length > 0
+    ? [...chapters].sort((a, b) => a.start - b.start)
+    : kept.map((range, i) => ({ start: range.start, title: `Part ${i + 1}` }));
+
+  const mapped: (ExportChapter & { end: number })[] = [];
+  source.forEach((chapter, i) => {
+    const start = toExportedTime(chapter.start, kept);
+    const end = i + 1 < source.length ? toExportedTime(source[i + 1].start, kept) : total;
+    if (end - start >= MIN_RANGE_SECONDS) mapped.push({ start, end, title: chapter.title });
+  });
+  // The first chapter starts the file even if its opening was cut
+  if (mapped.length > 0) mapped[0].start = 0;
+  return mapped;
+}
+
+// ffmetadata escapes '=', ';', '#', '\' and newlines with a backslash
+const escapeMetadata = (value: string) => value.replace(/([=;#\\\n])/g, '\\$1');
+
+export function buildFfmetadata(tags: ExportTags, chapters: (ExportChapter & { end: number })[]): string {
+  const lines = [';FFMETADATA1'];
+  for (const [key, value] of Object.entries({ ...tags, genre: 'Podcast' })) {
+    if (value) lines.push(`${key}=${escapeMetadata(value)}`);
+  }
+  for (const chapter of chapters) {
+    lines.push(
+      '',
+      '[CHAPTER]',
+      'TIMEBASE=1/1000',
+      `START=${Math.round(chapter.start * 1000)}`,
+      `END=${Math.round(chapter.end * 1000)}`,
+      `title=${escapeMetadata(chapter.title)}`
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function buildExportArgs(options: {
+  inputPath: string;
+  metadataPath: string;
+  coverPath?: string;
+  kept: TimeRange[];
+  outputPath: string;
+}): string[] {
+  const { inputPath, metadataPath, coverPath, kept, outputPath } = options;
+  const pieces = kept.map((range, i) =>
+    `[0:a]atrim=start=${range.start.toFixed(3)}:end=${range.end.toFixed(3)},asetpts=PTS-STARTPTS[a${i}]`
+  );
+  const inputs = kept.map((_, i) => `[a${i}]`).join('');
+  const filter = [...pieces, `${inputs}concat=n=${kept.length}:v=0:a=1[out]`].join(';');
+
+  const args = ['-i', inputPath, '-f', 'ffmetadata', '-i', metadataPath];
+  if (coverPath) args.push('-i', coverPath);
+  args.push('-filter_complex', filter, '-map', '[out]', '-map_metadata', '1', '-map_chapters', '1');
+  if (coverPath) {
+    args.push(
+      '-map', '2:v', '-c:v', 'mjpeg', '-disposition:v:0', 'attached_pic',
+      '-metadata:s:v', 'title=Album cover', '-metadata:s:v', 'comment=Cover (front)'
+    );
+  }
+  args.push(
+    '-c:a', 'libmp3lame', '-q:a', '2',
+    '-id3v2_version', '3', '-write_id3v1', '1',
+    '-progress', 'pipe:1', '-nostats',
+    '-y', outputPath
+  );
+  return args;
+}
+
+/**
+ * Seconds encoded so far, from a line of `-progress` output.
+ */
+export function parseProgressSeconds(line: string): number | null {
+  const match = line.match(/^out_time_(?:us|ms)=(\d+)/);
+  return match ? Number(match[1]) / 1_000_000 : null;
+}
+
+// =========================================================================
+// Request validation
+// =========================================================================
+
+const expectRange = (value: unknown, label: string): TimeRange => {
+  const range = expectOptions(value, label);
+  return { start: expectNumber(range.start, `${label} start`), end: expectNumber(range.end, `${label} end`) };
+};
+
+const expectOptionalString = (value: unknown, label: string): string | undefined =>
+  value === undefined || value === null ? undefined : expectString(value, label);
+
+export function expectExportRequest(value: unknown): ExportRequest {
+  const request = expectOptions(value, 'export request');
+  if (!Array.isArray(request.cuts)) throw new FileAccessError('Invalid cuts: expected a list');
+  if (request.chapters !== null && request.chapters !== undefined && !Array.isArray(request.chapters)) {
+    throw new FileAccessError('Invalid chapters: expected a list');
+  }
+
+  const outputFilename = validateFilename(request.outputFilename, 'output filename');
+  if (!outputFilename.toLowerCase().endsWith('.mp3')) throw new FileAccessError('Invalid output filename: must be an MP3');
+
+  const tags = expectOptions(request.tags, 'tags');
+  return {
+    jobId: expectString(request.jobId, 'job ID'),
+    inputFilename: validateFilename(request.inputFilename, 'input filename'),
+    outputFilename,
+    cuts: request.cuts.map((cut, i) => expectRange(cut, `cut ${i + 1}`)),
+    chapters: Array.isArray(request.chapters)
+      ? request.chapters.map((chapter, i) => {
+        const fields = expectOptions(chapter, `chapter ${i + 1}`);
+        return { start: expectNumber(fields.start, `chapter ${i + 1} start`), title: expectString(fields.title, `chapter ${i + 1} title`) };
+      })
+      : null,
+    tags: {
+      title: expectString(tags.title, 'title'),
+      artist: expectOptionalString(tags.artist, 'artist'),
+      album: expectOptionalString(tags.album, 'album'),
+      date: expectOptionalString(tags.date, 'date'),
+      track: expectOptionalString(tags.track, 'track'),
+      comment: expectOptionalString(tags.comment, 'comment'),
+    },
+    artworkUrl: expectOptionalString(request.artworkUrl, 'artwork URL'),
+  };
+}
@@ -0,0 +1,567 @@
+/**
+ * Download Manager
+ *
+ * Runs episode downloads in the main process: at most `concurrency` at a time,
+ * highest priority first, with throttled byte-level progress reports and
+ * resume of partial files. Data is written to `<filename>.part` next to a small
+ * `<filename>.part.json` sidecar (URL and validators); both survive a crash or
+ * a dropped connection and the next attempt continues with an HTTP Range
+ * request. The finished file is renamed into place, so a file without the
+ * `.part` suffix is always complete.
+ *
+ * Automatic downloads (queue prefetching, auto-queue rules) can be held back
+ * and share a bandwidth cap; downloads the user asked for ignore both. Holding
+ * stops a running automatic download but keeps its partial file, so it
+ * resumes when automatic downloads are allowed again.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+
+export type DownloadStatus = 'queued' | 'downloading' | 'retrying' | 'completed' | 'failed' | 'cancelled';
+
+export interface DownloadProgress {
+  filename: string;
+  url: string;
+  status: DownloadStatus;
+  priority: number;
+  receivedBytes: number;
+  totalBytes: number | null; // null when the server doesn't say
+  bytesPerSecond: number;
+  resumed: boolean; // Continued from a partial file
+  attempt: number;
+  error?: string;
+}
+
+export interface DownloadRequest {
+  url: string;
+  filename: string;
+  headers?: Record<string, string>;
+  priority?: number;
+  automatic?: boolean; // Subject to holds and the bandwidth cap
+}
+
+export interface DownloadManagerOptions {
+  directory: string;
+  fetch: (url: string, init: RequestInit) => Promise<Response>;
+  onProgress: (progress: DownloadProgress) => void;
+  concurrency?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
+  progressIntervalMs?: number;
+}
+
+export const DEFAULT_DOWNLOAD_CONCURRENCY = 2;
+export const CANCELLED_MESSAGE = 'Download cancelled';
+
+// Sidecar describing a .part file, so a resume only continues the same resource
+interface PartMeta {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  totalBytes: number | null;
+}
+
+interface DownloadJob {
+  request: DownloadRequest;
+  progress: DownloadProgress;
+  enqueuedAt: number;
+  controller: AbortController;
+  promise: Promise<string>;
+  resolve: (filePath: string) => void;
+  reject: (error: Error) => void;
+  lastReportAt: number;
+  holding: boolean; // Being stopped to wait for automatic downloads to be allowed
+}
+
+class RetryableError extends Error { }
+
+/**
+ * Picks the next job to start: highest priority, then first come.
+ */
+export function pickNextDownload<T extends { progress: { priority: number }; enqueuedAt: number }>(queued: T[]): T | undefined {
+  let best: T | undefined;
+  for (const job of queued) {
+    if (!best ||
+      job.progress.priority > best.progress.priority ||
+      (job.progress.priority === best.progress.priority && job.enqueuedAt < best.enqueuedAt)) {
+      best = job;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parses `Content-Range: bytes 100-199/1000`. Total is null for `/*`.
+ */
+export function parseContentRange(header: string | null): { start: number; total: number | null } | null {
+  const match = header?.match(/^bytes\s+(\d+)-\d+\/(\d+|\*)$/i);
+  if (!match) return null;
+  return { start: Number(match[1]), total: match[2] === '*' ? null : Number(match[2]) };
+}
+
+/**
+ * Shares a byte rate between downloads: each chunk reserves its share of
+ * time and waits until that slot comes up.
+ */
+export class BandwidthLimiter {
+  private bytesPerSecond: number;
+  private nextFreeAt = 0;
+
+  constructor(bytesPerSecond = 0) {
+    this.bytesPerSecond = Math.max(0, bytesPerSecond);
+  }
+
+  setRate(bytesPerSecond: number): void {
+    this.bytesPerSecond = Math.max(0, bytesPerSecond);
+    this.nextFreeAt = 0;
+  }
+
+  get isLimited(): boolean {
+    return this.bytesPerSecond > 0;
+  }
+
+  /**
+   * Milliseconds to wait before passing on `bytes`; 0 without a limit.
+   */
+  reserve(bytes: number, now = Date.now()): number {
+    if (!this.isLimited) return 0;
+    const startAt = Math.max(this.nextFreeAt, now);
+    this.nextFreeAt = startAt + (bytes * 1000) / this.bytesPerSecond;
+    return startAt - now;
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function isAbortError(error: unknown): boolean {
+  const err = error as { name?: string; code?: string };
+  return err?.name === 'AbortError' || err?.code === 'ABORT_ERR';
+}
+
+export class DownloadManager {
+  private readonly options: Required<Omit<DownloadManagerOptions, 'concurrency'>>;
+  private concurrency: number;
+  private readonly jobs = new Map<string, DownloadJob>();
+  private readonly active = new Set<string>();
+  private readonly limiter = new BandwidthLimiter();
+  private automaticHeld = false;
+
+  constructor(options: DownloadManagerOptions) {
+    this.options = {
+      maxRetries: 3,
+      retryDelayMs: 2000,
+      progressIntervalMs: 250,
+      ...options,
+    };
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_DOWNLOAD_CONCURRENCY);
+  }
+
+  /**
+   * Queues a download and resolves with the final path once it completes. A
+   * request for a file that is already queued or running joins that download
+   * (taking the new priority) instead of starting another one.
+   */
+  enqueue(request: DownloadRequest): Promise<string> {
+    const filePath = this.filePath(request.filename);
+    if (fs.existsSync(filePath)) return Promise.resolve(filePath);
+
+    const existing = this.jobs.get(request.filename);
+    if (existing) {
+      if (request.priority !== undefined) this.setPriority(request.filename, request.priority);
+      if (!request.automatic && existing.request.automatic) {
+        // Asked for by the user now, so no longer held or capped
+        existing.request = { ...existing.request, automatic: false };
+        this.pump();
+      }
+      return existing.promise;
+    }
+
+    let resolve: (filePath: string) => void = () => { };
+    let reject: (error: Error) => void = () => { };
+    const promise = new Promise<string>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+
+    const job: DownloadJob = {
+      request: { ...request },
+      progress: {
+        filename: request.filename,
+        url: request.url,
+        status: 'queued',
+        priority: request.priority ?? 0,
+        receivedBytes: 0,
+        totalBytes: null,
+        bytesPerSecond: 0,
+        resumed: false,
+        attempt: 0,
+      },
+      enqueuedAt: Date.now(),
+      controller: new AbortController(),
+      promise,
+      resolve,
+      reject,
+      lastReportAt: 0,
+      holding: false,
+    };
+    this.jobs.set(request.filename, job);
+    this.report(job, true);
+    this.pump();
+    return promise;
+  }
+
+  setPriority(filename: string, priority: number): void {
+    const job = this.jobs.get(filename);
+    if (!job || job.progress.priority === priority) return;
+    job.progress.priority = priority;
+    this.report(job, true);
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.concurrency = Math.max(1, Math.floor(concurrency) || DEFAULT_DOWNLOAD_CONCURRENCY);
+    this.pump();
+  }
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  /**
+   * Holds automatic downloads (queued ones wait, running ones stop and keep
+   * their partial file) or lets them continue.
+   */
+  setAutomaticHeld(held: boolean): void {
+    if (this.automaticHeld === held) return;
+    this.automaticHeld = held;
+    if (held) {
+      for (const filename of this.active) {
+        const job = this.jobs.get(filename);
+        if (job?.request.automatic) {
+          console.log(`[Downloads] Holding automatic download: ${filename}`);
+          job.holding = true;
+          job.controller.abort();
+        }
+      }
+    }
+    this.pump();
+  }
+
+  /**
+   * Caps the combined rate of automatic downloads; 0 for no cap.
+   */
+  setBandwidthLimit(bytesPerSecond: number): void {
+    this.limiter.setRate(bytesPerSecond);
+  }
+
+  getDownloads(): DownloadProgress[] {
+    return [...this.jobs.values()].map(job => ({ ...job.progress }));
+  }
+
+  /**
+   * The partial file of an unfinished download, for playing it while it
+   * downloads. Null once the download has finished, failed or been cancelled.
+   */
+  getPartial(filename: string): { path: string; totalBytes: number | null } | null {
+    const job = this.jobs.get(filename);
+    if (!job) return null;
+    return { path: this.partPath(filename), totalBytes: job.progress.totalBytes };
+  }
+
+  /**
+   * Stops a queued or running download and discards its partial file.
+   */
+  async cancel(filename: string): Promise<void> {
+    const job = this.jobs.get(filename);
+    if (!job) return;
+
+    if (this.active.has(filename)) {
+      // run() cleans up and settles the job
+      job.controller.abort();
+      return;
+    }
+    this.finish(job, 'cancelled', new Error(CANCELLED_MESSAGE));
+    await this.discardPart(filename);
+  }
+
+  // =========================================================================
+  // Scheduling
+  // =========================================================================
+
+  private pump(): void {
+    while (this.active.size < this.concurrency) {
+      const queued = [...this.jobs.values()].filter(job =>
+        !this.active.has(job.request.filename) && !(job.request.automatic && this.automaticHeld));
+      const next = pickNextDownload(queued);
+      if (!next) return;
+
+      this.active.add(next.request.filename);
+      this.run(next).finally(() => {
+        this.active.delete(next.request.filename);
+        this.pump();
+      });
+    }
+  }
+
+  private async run(job: DownloadJob): Promise<void> {
+    const { filename } = job.request;
+    const signal = job.controller.signal;
+
+    for (let attempt = 1; ; attempt++) {
+      job.progress.attempt = attempt;
+      try {
+        const filePath = await this.attempt(job);
+        this.finish(job, 'completed');
+        job.resolve(filePath);
+        return;
+      } catch (error) {
+        if (job.holding) {
+          this.requeue(job);
+          return;
+        }
+        if (signal.aborted || isAbortError(error)) {
+          console.log(`[Downloads] Cancelled: ${filename}`);
+          await this.discardPart(filename);
+          this.finish(job, 'cancelled', new Error(CANCELLED_MESSAGE));
+          return;
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        if (!(error instanceof RetryableError) || attempt > this.options.maxRetries) {
+          console.error(`[Downloads] Failed: ${filename}:`, message);
+          this.finish(job, 'failed', new Error(message));
+          return;
+        }
+
+        // The .part file stays, so the next attempt resumes where this one stopped
+        console.warn(`[Downloads] Attempt ${attempt} for ${filename} failed, retrying: ${message}`);
+        job.progress.status = 'retrying';
+        job.progress.error = message;
+        job.progress.bytesPerSecond = 0;
+        this.report(job, true);
+        const delayed = await this.wait(this.options.retryDelayMs * attempt, signal);
+        if (!delayed && job.holding) {
+          this.requeue(job);
+          return;
+        }
+        if (!delayed) {
+          await this.discardPart(filename);
+          this.finish(job, 'cancelled', new Error(CANCELLED_MESSAGE));
+          return;
+        }
+      }
+    }
+  }
+
+  /**
+   * Puts a held download back in the queue; its partial file stays for the resume.
+   */
+  private requeue(job: DownloadJob): void {
+    job.holding = false;
+    job.controller = new AbortController();
+    job.progress.status = 'queued';
+    job.progress.bytesPerSecond = 0;
+    this.report(job, true);
+  }
+
+  private finish(job: DownloadJob, status: DownloadStatus, error?: Error): void {
+    this.jobs.delete(job.request.filename);
+    job.progress.status = status;
+    job.progress.bytesPerSecond = 0;
+    job.progress.error = error?.message;
+    this.report(job, true);
+    if (error) job.reject(error);
+  }
+
+  // =========================================================================
+  // Transfer
+  // =========================================================================
+
+  private async attempt(job: DownloadJob): Promise<string> {
+    const { url, filename, headers } = job.request;
+    const partPath = this.partPath(filename);
+    const signal = job.controller.signal;
+
+    let offset = await this.getResumableOffset(filename, url);
+    const meta = offset > 0 ? await this.readMeta(filename) : null;
+
+    const requestHeaders: Record<string, string> = { ...headers };
+    if (offset > 0) {
+      requestHeaders.Range = `bytes=${offset}-`;
+      // Only accept a partial response if the resource hasn't changed
+      const validator = meta?.etag ?? meta?.lastModified;
+      if (validator) requestHeaders['If-Range'] = validator;
+    }
+
+    let response: Response;
+    try {
+      response = await this.options.fetch(url, { signal, headers: requestHeaders });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new RetryableError(error instanceof Error ? error.message : String(error));
+    }
+
+    if (response.status === 416 && offset > 0) {
+      // Range past the end: either the part is already complete or the file shrank
+      if (meta?.totalBytes === offset) return this.complete(filename);
+      await this.discardPart(filename);
+      throw new RetryableError('Partial file no longer matches the remote file');
+    }
+    if (!response.ok) {
+      const message = `Failed to download: ${response.status} ${response.statusText}`;
+      throw isRetryableStatus(response.status) ? new RetryableError(message) : new Error(message);
+    }
+    if (!response.body) throw new Error('No response body');
+
+    let totalBytes: number | null;
+    if (response.status === 206) {
+      const range = parseContentRange(response.headers.get('content-range'));
+      if (!range || range.start !== offset) {
+        await this.discardPart(filename);
+        throw new RetryableError('Server returned an unexpected range');
+      }
+      totalBytes = range.total;
+    } else {
+      // Full response: the server ignored the range or the file changed
+      offset = 0;
+      const length = Number(response.headers.get('content-length'));
+      totalBytes = length > 0 ? length : null;
+    }
+
+    await this.writeMeta(filename, {
+      url,
+      etag: response.headers.get('etag') ?? undefined,
+      lastModified: response.headers.get('last-modified') ?? undefined,
+      totalBytes,
+    });
+
+    job.progress.status = 'downloading';
+    job.progress.error = undefined;
+    job.progress.resumed = offset > 0;
+    job.progress.receivedBytes = offset;
+    job.progress.totalBytes = totalBytes;
+    this.report(job, true);
+    if (offset > 0) console.log(`[Downloads] Resuming ${filename} at ${offset} bytes`);
+
+    const startedAt = Date.now();
+    let received = 0;
+    const counter = new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        received += chunk.length;
+        job.progress.receivedBytes = offset + received;
+        const seconds = (Date.now() - startedAt) / 1000;
+        job.progress.bytesPerSecond = seconds > 0 ? Math.round(received / seconds) : 0;
+        this.report(job);
+        // Holding back the chunk slows reading from the connection too
+        const delay = job.request.automatic ? this.limiter.reserve(chunk.length) : 0;
+        if (delay > 0) {
+          setTimeout(() => callback(null, chunk), delay);
+        } else {
+          callback(null, chunk);
+        }
+      },
+    });
+
+    try {
+      await pipeline(
+        Readable.fromWeb(response.body as import('stream/web').ReadableStream),
+        counter,
+        fs.createWriteStream(partPath, { flags: offset > 0 ? 'a' : 'w' }),
+        { signal }
+      );
+    } catch (error) {
+      if (isAbortError(error) || signal.aborted) throw error;
+      throw new RetryableError(error instanceof Error ? error.message : String(error));
+    }
+
+    if (totalBytes !== null && job.progress.receivedBytes < totalBytes) {
+      throw new RetryableError(`Connection closed after ${job.progress.receivedBytes} of ${totalBytes} bytes`);
+    }
+    return this.complete(filename);
+  }
+
+  private async complete(filename: string): Promise<string> {
+    const filePath = this.filePath(filename);
+    await fs.promises.rename(this.partPath(filename), filePath);
+    await fs.promises.rm(this.metaPath(filename), { force: true });
+    return filePath;
+  }
+
+  /**
+   * Bytes already on disk for this URL, or 0 when there is nothing to resume.
+   */
+  private async getResumableOffset(filename: string, url: string): Promise<number> {
+    const meta = await this.readMeta(filename);
+    if (!meta || meta.url !== url) {
+      await this.discardPart(filename);
+      return 0;
+    }
+    try {
+      return (await fs.promises.stat(this.partPath(filename))).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  private async readMeta(filename: string): Promise<PartMeta | null> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.metaPath(filename), 'utf-8')) as PartMeta;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeMeta(filename: string, meta: PartMeta): Promise<void> {
+    await fs.promises.writeFile(this.metaPath(filename), JSON.stringify(meta));
+  }
+
+  private async discardPart(filename: string): Promise<void> {
+    await fs.promises.rm(this.partPath(filename), { force: true });
+    await fs.promises.rm(this.metaPath(filename), { force: true });
+  }
+
+  // =========================================================================
+  // Helpers
+  // =========================================================================
+
+  private report(job: DownloadJob, force = false): void {
+    const now = Date.now();
+    if (!force && now - job.lastReportAt < this.options.progressIntervalMs) return;
+    job.lastReportAt = now;
+    this.options.onProgress({ ...job.progress });
+  }
+
+  /**
+   * Sleeps unless cancelled. Resolves false when the signal aborts first.
+   */
+  private wait(ms: number, signal: AbortSignal): Promise<boolean> {
+    return new Promise(resolve => {
+      if (signal.aborted) return resolve(false);
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(true);
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve(false);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private filePath(filename: string): string {
+    return path.join(this.options.directory, filename);
+  }
+
+  private partPath(filename: string): string {
+    return `${this.filePath(filename)}.part`;
+  }
+
+  private metaPath(filename: string): string {
+    return `${this.filePath(filename)}.part.json`;
+  }
+}
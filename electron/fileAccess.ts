@@ -0,0 +1,128 @@
+/**
+ * File Access
+ *
+ * The renderer names files in the podcast directory over IPC and through the
+ * local-media protocol. Every such name goes through resolveInDirectory before
+ * it touches the file system: it has to be a plain file name (no separators,
+ * no `..`, no absolute or drive paths) and must resolve to a file directly
+ * inside the directory. The argument checks below keep a compromised or buggy
+ * renderer from passing other types where handlers expect strings and numbers,
+ * and URLs the main process fetches must be http(s), so file:// and
+ * local-media:// can't be used to read around those checks.
+ */
+
+import path from 'path';
+
+export class FileAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileAccessError';
+  }
+}
+
+// Longest name most file systems allow
+const MAX_FILENAME_LENGTH = 255;
+
+/**
+ * Checks that `filename` is a plain file name and returns it.
+ */
+export function validateFilename(filename: unknown, label = 'filename'): string {
+  if (typeof filename !== 'string') {
+    throw new FileAccessError(`Invalid ${label}: expected a string`);
+  }
+  if (filename.length === 0 || filename.length > MAX_FILENAME_LENGTH) {
+    throw new FileAccessError(`Invalid ${label}: bad length`);
+  }
+  if (filename === '.' || filename === '..') {
+    throw new FileAccessError(`Invalid ${label}: ${filename}`);
+  }
+  // Separators of either platform, NUL, and ':' (Windows drives and alternate data streams)
+  if (/[/\\:\0]/.test(filename) || path.isAbsolute(filename) || path.win32.isAbsolute(filename)) {
+    throw new FileAccessError(`Invalid ${label}: ${JSON.stringify(filename)}`);
+  }
+  return filename;
+}
+
+/**
+ * Absolute path of `filename` inside `directory`, or a FileAccessError if the
+ * name could point anywhere else.
+ */
+export function resolveInDirectory(directory: string, filename: unknown, label?: string): string {
+  const root = path.resolve(directory);
+  const resolved = path.resolve(root, validateFilename(filename, label));
+  if (path.dirname(resolved) !== root) {
+    throw new FileAccessError(`Invalid ${label ?? 'filename'}: outside of the storage directory`);
+  }
+  return resolved;
+}
+
+// =========================================================================
+// IPC argument checks
+// =========================================================================
+
+export function expectString(value: unknown, label: string): string {
+  if (typeof value !== 'string') throw new FileAccessError(`Invalid ${label}: expected a string`);
+  return value;
+}
+
+/**
+ * Checks that `value` is an absolute http or https URL and returns it.
+ */
+export function expectHttpUrl(value: unknown, label = 'url'): string {
+  const url = expectString(value, label);
+  let protocol: string;
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    throw new FileAccessError(`Invalid ${label}: not a URL`);
+  }
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    throw new FileAccessError(`Invalid ${label}: only http and https are allowed`);
+  }
+  return url;
+}
+
+export function expectNumber(value: unknown, label: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new FileAccessError(`Invalid ${label}: expected a number`);
+  }
+  return value;
+}
+
+export function expectOptionalNumber(value: unknown, label: string): number | undefined {
+  return value === undefined || value === null ? undefined : expectNumber(value, label);
+}
+
+export function expectOptionalBoolean(value: unknown, label: string): boolean | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'boolean') throw new FileAccessError(`Invalid ${label}: expected a boolean`);
+  return value;
+}
+
+export function expectStringArray(value: unknown, label: string): string[] {
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+    throw new FileAccessError(`Invalid ${label}: expected a list of strings`);
+  }
+  return value;
+}
+
+/**
+ * An optional options object; returns {} when absent so handlers can read
+ * fields directly.
+ */
+export function expectOptions(value: unknown, label = 'options'): Record<string, unknown> {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new FileAccessError(`Invalid ${label}: expected an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+export function expectOptionalHeaders(value: unknown, label = 'headers'): Record<string, string> | undefined {
+  if (value === undefined || value === null) return undefined;
+  const headers = expectOptions(value, label);
+  if (!Object.values(headers).every(header => typeof header === 'string')) {
+    throw new FileAccessError(`Invalid ${label}: expected string values`);
+  }
+  return headers as Record<string, string>;
+}
@@ -0,0 +1,59 @@
+/**
+ * File Integrity
+ *
+ * Inspects a downloaded media file: its size, a SHA-256 of the contents and
+ * whether it decodes (music-metadata has to find an audio stream with a
+ * duration). What the findings mean for an episode is decided in the
+ * renderer, which knows what the feed advertised.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { parseFile } from 'music-metadata';
+
+export interface FileInspection {
+  exists: boolean;
+  size: number;
+  sha256: string | null; // null when hashing was skipped
+  duration: number | null; // seconds; null when the file doesn't decode
+  error?: string;
+}
+
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+async function probeDuration(filePath: string): Promise<{ duration: number | null; error?: string }> {
+  try {
+    const metadata = await parseFile(filePath, { duration: false, skipCovers: true });
+    const duration = metadata.format.duration;
+    if (!duration || !Number.isFinite(duration)) {
+      return { duration: null, error: 'No audio stream found' };
+    }
+    return { duration };
+  } catch (error) {
+    return { duration: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function inspectMediaFile(filePath: string, options: { hash?: boolean } = {}): Promise<FileInspection> {
+  let size: number;
+  try {
+    size = (await fs.promises.stat(filePath)).size;
+  } catch {
+    return { exists: false, size: 0, sha256: null, duration: null };
+  }
+  if (size === 0) {
+    return { exists: true, size, sha256: null, duration: null, error: 'File is empty' };
+  }
+
+  const [probe, sha256] = await Promise.all([
+    probeDuration(filePath),
+    options.hash === false ? null : hashFile(filePath),
+  ]);
+  return { exists: true, size, sha256, ...probe };
+}
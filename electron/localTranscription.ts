@@ -0,0 +1,243 @@
+/**
+ * Local Transcription
+ *
+ * Transcribes a downloaded episode on this machine with a whisper.cpp
+ * command-line build, so transcripts don't depend on the cloud backend. ffmpeg
+ * turns the episode into the 16 kHz mono WAV whisper.cpp reads, whisper.cpp
+ * writes its full JSON output (with token timings) next to it, and this
+ * module turns that into transcript segments with word timings. The binary
+ * and model are chosen by the user (or the binary found on PATH); running the
+ * processes happens in main.ts.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { expectOptions, expectString, FileAccessError } from './fileAccess';
+
+export interface LocalTranscriptionConfig {
+  binaryPath: string | null;
+  modelPath: string | null;
+}
+
+export interface LocalTranscriptionStatus extends LocalTranscriptionConfig {
+  available: boolean;
+  problem?: string; // Why it isn't available
+}
+
+export interface LocalTranscriptionOptions {
+  language: string; // Whisper language code or 'auto'
+}
+
+export type LocalTranscriptionStage = 'converting' | 'transcribing' | 'completed' | 'failed' | 'cancelled';
+
+export interface LocalTranscriptionProgress {
+  jobId: string;
+  status: LocalTranscriptionStage;
+  progress: number; // 0-1
+  error?: string;
+}
+
+// Mirrors TranscriptWord / TranscriptSegment in src/types
+export interface LocalTranscriptWord {
+  word: string;
+  startTime: number; // seconds
+  endTime: number;
+}
+
+export interface LocalTranscriptSegment {
+  id: number;
+  start: number; // seconds
+  end: number;
+  text: string;
+  words: LocalTranscriptWord[];
+}
+
+export interface LocalTranscriptionResult {
+  text: string;
+  language: string;
+  duration: number;
+  segments: LocalTranscriptSegment[];
+}
+
+export const LOCAL_TRANSCRIPTION_CANCELLED_MESSAGE = 'Transcription cancelled';
+
+// Names whisper.cpp builds install under (newest first)
+const WHISPER_BINARY_NAMES = ['whisper-cli', 'whisper-cpp', 'whisper'];
+
+// =========================================================================
+// Configuration
+// =========================================================================
+
+/**
+ * The first whisper.cpp binary in the `PATH`-style list of directories.
+ */
+export function findWhisperBinary(searchPath: string | undefined, platform: NodeJS.Platform = process.platform): string | null {
+  const suffix = platform === 'win32' ? '.exe' : '';
+  for (const directory of (searchPath ?? '').split(path.delimiter).filter(Boolean)) {
+    for (const name of WHISPER_BINARY_NAMES) {
+      const candidate = path.join(directory, name + suffix);
+      if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) return candidate;
+    }
+  }
+  return null;
+}
+
+export async function readLocalTranscriptionConfig(configPath: string): Promise<LocalTranscriptionConfig> {
+  try {
+    const stored = JSON.parse(await fs.promises.readFile(configPath, 'utf-8')) as Partial<LocalTranscriptionConfig>;
+    return {
+      binaryPath: typeof stored.binaryPath === 'string' ? stored.binaryPath : null,
+      modelPath: typeof stored.modelPath === 'string' ? stored.modelPath : null,
+    };
+  } catch {
+    return { binaryPath: null, modelPath: null };
+  }
+}
+
+export async function writeLocalTranscriptionConfig(configPath: string, config: LocalTranscriptionConfig): Promise<void> {
+  await fs.promises.writeFile(configPath, JSON.stringify(config, null, 2));
+}
+
+/**
+ * What would run: the chosen binary (or one on PATH) and the chosen model,
+ * and whether both are there.
+ */
+export function getLocalTranscriptionStatus(config: LocalTranscriptionConfig, searchPath: string | undefined): LocalTranscriptionStatus {
+  const binaryPath = config.binaryPath ?? findWhisperBinary(searchPath);
+  const { modelPath } = config;
+
+  let problem: string | undefined;
+  if (!binaryPath) problem = 'whisper.cpp is not installed or not on PATH';
+  else if (!fs.existsSync(binaryPath)) problem = `whisper.cpp binary not found: ${binaryPath}`;
+  else if (!modelPath) problem = 'No whisper model chosen';
+  else if (!fs.existsSync(modelPath)) problem = `Model file not found: ${modelPath}`;
+
+  return { binaryPath, modelPath, available: !problem, problem };
+}
+
+export function expectLocalTranscriptionOptions(value: unknown): LocalTranscriptionOptions {
+  const options = expectOptions(value);
+  const language = options.language === undefined ? 'auto' : expectString(options.language, 'language');
+  // Passed as an argument, so it must not look like a flag
+  if (!/^(auto|[a-z]{2,3})$/.test(language)) throw new FileAccessError(`Invalid language: ${language}`);
+  return { language };
+}
+
+// =========================================================================
+// Running
+// =========================================================================
+
+/**
+ * ffmpeg arguments for the 16 kHz mono PCM WAV whisper.cpp expects. Video
+ * episodes lose their picture here too.
+ */
+export function buildWavArgs(inputPath: string, wavPath: string): string[] {
+  return ['-i', inputPath, '-vn', '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', '-y', wavPath];
+}
+
+/**
+ * whisper.cpp arguments: full JSON output (with token timings) to
+ * `<outputBase>.json`, and progress on stderr.
+ */
+export function buildWhisperArgs(options: {
+  modelPath: string;
+  wavPath: string;
+  outputBase: string;
+  language: string;
+  threads: number;
+}): string[] {
+  return [
+    '-m', options.modelPath,
+    '-f', options.wavPath,
+    '-l', options.language,
+    '-t', String(Math.max(1, Math.floor(options.threads))),
+    '-oj', '-ojf',
+    '-of', options.outputBase,
+    '-pp',
+  ];
+}
+
+/**
+ * Progress (0-1) from a whisper.cpp stderr line such as
+ * "whisper_print_progress_callback: progress =  40%".
+ */
+export function parseWhisperProgress(line: string): number | null {
+  const match = line.match(/progress\s*=\s*(\d+)%/);
+  return match ? Math.min(100, Number(match[1])) / 100 : null;
+}
+
+// =========================================================================
+// Output
+// =========================================================================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function readOffsets(value: unknown): { from: number; to: number } | null {
+  if (!isRecord(value) || !isRecord(value.offsets)) return null;
+  const { from, to } = value.offsets;
+  return typeof from === 'number' && typeof to === 'number' ? { from: from / 1000, to: to / 1000 } : null;
+}
+
+// Special tokens such as [_BEG_] and [_TT_150]
+const isSpecialToken = (text: string) => /^\[_.*\]$/.test(text.trim());
+
+/**
+ * Joins whisper tokens into words: a token starting with a space starts a
+ * new word, anything else (word pieces, punctuation) continues the last one.
+ */
+function tokensToWords(tokens: unknown[]): LocalTranscriptWord[] {
+  const words: LocalTranscriptWord[] = [];
+  for (const token of tokens) {
+    if (!isRecord(token) || typeof token.text !== 'string' || isSpecialToken(token.text)) continue;
+    const offsets = readOffsets(token);
+    if (!offsets || token.text.trim() === '') continue;
+
+    const last = words[words.length - 1];
+    if (last && !/^\s/.test(token.text)) {
+      last.word += token.text;
+      last.endTime = Math.max(last.endTime, offsets.to);
+    } else {
+      words.push({ word: token.text.trim(), startTime: offsets.from, endTime: offsets.to });
+    }
+  }
+  return words;
+}
+
+/**
+ * Reads whisper.cpp's `-ojf` JSON output.
+ */
+export function parseWhisperOutput(raw: string): LocalTranscriptionResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('whisper.cpp output is not valid JSON');
+  }
+  if (!isRecord(parsed) || !Array.isArray(parsed.transcription)) {
+    throw new Error('whisper.cpp output has no transcription');
+  }
+
+  const segments: LocalTranscriptSegment[] = [];
+  for (const entry of parsed.transcription) {
+    const offsets = readOffsets(entry);
+    if (!isRecord(entry) || !offsets || typeof entry.text !== 'string') continue;
+    const text = entry.text.trim();
+    if (!text) continue;
+    segments.push({
+      id: segments.length,
+      start: offsets.from,
+      end: offsets.to,
+      text,
+      words: Array.isArray(entry.tokens) ? tokensToWords(entry.tokens) : [],
+    });
+  }
+
+  const result = isRecord(parsed.result) ? parsed.result : {};
+  return {
+    text: segments.map(segment => segment.text).join(' '),
+    language: typeof result.language === 'string' ? result.language : 'en',
+    duration: segments.length > 0 ? segments[segments.length - 1].end : 0,
+    segments,
+  };
+}
@@ -1,12 +1,53 @@
-import { app, BrowserWindow, ipcMain, protocol, net, shell, safeStorage } from 'electron';
+import { app, BrowserWindow, ipcMain, protocol, net, shell, safeStorage, dialog } from 'electron';
 import { autoUpdater } from 'electron-updater';
 import path from 'path';
 import fs from 'fs';
+import os from 'os';
 import { Readable } from 'stream';
-import { pipeline } from 'stream/promises';
 import { spawn } from 'child_process';
 import ffmpegPath from 'ffmpeg-static';
 import { pathToFileURL } from 'url';
+import { parseFile } from 'music-metadata';
+import { DownloadManager } from './downloadManager';
+import { inspectMediaFile } from './fileIntegrity';
+import { createGrowingFileStream, parseRangeHeader, type GrowingFileSource } from './progressiveMedia';
+import {
+  EXPORT_CANCELLED_MESSAGE,
+  buildExportArgs,
+  buildFfmetadata,
+  expectExportRequest,
+  getKeptRanges,
+  mapChapters,
+  parseProgressSeconds,
+  type ExportProgress,
+} from './audioExport';
+import {
+  LOCAL_TRANSCRIPTION_CANCELLED_MESSAGE,
+  buildWavArgs,
+  buildWhisperArgs,
+  expectLocalTranscriptionOptions,
+  getLocalTranscriptionStatus,
+  parseWhisperOutput,
+  parseWhisperProgress,
+  readLocalTranscriptionConfig,
+  writeLocalTranscriptionConfig,
+  type LocalTranscriptionProgress,
+  type LocalTranscriptionResult,
+  type LocalTranscriptionStatus,
+} from './localTranscription';
+import {
+  FileAccessError,
+  expectHttpUrl,
+  expectNumber,
+  expectOptionalBoolean,
+  expectOptionalHeaders,
+  expectOptionalNumber,
+  expectOptions,
+  expectString,
+  expectStringArray,
+  resolveInDirectory,
+  validateFilename,
+} from './fileAccess';
 
 
 
@@ -70,6 +111,9 @@ if (!fs.existsSync(PODCAST_DIR)) {
   fs.mkdirSync(PODCAST_DIR, { recursive: true });
 }
 
+// Path of a renderer-supplied file name; throws unless it is strictly inside PODCAST_DIR
+const podcastFile = (filename: unknown, label?: string) => resolveInDirectory(PODCAST_DIR, filename, label);
+
 const createWindow = () => {
   mainWindow = new BrowserWindow({
     width: 1200,
@@ -127,151 +171,566 @@ const createWindow = () => {
 ipcMain.handle('ping', () => 'pong');
 
 // Open URL in system's default browser (for OAuth)
-ipcMain.handle('open-external', async (_, url: string) => {
+ipcMain.handle('open-external', async (_, rawUrl: unknown) => {
+  const url = expectString(rawUrl, 'url');
   console.log('[Main] Opening external URL:', url);
   await shell.openExternal(url);
 });
 
-const downloadControllers = new Map<string, AbortController>();
+// Fetch a remote text resource (feeds, etc.) from the main process.
+// The renderer's CSP only allows a handful of API hosts, and feed hosts rarely send CORS headers.
+// Callers can pass conditional request headers (If-None-Match / If-Modified-Since); a 304 comes back with an empty body.
+// Redirect statuses that mean "the resource has moved for good"
+const PERMANENT_REDIRECTS = new Set([301, 308]);
+const MAX_REDIRECTS = 10;
+// A feed that never answers mustn't hold up a refresh
+const FETCH_TEXT_TIMEOUT_MS = 60 * 1000;
+
+ipcMain.handle('fetch-text', async (_, rawUrl: unknown, rawOptions?: unknown) => {
+  const url = expectHttpUrl(rawUrl);
+  const headers = expectOptionalHeaders(expectOptions(rawOptions).headers);
+  const signal = AbortSignal.timeout(FETCH_TEXT_TIMEOUT_MS);
+  // Follow redirects by hand so callers can tell permanent moves (which should
+  // update the stored feed URL) from temporary ones (which shouldn't)
+  let currentUrl = url;
+  let permanentUrl: string | undefined;
+  let onlyPermanent = true;
+  let response: Response | undefined;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    response = await net.fetch(currentUrl, {
+      redirect: 'manual',
+      signal,
+      headers: {
+        'User-Agent': `STFUAI-Podcasts/${app.getVersion()}`,
+        'Accept': 'application/rss+xml, application/atom+xml, application/xml, text/xml, */*',
+        ...headers,
+      },
+    });
 
-ipcMain.handle('download-file', async (_, url: string, filename: string) => {
-  const filePath = path.join(PODCAST_DIR, filename);
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || response.status === 304 || !location) break;
+    if (hop === MAX_REDIRECTS) throw new Error(`Too many redirects for ${url}`);
 
-  if (fs.existsSync(filePath)) {
-    return filePath;
+    currentUrl = expectHttpUrl(new URL(location, currentUrl).toString(), 'redirect url');
+    onlyPermanent = onlyPermanent && PERMANENT_REDIRECTS.has(response.status);
+    if (onlyPermanent) permanentUrl = currentUrl;
   }
 
-  const controller = new AbortController();
-  downloadControllers.set(filename, controller);
-
-  try {
-    const response = await net.fetch(url, { signal: controller.signal });
-    if (!response.ok) throw new Error(`Failed to download: ${response.statusText}`);
-    if (!response.body) throw new Error('No response body');
-
-    const fileStream = fs.createWriteStream(filePath);
+  if (!response) throw new Error(`No response for ${url}`);
+
+  return {
+    ok: response.ok,
+    status: response.status,
+    url: currentUrl,
+    permanentUrl,
+    contentType: response.headers.get('content-type') || '',
+    etag: response.headers.get('etag') || undefined,
+    lastModified: response.headers.get('last-modified') || undefined,
+    body: response.status === 304 ? '' : await response.text(),
+  };
+});
 
-    // Convert Web ReadableStream to Node Readable
-    const nodeStream = Readable.fromWeb(response.body as import('stream/web').ReadableStream);
+const downloadManager = new DownloadManager({
+  directory: PODCAST_DIR,
+  fetch: (url, init) => net.fetch(url, init),
+  onProgress: (progress) => mainWindow?.webContents.send('download-progress', progress),
+});
 
-    // Listen for abort on the controller to destroy the stream
-    const abortHandler = () => {
-      if (nodeStream && !nodeStream.destroyed) nodeStream.destroy();
-      if (fileStream && !fileStream.destroyed) fileStream.destroy();
-    };
-    controller.signal.addEventListener('abort', abortHandler);
+ipcMain.handle('download-file', async (_, url: unknown, filename: unknown, rawOptions?: unknown) => {
+  const options = expectOptions(rawOptions);
+  // Private feeds pass their auth headers along
+  return downloadManager.enqueue({
+    url: expectHttpUrl(url),
+    filename: validateFilename(filename),
+    headers: expectOptionalHeaders(options.headers),
+    priority: expectOptionalNumber(options.priority, 'priority'),
+    automatic: expectOptionalBoolean(options.automatic, 'automatic'),
+  });
+});
 
-    await pipeline(nodeStream, fileStream, { signal: controller.signal });
+ipcMain.handle('cancel-download', async (_, filename: unknown) => {
+  await downloadManager.cancel(validateFilename(filename));
+});
 
-    controller.signal.removeEventListener('abort', abortHandler);
-    return filePath;
-  } catch (error: any) {
-    // If aborted, delete the partial file
-    if (error.name === 'AbortError' || error.code === 'ABORT_ERR') {
-      console.log(`Download cancelled: ${filename}`);
-      try {
-        await fs.promises.unlink(filePath);
-      } catch (e) {
-        // Ignore unlink error
-      }
-      throw new Error('Download cancelled');
-    }
-    throw error;
-  } finally {
-    downloadControllers.delete(filename);
-  }
+ipcMain.handle('set-download-priority', (_, filename: unknown, priority: unknown) => {
+  downloadManager.setPriority(validateFilename(filename), expectNumber(priority, 'priority'));
 });
 
-ipcMain.handle('cancel-download', async (_, filename: string) => {
-  const controller = downloadControllers.get(filename);
-  if (controller) {
-    controller.abort();
-    downloadControllers.delete(filename);
+ipcMain.handle('set-download-concurrency', (_, concurrency: unknown) => {
+  downloadManager.setConcurrency(expectNumber(concurrency, 'concurrency'));
+});
 
-    // Try to delete the file immediately if it exists (double check)
-    const filePath = path.join(PODCAST_DIR, filename);
-    try {
-      if (fs.existsSync(filePath)) {
-        await fs.promises.unlink(filePath);
-      }
-    } catch (e) {
-      console.error('Error deleting cancelled file:', e);
-    }
-  }
+// Limits for automatic downloads; the renderer decides when they are held
+ipcMain.handle('set-download-limits', (_, rawLimits: unknown) => {
+  const limits = expectOptions(rawLimits, 'limits');
+  const bytesPerSecond = expectOptionalNumber(limits.bytesPerSecond, 'bytesPerSecond');
+  const automaticHeld = expectOptionalBoolean(limits.automaticHeld, 'automaticHeld');
+  if (bytesPerSecond !== undefined) downloadManager.setBandwidthLimit(bytesPerSecond);
+  if (automaticHeld !== undefined) downloadManager.setAutomaticHeld(automaticHeld);
 });
 
-ipcMain.handle('delete-file', async (_, filename: string) => {
-  const filePath = path.join(PODCAST_DIR, filename);
+ipcMain.handle('get-downloads', () => downloadManager.getDownloads());
+
+ipcMain.handle('delete-file', async (_, filename: unknown) => {
+  const filePath = podcastFile(filename);
   if (fs.existsSync(filePath)) {
     await fs.promises.unlink(filePath);
   }
 });
 
-ipcMain.handle('check-file-exists', async (_, filename: string) => {
-  const filePath = path.join(PODCAST_DIR, filename);
+ipcMain.handle('check-file-exists', async (_, filename: unknown) => {
+  const filePath = podcastFile(filename);
   return fs.existsSync(filePath);
 });
 
-ipcMain.handle('read-file', async (_, filename: string) => {
-  const filePath = path.join(PODCAST_DIR, filename);
+ipcMain.handle('read-file', async (_, filename: unknown) => {
+  const filePath = podcastFile(filename);
   return fs.promises.readFile(filePath);
 });
 
-ipcMain.handle('get-file-path', async (_, filename: string) => {
-  return path.join(PODCAST_DIR, filename);
+ipcMain.handle('get-file-path', async (_, filename: unknown) => {
+  return podcastFile(filename);
+});
+
+// First bytes of a downloaded file, so the renderer can sniff its real format
+ipcMain.handle('read-file-header', async (_, filename: unknown, rawLength?: unknown) => {
+  const length = expectOptionalNumber(rawLength, 'length') ?? 64;
+  const handle = await fs.promises.open(podcastFile(filename), 'r');
+  try {
+    const buffer = Buffer.alloc(Math.min(Math.max(Math.floor(length), 0), 4096));
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
 });
 
-ipcMain.handle('read-file-base64', async (_, filename: string) => {
-  const filePath = path.join(PODCAST_DIR, filename);
+ipcMain.handle('rename-file', async (_, from: unknown, to: unknown) => {
+  await fs.promises.rename(podcastFile(from, 'source filename'), podcastFile(to, 'target filename'));
+});
+
+// Size, hash and decodability of a downloaded file
+ipcMain.handle('verify-file', async (_, filename: unknown, options?: unknown) => {
+  const hash = expectOptionalBoolean(expectOptions(options).hash, 'hash');
+  return inspectMediaFile(podcastFile(filename), { hash });
+});
+
+ipcMain.handle('read-file-base64', async (_, filename: unknown) => {
+  const filePath = podcastFile(filename);
   const fileBuffer = await fs.promises.readFile(filePath);
   return fileBuffer.toString('base64');
 });
 
-// Audio compression using ffmpeg
-ipcMain.handle('compress-audio', async (_, inputFilename: string, bitrateKbps: number = 64): Promise<string> => {
-  const inputPath = path.join(PODCAST_DIR, inputFilename);
-  const outputFilename = inputFilename.replace('.mp3', '-compressed.mp3');
-  const outputPath = path.join(PODCAST_DIR, outputFilename);
+// Content types for the media we store, keyed by extension (mirrors src/services/mediaTypes.ts)
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  m4b: 'audio/mp4',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  wav: 'audio/wav',
+  flac: 'audio/flac',
+  webm: 'audio/webm',
+};
 
-  console.log(`[ffmpeg] Compressing ${inputFilename} to ${bitrateKbps}kbps`);
+// Video enclosures (audio/webm above also covers video/webm)
+const VIDEO_MIME_TYPES: Record<string, string> = {
+  mp4: 'video/mp4',
+  m4v: 'video/x-m4v',
+  mov: 'video/quicktime',
+};
 
-  return new Promise((resolve, reject) => {
-    if (!ffmpegPath) {
-      reject(new Error('ffmpeg not found'));
-      return;
+const isMediaFile = (filename: string) => {
+  const extension = path.extname(filename).slice(1).toLowerCase();
+  return extension in AUDIO_MIME_TYPES || extension in VIDEO_MIME_TYPES;
+};
+
+function getContentType(filename: string): string {
+  const extension = path.extname(filename).slice(1).toLowerCase();
+  if (extension === 'jpg' || extension === 'jpeg') return 'image/jpeg';
+  return AUDIO_MIME_TYPES[extension] ?? VIDEO_MIME_TYPES[extension] ?? 'application/octet-stream';
+}
+
+// Local audio import: the user picks files (dialog or drag-and-drop), we read
+// their tags, and copy them into PODCAST_DIR under the episode's filename
+const LOCAL_AUDIO_EXTENSIONS = Object.keys(AUDIO_MIME_TYPES);
+
+// Only files the user picked in our dialog or dropped on the window may be
+// copied into the library; the renderer never names paths itself
+const importablePaths = new Set<string>();
+
+async function readLocalAudioFiles(filePaths: string[]) {
+  const files = [];
+  for (const filePath of filePaths) {
+    const extension = path.extname(filePath).slice(1).toLowerCase();
+    if (!LOCAL_AUDIO_EXTENSIONS.includes(extension)) {
+      files.push({ path: filePath, fileName: path.basename(filePath), error: 'Not a supported audio file' });
+      continue;
     }
 
-    let finalFfmpegPath = ffmpegPath;
-    if (app.isPackaged) {
-      finalFfmpegPath = ffmpegPath.replace('app.asar', 'app.asar.unpacked');
+    try {
+      const stats = await fs.promises.stat(filePath);
+      const metadata = await parseFile(filePath, { duration: true, skipCovers: false });
+      importablePaths.add(filePath);
+      files.push({
+        path: filePath,
+        fileUrl: pathToFileURL(filePath).toString(),
+        fileName: path.basename(filePath),
+        size: stats.size,
+        modifiedAt: stats.mtimeMs,
+        title: metadata.common.title,
+        artist: metadata.common.artist,
+        album: metadata.common.album,
+        comment: metadata.common.comment?.map(c => c.text ?? '').filter(Boolean).join('\n') || undefined,
+        duration: metadata.format.duration,
+        hasArtwork: (metadata.common.picture?.length ?? 0) > 0,
+      });
+    } catch (error) {
+      console.error(`[Main] Failed to read ${filePath}:`, error);
+      files.push({ path: filePath, fileName: path.basename(filePath), error: error instanceof Error ? error.message : String(error) });
     }
+  }
+  return files;
+}
 
-    const ffmpeg = spawn(finalFfmpegPath, [
-      '-i', inputPath,
-      '-b:a', `${bitrateKbps}k`,
-      '-ac', '1', // mono
-      '-y', // overwrite
-      outputPath
-    ]);
+ipcMain.handle('select-local-audio-files', async () => {
+  const options: Electron.OpenDialogOptions = {
+    title: 'Import audio files',
+    properties: ['openFile', 'multiSelections'],
+    filters: [{ name: 'Audio', extensions: LOCAL_AUDIO_EXTENSIONS }],
+  };
+  const result = mainWindow
+    ? await dialog.showOpenDialog(mainWindow, options)
+    : await dialog.showOpenDialog(options);
+  return result.canceled ? [] : readLocalAudioFiles(result.filePaths);
+});
 
-    ffmpeg.stderr.on('data', (data) => {
-      console.log(`[ffmpeg] ${data}`);
-    });
+// Sent only by the preload, with paths it resolved from dropped File objects
+ipcMain.handle('read-dropped-audio-files', async (_, rawPaths: unknown) => {
+  return readLocalAudioFiles(expectStringArray(rawPaths, 'file paths'));
+});
+
+ipcMain.handle('import-local-audio-file', async (_, rawSourcePath: unknown, filename: unknown, artworkFilename?: unknown) => {
+  const sourcePath = expectString(rawSourcePath, 'source path');
+  if (!importablePaths.has(sourcePath)) {
+    throw new Error('File was not selected for import');
+  }
 
-    ffmpeg.on('close', (code) => {
-      if (code === 0) {
-        console.log(`[ffmpeg] Compression complete: ${outputFilename}`);
-        resolve(outputFilename);
+  const filePath = podcastFile(filename);
+  const artworkPath = artworkFilename === undefined || artworkFilename === null
+    ? undefined
+    : podcastFile(artworkFilename, 'artwork filename');
+  await fs.promises.copyFile(sourcePath, filePath);
+
+  let savedArtwork: string | undefined;
+  if (artworkPath) {
+    const metadata = await parseFile(sourcePath, { skipCovers: false });
+    const picture = metadata.common.picture?.[0];
+    if (picture) {
+      await fs.promises.writeFile(artworkPath, picture.data);
+      savedArtwork = path.basename(artworkPath);
+    }
+  }
+
+  importablePaths.delete(sourcePath);
+  return { filePath, artworkFilename: savedArtwork };
+});
+
+// Runs a command, resolving once it exits cleanly. `onOutput` and `onError`
+// get stdout and stderr line by line; aborting `signal` kills it.
+function runProcess(
+  label: string,
+  command: string,
+  args: string[],
+  options: { onOutput?: (line: string) => void; onError?: (line: string) => void; signal?: AbortSignal } = {}
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args);
+    const abort = () => child.kill();
+    options.signal?.addEventListener('abort', abort, { once: true });
+
+    const splitLines = (callback?: (line: string) => void) => {
+      let pending = '';
+      return (data: Buffer) => {
+        if (!callback) return;
+        const lines = (pending + data).split('\n');
+        pending = lines.pop() ?? '';
+        lines.forEach(line => callback(line.trim()));
+      };
+    };
+
+    child.stderr.on('data', (data) => {
+      console.log(`[${label}] ${data}`);
+    });
+    child.stderr.on('data', splitLines(options.onError));
+    child.stdout.on('data', splitLines(options.onOutput));
+
+    child.on('close', (code) => {
+      options.signal?.removeEventListener('abort', abort);
+      if (options.signal?.aborted) {
+        reject(new Error(`${label} was cancelled`));
+      } else if (code === 0) {
+        resolve();
       } else {
-        reject(new Error(`ffmpeg exited with code ${code}`));
+        reject(new Error(`${label} exited with code ${code}`));
       }
     });
 
-    ffmpeg.on('error', (err) => {
-      console.error(`[ffmpeg] Error:`, err);
+    child.on('error', (err) => {
+      console.error(`[${label}] Error:`, err);
       reject(err);
     });
   });
+}
+
+// Runs the bundled ffmpeg. `onOutput` gets stdout line by line (for `-progress pipe:1`).
+function runFfmpeg(args: string[], options: { onOutput?: (line: string) => void; signal?: AbortSignal } = {}): Promise<void> {
+  if (!ffmpegPath) return Promise.reject(new Error('ffmpeg not found'));
+
+  let finalFfmpegPath = ffmpegPath;
+  if (app.isPackaged) {
+    finalFfmpegPath = ffmpegPath.replace('app.asar', 'app.asar.unpacked');
+  }
+  return runProcess('ffmpeg', finalFfmpegPath, args, options);
+}
+
+// Audio compression using ffmpeg: mono MP3 for uploads (video episodes lose
+// their picture)
+ipcMain.handle('compress-audio', async (_, rawFilename: unknown, rawBitrate?: unknown): Promise<string> => {
+  const inputFilename = validateFilename(rawFilename);
+  const bitrateKbps = expectOptionalNumber(rawBitrate, 'bitrate') ?? 64;
+  const inputPath = podcastFile(inputFilename);
+  const outputFilename = inputFilename.replace(/\.[^.]+$/, '') + '-compressed.mp3';
+  const outputPath = podcastFile(outputFilename);
+
+  console.log(`[ffmpeg] Compressing ${inputFilename} to ${bitrateKbps}kbps`);
+
+  await runFfmpeg([
+    '-i', inputPath,
+    '-vn',
+    '-b:a', `${bitrateKbps}k`,
+    '-ac', '1', // mono
+    '-y', // overwrite
+    outputPath
+  ]);
+  console.log(`[ffmpeg] Compression complete: ${outputFilename}`);
+  return outputFilename;
+});
+
+// Audio track of a video episode, as M4A. The track is copied when the
+// container allows it and re-encoded to AAC otherwise.
+ipcMain.handle('extract-audio', async (_, inputFilename: unknown, outputFilename: unknown): Promise<string> => {
+  const inputPath = podcastFile(inputFilename);
+  const outputPath = podcastFile(outputFilename, 'output filename');
+
+  console.log(`[ffmpeg] Extracting audio from ${path.basename(inputPath)}`);
+
+  try {
+    await runFfmpeg(['-i', inputPath, '-vn', '-c:a', 'copy', '-y', outputPath]);
+  } catch (error) {
+    console.log('[ffmpeg] Audio track could not be copied, re-encoding:', error);
+    await runFfmpeg(['-i', inputPath, '-vn', '-c:a', 'aac', '-b:a', '128k', '-y', outputPath]);
+  }
+  console.log(`[ffmpeg] Audio extracted: ${path.basename(outputPath)}`);
+  return path.basename(outputPath);
+});
+
+// Ad-free export: cuts the skippable segments out of a downloaded episode and
+// writes a tagged MP3 to a folder the user picks. Progress goes out as
+// 'export-progress' events, like downloads.
+const exportJobs = new Map<string, AbortController>();
+
+const sendExportProgress = (progress: ExportProgress) => mainWindow?.webContents.send('export-progress', progress);
+
+// "Name.mp3", or "Name (2).mp3" etc. if that exists
+async function getUniqueOutputPath(folder: string, filename: string): Promise<string> {
+  const { name, ext } = path.parse(filename);
+  for (let i = 1; ; i++) {
+    const candidate = resolveInDirectory(folder, i === 1 ? filename : `${name} (${i})${ext}`);
+    if (!fs.existsSync(candidate)) return candidate;
+  }
+}
+
+// Cover art as a local file: our own artwork or a download into the temp folder
+async function getExportCover(artworkUrl: string | undefined, tempDir: string): Promise<string | undefined> {
+  if (!artworkUrl) return undefined;
+  try {
+    if (artworkUrl.startsWith('local-media://')) {
+      return podcastFile(decodeURIComponent(artworkUrl.replace('local-media://', '').replace(/\/+$/, '')), 'artwork filename');
+    }
+    if (!/^https?:\/\//i.test(artworkUrl)) return undefined;
+    const response = await net.fetch(artworkUrl);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const coverPath = path.join(tempDir, 'cover');
+    await fs.promises.writeFile(coverPath, Buffer.from(await response.arrayBuffer()));
+    return coverPath;
+  } catch (error) {
+    console.warn('[Export] Exporting without artwork:', error);
+    return undefined;
+  }
+}
+
+ipcMain.handle('export-episode', async (_, rawRequest: unknown): Promise<string | null> => {
+  const request = expectExportRequest(rawRequest);
+  const inputPath = podcastFile(request.inputFilename, 'input filename');
+
+  const options: Electron.OpenDialogOptions = {
+    title: 'Export ad-free copy to',
+    properties: ['openDirectory', 'createDirectory'],
+  };
+  const selection = mainWindow
+    ? await dialog.showOpenDialog(mainWindow, options)
+    : await dialog.showOpenDialog(options);
+  if (selection.canceled || selection.filePaths.length === 0) return null;
+
+  const outputPath = await getUniqueOutputPath(selection.filePaths[0], request.outputFilename);
+  const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'stfuai-export-'));
+  // Registered only once nothing outside the try can throw, so the finally always removes it
+  const controller = new AbortController();
+  exportJobs.set(request.jobId, controller);
+  sendExportProgress({ jobId: request.jobId, status: 'preparing', progress: 0 });
+
+  try {
+    const metadata = await parseFile(inputPath, { duration: true });
+    const duration = metadata.format.duration;
+    if (!duration) throw new Error('Could not read the episode duration');
+
+    const kept = getKeptRanges(duration, request.cuts);
+    if (kept.length === 0) throw new Error('Nothing left to export after removing the segments');
+    const keptSeconds = kept.reduce((sum, range) => sum + range.end - range.start, 0);
+
+    const metadataPath = path.join(tempDir, 'metadata.txt');
+    const chapters = request.chapters ? mapChapters(kept, request.chapters) : [];
+    await fs.promises.writeFile(metadataPath, buildFfmetadata(request.tags, chapters));
+    const coverPath = await getExportCover(request.artworkUrl, tempDir);
+
+    console.log(`[Export] ${request.inputFilename} -> ${outputPath} (${kept.length} pieces, ${Math.round(keptSeconds)}s)`);
+    let lastReport = 0;
+    await runFfmpeg(buildExportArgs({ inputPath, metadataPath, coverPath, kept, outputPath }), {
+      signal: controller.signal,
+      onOutput: (line) => {
+        const seconds = parseProgressSeconds(line);
+        if (seconds === null || Date.now() - lastReport < 250) return;
+        lastReport = Date.now();
+        sendExportProgress({ jobId: request.jobId, status: 'encoding', progress: Math.min(1, seconds / keptSeconds) });
+      },
+    });
+
+    sendExportProgress({ jobId: request.jobId, status: 'completed', progress: 1, outputPath });
+    return outputPath;
+  } catch (error) {
+    const status = controller.signal.aborted ? 'cancelled' : 'failed';
+    const message = status === 'cancelled' ? EXPORT_CANCELLED_MESSAGE : error instanceof Error ? error.message : String(error);
+    console.error(`[Export] ${status}:`, message);
+    sendExportProgress({ jobId: request.jobId, status, progress: 0, error: message });
+    await fs.promises.rm(outputPath, { force: true });
+    throw new Error(message);
+  } finally {
+    exportJobs.delete(request.jobId);
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  }
+});
+
+ipcMain.handle('cancel-export', (_, jobId: unknown) => {
+  exportJobs.get(expectString(jobId, 'job ID'))?.abort();
+});
+
+// Local transcription with whisper.cpp. The binary and model paths are chosen
+// here through dialogs and kept in main, so the renderer can't point us at
+// another program. Progress goes out as 'local-transcription-progress' events.
+const LOCAL_TRANSCRIPTION_CONFIG_FILE = path.join(app.getPath('userData'), 'local-transcription.json');
+const localTranscriptionJobs = new Map<string, AbortController>();
+
+const sendLocalTranscriptionProgress = (progress: LocalTranscriptionProgress) =>
+  mainWindow?.webContents.send('local-transcription-progress', progress);
+
+async function getLocalTranscriptionSetup(): Promise<LocalTranscriptionStatus> {
+  return getLocalTranscriptionStatus(await readLocalTranscriptionConfig(LOCAL_TRANSCRIPTION_CONFIG_FILE), process.env.PATH);
+}
+
+ipcMain.handle('get-local-transcription-status', () => getLocalTranscriptionSetup());
+
+ipcMain.handle('choose-local-transcription-file', async (_, rawKind: unknown): Promise<LocalTranscriptionStatus> => {
+  const kind = expectString(rawKind, 'kind');
+  if (kind !== 'binary' && kind !== 'model') throw new FileAccessError(`Invalid kind: ${kind}`);
+
+  const options: Electron.OpenDialogOptions = kind === 'binary'
+    ? { title: 'Choose the whisper.cpp program (whisper-cli)', properties: ['openFile'] }
+    : { title: 'Choose a whisper model', properties: ['openFile'], filters: [{ name: 'Whisper models', extensions: ['bin', 'gguf'] }] };
+  const selection = mainWindow
+    ? await dialog.showOpenDialog(mainWindow, options)
+    : await dialog.showOpenDialog(options);
+  if (!selection.canceled && selection.filePaths.length > 0) {
+    const config = await readLocalTranscriptionConfig(LOCAL_TRANSCRIPTION_CONFIG_FILE);
+    await writeLocalTranscriptionConfig(LOCAL_TRANSCRIPTION_CONFIG_FILE, {
+      ...config,
+      [kind === 'binary' ? 'binaryPath' : 'modelPath']: selection.filePaths[0],
+    });
+  }
+  return getLocalTranscriptionSetup();
+});
+
+ipcMain.handle('transcribe-locally', async (_, rawJobId: unknown, rawFilename: unknown, rawOptions?: unknown): Promise<LocalTranscriptionResult> => {
+  const jobId = expectString(rawJobId, 'job ID');
+  const inputPath = podcastFile(rawFilename);
+  const { language } = expectLocalTranscriptionOptions(rawOptions);
+  const setup = await getLocalTranscriptionSetup();
+  if (!setup.available || !setup.binaryPath || !setup.modelPath) {
+    throw new Error(setup.problem ?? 'Local transcription is not set up');
+  }
+  const { binaryPath, modelPath } = setup;
+
+  const controller = new AbortController();
+  localTranscriptionJobs.set(jobId, controller);
+  const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'stfuai-whisper-'));
+  sendLocalTranscriptionProgress({ jobId, status: 'converting', progress: 0 });
+
+  try {
+    console.log(`[Whisper] Transcribing ${path.basename(inputPath)} with ${path.basename(modelPath)}`);
+    const wavPath = path.join(tempDir, 'audio.wav');
+    await runFfmpeg(buildWavArgs(inputPath, wavPath), { signal: controller.signal });
+
+    const outputBase = path.join(tempDir, 'transcript');
+    let lastProgress = -1;
+    sendLocalTranscriptionProgress({ jobId, status: 'transcribing', progress: 0 });
+    await runProcess('whisper', binaryPath, buildWhisperArgs({
+      modelPath,
+      wavPath,
+      outputBase,
+      language,
+      // Leave a core for playback and the UI
+      threads: Math.max(1, os.cpus().length - 1),
+    }), {
+      signal: controller.signal,
+      onError: (line) => {
+        const progress = parseWhisperProgress(line);
+        if (progress === null || progress === lastProgress) return;
+        lastProgress = progress;
+        sendLocalTranscriptionProgress({ jobId, status: 'transcribing', progress });
+      },
+    });
+
+    const result = parseWhisperOutput(await fs.promises.readFile(`${outputBase}.json`, 'utf-8'));
+    console.log(`[Whisper] Done: ${result.segments.length} segments, ${Math.round(result.duration)}s`);
+    sendLocalTranscriptionProgress({ jobId, status: 'completed', progress: 1 });
+    return result;
+  } catch (error) {
+    const status = controller.signal.aborted ? 'cancelled' : 'failed';
+    const message = status === 'cancelled' ? LOCAL_TRANSCRIPTION_CANCELLED_MESSAGE : error instanceof Error ? error.message : String(error);
+    console.error(`[Whisper] ${status}:`, message);
+    sendLocalTranscriptionProgress({ jobId, status, progress: 0, error: message });
+    throw new Error(message);
+  } finally {
+    localTranscriptionJobs.delete(jobId);
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  }
+});
+
+ipcMain.handle('cancel-local-transcription', (_, jobId: unknown) => {
+  localTranscriptionJobs.get(expectString(jobId, 'job ID'))?.abort();
 });
 
 // App restart handler
@@ -288,7 +747,7 @@ ipcMain.handle('get-storage-info', async () => {
     let fileCount = 0;
 
     for (const file of files) {
-      if (file.endsWith('.mp3')) {
+      if (isMediaFile(file)) {
         const stats = await fs.promises.stat(path.join(PODCAST_DIR, file));
         totalSize += stats.size;
         fileCount++;
@@ -312,6 +771,23 @@ ipcMain.handle('get-storage-info', async () => {
   }
 });
 
+// Every file in the podcast directory, for storage policies and usage breakdowns
+ipcMain.handle('list-storage-files', async () => {
+  try {
+    const entries = await fs.promises.readdir(PODCAST_DIR, { withFileTypes: true });
+    const files = [];
+    for (const entry of entries) {
+      if (!entry.isFile()) continue;
+      const stats = await fs.promises.stat(path.join(PODCAST_DIR, entry.name));
+      files.push({ filename: entry.name, size: stats.size, modifiedAt: stats.mtimeMs });
+    }
+    return files;
+  } catch (error) {
+    console.error('Error listing storage files:', error);
+    return [];
+  }
+});
+
 ipcMain.handle('clear-all-data', async () => {
   console.log('[Main] Clearing all data...');
   try {
@@ -338,7 +814,9 @@ ipcMain.handle('secure-storage-available', () => {
   return safeStorage.isEncryptionAvailable();
 });
 
-ipcMain.handle('secure-storage-set', async (_, key: string, value: string) => {
+ipcMain.handle('secure-storage-set', async (_, rawKey: unknown, rawValue: unknown) => {
+  const key = expectString(rawKey, 'key');
+  const value = expectString(rawValue, 'value');
   if (!safeStorage.isEncryptionAvailable()) {
     throw new Error('Secure storage is not available on this system');
   }
@@ -367,7 +845,8 @@ ipcMain.handle('secure-storage-set', async (_, key: string, value: string) => {
   }
 });
 
-ipcMain.handle('secure-storage-get', async (_, key: string) => {
+ipcMain.handle('secure-storage-get', async (_, rawKey: unknown) => {
+  const key = expectString(rawKey, 'key');
   if (!safeStorage.isEncryptionAvailable()) {
     return null;
   }
@@ -388,7 +867,8 @@ ipcMain.handle('secure-storage-get', async (_, key: string) => {
   }
 });
 
-ipcMain.handle('secure-storage-delete', async (_, key: string) => {
+ipcMain.handle('secure-storage-delete', async (_, rawKey: unknown) => {
+  const key = expectString(rawKey, 'key');
   if (!safeStorage.isEncryptionAvailable()) {
     return false;
   }
@@ -425,7 +905,10 @@ if (!app.isPackaged) {
 
 let silentCheckInProgress = false;
 
-ipcMain.handle('check-for-updates', async (_, { allowPrerelease, silent } = { allowPrerelease: false, silent: false }) => {
+ipcMain.handle('check-for-updates', async (_, rawOptions?: unknown) => {
+  const options = expectOptions(rawOptions);
+  const allowPrerelease = expectOptionalBoolean(options.allowPrerelease, 'allowPrerelease') ?? false;
+  const silent = expectOptionalBoolean(options.silent, 'silent') ?? false;
   console.log(`[AutoUpdater] Checking for updates (allowPrerelease: ${allowPrerelease}, silent: ${silent})...`);
   autoUpdater.allowPrerelease = allowPrerelease;
 
@@ -498,64 +981,78 @@ autoUpdater.on('update-downloaded', (info) => {
   mainWindow?.webContents.send('update-status', { status: 'downloaded', info });
 });
 
+// Serves a media file of `size` bytes, honouring Range requests so the
+// player can seek. `open` streams an inclusive byte range.
+function serveMedia(request: Request, filePath: string, size: number, open: (start: number, end: number) => Readable): Response {
+  const range = parseRangeHeader(request.headers.get('Range'), size);
+  if (range === 'unsatisfiable') {
+    return new Response('Range not satisfiable', { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+  }
+
+  const { start, end } = range ?? { start: 0, end: size - 1 };
+  console.log(range ? `[Main] Serving range: ${start}-${end}/${size}` : `[Main] Serving full file: ${size} bytes`);
+
+  const headers: Record<string, string> = {
+    'Accept-Ranges': 'bytes',
+    'Content-Length': String(Math.max(0, end - start + 1)),
+    'Content-Type': getContentType(filePath)
+  };
+  if (range) headers['Content-Range'] = `bytes ${start}-${end}/${size}`;
+  if (size === 0) return new Response(null, { status: 200, headers });
+
+  // Convert Node Readable to Web ReadableStream
+  const webStream = Readable.toWeb(open(start, end)) as unknown as ReadableStream;
+  return new Response(webStream, { status: range ? 206 : 200, headers });
+}
+
 app.whenReady().then(() => {
   protocol.handle('local-media', async (request) => {
     try {
       // Remove protocol and strip any trailing slashes (browser adds them)
       let url = request.url.replace('local-media://', '').replace(/\/+$/, '');
       const decodedUrl = decodeURIComponent(url);
-      const filePath = path.join(PODCAST_DIR, decodedUrl);
+      const filePath = podcastFile(decodedUrl);
 
       console.log(`[Main] local-media request: ${request.url} -> ${filePath}`);
 
-      // Check if file exists
-      if (!fs.existsSync(filePath)) {
-        console.error(`[Main] File not found: ${filePath}`);
-        return new Response('File not found', { status: 404 });
+      if (fs.existsSync(filePath)) {
+        return serveMedia(request, filePath, fs.statSync(filePath).size, (start, end) =>
+          fs.createReadStream(filePath, { start, end }));
       }
 
-      const stats = fs.statSync(filePath);
-      const fileSize = stats.size;
-      const range = request.headers.get('Range');
-
-      if (range) {
-        const parts = range.replace(/bytes=/, "").split("-");
-        const start = parseInt(parts[0], 10);
-        const end = parts[1] ? parseInt(parts[1], 10) : fileSize - 1;
-        const chunksize = (end - start) + 1;
-
-        console.log(`[Main] Serving range: ${start}-${end}/${fileSize}`);
-
-        const fileStream = fs.createReadStream(filePath, { start, end });
-        // Convert Node Readable to Web ReadableStream
-        const webStream = Readable.toWeb(fileStream) as unknown as ReadableStream;
-
-        return new Response(webStream, {
-          status: 206,
-          headers: {
-            'Content-Range': `bytes ${start}-${end}/${fileSize}`,
-            'Accept-Ranges': 'bytes',
-            'Content-Length': chunksize.toString(),
-            'Content-Type': 'audio/mpeg'
+      // Still downloading: serve the partial file, waiting for bytes that haven't arrived
+      const partial = downloadManager.getPartial(path.basename(filePath));
+      if (partial) {
+        const getSource: GrowingFileSource = async () => {
+          const current = downloadManager.getPartial(path.basename(filePath));
+          if (current) {
+            const size = await fs.promises.stat(current.path).then(stats => stats.size, () => 0);
+            return { path: current.path, size, complete: false };
           }
-        });
-      } else {
-        console.log(`[Main] Serving full file: ${fileSize} bytes`);
-        const fileStream = fs.createReadStream(filePath);
-        // Convert Node Readable to Web ReadableStream
-        const webStream = Readable.toWeb(fileStream) as unknown as ReadableStream;
-
-        return new Response(webStream, {
-          status: 200,
-          headers: {
-            'Content-Length': fileSize.toString(),
-            'Accept-Ranges': 'bytes',
-            'Content-Type': 'audio/mpeg'
-          }
-        });
+          const stats = await fs.promises.stat(filePath).catch(() => null);
+          return stats ? { path: filePath, size: stats.size, complete: true } : null;
+        };
+        if (partial.totalBytes === null) {
+          // Without a known length there is nothing to seek against; stream what arrives
+          console.log(`[Main] Streaming partial download without a length: ${filePath}`);
+          const stream = createGrowingFileStream(getSource, 0, null);
+          return new Response(Readable.toWeb(stream) as unknown as ReadableStream, {
+            status: 200,
+            headers: { 'Content-Type': getContentType(filePath) }
+          });
+        }
+        return serveMedia(request, filePath, partial.totalBytes, (start, end) =>
+          createGrowingFileStream(getSource, start, end));
       }
 
+      console.error(`[Main] File not found: ${filePath}`);
+      return new Response('File not found', { status: 404 });
+
     } catch (error) {
+      if (error instanceof FileAccessError || error instanceof URIError) {
+        console.warn(`[Main] Rejected local-media request: ${request.url}`);
+        return new Response('Forbidden', { status: 403 });
+      }
       console.error(`[Main] Error handling local-media request:`, error);
       return new Response('Internal error', { status: 500 });
     }
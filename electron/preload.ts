@@ -1,20 +1,58 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, webUtils, type IpcRendererEvent } from 'electron';
+import type { DownloadProgress } from './downloadManager';
+import type { ExportProgress, ExportRequest } from './audioExport';
+import type { LocalTranscriptionProgress } from './localTranscription';
 
 contextBridge.exposeInMainWorld('electronAPI', {
     ping: () => ipcRenderer.invoke('ping'),
-    downloadFile: (url: string, filename: string) => ipcRenderer.invoke('download-file', url, filename),
+    downloadFile: (url: string, filename: string, options?: { headers?: Record<string, string>; priority?: number; automatic?: boolean }) => ipcRenderer.invoke('download-file', url, filename, options),
     deleteFile: (filename: string) => ipcRenderer.invoke('delete-file', filename),
     checkFileExists: (filename: string) => ipcRenderer.invoke('check-file-exists', filename),
     readFile: (filename: string) => ipcRenderer.invoke('read-file', filename),
     getFilePath: (filename: string) => ipcRenderer.invoke('get-file-path', filename),
     readFileBase64: (filename: string) => ipcRenderer.invoke('read-file-base64', filename),
+    readFileHeader: (filename: string, length?: number) => ipcRenderer.invoke('read-file-header', filename, length),
+    renameFile: (from: string, to: string) => ipcRenderer.invoke('rename-file', from, to),
+    verifyFile: (filename: string, options?: { hash?: boolean }) => ipcRenderer.invoke('verify-file', filename, options),
     compressAudio: (filename: string, bitrateKbps?: number) => ipcRenderer.invoke('compress-audio', filename, bitrateKbps),
+    extractAudio: (filename: string, outputFilename: string) => ipcRenderer.invoke('extract-audio', filename, outputFilename),
     cancelDownload: (filename: string) => ipcRenderer.invoke('cancel-download', filename),
+    setDownloadPriority: (filename: string, priority: number) => ipcRenderer.invoke('set-download-priority', filename, priority),
+    setDownloadConcurrency: (concurrency: number) => ipcRenderer.invoke('set-download-concurrency', concurrency),
+    setDownloadLimits: (limits: { bytesPerSecond?: number; automaticHeld?: boolean }) => ipcRenderer.invoke('set-download-limits', limits),
+    getDownloads: () => ipcRenderer.invoke('get-downloads'),
+    onDownloadProgress: (callback: (progress: DownloadProgress) => void) => {
+        const subscription = (_: IpcRendererEvent, value: DownloadProgress) => callback(value);
+        ipcRenderer.on('download-progress', subscription);
+        return () => ipcRenderer.removeListener('download-progress', subscription);
+    },
+    exportEpisode: (request: ExportRequest) => ipcRenderer.invoke('export-episode', request),
+    cancelExport: (jobId: string) => ipcRenderer.invoke('cancel-export', jobId),
+    onExportProgress: (callback: (progress: ExportProgress) => void) => {
+        const subscription = (_: IpcRendererEvent, value: ExportProgress) => callback(value);
+        ipcRenderer.on('export-progress', subscription);
+        return () => ipcRenderer.removeListener('export-progress', subscription);
+    },
+    getLocalTranscriptionStatus: () => ipcRenderer.invoke('get-local-transcription-status'),
+    chooseLocalTranscriptionFile: (kind: 'binary' | 'model') => ipcRenderer.invoke('choose-local-transcription-file', kind),
+    transcribeLocally: (jobId: string, filename: string, options?: { language?: string }) => ipcRenderer.invoke('transcribe-locally', jobId, filename, options),
+    cancelLocalTranscription: (jobId: string) => ipcRenderer.invoke('cancel-local-transcription', jobId),
+    onLocalTranscriptionProgress: (callback: (progress: LocalTranscriptionProgress) => void) => {
+        const subscription = (_: IpcRendererEvent, value: LocalTranscriptionProgress) => callback(value);
+        ipcRenderer.on('local-transcription-progress', subscription);
+        return () => ipcRenderer.removeListener('local-transcription-progress', subscription);
+    },
     restartApp: () => ipcRenderer.invoke('restart-app'),
     clearAllData: () => ipcRenderer.invoke('clear-all-data'),
     openStorageFolder: () => ipcRenderer.invoke('open-storage-folder'),
     getStorageInfo: () => ipcRenderer.invoke('get-storage-info'),
+    listStorageFiles: () => ipcRenderer.invoke('list-storage-files'),
     openExternal: (url: string) => ipcRenderer.invoke('open-external', url),
+    fetchText: (url: string, options?: { headers?: Record<string, string> }) => ipcRenderer.invoke('fetch-text', url, options),
+    // Local audio import
+    selectLocalAudioFiles: () => ipcRenderer.invoke('select-local-audio-files'),
+    readDroppedAudioFiles: (files: File[]) => ipcRenderer.invoke('read-dropped-audio-files', files.map(file => webUtils.getPathForFile(file)).filter(Boolean)),
+    importLocalAudioFile: (sourcePath: string, filename: string, artworkFilename?: string) => ipcRenderer.invoke('import-local-audio-file', sourcePath, filename, artworkFilename),
     checkForUpdates: (options?: { allowPrerelease?: boolean; silent?: boolean }) => ipcRenderer.invoke('check-for-updates', options),
     downloadUpdate: () => ipcRenderer.invoke('download-update'),
     quitAndInstall: () => ipcRenderer.invoke('quit-and-install'),
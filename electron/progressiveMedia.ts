@@ -0,0 +1,115 @@
+/**
+ * Progressive Media
+ *
+ * Lets the local-media protocol serve an episode while it is still
+ * downloading. The download manager writes to a `.part` file and renames it
+ * when done; a response for a byte range reads whatever is on disk, waits for
+ * the rest to arrive, and follows the file through the rename. Ranges are
+ * resolved against the length the server announced, so the media element can
+ * seek as if the whole file were there.
+ */
+
+import fs from 'fs';
+import { Readable } from 'stream';
+
+export interface ByteRange {
+  start: number;
+  end: number; // inclusive
+}
+
+/** Where the bytes are right now; null once the download has failed or been cancelled */
+export type GrowingFileSource = () => Promise<{ path: string; size: number; complete: boolean } | null>;
+
+export interface GrowingFileOptions {
+  pollMs?: number;
+  stallTimeoutMs?: number; // Give up when no bytes arrive for this long
+  chunkSize?: number;
+}
+
+/**
+ * Resolves a `Range` header against a file of `size` bytes. Returns null when
+ * there is no usable range (serve the whole file) and 'unsatisfiable' for a
+ * range past the end. Only the first of several ranges is honoured.
+ */
+export function parseRangeHeader(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)\s*(?:,.*)?$/i);
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const length = Number(match[2]);
+    if (length === 0 || size === 0) return 'unsatisfiable';
+    return { start: Math.max(0, size - length), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  if (start >= size) return 'unsatisfiable';
+  const end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  return end < start ? null : { start, end };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function readChunk(filePath: string, position: number, length: number): Promise<Buffer> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, position);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+async function* readGrowingFile(
+  getSource: GrowingFileSource,
+  start: number,
+  end: number | null,
+  { pollMs = 250, stallTimeoutMs = 60_000, chunkSize = 256 * 1024 }: GrowingFileOptions
+): AsyncGenerator<Buffer> {
+  let position = start;
+  let lastDataAt = Date.now();
+
+  while (end === null || position <= end) {
+    const source = await getSource();
+    if (!source) throw new Error('Download stopped before the requested bytes arrived');
+
+    if (position < source.size) {
+      const length = Math.min(chunkSize, source.size - position, end === null ? Infinity : end - position + 1);
+      let chunk: Buffer;
+      try {
+        // Opened per chunk so the download can rename the file underneath us
+        chunk = await readChunk(source.path, position, length);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+        throw error;
+      }
+      if (chunk.length > 0) {
+        position += chunk.length;
+        lastDataAt = Date.now();
+        yield chunk;
+        continue;
+      }
+    }
+
+    if (source.complete) {
+      if (end === null) return;
+      throw new Error(`File ended at ${source.size} bytes, before the requested range`);
+    }
+    if (Date.now() - lastDataAt > stallTimeoutMs) throw new Error('Download stalled');
+    await sleep(pollMs);
+  }
+}
+
+/**
+ * Streams bytes `start` to `end` (inclusive; null = to the end of the
+ * finished file) of a file that may still be growing.
+ */
+export function createGrowingFileStream(
+  getSource: GrowingFileSource,
+  start: number,
+  end: number | null,
+  options: GrowingFileOptions = {}
+): Readable {
+  return Readable.from(readGrowingFile(getSource, start, end, options), { objectMode: false });
+}
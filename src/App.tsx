@@ -6,6 +6,7 @@ import { PodcastDetail } from './pages/PodcastDetail';
 import Settings from './pages/Settings';
 import { Library } from './pages/Library';
 import { Help } from './pages/Help';
+import { StorageInspector } from './pages/StorageInspector';
 
 import { AudioController } from './components/Player/AudioController';
 import { usePlayerStore } from './store/usePlayerStore';
@@ -14,13 +15,26 @@ import { useRef, useEffect } from 'react';
 import { db } from './services/db';
 import { feedService } from './services/feedService';
 import { performInitialSync } from './services/cloudSync';
+import { storageJanitor } from './services/storageJanitor';
+import { applyDownloadPolicy } from './services/downloadPolicy';
 
 import { UpdateToast } from './components/UpdateToast';
 import { AuthGuard } from './components/AuthGuard';
 
+// How often the storage janitor runs in the background
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
 function App() {
   const loadPlayerState = usePlayerStore(state => state.loadState);
   const lastRefreshTime = useRef<number>(Date.now());
+  const lastCleanupTime = useRef<number>(0);
+
+  // Download progress from the main process
+  useEffect(() => {
+    return window.electronAPI?.onDownloadProgress?.(progress =>
+      usePodcastStore.getState().handleDownloadProgress(progress)
+    );
+  }, []);
 
   useEffect(() => {
     const initApp = async () => {
@@ -29,6 +43,11 @@ function App() {
       await usePodcastStore.getState().loadSubscriptions();
       await usePodcastStore.getState().loadEpisodes();
 
+      // Pick up cloud jobs that were running when the app was closed
+      usePodcastStore.getState().resumeTranscriptions().catch(err =>
+        console.error('[App] Failed to resume transcriptions:', err)
+      );
+
       // Perform initial cloud sync (merges cloud subscriptions with local)
       // This runs fire-and-forget so it doesn't block app startup
       performInitialSync().catch(err =>
@@ -37,6 +56,9 @@ function App() {
 
       // Apply theme preference on startup
       const prefs = await db.getPreferences();
+      window.electronAPI?.setDownloadConcurrency?.(prefs.maxConcurrentDownloads);
+      usePodcastStore.getState().setTranscriptionConcurrency(prefs.maxConcurrentTranscriptions);
+      await applyDownloadPolicy(prefs);
       if (prefs?.theme) {
         document.documentElement.setAttribute('data-theme', prefs.theme);
         if (prefs.theme === 'light') {
@@ -77,6 +99,10 @@ function App() {
       // Initial feed refresh
       await feedService.refreshFeeds();
       lastRefreshTime.current = Date.now();
+
+      // Enforce storage policies (played episodes may have aged out while closed)
+      await storageJanitor.run();
+      lastCleanupTime.current = Date.now();
     };
     initApp();
 
@@ -87,11 +113,19 @@ function App() {
         const intervalMinutes = prefs?.refreshIntervalMinutes || 5;
         const intervalMs = intervalMinutes * 60 * 1000;
 
+        // Download windows open and close
+        await applyDownloadPolicy(prefs);
+
         if (Date.now() - lastRefreshTime.current >= intervalMs) {
           console.log('Background refresh triggered');
           await feedService.refreshFeeds();
           lastRefreshTime.current = Date.now();
         }
+
+        if (Date.now() - lastCleanupTime.current >= CLEANUP_INTERVAL_MS) {
+          await storageJanitor.run();
+          lastCleanupTime.current = Date.now();
+        }
       } catch (error) {
         console.error('Error in background refresh loop:', error);
       }
@@ -112,6 +146,7 @@ function App() {
             <Route path="podcast/:id" element={<PodcastDetail />} />
             <Route path="subscriptions" element={<Library />} />
             <Route path="settings" element={<Settings />} />
+            <Route path="storage" element={<StorageInspector />} />
             <Route path="help" element={<Help />} />
             <Route path="*" element={<Navigate to="/" replace />} />
           </Route>
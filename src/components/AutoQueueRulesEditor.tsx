@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { usePodcastStore } from '../store/usePodcastStore';
+import { DEFAULT_AUTO_QUEUE_RULES, hasActiveFilters, parseSeasonList } from '../services/autoQueueRules';
+import type { AutoQueueRules, EpisodeType, Podcast, QueuePlacement } from '../types';
+
+const EPISODE_TYPES: { value: EpisodeType; label: string }[] = [
+    { value: 'full', label: 'Full' },
+    { value: 'trailer', label: 'Trailer' },
+    { value: 'bonus', label: 'Bonus' },
+];
+
+const PLACEMENTS: { value: QueuePlacement; label: string }[] = [
+    { value: 'end', label: 'End of queue' },
+    { value: 'top', label: 'Top of queue' },
+    { value: 'after-show', label: 'After queued episodes of this show' },
+];
+
+const fieldStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '0.5rem',
+    borderRadius: '0.375rem',
+    border: '1px solid var(--border-color)',
+    backgroundColor: 'var(--bg-secondary)',
+    color: 'var(--text-primary)',
+    fontSize: '0.875rem',
+};
+
+const labelStyle: React.CSSProperties = {
+    display: 'block',
+    fontSize: '0.75rem',
+    fontWeight: 600,
+    color: 'var(--text-secondary)',
+    marginBottom: '0.25rem',
+};
+
+const toLines = (patterns: string[]) => patterns.join('\n');
+const fromLines = (value: string) => value.split('\n').map(line => line.trim()).filter(Boolean);
+const toMinutes = (value: string) => (value.trim() === '' ? undefined : Math.max(0, Number(value)));
+
+interface AutoQueueRulesEditorProps {
+    podcast: Podcast;
+}
+
+export const AutoQueueRulesEditor: React.FC<AutoQueueRulesEditorProps> = ({ podcast }) => {
+    const updateAutoQueueRules = usePodcastStore(state => state.updateAutoQueueRules);
+    const saved = podcast.autoQueueRules ?? DEFAULT_AUTO_QUEUE_RULES;
+
+    const [expanded, setExpanded] = useState(false);
+    const [include, setInclude] = useState(toLines(saved.includePatterns));
+    const [exclude, setExclude] = useState(toLines(saved.excludePatterns));
+    const [minMinutes, setMinMinutes] = useState(saved.minDurationMinutes?.toString() ?? '');
+    const [maxMinutes, setMaxMinutes] = useState(saved.maxDurationMinutes?.toString() ?? '');
+    const [episodeTypes, setEpisodeTypes] = useState<EpisodeType[]>(saved.episodeTypes ?? []);
+    const [seasons, setSeasons] = useState((saved.seasons ?? []).join(', '));
+    const [placement, setPlacement] = useState<QueuePlacement>(saved.placement);
+    const [status, setStatus] = useState<string | null>(null);
+
+    const toggleType = (type: EpisodeType) => {
+        setEpisodeTypes(types => types.includes(type) ? types.filter(t => t !== type) : [...types, type]);
+    };
+
+    const handleSave = async () => {
+        const rules: AutoQueueRules = {
+            includePatterns: fromLines(include),
+            excludePatterns: fromLines(exclude),
+            minDurationMinutes: toMinutes(minMinutes),
+            maxDurationMinutes: toMinutes(maxMinutes),
+            episodeTypes: episodeTypes.length ? episodeTypes : undefined,
+            seasons: parseSeasonList(seasons).length ? parseSeasonList(seasons) : undefined,
+            placement,
+        };
+        // Store nothing when the rules are equivalent to the defaults
+        const isDefault = !hasActiveFilters(rules) && rules.placement === 'end';
+        await updateAutoQueueRules(podcast.id, isDefault ? undefined : rules);
+        setStatus('Saved');
+    };
+
+    const summary = hasActiveFilters(podcast.autoQueueRules)
+        ? 'Filtered'
+        : 'All new episodes';
+
+    return (
+        <div className="settings-section" style={{ marginBottom: '1.5rem' }}>
+            <button
+                onClick={() => setExpanded(!expanded)}
+                style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', background: 'none', border: 'none', color: 'var(--text-primary)', cursor: 'pointer', padding: 0, fontWeight: 600 }}
+            >
+                Auto-queue rules
+                <span style={{ fontWeight: 400, fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
+                    ({summary} · {PLACEMENTS.find(p => p.value === saved.placement)?.label})
+                </span>
+                {expanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+            </button>
+
+            {expanded && (
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem', marginTop: '1rem' }}>
+                    <div>
+                        <label style={labelStyle}>Title must contain (one per line, /regex/ allowed)</label>
+                        <textarea rows={3} value={include} onChange={e => { setInclude(e.target.value); setStatus(null); }} style={fieldStyle} />
+                    </div>
+                    <div>
+                        <label style={labelStyle}>Skip titles containing (one per line, /regex/ allowed)</label>
+                        <textarea rows={3} value={exclude} onChange={e => { setExclude(e.target.value); setStatus(null); }} style={fieldStyle} />
+                    </div>
+                    <div>
+                        <label style={labelStyle}>Duration (minutes)</label>
+                        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                            <input type="number" min={0} placeholder="Min" value={minMinutes} onChange={e => { setMinMinutes(e.target.value); setStatus(null); }} style={fieldStyle} />
+                            <span>–</span>
+                            <input type="number" min={0} placeholder="Max" value={maxMinutes} onChange={e => { setMaxMinutes(e.target.value); setStatus(null); }} style={fieldStyle} />
+                        </div>
+                    </div>
+                    <div>
+                        <label style={labelStyle}>Seasons (comma-separated, empty = all)</label>
+                        <input type="text" placeholder="e.g. 3, 4" value={seasons} onChange={e => { setSeasons(e.target.value); setStatus(null); }} style={fieldStyle} />
+                    </div>
+                    <div>
+                        <label style={labelStyle}>Episode types (none checked = all)</label>
+                        <div style={{ display: 'flex', gap: '1rem' }}>
+                            {EPISODE_TYPES.map(type => (
+                                <label key={type.value} style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', fontSize: '0.875rem', cursor: 'pointer' }}>
+                                    <input
+                                        type="checkbox"
+                                        checked={episodeTypes.includes(type.value)}
+                                        onChange={() => { toggleType(type.value); setStatus(null); }}
+                                        style={{ accentColor: 'var(--accent-color)' }}
+                                    />
+                                    {type.label}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <label style={labelStyle}>Placement</label>
+                        <select value={placement} onChange={e => { setPlacement(e.target.value as QueuePlacement); setStatus(null); }} style={fieldStyle}>
+                            {PLACEMENTS.map(p => (
+                                <option key={p.value} value={p.value}>{p.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div style={{ gridColumn: '1 / -1', display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                        <button className="action-btn" onClick={handleSave}>Save rules</button>
+                        {status && <span style={{ fontSize: '0.875rem', color: 'var(--text-secondary)' }}>{status}</span>}
+                        {!podcast.autoAddToQueue && (
+                            <span style={{ fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
+                                Rules apply once Auto-add to Queue is enabled.
+                            </span>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { usePodcastStore } from '../store/usePodcastStore';
+import { formatBytes, formatDownloadStatus, getDownloadPercent } from '../services/downloads';
+
+interface DownloadIndicatorProps {
+    episodeId: number;
+}
+
+/**
+ * Progress bar and status line for an episode's download; renders nothing
+ * when the episode isn't downloading.
+ */
+export const DownloadIndicator: React.FC<DownloadIndicatorProps> = ({ episodeId }) => {
+    const download = usePodcastStore(state => state.downloadingEpisodes[episodeId]);
+    if (!download) return null;
+
+    const percent = getDownloadPercent(download);
+    const failed = download.status === 'failed';
+    const details = [
+        formatDownloadStatus(download),
+        download.totalBytes ? `${formatBytes(download.receivedBytes)} of ${formatBytes(download.totalBytes)}` : null,
+        download.status === 'downloading' && download.bytesPerSecond > 0 ? `${formatBytes(download.bytesPerSecond)}/s` : null,
+        download.resumed && !failed ? 'resumed' : null,
+    ].filter(Boolean).join(' · ');
+
+    return (
+        <div style={{ marginTop: '0.25rem', fontSize: '0.75rem', color: failed ? '#ef4444' : 'var(--text-secondary)' }}>
+            {!failed && (
+                <div style={{ height: '3px', borderRadius: '2px', backgroundColor: 'var(--border-color)', overflow: 'hidden', marginBottom: '0.25rem' }}>
+                    <div style={{ height: '100%', width: `${percent ?? 0}%`, backgroundColor: 'var(--accent-color)', transition: 'width 0.25s' }} />
+                </div>
+            )}
+            {failed ? `Download failed: ${download.error ?? 'unknown error'}` : details}
+        </div>
+    );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle } from 'lucide-react';
+import { usePodcastStore } from '../store/usePodcastStore';
+import { DEAD_FEED_FAILURES, getFeedHealth } from '../services/feedHealth';
+
+const formatDate = (timestamp: number | undefined): string =>
+    timestamp ? new Date(timestamp).toLocaleDateString() : 'never';
+
+/**
+ * Lists subscriptions whose feed has failed to load on the last
+ * DEAD_FEED_FAILURES refreshes in a row.
+ */
+export const FeedHealthPanel: React.FC = () => {
+    const subscriptions = usePodcastStore(state => state.subscriptions);
+    const feedStates = usePodcastStore(state => state.feedStates);
+    const unsubscribe = usePodcastStore(state => state.unsubscribe);
+    const navigate = useNavigate();
+
+    const deadFeeds = Object.values(subscriptions)
+        .filter(podcast => getFeedHealth(feedStates[podcast.id]) === 'dead');
+
+    if (deadFeeds.length === 0) return null;
+
+    return (
+        <div className="settings-section" style={{ marginBottom: '1.5rem' }}>
+            <p style={{ marginTop: 0, display: 'flex', alignItems: 'center', gap: '0.5rem', color: '#ef4444', fontWeight: 600 }}>
+                <AlertTriangle size={16} />
+                {deadFeeds.length === 1 ? '1 feed looks dead' : `${deadFeeds.length} feeds look dead`}
+            </p>
+            <p style={{ fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
+                These feeds failed to load {DEAD_FEED_FAILURES} or more times in a row. The show may have ended or moved without a redirect.
+            </p>
+            <ul style={{ margin: 0, paddingLeft: 0, listStyle: 'none', fontSize: '0.875rem' }}>
+                {deadFeeds.map(podcast => {
+                    const state = feedStates[podcast.id];
+                    return (
+                        <li key={podcast.id} style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.5rem 0', borderTop: '1px solid rgba(255,255,255,0.05)' }}>
+                            <div style={{ flex: 1, minWidth: 0 }}>
+                                <strong>{podcast.title}</strong>
+                                <div style={{ color: 'var(--text-secondary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={podcast.url}>
+                                    Last loaded {formatDate(state?.lastSuccessAt)} · {state?.consecutiveFailures} failures
+                                    {state?.lastError && <span style={{ color: '#ef4444' }}> · {state.lastError}</span>}
+                                </div>
+                            </div>
+                            <button className="action-btn" onClick={() => navigate(`/podcast/${podcast.id}`)}>Open</button>
+                            <button className="action-btn" onClick={() => unsubscribe(podcast.id)}>Unsubscribe</button>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
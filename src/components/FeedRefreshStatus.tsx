@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { RefreshCw, ChevronDown, ChevronUp } from 'lucide-react';
+import { usePodcastStore } from '../store/usePodcastStore';
+import { feedService } from '../services/feedService';
+
+const formatAgo = (timestamp: number): string => {
+    const minutes = Math.floor((Date.now() - timestamp) / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes} min ago`;
+    const hours = Math.floor(minutes / 60);
+    return `${hours}h ago`;
+};
+
+export const FeedRefreshStatus: React.FC = () => {
+    const isRefreshing = usePodcastStore(state => state.isRefreshing);
+    const report = usePodcastStore(state => state.lastRefreshReport);
+    const [expanded, setExpanded] = useState(false);
+
+    const errors = report?.feeds.filter(f => f.status === 'error') ?? [];
+    const unchanged = report?.feeds.filter(f => f.status === 'unchanged').length ?? 0;
+
+    return (
+        <div style={{ marginBottom: '1.5rem', fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', flexWrap: 'wrap' }}>
+                <button
+                    className="action-btn"
+                    onClick={() => feedService.refreshFeeds()}
+                    disabled={isRefreshing}
+                    title="Check all feeds for new episodes"
+                >
+                    <RefreshCw size={14} className={isRefreshing ? 'animate-spin' : undefined} />
+                    {isRefreshing ? ' Refreshing...' : ' Refresh'}
+                </button>
+
+                {report && !isRefreshing && (
+                    <button
+                        onClick={() => setExpanded(!expanded)}
+                        style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', background: 'none', border: 'none', color: 'inherit', cursor: 'pointer', padding: 0 }}
+                    >
+                        <span>
+                            Updated {formatAgo(report.finishedAt)} · {report.totalNew} new · {unchanged} unchanged
+                            {errors.length > 0 && <span style={{ color: '#ef4444' }}> · {errors.length} failed</span>}
+                            {' '}({(report.durationMs / 1000).toFixed(1)}s)
+                        </span>
+                        {expanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                    </button>
+                )}
+            </div>
+
+            {expanded && report && (
+                <table style={{ width: '100%', marginTop: '0.75rem', borderCollapse: 'collapse' }}>
+                    <thead>
+                        <tr style={{ textAlign: 'left', color: 'var(--text-primary)' }}>
+                            <th style={{ padding: '0.25rem 0.5rem' }}>Podcast</th>
+                            <th style={{ padding: '0.25rem 0.5rem' }}>Status</th>
+                            <th style={{ padding: '0.25rem 0.5rem' }}>New</th>
+                            <th style={{ padding: '0.25rem 0.5rem' }}>Skipped</th>
+                            <th style={{ padding: '0.25rem 0.5rem' }}>Time</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {report.feeds.map(feed => (
+                            <tr key={feed.podcastId} style={{ borderTop: '1px solid rgba(255,255,255,0.05)' }}>
+                                <td style={{ padding: '0.25rem 0.5rem' }}>{feed.title}</td>
+                                <td style={{ padding: '0.25rem 0.5rem', color: feed.status === 'error' ? '#ef4444' : undefined }} title={feed.error}>
+                                    {feed.status === 'error' ? `Error: ${feed.error}` : feed.status}
+                                    {feed.source === 'podcastindex' && ' (via Podcast Index)'}
+                                    {feed.movedTo && <span title={feed.movedTo}> · moved to new URL</span>}
+                                </td>
+                                <td style={{ padding: '0.25rem 0.5rem' }}>{feed.newEpisodes}</td>
+                                <td style={{ padding: '0.25rem 0.5rem' }}>{feed.skipped}</td>
+                                <td style={{ padding: '0.25rem 0.5rem' }}>{(feed.durationMs / 1000).toFixed(1)}s</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
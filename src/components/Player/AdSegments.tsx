@@ -1,7 +1,10 @@
-import React, { useState } from 'react';
-import { Sparkles } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Sparkles, Plus, Scissors } from 'lucide-react';
 import { usePodcastStore } from '../../store/usePodcastStore';
+import { usePlayerStore } from '../../store/usePlayerStore';
+import { getChapterSkipCandidates, hasMatchingSegment } from '../../services/chapters';
 import type { Episode } from '../../types';
+import { ExportPanel } from './ExportPanel';
 import './Player.css';
 
 interface AdSegmentsProps {
@@ -11,7 +14,17 @@ interface AdSegmentsProps {
 export const AdSegments: React.FC<AdSegmentsProps> = React.memo(({ episode }) => {
     // Use selectors to prevent re-renders on unrelated store updates
     const detectAds = usePodcastStore(state => state.detectAds);
+    const acceptSkipCandidate = usePodcastStore(state => state.acceptSkipCandidate);
+    const playerDuration = usePlayerStore(state => state.duration);
     const [isDetectingAds, setIsDetectingAds] = useState(false);
+    const [showExport, setShowExport] = useState(false);
+
+    // Chapters the publisher hid or titled like a sponsor read, not yet accepted
+    const chapterCandidates = useMemo(() => {
+        if (!episode.chapters?.length) return [];
+        return getChapterSkipCandidates(episode.chapters, playerDuration || episode.duration)
+            .filter(candidate => !hasMatchingSegment(episode.adSegments, candidate));
+    }, [episode.chapters, episode.adSegments, episode.duration, playerDuration]);
 
     const handleDetectAds = async () => {
         setIsDetectingAds(true);
@@ -27,17 +40,34 @@ export const AdSegments: React.FC<AdSegmentsProps> = React.memo(({ episode }) =>
         <div style={{ gridColumn: '1' }}>
             <div className="header-with-action">
                 <h3 className="section-title">Skippable Segments</h3>
-                <button
-                    onClick={handleDetectAds}
-                    disabled={isDetectingAds || !episode.transcript}
-                    title="Analyze the transcript with AI to identify ads and other skippable segments"
-                    className="action-btn"
-                >
-                    <Sparkles size={14} />
-                    {isDetectingAds ? 'Analyzing...' : (episode.adDetectionType === 'advanced' ? 'Re-analyze' : 'Analyze')}
-                </button>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    {episode.isDownloaded && (
+                        <button
+                            onClick={() => setShowExport(true)}
+                            disabled={showExport}
+                            title="Save a copy of this episode without its skippable segments"
+                            className="action-btn"
+                        >
+                            <Scissors size={14} />
+                            Export
+                        </button>
+                    )}
+                    <button
+                        onClick={handleDetectAds}
+                        disabled={isDetectingAds || !episode.transcript}
+                        title="Analyze the transcript with AI to identify ads and other skippable segments"
+                        className="action-btn"
+                    >
+                        <Sparkles size={14} />
+                        {isDetectingAds ? 'Analyzing...' : (episode.adDetectionType === 'advanced' ? 'Re-analyze' : 'Analyze')}
+                    </button>
+                </div>
             </div>
 
+            {showExport && episode.isDownloaded && (
+                <ExportPanel key={episode.id} episode={episode} onClose={() => setShowExport(false)} />
+            )}
+
             <div className="segments-list">
                 {episode.adSegments && episode.adSegments.length > 0 ? (
                     episode.adSegments.map((seg, i) => (
@@ -63,6 +93,33 @@ export const AdSegments: React.FC<AdSegmentsProps> = React.memo(({ episode }) =>
                         </p>
                     </div>
                 )}
+
+                {chapterCandidates.length > 0 && (
+                    <>
+                        <p className="segment-desc" style={{ marginTop: '0.5rem' }}>Suggested from chapters</p>
+                        {chapterCandidates.map((seg, i) => (
+                            <div key={`chapter-${i}`} className="segment-card" style={{ borderStyle: 'dashed', opacity: 0.85 }}>
+                                <div className="segment-header">
+                                    <span className="segment-type">{seg.type}</span>
+                                    <button
+                                        onClick={() => acceptSkipCandidate(episode.id, seg)}
+                                        className="action-btn"
+                                        title="Skip this chapter during playback"
+                                    >
+                                        <Plus size={14} />
+                                        Skip
+                                    </button>
+                                </div>
+                                <div className="segment-time">
+                                    <span className="time-badge">{seg.startTime}</span>
+                                    <span style={{ color: '#666', fontSize: '0.75rem' }}>➜</span>
+                                    <span className="time-badge">{seg.endTime}</span>
+                                </div>
+                                <p className="segment-desc">{seg.description}</p>
+                            </div>
+                        ))}
+                    </>
+                )}
             </div>
         </div>
     );
@@ -2,11 +2,16 @@ import React, { useEffect, useRef, useMemo } from 'react';
 import { usePlayerStore } from '../../store/usePlayerStore';
 import { usePodcastStore } from '../../store/usePodcastStore';
 import { db } from '../../services/db';
+import { getEpisodeFilename } from '../../services/mediaTypes';
+import { canPlayWhileDownloading } from '../../services/downloads';
+import { getMediaElement, setMediaHome } from './mediaElement';
 
 import skipSoundUrl from '../../assets/skip.mp3';
 
 export const AudioController: React.FC = () => {
-    const audioRef = useRef<HTMLAudioElement>(null);
+    // A <video> element, shared with VideoSurface (see mediaElement.ts)
+    const mediaElement = useMemo(() => getMediaElement(), []);
+    const audioRef = useRef<HTMLVideoElement>(mediaElement);
     // Memoize the audio object so it's not recreated on every render
     const skipAudio = useMemo(() => new Audio(skipSoundUrl), []);
     const skipAudioRef = useRef<HTMLAudioElement>(skipAudio);
@@ -45,12 +50,20 @@ export const AudioController: React.FC = () => {
             let src = currentEpisode.enclosureUrl;
             let isLocal = false;
 
+            // Still downloading: the local-media protocol serves the partial file
+            const download = usePodcastStore.getState().downloadingEpisodes[currentEpisode.id];
+            const isPartial = !currentEpisode.isDownloaded && canPlayWhileDownloading(download);
+
             if (currentEpisode.isDownloaded && currentEpisode.localFilePath) {
-                src = `local-media://${currentEpisode.id}.mp3`;
+                // The player's copy can predate the download, so take the file type from the library
+                const storedEpisode = usePodcastStore.getState().episodes[currentEpisode.id] ?? currentEpisode;
+                src = `local-media://${getEpisodeFilename(storedEpisode)}`;
                 isLocal = true;
+            } else if (isPartial) {
+                src = `local-media://${download.filename}`;
             }
 
-            console.log(`[AudioController] Loading source: ${isLocal ? 'LOCAL' : 'STREAM'} -> ${src}`);
+            console.log(`[AudioController] Loading source: ${isLocal ? 'LOCAL' : isPartial ? 'DOWNLOADING' : 'STREAM'} -> ${src}`);
 
             // Check if source is actually different
             const needsReload = !audio.src || !audio.src.includes(src);
@@ -149,7 +162,7 @@ export const AudioController: React.FC = () => {
                                     audio.addEventListener('error', onRecoveredError, { once: true });
 
                                     // Now set the new source and trigger load
-                                    const newSrc = `local-media://${result.episode.id}.mp3`;
+                                    const newSrc = `local-media://${getEpisodeFilename(result.episode)}`;
                                     audio.src = newSrc;
                                     audio.load(); // Explicitly trigger load
 
@@ -381,16 +394,11 @@ export const AudioController: React.FC = () => {
             audio.removeEventListener('ended', handleEnded);
         };
     }, []); //Empty dependency array means this effect runs once on mount (and cleanup on unmount)
-    //Refs are stable, but the DOM element might not be attached yet in the very first render pass if it's conditional.
-    //But here `audio` is always rendered.
-    //However, to be safe, we should probably depend on something that signals the audio element is ready, or just rely on React setting the ref before effects run.
-    //Oh. React makes sure refs are set before effects run.
-    //Don't mind me; just having a conversation with myself by way of Google in my own code comments. 
+    //The media element is created outside React (see mediaElement.ts), so the ref is set from the first render.
 
     return (
-        <audio
-            ref={audioRef}
-        //No props here, all handled via manual event listeners
-        />
+        // Hidden home of the media element; VideoSurface borrows it for video episodes.
+        // No props on the element, all handled via manual event listeners
+        <div ref={setMediaHome} style={{ display: 'none' }} />
     );
 };
@@ -0,0 +1,53 @@
+import React, { useMemo } from 'react';
+import { usePlayerStore } from '../../store/usePlayerStore';
+import { getChapterIndexAt, getVisibleChapters } from '../../services/chapters';
+import type { Episode } from '../../types';
+import clsx from 'clsx';
+import './Player.css';
+
+interface ChapterListProps {
+    episode: Episode;
+}
+
+export const ChapterList: React.FC<ChapterListProps> = React.memo(({ episode }) => {
+    const seek = usePlayerStore(state => state.seek);
+    const chapters = useMemo(() => getVisibleChapters(episode.chapters ?? []), [episode.chapters]);
+
+    // Select only the index so we re-render on chapter changes, not every time update
+    const currentIndex = usePlayerStore(state => getChapterIndexAt(chapters, state.currentTime));
+
+    const formatTime = (seconds: number): string => {
+        if (!seconds || isNaN(seconds) || !isFinite(seconds)) return '0:00';
+        const hours = Math.floor(seconds / 3600);
+        const mins = Math.floor((seconds % 3600) / 60);
+        const secs = Math.floor(seconds % 60);
+        if (hours > 0) {
+            return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+        }
+        return `${mins}:${secs.toString().padStart(2, '0')}`;
+    };
+
+    if (chapters.length === 0) return null;
+
+    return (
+        <div style={{ gridColumn: '1' }}>
+            <div className="header-with-action">
+                <h3 className="section-title">Chapters</h3>
+            </div>
+            <div className="transcript-container chapter-list">
+                {chapters.map((chapter, i) => (
+                    <div
+                        key={`${chapter.startTime}-${i}`}
+                        onClick={() => seek(chapter.startTime)}
+                        className={clsx('transcript-segment chapter-item', i === currentIndex && 'active')}
+                        title={`Jump to ${formatTime(chapter.startTime)}`}
+                    >
+                        <span className="transcript-time">{formatTime(chapter.startTime)}</span>
+                        {chapter.img && <img src={chapter.img} alt="" className="chapter-img" />}
+                        <p className="transcript-text">{chapter.title || `Chapter ${i + 1}`}</p>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+});
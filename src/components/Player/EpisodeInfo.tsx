@@ -4,22 +4,25 @@ import './Player.css';
 
 interface EpisodeInfoProps {
     episode: Episode;
+    showArtwork?: boolean; // Off when a video takes its place
 }
 
-export const EpisodeInfo: React.FC<EpisodeInfoProps> = ({ episode }) => {
+export const EpisodeInfo: React.FC<EpisodeInfoProps> = ({ episode, showArtwork = true }) => {
     const [descExpanded, setDescExpanded] = useState(false);
 
     return (
         <>
             {/* Artwork & Info Section */}
             <div className="full-player-info">
-                <div className="artwork-large">
-                    {episode.image || episode.feedImage ? (
-                        <img src={episode.image || episode.feedImage} alt={episode.title} />
-                    ) : (
-                        <div style={{ width: '100%', height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#666' }}>No Artwork</div>
-                    )}
-                </div>
+                {showArtwork && (
+                    <div className="artwork-large">
+                        {episode.image || episode.feedImage ? (
+                            <img src={episode.image || episode.feedImage} alt={episode.title} />
+                        ) : (
+                            <div style={{ width: '100%', height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#666' }}>No Artwork</div>
+                        )}
+                    </div>
+                )}
                 <h2 className="episode-title-large">{episode.title}</h2>
                 <p className="feed-title-large">{episode.feedTitle}</p>
             </div>
@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import {
+    buildExportRequest,
+    getCutRanges,
+    getCutSeconds,
+    getSegmentTypeCounts,
+    type SegmentType,
+} from '../../services/adFreeExport';
+import type { Episode } from '../../types';
+import type { ExportProgress } from '../../types/electron';
+import './Player.css';
+
+interface ExportPanelProps {
+    episode: Episode;
+    onClose: () => void;
+}
+
+const formatDuration = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const rest = Math.round(seconds % 60);
+    return `${minutes}:${rest.toString().padStart(2, '0')}`;
+};
+
+const STATUS_LABELS: Record<ExportProgress['status'], string> = {
+    preparing: 'Preparing...',
+    encoding: 'Encoding',
+    completed: 'Saved',
+    failed: 'Export failed',
+    cancelled: 'Export cancelled',
+};
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ episode, onClose }) => {
+    const typeCounts = useMemo(() => getSegmentTypeCounts(episode.adSegments), [episode.adSegments]);
+    // Everything detected is cut by default except chapter-type segments, which are content
+    const [selectedTypes, setSelectedTypes] = useState<SegmentType[]>(() =>
+        typeCounts.map(({ type }) => type).filter(type => type !== 'chapter')
+    );
+    const [includeChapters, setIncludeChapters] = useState(true);
+    const [progress, setProgress] = useState<ExportProgress | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const jobIdRef = useRef<string | null>(null);
+
+    const isRunning = progress?.status === 'preparing' || progress?.status === 'encoding';
+    const cutSeconds = getCutSeconds(getCutRanges(episode.adSegments, selectedTypes));
+
+    useEffect(() => {
+        return window.electronAPI?.onExportProgress?.(update => {
+            if (update.jobId === jobIdRef.current) setProgress(update);
+        });
+    }, []);
+
+    const toggleType = (type: SegmentType) => {
+        setSelectedTypes(types => types.includes(type) ? types.filter(t => t !== type) : [...types, type]);
+    };
+
+    const handleExport = async () => {
+        if (!window.electronAPI?.exportEpisode) {
+            setError('Exporting requires the desktop app');
+            return;
+        }
+        const request = buildExportRequest(episode, { types: selectedTypes, includeChapters });
+        jobIdRef.current = request.jobId;
+        setError(null);
+        setProgress({ jobId: request.jobId, status: 'preparing', progress: 0 });
+        try {
+            const outputPath = await window.electronAPI.exportEpisode(request);
+            // No folder chosen
+            if (outputPath === null) setProgress(null);
+        } catch (err) {
+            console.error('[Export] Failed:', err);
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const handleCancel = () => {
+        if (jobIdRef.current) void window.electronAPI?.cancelExport(jobIdRef.current);
+    };
+
+    return (
+        <div className="segment-card export-panel">
+            <div className="segment-header">
+                <span className="segment-type">Export ad-free copy</span>
+                <button onClick={onClose} disabled={isRunning} className="icon-btn" title="Close">
+                    <X size={16} />
+                </button>
+            </div>
+
+            <p className="segment-desc">Cut out:</p>
+            {typeCounts.length > 0 ? typeCounts.map(({ type, count }) => (
+                <label key={type} className="export-option">
+                    <input
+                        type="checkbox"
+                        checked={selectedTypes.includes(type)}
+                        onChange={() => toggleType(type)}
+                        disabled={isRunning}
+                    />
+                    <span>{type} ({count})</span>
+                </label>
+            )) : (
+                <p className="segment-desc">No skippable segments; the copy will be the full episode.</p>
+            )}
+            <label className="export-option">
+                <input
+                    type="checkbox"
+                    checked={includeChapters}
+                    onChange={(e) => setIncludeChapters(e.target.checked)}
+                    disabled={isRunning}
+                />
+                <span>Add chapters for the remaining sections</span>
+            </label>
+
+            <div className="export-footer">
+                <span className="segment-desc">
+                    {cutSeconds > 0 ? `Removes ${formatDuration(cutSeconds)}` : 'Nothing removed'}
+                </span>
+                {isRunning ? (
+                    <button onClick={handleCancel} className="action-btn">Cancel</button>
+                ) : (
+                    <button onClick={handleExport} className="action-btn">Export...</button>
+                )}
+            </div>
+
+            {progress && (
+                <div className="export-status">
+                    <span>
+                        {STATUS_LABELS[progress.status]}
+                        {progress.status === 'encoding' && ` ${Math.round(progress.progress * 100)}%`}
+                    </span>
+                    {isRunning && (
+                        <div className="export-progress-track">
+                            <div className="export-progress-fill" style={{ width: `${progress.progress * 100}%` }} />
+                        </div>
+                    )}
+                    {progress.outputPath && progress.status === 'completed' && (
+                        <span className="export-path" title={progress.outputPath}>{progress.outputPath}</span>
+                    )}
+                </div>
+            )}
+            {error && progress?.status !== 'cancelled' && (
+                <p className="segment-desc" style={{ color: '#ef4444' }}>{error}</p>
+            )}
+        </div>
+    );
+};
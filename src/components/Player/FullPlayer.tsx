@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { usePlayerStore } from '../../store/usePlayerStore';
 import { usePodcastStore } from '../../store/usePodcastStore';
 import { ChevronDown, ListMusic, X } from 'lucide-react';
@@ -7,7 +7,10 @@ import { ProgressBar } from './ProgressBar';
 import { PlayerControls } from './PlayerControls';
 import { TranscriptView } from './TranscriptView';
 import { AdSegments } from './AdSegments';
+import { ChapterList } from './ChapterList';
 import { EpisodeInfo } from './EpisodeInfo';
+import { VideoSurface } from './VideoSurface';
+import { hasVideo } from '../../services/mediaTypes';
 import './Player.css';
 
 interface FullPlayerProps {
@@ -16,13 +19,24 @@ interface FullPlayerProps {
 
 export const FullPlayer: React.FC<FullPlayerProps> = ({ onClose }) => {
     const playerEpisode = usePlayerStore(state => state.currentEpisode);
-    const { episodes } = usePodcastStore();
+    const { episodes, loadChapters } = usePodcastStore();
     const [showQueue, setShowQueue] = useState(false);
 
     const currentEpisode = playerEpisode ? (episodes[playerEpisode.id] || playerEpisode) : null;
 
+    // Fetch chapters lazily the first time an episode is opened in the player
+    const episodeId = currentEpisode?.id;
+    const needsChapters = !!currentEpisode?.chaptersUrl && !currentEpisode.chapters;
+    useEffect(() => {
+        if (episodeId !== undefined && needsChapters) {
+            loadChapters(episodeId);
+        }
+    }, [episodeId, needsChapters, loadChapters]);
+
     if (!currentEpisode) return null;
 
+    const isVideo = hasVideo(currentEpisode);
+
     return (
         <div className="full-player">
             {/* Header */}
@@ -40,7 +54,8 @@ export const FullPlayer: React.FC<FullPlayerProps> = ({ onClose }) => {
             <div className="player-content-scroll">
                 <div className="player-container">
 
-                    <EpisodeInfo episode={currentEpisode} />
+                    {isVideo && <VideoSurface />}
+                    <EpisodeInfo episode={currentEpisode} showArtwork={!isVideo} />
 
                     {/* Controls Wrapper */}
                     <div className="full-player-controls-wrapper">
@@ -50,10 +65,11 @@ export const FullPlayer: React.FC<FullPlayerProps> = ({ onClose }) => {
 
                         <PlayerControls episodeId={currentEpisode.id} />
 
-                        {/* Transcript & Ads */}
-                        {(currentEpisode.transcript || currentEpisode.isDownloaded) && (
+                        {/* Transcript, Chapters & Ads */}
+                        {(currentEpisode.transcript || currentEpisode.isDownloaded || !!currentEpisode.chapters?.length) && (
                             <div className="transcript-grid">
                                 <AdSegments episode={currentEpisode} />
+                                <ChapterList episode={currentEpisode} />
                                 <TranscriptView episode={currentEpisode} />
                             </div>
                         )}
@@ -1,6 +1,8 @@
 import React from 'react';
-import { Play, Pause, SkipForward, SkipBack, Volume2, CheckCircle } from 'lucide-react';
+import { Play, Pause, SkipForward, SkipBack, Volume2, CheckCircle, ChevronFirst, ChevronLast } from 'lucide-react';
 import { usePlayerStore } from '../../store/usePlayerStore';
+import { usePodcastStore } from '../../store/usePodcastStore';
+import { getNextChapterStart, getPreviousChapterStart, getVisibleChapters } from '../../services/chapters';
 
 import './Player.css';
 
@@ -20,12 +22,27 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({ episodeId }) =>
     const markAsPlayed = usePlayerStore(state => state.markAsPlayed);
     const volume = usePlayerStore(state => state.volume);
     const setVolume = usePlayerStore(state => state.setVolume);
+    const seek = usePlayerStore(state => state.seek);
+    const chapters = usePodcastStore(state => state.episodes[episodeId]?.chapters);
+    const hasChapters = getVisibleChapters(chapters ?? []).length > 1;
 
     const togglePlay = () => {
         if (isPlaying) pause();
         else resume();
     };
 
+    // Read currentTime on demand rather than subscribing, to avoid re-rendering every tick
+    const previousChapter = () => {
+        if (!chapters) return;
+        seek(getPreviousChapterStart(chapters, usePlayerStore.getState().currentTime));
+    };
+
+    const nextChapter = () => {
+        if (!chapters) return;
+        const next = getNextChapterStart(chapters, usePlayerStore.getState().currentTime);
+        if (next !== null) seek(next);
+    };
+
     const handleVolumeChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const newVolume = Number(e.target.value) / 100;
         await setVolume(newVolume);
@@ -35,6 +52,11 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({ episodeId }) =>
         <>
             {/* Playback Controls - CENTERED */}
             <div className="playback-controls">
+                {hasChapters && (
+                    <button onClick={previousChapter} className="control-btn-large" title="Previous chapter">
+                        <ChevronFirst size={32} />
+                    </button>
+                )}
                 <button onClick={skipBackward} className="control-btn-large">
                     <SkipBack size={40} />
                 </button>
@@ -44,6 +66,11 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({ episodeId }) =>
                 <button onClick={skipForward} className="control-btn-large">
                     <SkipForward size={40} />
                 </button>
+                {hasChapters && (
+                    <button onClick={nextChapter} className="control-btn-large" title="Next chapter">
+                        <ChevronLast size={32} />
+                    </button>
+                )}
             </div>
 
             {/* Secondary Controls */}
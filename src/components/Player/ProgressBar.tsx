@@ -1,6 +1,7 @@
 import React, { useMemo } from 'react';
 import { usePlayerStore } from '../../store/usePlayerStore';
 import { usePodcastStore } from '../../store/usePodcastStore';
+import { getChapterIndexAt, getVisibleChapters } from '../../services/chapters';
 
 export const ProgressBar: React.FC = () => {
     const currentTime = usePlayerStore(state => state.currentTime);
@@ -12,6 +13,12 @@ export const ProgressBar: React.FC = () => {
         playerEpisode ? state.episodes[playerEpisode.id]?.adSegments : null
     );
 
+    const chapters = usePodcastStore(state =>
+        playerEpisode ? state.episodes[playerEpisode.id]?.chapters : undefined
+    );
+    const visibleChapters = useMemo(() => getVisibleChapters(chapters ?? []), [chapters]);
+    const currentChapter = visibleChapters[getChapterIndexAt(visibleChapters, currentTime)];
+
     const formatTime = (seconds: number): string => {
         if (!seconds || isNaN(seconds) || !isFinite(seconds)) return '0:00';
         const hours = Math.floor(seconds / 3600);
@@ -40,7 +47,13 @@ export const ProgressBar: React.FC = () => {
         <div style={{ width: '100%', marginBottom: '2rem' }}>
             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.75rem', fontSize: '0.875rem', color: 'var(--text-secondary)', fontFamily: 'monospace' }}>
                 <span>{formattedCurrentTime}</span>
-                <span style={{ color: '#666' }}>/</span>
+                {currentChapter?.title ? (
+                    <span style={{ fontFamily: 'inherit', color: 'var(--text-primary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', padding: '0 1rem' }}>
+                        {currentChapter.title}
+                    </span>
+                ) : (
+                    <span style={{ color: '#666' }}>/</span>
+                )}
                 <span>{formattedDuration}</span>
             </div>
 
@@ -73,6 +86,32 @@ export const ProgressBar: React.FC = () => {
                     </svg>
                 ) : null}
 
+                {visibleChapters.length > 1 && duration > 0 ? (
+                    <svg
+                        style={{
+                            position: 'absolute',
+                            top: 0,
+                            left: 0,
+                            width: '100%',
+                            height: '100%',
+                            pointerEvents: 'none',
+                            zIndex: 4
+                        }}
+                    >
+                        {visibleChapters
+                            .filter(chapter => chapter.startTime > 0 && chapter.startTime < duration)
+                            .map((chapter, i) => (
+                                <rect
+                                    key={i}
+                                    x={`${(chapter.startTime / duration) * 100}%`}
+                                    width="2"
+                                    height="100%"
+                                    fill="rgba(0, 0, 0, 0.7)"
+                                />
+                            ))}
+                    </svg>
+                ) : null}
+
                 <div
                     style={{
                         position: 'absolute',
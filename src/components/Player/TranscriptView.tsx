@@ -11,7 +11,9 @@ interface TranscriptViewProps {
 export const TranscriptView: React.FC<TranscriptViewProps> = React.memo(({ episode }) => {
     // Use selectors to prevent re-renders on unrelated store updates
     const seek = usePlayerStore(state => state.seek);
-    const transcribeEpisode = usePodcastStore(state => state.transcribeEpisode);
+    const queueTranscription = usePodcastStore(state => state.queueTranscription);
+    const cancelTranscription = usePodcastStore(state => state.cancelTranscription);
+    const progress = usePodcastStore(state => state.transcriptionProgress[episode.id]);
 
     const formatTime = (seconds: number): string => {
         if (!seconds || isNaN(seconds) || !isFinite(seconds)) return '0:00';
@@ -30,12 +32,11 @@ export const TranscriptView: React.FC<TranscriptViewProps> = React.memo(({ episo
                 <h3 className="section-title">Transcript</h3>
                 {episode.transcript && (
                     <button
-                        onClick={async () => {
-                            await transcribeEpisode(episode.id, true);
-                        }}
+                        onClick={() => queueTranscription(episode.id, true)}
                         className="action-btn"
+                        disabled={episode.transcriptionStatus === 'pending'}
                     >
-                        Re-transcribe
+                        {episode.transcriptionStatus === 'pending' ? 'Re-transcribe queued' : 'Re-transcribe'}
                     </button>
                 )}
             </div>
@@ -43,8 +44,17 @@ export const TranscriptView: React.FC<TranscriptViewProps> = React.memo(({ episo
                 {episode.transcriptionStatus === 'processing' ? (
                     <div className="loading-state">
                         <div className="animate-spin" style={{ fontSize: '2rem', marginBottom: '1rem' }}>⏳</div>
-                        <p>Transcribing episode...</p>
+                        <p>
+                            {progress === undefined
+                                ? 'Transcribing episode...'
+                                : `${progress.stage}...${progress.progress === undefined ? '' : ` ${Math.round(progress.progress * 100)}%`}`}
+                        </p>
                         <p style={{ fontSize: '0.875rem', opacity: 0.7 }}>This may take a moment.</p>
+                        {progress?.cancellable && (
+                            <button onClick={() => cancelTranscription(episode.id)} className="action-btn">
+                                Cancel
+                            </button>
+                        )}
                     </div>
                 ) : episode.transcript ? (
                     episode.transcript.segments.map((segment) => (
@@ -81,6 +91,16 @@ export const TranscriptView: React.FC<TranscriptViewProps> = React.memo(({ episo
                             </p>
                         </div>
                     ))
+                ) : episode.transcriptionStatus === 'pending' ? (
+                    <div className="loading-state">
+                        <p style={{ marginBottom: '1rem' }}>Waiting to transcribe...</p>
+                        <p style={{ fontSize: '0.875rem', opacity: 0.7, marginBottom: '1rem' }}>
+                            Other episodes are ahead of this one in the transcription queue.
+                        </p>
+                        <button onClick={() => cancelTranscription(episode.id)} className="action-btn">
+                            Cancel
+                        </button>
+                    </div>
                 ) : (
                     <div className="loading-state">
                         <p style={{ marginBottom: '1rem' }}>No transcript available yet.</p>
@@ -88,7 +108,7 @@ export const TranscriptView: React.FC<TranscriptViewProps> = React.memo(({ episo
                             <p style={{ color: '#ef4444', marginBottom: '1rem' }}>Transcription failed.</p>
                         )}
                         <button
-                            onClick={() => transcribeEpisode(episode.id)}
+                            onClick={() => queueTranscription(episode.id)}
                             className="mark-played-btn"
                         >
                             {episode.transcriptionStatus === 'failed' ? 'Retry Transcription' : 'Start Transcription'}
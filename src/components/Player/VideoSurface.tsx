@@ -0,0 +1,64 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { PictureInPicture2 } from 'lucide-react';
+import { getMediaElement, returnMediaHome, showMediaIn } from './mediaElement';
+import './Player.css';
+
+/**
+ * Shows the player's media element for video episodes. Playback, seeking and
+ * ad skipping stay with AudioController; this only lends the element a place
+ * on screen.
+ */
+export const VideoSurface: React.FC = () => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [inPictureInPicture, setInPictureInPicture] = useState(() => document.pictureInPictureElement === getMediaElement());
+
+    // Layout effect so the element moves back before this container is removed
+    useLayoutEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        showMediaIn(container);
+        return () => returnMediaHome(container);
+    }, []);
+
+    useEffect(() => {
+        const media = getMediaElement();
+        const onEnter = () => setInPictureInPicture(true);
+        const onLeave = () => setInPictureInPicture(false);
+        media.addEventListener('enterpictureinpicture', onEnter);
+        media.addEventListener('leavepictureinpicture', onLeave);
+        return () => {
+            media.removeEventListener('enterpictureinpicture', onEnter);
+            media.removeEventListener('leavepictureinpicture', onLeave);
+        };
+    }, []);
+
+    const togglePictureInPicture = async () => {
+        try {
+            if (document.pictureInPictureElement) {
+                await document.exitPictureInPicture();
+            } else {
+                await getMediaElement().requestPictureInPicture();
+            }
+        } catch (error) {
+            console.error('[VideoSurface] Picture-in-picture failed:', error);
+        }
+    };
+
+    return (
+        <div className="video-surface">
+            <div ref={containerRef} className="video-frame" />
+            {inPictureInPicture && (
+                <div className="video-pip-placeholder">Playing in picture-in-picture</div>
+            )}
+            {document.pictureInPictureEnabled && (
+                <button
+                    onClick={togglePictureInPicture}
+                    className="icon-btn video-pip-btn"
+                    title={inPictureInPicture ? 'Exit picture-in-picture' : 'Picture-in-picture'}
+                >
+                    <PictureInPicture2 size={20} />
+                </button>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,47 @@
+/**
+ * Player Media Element
+ *
+ * The app has a single media element. AudioController creates it and drives
+ * playback; it is a <video> so that video episodes have a picture. It lives
+ * in AudioController's hidden container and VideoSurface borrows it while the
+ * full player is open. Moving a media element to another container (in the
+ * same task) doesn't interrupt playback.
+ */
+
+let mediaElement: HTMLVideoElement | null = null;
+let homeContainer: HTMLElement | null = null;
+
+export function getMediaElement(): HTMLVideoElement {
+    if (!mediaElement) {
+        mediaElement = document.createElement('video');
+        mediaElement.className = 'player-media';
+        mediaElement.playsInline = true;
+    }
+    return mediaElement;
+}
+
+/**
+ * Ref callback for the hidden container the element returns to.
+ */
+export function setMediaHome(container: HTMLElement | null): void {
+    homeContainer = container;
+    if (container && !getMediaElement().parentElement) {
+        container.appendChild(getMediaElement());
+    }
+}
+
+export function showMediaIn(container: HTMLElement): void {
+    container.appendChild(getMediaElement());
+}
+
+/**
+ * Puts the element back in its hidden container if `container` still has it.
+ * Must run before `container` leaves the document (a layout effect cleanup),
+ * or the element is paused.
+ */
+export function returnMediaHome(container: HTMLElement): void {
+    const element = getMediaElement();
+    if (element.parentElement === container && homeContainer) {
+        homeContainer.appendChild(element);
+    }
+}
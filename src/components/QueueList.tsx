@@ -1,10 +1,13 @@
 import React from 'react';
 import { usePlayerStore } from '../store/usePlayerStore';
 import { usePodcastStore } from '../store/usePodcastStore';
-import { Play, X, GripVertical, Check, ScanSearch } from 'lucide-react';
+import { DownloadIndicator } from './DownloadIndicator';
+import { canStartManualDownload } from '../services/downloads';
+import { Play, X, GripVertical, Check, ScanSearch, Download } from 'lucide-react';
 
 export const QueueList: React.FC = () => {
     const { queue, play, removeFromQueue, reorderQueue, markAsPlayed } = usePlayerStore();
+    const { downloadingEpisodes, isDownloaded, downloadEpisode } = usePodcastStore();
     const [draggedIndex, setDraggedIndex] = React.useState<number | null>(null);
 
     if (queue.length === 0) {
@@ -52,6 +55,7 @@ export const QueueList: React.FC = () => {
                     <div className="queue-info">
                         <div className="queue-item-title">{ep.title}</div>
                         <div className="queue-item-feed">{ep.feedTitle}</div>
+                        <DownloadIndicator episodeId={ep.id} />
                     </div>
                     <div className="queue-actions">
                         <button
@@ -61,6 +65,15 @@ export const QueueList: React.FC = () => {
                         >
                             <Play size={16} fill="currentColor" />
                         </button>
+                        {!isDownloaded(ep.id) && canStartManualDownload(downloadingEpisodes[ep.id]) && (
+                            <button
+                                onClick={() => downloadEpisode(usePodcastStore.getState().episodes[ep.id] ?? ep)}
+                                className="queue-action-btn download"
+                                title="Download Now"
+                            >
+                                <Download size={16} />
+                            </button>
+                        )}
                         <button
                             onClick={() => markAsPlayed(ep.id)}
                             className="queue-action-btn check"
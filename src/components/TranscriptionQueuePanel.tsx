@@ -0,0 +1,94 @@
+import React from 'react';
+import { FileText } from 'lucide-react';
+import { usePodcastStore } from '../store/usePodcastStore';
+import { usePlayerStore } from '../store/usePlayerStore';
+import { getPendingTranscriptions, getUntranscribedDownloads, type TranscriptionJob } from '../services/transcriptionQueue';
+
+const rowStyle: React.CSSProperties = { display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.5rem 0', borderTop: '1px solid rgba(255,255,255,0.05)' };
+const detailStyle: React.CSSProperties = { color: 'var(--text-secondary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' };
+
+/**
+ * The transcription queue: what's running, what's waiting (next first) and
+ * what failed, with pause/resume and "Transcribe all downloaded".
+ */
+export const TranscriptionQueuePanel: React.FC = () => {
+    const episodes = usePodcastStore(state => state.episodes);
+    const jobs = usePodcastStore(state => state.transcriptionJobs);
+    const progress = usePodcastStore(state => state.transcriptionProgress);
+    const paused = usePodcastStore(state => state.transcriptionQueuePaused);
+    const setPaused = usePodcastStore(state => state.setTranscriptionQueuePaused);
+    const queueTranscription = usePodcastStore(state => state.queueTranscription);
+    const removeTranscriptionJob = usePodcastStore(state => state.removeTranscriptionJob);
+    const cancelTranscription = usePodcastStore(state => state.cancelTranscription);
+    const transcribeAllDownloaded = usePodcastStore(state => state.transcribeAllDownloaded);
+    const currentEpisodeId = usePlayerStore(state => state.currentEpisode?.id);
+    const queue = usePlayerStore(state => state.queue);
+
+    const running = Object.values(jobs).filter(job => job.status === 'running');
+    const pending = getPendingTranscriptions(jobs, { currentEpisodeId, queue });
+    const failed = Object.values(jobs).filter(job => job.status === 'failed');
+    const untranscribed = getUntranscribedDownloads(episodes, jobs).length;
+
+    if (running.length + pending.length + failed.length === 0 && untranscribed === 0) return null;
+
+    const title = (job: TranscriptionJob) => episodes[job.episodeId]?.title ?? `Episode ${job.episodeId}`;
+
+    return (
+        <div className="settings-section" style={{ marginBottom: '1.5rem' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                <p style={{ margin: 0, flex: 1, display: 'flex', alignItems: 'center', gap: '0.5rem', fontWeight: 600 }}>
+                    <FileText size={16} />
+                    Transcriptions
+                    <span style={{ fontWeight: 400, fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
+                        {running.length} running · {pending.length} waiting{paused && ' · paused'}
+                    </span>
+                </p>
+                {untranscribed > 0 && (
+                    <button className="action-btn" onClick={transcribeAllDownloaded}>
+                        Transcribe all downloaded ({untranscribed})
+                    </button>
+                )}
+                {(paused || pending.length > 0) && (
+                    <button className="action-btn" onClick={() => setPaused(!paused)}>
+                        {paused ? 'Resume' : 'Pause'}
+                    </button>
+                )}
+            </div>
+            <ul style={{ margin: '0.5rem 0 0', paddingLeft: 0, listStyle: 'none', fontSize: '0.875rem' }}>
+                {running.map(job => (
+                    <li key={job.episodeId} style={rowStyle}>
+                        <div style={{ flex: 1, minWidth: 0 }}>
+                            <strong>{title(job)}</strong>
+                            <div style={detailStyle}>
+                                {progress[job.episodeId]?.stage ?? 'Starting'}
+                                {progress[job.episodeId]?.progress !== undefined && ` · ${Math.round((progress[job.episodeId].progress ?? 0) * 100)}%`}
+                            </div>
+                        </div>
+                        {progress[job.episodeId]?.cancellable && (
+                            <button className="action-btn" onClick={() => cancelTranscription(job.episodeId)}>Cancel</button>
+                        )}
+                    </li>
+                ))}
+                {pending.map((job, index) => (
+                    <li key={job.episodeId} style={rowStyle}>
+                        <div style={{ flex: 1, minWidth: 0 }}>
+                            <strong>{title(job)}</strong>
+                            <div style={detailStyle}>{index === 0 && !paused ? 'Next' : `Waiting · #${index + 1}`}</div>
+                        </div>
+                        <button className="action-btn" onClick={() => removeTranscriptionJob(job.episodeId)}>Remove</button>
+                    </li>
+                ))}
+                {failed.map(job => (
+                    <li key={job.episodeId} style={rowStyle}>
+                        <div style={{ flex: 1, minWidth: 0 }}>
+                            <strong>{title(job)}</strong>
+                            <div style={{ ...detailStyle, color: '#ef4444' }}>Transcription failed</div>
+                        </div>
+                        <button className="action-btn" onClick={() => queueTranscription(job.episodeId, job.force)}>Retry</button>
+                        <button className="action-btn" onClick={() => removeTranscriptionJob(job.episodeId)}>Remove</button>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
@@ -6,11 +6,20 @@ export const CLOUD_CONFIG = {
     SUPABASE_ANON_KEY: 'sb_publishable_T59kktyMYkuHENzMkAEIog_E-9hFj6m',
 
     ENDPOINTS: {
-        UPLOAD_EPISODE: '/functions/v1/upload-episode',
+        UPLOAD_EPISODE: '/functions/v1/upload-episode', // Multipart file, or starts a chunked upload
+        // Chunked uploads, used only with VITE_CHUNKED_UPLOADS=true
+        UPLOAD_CHUNK: '/functions/v1/upload-chunk',
+        COMPLETE_UPLOAD: '/functions/v1/complete-upload',
         GET_JOB_STATUS: '/functions/v1/get-job-status',
         GET_JOB_RESULTS: '/functions/v1/get-job-results',
+        DETECT_SEGMENTS: '/functions/v1/detect-segments',
+        CANCEL_JOB: '/functions/v1/cancel-job',
     },
 
     POLLING_INTERVAL_MS: 3000,
     MAX_POLL_ATTEMPTS: 100,
+
+    UPLOAD_CHUNK_BYTES: 4 * 1024 * 1024,
+    UPLOAD_MAX_RETRIES: 4, // Per request
+    UPLOAD_RETRY_DELAY_MS: 2000, // Multiplied by the attempt
 } as const;
@@ -1,18 +1,129 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { usePodcastStore } from '../store/usePodcastStore';
+import { feedService } from '../services/feedService';
+import type { OpmlImportResult } from '../services/opml';
+import { localFilesService, LOCAL_FILES_PODCAST_ID, type LocalImportResult } from '../services/localFiles';
 import { PodcastCard } from '../components/PodcastCard';
+import { FeedRefreshStatus } from '../components/FeedRefreshStatus';
+import { FeedHealthPanel } from '../components/FeedHealthPanel';
+import { TranscriptionQueuePanel } from '../components/TranscriptionQueuePanel';
 import { useNavigate } from 'react-router-dom';
-import { Loader } from 'lucide-react';
+import { Loader, Rss, Upload, Download, X, Lock, FileAudio } from 'lucide-react';
 
 export const Library: React.FC = () => {
     const { subscriptions, loadSubscriptions, loading } = usePodcastStore();
     const navigate = useNavigate();
     const subsList = Object.values(subscriptions);
+    const [feedUrl, setFeedUrl] = useState('');
+    const [adding, setAdding] = useState(false);
+    const [addError, setAddError] = useState<string | null>(null);
+    const [isPrivate, setIsPrivate] = useState(false);
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [importing, setImporting] = useState(false);
+    const [importProgress, setImportProgress] = useState<{ done: number; total: number } | null>(null);
+    const [importResults, setImportResults] = useState<OpmlImportResult[] | null>(null);
+    const [importError, setImportError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [audioImporting, setAudioImporting] = useState(false);
+    const [audioProgress, setAudioProgress] = useState<{ done: number; total: number } | null>(null);
+    const [audioResults, setAudioResults] = useState<LocalImportResult[] | null>(null);
+    const [audioError, setAudioError] = useState<string | null>(null);
+    const [dragActive, setDragActive] = useState(false);
 
     useEffect(() => {
         loadSubscriptions();
     }, [loadSubscriptions]);
 
+    const handleAddFeed = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!feedUrl.trim()) return;
+
+        setAdding(true);
+        setAddError(null);
+        try {
+            const podcast = isPrivate
+                ? await feedService.subscribePrivateFeed(feedUrl, { username, password })
+                : await feedService.subscribeByUrl(feedUrl);
+            setFeedUrl('');
+            setUsername('');
+            setPassword('');
+            navigate(`/podcast/${podcast.id}`);
+        } catch (error) {
+            console.error('Failed to add feed:', error);
+            setAddError(error instanceof Error ? error.message : 'Could not read that feed');
+        } finally {
+            setAdding(false);
+        }
+    };
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow re-importing the same file
+        if (!file) return;
+
+        setImporting(true);
+        setImportError(null);
+        setImportResults(null);
+        setImportProgress(null);
+        try {
+            const xml = await file.text();
+            const results = await feedService.importOpml(xml, (_result, index, total) => {
+                setImportProgress({ done: index + 1, total });
+            });
+            setImportResults(results);
+        } catch (error) {
+            console.error('OPML import failed:', error);
+            setImportError(error instanceof Error ? error.message : 'Could not read that OPML file');
+        } finally {
+            setImporting(false);
+            setImportProgress(null);
+        }
+    };
+
+    const runAudioImport = async (importer: (onProgress: (done: number, total: number) => void) => Promise<LocalImportResult[]>) => {
+        setAudioImporting(true);
+        setAudioError(null);
+        setAudioResults(null);
+        setAudioProgress(null);
+        try {
+            const results = await importer((done, total) => setAudioProgress({ done, total }));
+            // Cancelled file dialog: nothing to report
+            if (results.length > 0) setAudioResults(results);
+        } catch (error) {
+            console.error('Audio import failed:', error);
+            setAudioError(error instanceof Error ? error.message : 'Could not import those files');
+        } finally {
+            setAudioImporting(false);
+            setAudioProgress(null);
+        }
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setDragActive(false);
+        const files = Array.from(e.dataTransfer.files);
+        if (files.length === 0 || audioImporting) return;
+        runAudioImport(onProgress => localFilesService.importDroppedFiles(files, onProgress));
+    };
+
+    const handleDragOver = (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setDragActive(true);
+    };
+
+    const handleExport = () => {
+        const opml = feedService.exportOpml();
+        const blob = new Blob([opml], { type: 'text/x-opml' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `stfuai-subscriptions-${new Date().toISOString().slice(0, 10)}.opml`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
     if (loading && subsList.length === 0) {
         return (
             <div className="flex justify-center py-20">
@@ -22,8 +133,192 @@ export const Library: React.FC = () => {
     }
 
     return (
-        <div>
-            <h2 className="text-2xl font-bold text-white mb-6">Your Subscriptions</h2>
+        <div
+            onDragOver={handleDragOver}
+            onDragLeave={() => setDragActive(false)}
+            onDrop={handleDrop}
+            style={dragActive ? { outline: '2px dashed var(--accent-color)', outlineOffset: '0.5rem', borderRadius: '0.5rem' } : undefined}
+        >
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '1rem' }}>
+                <h2 className="text-2xl font-bold text-white mb-6">Your Subscriptions</h2>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".opml,.xml,text/x-opml,application/xml,text/xml"
+                        onChange={handleImportFile}
+                        style={{ display: 'none' }}
+                    />
+                    <button
+                        className="action-btn"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={importing}
+                        title="Import subscriptions from an OPML file"
+                    >
+                        {importing ? <Loader className="animate-spin" size={16} /> : <Upload size={16} />}
+                        {importing && importProgress
+                            ? ` Importing ${importProgress.done}/${importProgress.total}`
+                            : ' Import OPML'}
+                    </button>
+                    <button
+                        className="action-btn"
+                        onClick={handleExport}
+                        disabled={subsList.length === 0}
+                        title="Export subscriptions as an OPML file"
+                    >
+                        <Download size={16} /> Export OPML
+                    </button>
+                    <button
+                        className="action-btn"
+                        onClick={() => runAudioImport(localFilesService.pickAndImport)}
+                        disabled={audioImporting}
+                        title="Import audio files from this computer (or drop them onto this page)"
+                    >
+                        {audioImporting ? <Loader className="animate-spin" size={16} /> : <FileAudio size={16} />}
+                        {audioImporting && audioProgress
+                            ? ` Importing ${audioProgress.done}/${audioProgress.total}`
+                            : ' Import audio files'}
+                    </button>
+                </div>
+            </div>
+
+            {(importResults || importError) && (
+                <div className="settings-section" style={{ marginBottom: '1.5rem', position: 'relative' }}>
+                    <button
+                        onClick={() => { setImportResults(null); setImportError(null); }}
+                        style={{ position: 'absolute', top: '0.75rem', right: '0.75rem', background: 'none', border: 'none', color: 'var(--text-secondary)', cursor: 'pointer' }}
+                        title="Dismiss"
+                    >
+                        <X size={16} />
+                    </button>
+                    {importError ? (
+                        <p style={{ color: '#ef4444', margin: 0 }}>{importError}</p>
+                    ) : importResults && (
+                        <>
+                            <p style={{ marginTop: 0 }}>
+                                Imported {importResults.filter(r => r.status === 'imported').length},
+                                {' '}already subscribed {importResults.filter(r => r.status === 'existing').length},
+                                {' '}failed {importResults.filter(r => r.status === 'failed').length}
+                            </p>
+                            {importResults.some(r => r.status === 'failed') && (
+                                <ul style={{ margin: 0, paddingLeft: '1.25rem', fontSize: '0.875rem' }}>
+                                    {importResults.filter(r => r.status === 'failed').map(r => (
+                                        <li key={r.feedUrl}>
+                                            <strong>{r.title}</strong>
+                                            <span style={{ color: 'var(--text-secondary)' }}> ({r.feedUrl})</span>
+                                            <span style={{ color: '#ef4444' }}>: {r.error}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+
+            {(audioResults || audioError) && (
+                <div className="settings-section" style={{ marginBottom: '1.5rem', position: 'relative' }}>
+                    <button
+                        onClick={() => { setAudioResults(null); setAudioError(null); }}
+                        style={{ position: 'absolute', top: '0.75rem', right: '0.75rem', background: 'none', border: 'none', color: 'var(--text-secondary)', cursor: 'pointer' }}
+                        title="Dismiss"
+                    >
+                        <X size={16} />
+                    </button>
+                    {audioError ? (
+                        <p style={{ color: '#ef4444', margin: 0 }}>{audioError}</p>
+                    ) : audioResults && (
+                        <>
+                            <p style={{ marginTop: 0 }}>
+                                Imported {audioResults.filter(r => r.status === 'imported').length} audio files,
+                                {' '}already in library {audioResults.filter(r => r.status === 'existing').length},
+                                {' '}failed {audioResults.filter(r => r.status === 'failed').length}.
+                                {' '}
+                                <button
+                                    onClick={() => navigate(`/podcast/${LOCAL_FILES_PODCAST_ID}`)}
+                                    style={{ background: 'none', border: 'none', padding: 0, color: 'var(--accent-color)', cursor: 'pointer' }}
+                                >
+                                    Open Local Files
+                                </button>
+                            </p>
+                            {audioResults.some(r => r.status === 'failed') && (
+                                <ul style={{ margin: 0, paddingLeft: '1.25rem', fontSize: '0.875rem' }}>
+                                    {audioResults.filter(r => r.status === 'failed').map(r => (
+                                        <li key={r.fileName}>
+                                            <strong>{r.fileName}</strong>
+                                            <span style={{ color: '#ef4444' }}>: {r.error}</span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+
+            {subsList.length > 0 && <FeedRefreshStatus />}
+            <FeedHealthPanel />
+            <TranscriptionQueuePanel />
+
+            <div className="search-header">
+                <form onSubmit={handleAddFeed} className="search-form">
+                    <Rss className="search-icon" size={20} />
+                    <input
+                        type="text"
+                        value={feedUrl}
+                        onChange={(e) => setFeedUrl(e.target.value)}
+                        placeholder="Add a podcast by RSS/Atom feed URL..."
+                        className="search-input"
+                        disabled={adding}
+                    />
+                    {adding && <Loader className="search-loader animate-spin" size={20} />}
+                </form>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginTop: '0.5rem', flexWrap: 'wrap', fontSize: '0.875rem' }}>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer', userSelect: 'none', color: 'var(--text-secondary)' }}>
+                        <input
+                            type="checkbox"
+                            checked={isPrivate}
+                            onChange={() => setIsPrivate(!isPrivate)}
+                            style={{ accentColor: 'var(--accent-color)' }}
+                        />
+                        <Lock size={14} /> Private feed (Patreon, Supercast, Substack...)
+                    </label>
+                    {isPrivate && (
+                        <>
+                            <input
+                                type="text"
+                                value={username}
+                                onChange={(e) => setUsername(e.target.value)}
+                                placeholder="Username (optional)"
+                                autoComplete="off"
+                                className="search-input"
+                                style={{ width: 'auto', padding: '0.5rem 1rem' }}
+                                disabled={adding}
+                            />
+                            <input
+                                type="password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                placeholder="Password (optional)"
+                                autoComplete="off"
+                                className="search-input"
+                                style={{ width: 'auto', padding: '0.5rem 1rem' }}
+                                disabled={adding}
+                            />
+                        </>
+                    )}
+                </div>
+                {isPrivate && (
+                    <p style={{ color: 'var(--text-secondary)', fontSize: '0.75rem', marginTop: '0.5rem' }}>
+                        The feed URL and credentials are kept in your system's secure storage and never synced.
+                    </p>
+                )}
+                {addError && (
+                    <p style={{ color: '#ef4444', fontSize: '0.875rem', marginTop: '0.5rem' }}>
+                        {addError}
+                    </p>
+                )}
+            </div>
 
             {subsList.length === 0 ? (
                 <div className="text-center py-20">
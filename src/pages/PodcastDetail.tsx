@@ -1,10 +1,23 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { useParams } from 'react-router-dom';
 import { api } from '../services/api';
+import { feedService, reconcileEpisodes } from '../services/feedService';
+import {
+    CATALOG_PAGE_SIZE,
+    groupBySeason,
+    hasSeasons,
+    searchEpisodes,
+    sortEpisodes,
+    type EpisodeSortOrder,
+} from '../services/episodeCatalog';
+import { isLocalFilesUrl } from '../services/localFiles';
 import type { Podcast, Episode } from '../types';
 import { usePodcastStore } from '../store/usePodcastStore';
 import { usePlayerStore } from '../store/usePlayerStore';
-import { Play, Plus, Check, FileText, CheckCircle, PlusCircle, MinusCircle, Loader2 } from 'lucide-react';
+import { AutoQueueRulesEditor } from '../components/AutoQueueRulesEditor';
+import { DownloadIndicator } from '../components/DownloadIndicator';
+import { canStartManualDownload } from '../services/downloads';
+import { Play, Plus, Check, FileText, CheckCircle, PlusCircle, MinusCircle, Loader2, Search, Download, Clock } from 'lucide-react';
 import clsx from 'clsx';
 
 export const PodcastDetail: React.FC = () => {
@@ -12,8 +25,13 @@ export const PodcastDetail: React.FC = () => {
     const [podcast, setPodcast] = useState<Podcast | null>(null);
     const [episodes, setEpisodes] = useState<Episode[]>([]);
     const [loading, setLoading] = useState(true);
+    const [query, setQuery] = useState('');
+    const [sortOrder, setSortOrder] = useState<EpisodeSortOrder>('newest');
+    const [groupSeasons, setGroupSeasons] = useState(false);
+    const [visibleCount, setVisibleCount] = useState(CATALOG_PAGE_SIZE);
+    const loadMoreRef = useRef<HTMLDivElement>(null);
 
-    const { isSubscribed, subscribe, unsubscribe, loadEpisodes, isDownloaded, isDownloading, transcribeEpisode, getTranscriptionStatus, subscriptions, toggleAutoAddToQueue, cancelDownload, deleteEpisodeFile } = usePodcastStore();
+    const { episodes: storedEpisodes, isSubscribed, subscribe, unsubscribe, loadEpisodes, isDownloaded, isDownloading, downloadEpisode, downloadingEpisodes, queueTranscription, getTranscriptionStatus, subscriptions, toggleAutoAddToQueue, cancelDownload, deleteEpisodeFile } = usePodcastStore();
     const { play, addToQueue } = usePlayerStore();
     const subscribed = id ? isSubscribed(Number(id)) : false;
 
@@ -28,22 +46,19 @@ export const PodcastDetail: React.FC = () => {
             setLoading(true);
             try {
                 const feedId = Number(id);
-                const [podData, epsData] = await Promise.all([
-                    api.getPodcastByFeedId(feedId),
-                    api.getEpisodesByFeedId(feedId, 50) // Get last 50 episodes
-                ]);
 
-                if (podData && podData.feed) {
-                    setPodcast(podData.feed);
+                // Subscribed shows (including ones Podcast Index has never seen) are known locally;
+                // anything else is a Podcast Index result from search/discover
+                let podData: Podcast | null = usePodcastStore.getState().subscriptions[feedId] ?? null;
+                if (!podData && feedId > 0) {
+                    const response = await api.getPodcastByFeedId(feedId);
+                    podData = response?.feed ?? null;
                 }
-                if (epsData && epsData.items) {
-                    // Enrich episodes with feed data if missing
-                    const enrichedEpisodes = epsData.items.map((ep: Episode) => ({
-                        ...ep,
-                        feedTitle: ep.feedTitle || (podData?.feed?.title ?? ''),
-                        feedImage: ep.feedImage || (podData?.feed?.image ?? '')
-                    }));
-                    setEpisodes(enrichedEpisodes);
+
+                setPodcast(podData);
+                if (podData) {
+                    setEpisodes(await feedService.getBackCatalog(podData));
+                    setVisibleCount(CATALOG_PAGE_SIZE);
                 }
             } catch (error) {
                 console.error('Failed to load podcast:', error);
@@ -55,6 +70,33 @@ export const PodcastDetail: React.FC = () => {
         loadData();
     }, [id]);
 
+    // Overlay local state (played, downloaded, transcripts) as it changes
+    const catalog = useMemo(
+        () => (podcast ? reconcileEpisodes(episodes, storedEpisodes, podcast) : episodes),
+        [episodes, storedEpisodes, podcast]
+    );
+    const filtered = useMemo(
+        () => sortEpisodes(searchEpisodes(catalog, query), sortOrder),
+        [catalog, query, sortOrder]
+    );
+    const visible = filtered.slice(0, visibleCount);
+    const seasonsAvailable = useMemo(() => hasSeasons(catalog), [catalog]);
+    const hasMore = visibleCount < filtered.length;
+
+    // Infinite scroll: reveal the next page when the sentinel comes into view
+    useEffect(() => {
+        const sentinel = loadMoreRef.current;
+        if (!sentinel || !hasMore) return;
+
+        const observer = new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting)) {
+                setVisibleCount(count => count + CATALOG_PAGE_SIZE);
+            }
+        }, { rootMargin: '400px' });
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [hasMore, visibleCount]);
+
     const handleSubscribe = async () => {
         if (!podcast) return;
         if (subscribed) {
@@ -64,6 +106,112 @@ export const PodcastDetail: React.FC = () => {
         }
     };
 
+    const renderEpisode = (ep: Episode) => (
+        <div key={ep.id} className={clsx("episode-item group", ep.isPlayed && "opacity-60")}>
+            <div className="episode-content">
+                <div className="episode-main">
+                    <div className="episode-date" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                        <span>{new Date(ep.datePublished * 1000).toLocaleDateString()}</span>
+                        {ep.isPlayed && (
+                            <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', color: '#22c55e', fontSize: '0.75rem', fontWeight: 600 }}>
+                                <CheckCircle size={14} /> Played
+                            </span>
+                        )}
+                    </div>
+                    <h3 className="episode-title">
+                        {ep.title}
+                    </h3>
+                    <div className="episode-description" dangerouslySetInnerHTML={{ __html: ep.description }} />
+                    <DownloadIndicator episodeId={ep.id} />
+
+                    <div className="episode-actions">
+                        <button
+                            onClick={() => play(ep)}
+                            disabled={isDownloading(ep.id)}
+                            className={clsx("episode-action-btn play", usePlayerStore.getState().currentEpisode?.id === ep.id && "playing")}
+                            style={usePlayerStore.getState().currentEpisode?.id === ep.id ? { color: '#22c55e', borderColor: '#22c55e' } : {}}
+                        >
+                            {isDownloading(ep.id) ? (
+                                <>
+                                    <Loader2 size={16} className="animate-spin" /> Downloading...
+                                </>
+                            ) : (
+                                <>
+                                    <Play size={16} fill={usePlayerStore.getState().currentEpisode?.id === ep.id ? "#22c55e" : "currentColor"} /> Play
+                                </>
+                            )}
+                        </button>
+                        <button
+                            onClick={async () => {
+                                const isInQueue = usePlayerStore.getState().queue.some(q => q.id === ep.id);
+                                if (isInQueue) {
+                                    // Remove from queue, cancel download, delete file
+                                    usePlayerStore.getState().removeFromQueue(ep.id);
+                                    await cancelDownload(ep.id);
+                                    await deleteEpisodeFile(ep.id);
+                                } else {
+                                    addToQueue(ep);
+                                }
+                            }}
+                            className={clsx("episode-action-btn queue", usePlayerStore.getState().queue.some(q => q.id === ep.id) ? "in-queue" : "")}
+                            title={usePlayerStore.getState().queue.some(q => q.id === ep.id) ? "Remove from Queue" : "Add to Queue"}
+                        >
+                            {usePlayerStore.getState().queue.some(q => q.id === ep.id) ? (
+                                <MinusCircle size={16} />
+                            ) : (
+                                <PlusCircle size={16} />
+                            )}
+                            {usePlayerStore.getState().queue.some(q => q.id === ep.id) ? "Remove" : "Queue"}
+                        </button>
+
+                        {!isDownloaded(ep.id) && canStartManualDownload(downloadingEpisodes[ep.id]) && (
+                            <button
+                                onClick={() => downloadEpisode(storedEpisodes[ep.id] ?? ep)}
+                                className="episode-action-btn download"
+                                title="Download now, even if automatic downloads are limited"
+                            >
+                                <Download size={16} /> Download
+                            </button>
+                        )}
+
+                        {isDownloaded(ep.id) && (
+                            <button
+                                onClick={() => queueTranscription(ep.id)}
+                                className="episode-action-btn transcribe"
+                                disabled={getTranscriptionStatus(ep.id) === 'processing' || getTranscriptionStatus(ep.id) === 'pending' || getTranscriptionStatus(ep.id) === 'completed'}
+                            >
+                                {getTranscriptionStatus(ep.id) === 'processing' ? (
+                                    <>
+                                        <div className="animate-spin">⏳</div> Transcribing...
+                                    </>
+                                ) : getTranscriptionStatus(ep.id) === 'pending' ? (
+                                    <>
+                                        <Clock size={16} /> Queued
+                                    </>
+                                ) : getTranscriptionStatus(ep.id) === 'completed' ? (
+                                    <>
+                                        <Check size={16} /> Transcribed
+                                    </>
+                                ) : getTranscriptionStatus(ep.id) === 'failed' ? (
+                                    <>
+                                        <FileText size={16} /> Retry
+                                    </>
+                                ) : (
+                                    <>
+                                        <FileText size={16} /> Transcribe
+                                    </>
+                                )}
+                            </button>
+                        )}
+                        <span className="episode-duration">
+                            {Math.floor(ep.duration / 60)} min
+                        </span>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+
     if (loading) {
         return <div className="loading-state">Loading...</div>;
     }
@@ -72,6 +220,9 @@ export const PodcastDetail: React.FC = () => {
         return <div className="error-state">Podcast not found</div>;
     }
 
+    // Imported files: nothing to subscribe to or auto-queue
+    const isLocalLibrary = isLocalFilesUrl(podcast.url);
+
     return (
         <div className="podcast-detail-container" style={{ paddingTop: '2.5rem' }}>
             {/* Header */}
@@ -83,7 +234,7 @@ export const PodcastDetail: React.FC = () => {
                     <h1 className="podcast-title-hero">{podcast.title}</h1>
                     <p className="podcast-author-hero">{podcast.author}</p>
                     <div className="podcast-actions" style={{ display: 'flex', gap: '1rem', alignItems: 'center' }}>
-                        <button
+                        {!isLocalLibrary && <button
                             onClick={handleSubscribe}
                             className={clsx(
                                 "subscribe-btn",
@@ -91,9 +242,9 @@ export const PodcastDetail: React.FC = () => {
                             )}
                         >
                             {subscribed ? <><Check size={20} /> Subscribed</> : <><Plus size={20} /> Subscribe</>}
-                        </button>
+                        </button>}
 
-                        {subscribed && (
+                        {subscribed && !isLocalLibrary && (
                             <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer', userSelect: 'none', backgroundColor: 'rgba(255,255,255,0.1)', padding: '0.5rem 1rem', borderRadius: '9999px' }}>
                                 <input
                                     type="checkbox"
@@ -108,104 +259,82 @@ export const PodcastDetail: React.FC = () => {
                 </div>
             </div>
 
+            {subscribed && !isLocalLibrary && subscriptions[Number(id)] && (
+                <AutoQueueRulesEditor podcast={subscriptions[Number(id)]} />
+            )}
+
             {/* Description */}
             <div className="podcast-description" dangerouslySetInnerHTML={{ __html: podcast.description }} />
 
             {/* Episodes */}
             <div className="episodes-section">
-                <h2 className="section-title">Episodes</h2>
+                <div style={{ display: 'flex', alignItems: 'baseline', justifyContent: 'space-between', gap: '1rem', flexWrap: 'wrap' }}>
+                    <h2 className="section-title">Episodes</h2>
+                    <span style={{ fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
+                        Showing {visible.length} of {filtered.length}
+                        {filtered.length !== catalog.length && ` (${catalog.length} total)`}
+                    </span>
+                </div>
+                <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', flexWrap: 'wrap', marginBottom: '1rem' }}>
+                    <div className="search-form" style={{ flex: 1, minWidth: '200px' }}>
+                        <Search className="search-icon" size={18} />
+                        <input
+                            type="text"
+                            className="search-input"
+                            placeholder="Search this show's episodes..."
+                            value={query}
+                            onChange={e => { setQuery(e.target.value); setVisibleCount(CATALOG_PAGE_SIZE); }}
+                        />
+                    </div>
+                    <select
+                        value={sortOrder}
+                        onChange={e => { setSortOrder(e.target.value as EpisodeSortOrder); setVisibleCount(CATALOG_PAGE_SIZE); }}
+                        style={{ padding: '0.5rem', borderRadius: '0.375rem', border: '1px solid var(--border-color)', backgroundColor: 'var(--bg-secondary)', color: 'var(--text-primary)' }}
+                    >
+                        <option value="newest">Newest first</option>
+                        <option value="oldest">Oldest first</option>
+                        <option value="longest">Longest first</option>
+                    </select>
+                    {seasonsAvailable && (
+                        <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.875rem', cursor: 'pointer', userSelect: 'none' }}>
+                            <input
+                                type="checkbox"
+                                checked={groupSeasons}
+                                onChange={() => setGroupSeasons(!groupSeasons)}
+                                style={{ accentColor: 'var(--accent-color)' }}
+                            />
+                            Group by season
+                        </label>
+                    )}
+                </div>
                 <div className="episodes-list">
-                    {episodes.map((ep) => (
-                        <div key={ep.id} className={clsx("episode-item group", ep.isPlayed && "opacity-60")}>
-                            <div className="episode-content">
-                                <div className="episode-main">
-                                    <div className="episode-date" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                                        <span>{new Date(ep.datePublished * 1000).toLocaleDateString()}</span>
-                                        {ep.isPlayed && (
-                                            <span style={{ display: 'flex', alignItems: 'center', gap: '0.25rem', color: '#22c55e', fontSize: '0.75rem', fontWeight: 600 }}>
-                                                <CheckCircle size={14} /> Played
-                                            </span>
-                                        )}
-                                    </div>
-                                    <h3 className="episode-title">
-                                        {ep.title}
-                                    </h3>
-                                    <div className="episode-description" dangerouslySetInnerHTML={{ __html: ep.description }} />
-
-                                    <div className="episode-actions">
-                                        <button
-                                            onClick={() => play(ep)}
-                                            disabled={isDownloading(ep.id)}
-                                            className={clsx("episode-action-btn play", usePlayerStore.getState().currentEpisode?.id === ep.id && "playing")}
-                                            style={usePlayerStore.getState().currentEpisode?.id === ep.id ? { color: '#22c55e', borderColor: '#22c55e' } : {}}
-                                        >
-                                            {isDownloading(ep.id) ? (
-                                                <>
-                                                    <Loader2 size={16} className="animate-spin" /> Downloading...
-                                                </>
-                                            ) : (
-                                                <>
-                                                    <Play size={16} fill={usePlayerStore.getState().currentEpisode?.id === ep.id ? "#22c55e" : "currentColor"} /> Play
-                                                </>
-                                            )}
-                                        </button>
-                                        <button
-                                            onClick={async () => {
-                                                const isInQueue = usePlayerStore.getState().queue.some(q => q.id === ep.id);
-                                                if (isInQueue) {
-                                                    // Remove from queue, cancel download, delete file
-                                                    usePlayerStore.getState().removeFromQueue(ep.id);
-                                                    await cancelDownload(ep.id);
-                                                    await deleteEpisodeFile(ep.id);
-                                                } else {
-                                                    addToQueue(ep);
-                                                }
-                                            }}
-                                            className={clsx("episode-action-btn queue", usePlayerStore.getState().queue.some(q => q.id === ep.id) ? "in-queue" : "")}
-                                            title={usePlayerStore.getState().queue.some(q => q.id === ep.id) ? "Remove from Queue" : "Add to Queue"}
-                                        >
-                                            {usePlayerStore.getState().queue.some(q => q.id === ep.id) ? (
-                                                <MinusCircle size={16} />
-                                            ) : (
-                                                <PlusCircle size={16} />
-                                            )}
-                                            {usePlayerStore.getState().queue.some(q => q.id === ep.id) ? "Remove" : "Queue"}
-                                        </button>
-
-                                        {isDownloaded(ep.id) && (
-                                            <button
-                                                onClick={() => transcribeEpisode(ep.id)}
-                                                className="episode-action-btn transcribe"
-                                                disabled={getTranscriptionStatus(ep.id) === 'processing' || getTranscriptionStatus(ep.id) === 'completed'}
-                                            >
-                                                {getTranscriptionStatus(ep.id) === 'processing' ? (
-                                                    <>
-                                                        <div className="animate-spin">⏳</div> Transcribing...
-                                                    </>
-                                                ) : getTranscriptionStatus(ep.id) === 'completed' ? (
-                                                    <>
-                                                        <Check size={16} /> Transcribed
-                                                    </>
-                                                ) : getTranscriptionStatus(ep.id) === 'failed' ? (
-                                                    <>
-                                                        <FileText size={16} /> Retry
-                                                    </>
-                                                ) : (
-                                                    <>
-                                                        <FileText size={16} /> Transcribe
-                                                    </>
-                                                )}
-                                            </button>
-                                        )}
-                                        <span className="episode-duration">
-                                            {Math.floor(ep.duration / 60)} min
-                                        </span>
-                                    </div>
+                    {groupSeasons && seasonsAvailable ? (
+                        groupBySeason(visible).map(group => (
+                            <div key={group.season ?? 'none'}>
+                                <h3 className="section-title" style={{ fontSize: '1rem', margin: '1rem 0 0.5rem' }}>
+                                    {group.season !== null ? `Season ${group.season}` : 'Other episodes'}
+                                </h3>
+                                <div className="episodes-list">
+                                    {group.episodes.map(renderEpisode)}
                                 </div>
                             </div>
+                        ))
+                    ) : (
+                        visible.map(renderEpisode)
+                    )}
+                    {filtered.length === 0 && (
+                        <div className="empty-state">
+                            {query ? `No episodes match "${query}"` : 'No episodes found'}
                         </div>
-                    ))}
+                    )}
                 </div>
+                {hasMore && (
+                    <div ref={loadMoreRef} style={{ display: 'flex', justifyContent: 'center', padding: '1rem' }}>
+                        <button className="action-btn" onClick={() => setVisibleCount(count => count + CATALOG_PAGE_SIZE)}>
+                            Load more
+                        </button>
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -1,22 +1,34 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { db } from '../services/db';
 import { usePlayerStore } from '../store/usePlayerStore';
+import { usePodcastStore } from '../store/usePodcastStore';
 import { setDebugEnabled } from '../utils/logger';
 // COMMENTED OUT: LLM models now handled by cloud backend
 // import { LLM_MODELS, DEFAULT_LLM_MODEL } from '../services/skippableSegments';
 import { SettingsToast } from '../components/SettingsToast';
+import { storageJanitor } from '../services/storageJanitor';
+import { formatBytes } from '../services/downloads';
+import { applyDownloadPolicy, describeAutomaticDownloadBlock, getAutomaticDownloadBlock } from '../services/downloadPolicy';
+import { getLocalTranscriptionStatus } from '../services/localTranscription';
+import { PROTECTED_QUEUE_ITEMS, type DiskUsageEntry } from '../services/storagePolicy';
 import { getSession, signOut } from '../services/supabaseClient';
 // COMMENTED OUT: LLM types no longer needed - cloud backend handles this
 // import type { UserPreferences, CompressionQuality, LLMModelId, ReasoningEffort } from '../types';
-import type { UserPreferences, CompressionQuality } from '../types';
+import type { UserPreferences, CompressionQuality, TranscriptionMode } from '../types';
+import type { LocalTranscriptionStatus } from '../types/electron';
 
 export default function Settings() {
     const [preferences, setPreferences] = useState<UserPreferences | null>(null);
     const [storageInfo, setStorageInfo] = useState<any>(null);
+    const [diskUsage, setDiskUsage] = useState<DiskUsageEntry[]>([]);
+    const [cleaning, setCleaning] = useState(false);
+    const [cleanupResult, setCleanupResult] = useState<string | null>(null);
     const [saved, setSaved] = useState(false);
     const [appVersion, setAppVersion] = useState<string>('');
     const [updateStatus, setUpdateStatus] = useState<any>(null);
     const [user, setUser] = useState<{ email?: string } | null>(null);
+    const [localTranscription, setLocalTranscription] = useState<LocalTranscriptionStatus | null>(null);
 
 
     useEffect(() => {
@@ -26,6 +38,7 @@ export default function Settings() {
         if (window.electronAPI?.getVersion) {
             window.electronAPI.getVersion().then(setAppVersion);
         }
+        getLocalTranscriptionStatus().then(setLocalTranscription);
 
         // Load user session
         getSession().then(session => {
@@ -74,6 +87,25 @@ export default function Settings() {
             const info = await window.electronAPI.getStorageInfo();
             setStorageInfo(info);
         }
+        setDiskUsage(await storageJanitor.getDiskUsage());
+    };
+
+    const handleCleanupNow = async () => {
+        setCleaning(true);
+        setCleanupResult(null);
+        try {
+            const deleted = await storageJanitor.run();
+            const freed = deleted.reduce((sum, item) => sum + item.bytes, 0);
+            setCleanupResult(deleted.length > 0
+                ? `Deleted ${deleted.length} episode file(s), freed ${formatBytes(freed)}`
+                : 'Nothing to clean up');
+            await loadStorageInfo();
+        } catch (error) {
+            console.error('[Settings] Cleanup failed:', error);
+            setCleanupResult('Cleanup failed');
+        } finally {
+            setCleaning(false);
+        }
     };
 
 
@@ -136,12 +168,28 @@ export default function Settings() {
         if (key === 'volume') {
             usePlayerStore.getState().setVolume(value as number);
         }
+        if (key === 'maxConcurrentDownloads') {
+            window.electronAPI?.setDownloadConcurrency?.(value as number);
+        }
+        if (key === 'maxConcurrentTranscriptions') {
+            usePodcastStore.getState().setTranscriptionConcurrency(value as number);
+        }
+        if (key === 'downloadBandwidthLimitKBps' || key === 'automaticDownloadWindows' || key === 'pauseAutomaticDownloads' || key === 'manualDownloadsOnly') {
+            applyDownloadPolicy(newPrefs);
+        }
 
         // Show saved indicator
         setSaved(true);
         setTimeout(() => setSaved(false), 2000);
     };
 
+    const updateDownloadWindow = (index: number, field: 'start' | 'end', value: string) => {
+        if (!preferences) return;
+        updatePreference('automaticDownloadWindows', preferences.automaticDownloadWindows.map((range, i) =>
+            i === index ? { ...range, [field]: value } : range
+        ));
+    };
+
     if (!preferences) {
         return (
             <div className="settings-page">
@@ -155,6 +203,8 @@ export default function Settings() {
         );
     }
 
+    const downloadBlock = getAutomaticDownloadBlock(preferences);
+
     return (
         <div className="settings-page">
             <div className="settings-header">
@@ -184,6 +234,131 @@ export default function Settings() {
                             How often to check for new episodes in the background.
                         </p>
                     </div>
+                    <div className="setting-item">
+                        <label htmlFor="max-downloads">Simultaneous Downloads</label>
+                        <input
+                            id="max-downloads"
+                            type="number"
+                            min="1"
+                            max="8"
+                            value={preferences.maxConcurrentDownloads}
+                            onChange={(e) => updatePreference('maxConcurrentDownloads', Math.min(8, Math.max(1, parseInt(e.target.value) || 1)))}
+                            style={{ width: '80px' }}
+                        />
+                        <p className="setting-description">
+                            Episodes download a few at a time: the one you're playing first, then your queue in order.
+                        </p>
+                    </div>
+                    <div className="setting-item">
+                        <label htmlFor="video-audio-only" style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                            <input
+                                id="video-audio-only"
+                                type="checkbox"
+                                checked={preferences.videoAudioOnly}
+                                onChange={(e) => updatePreference('videoAudioOnly', e.target.checked)}
+                            />
+                            Keep only the audio of video episodes
+                        </label>
+                        <p className="setting-description">
+                            Downloaded videos are replaced by their audio track, which takes far less space. Streaming still shows the video.
+                        </p>
+                    </div>
+                </section>
+
+                {/* Automatic Downloads */}
+                <section className="settings-section">
+                    <h2>Automatic Downloads</h2>
+                    <p className="setting-description" style={{ marginBottom: '12px' }}>
+                        These limits apply to episodes downloaded in the background for your queue and auto-queue rules.
+                        Downloads you start yourself, by clicking Download or playing an episode, ignore them.
+                    </p>
+                    <div className="setting-item">
+                        <label htmlFor="pause-automatic-downloads" style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                            <input
+                                id="pause-automatic-downloads"
+                                type="checkbox"
+                                checked={preferences.pauseAutomaticDownloads}
+                                onChange={(e) => updatePreference('pauseAutomaticDownloads', e.target.checked)}
+                            />
+                            Pause all automatic downloads
+                        </label>
+                        <p className="setting-description">
+                            Running downloads stop and pick up where they left off once you unpause.
+                        </p>
+                    </div>
+                    <div className="setting-item">
+                        <label htmlFor="manual-downloads-only" style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                            <input
+                                id="manual-downloads-only"
+                                type="checkbox"
+                                checked={preferences.manualDownloadsOnly}
+                                onChange={(e) => updatePreference('manualDownloadsOnly', e.target.checked)}
+                            />
+                            Only download when I ask
+                        </label>
+                        <p className="setting-description">
+                            Queued episodes wait until you click Download. They still stream when played.
+                        </p>
+                    </div>
+                    <div className="setting-item">
+                        <label htmlFor="bandwidth-limit">Bandwidth Limit</label>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                            <input
+                                id="bandwidth-limit"
+                                type="number"
+                                min="0"
+                                step="50"
+                                value={preferences.downloadBandwidthLimitKBps}
+                                onChange={(e) => updatePreference('downloadBandwidthLimitKBps', Math.max(0, parseInt(e.target.value) || 0))}
+                                style={{ width: '100px' }}
+                            />
+                            <span>KB/s (0 = no limit)</span>
+                        </div>
+                        <p className="setting-description">
+                            Shared by all automatic downloads.
+                        </p>
+                    </div>
+                    <div className="setting-item">
+                        <label>Allowed Times</label>
+                        {preferences.automaticDownloadWindows.map((range, index) => (
+                            <div key={index} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '6px' }}>
+                                <input
+                                    type="time"
+                                    aria-label="From"
+                                    value={range.start}
+                                    onChange={(e) => updateDownloadWindow(index, 'start', e.target.value)}
+                                />
+                                <span>to</span>
+                                <input
+                                    type="time"
+                                    aria-label="Until"
+                                    value={range.end}
+                                    onChange={(e) => updateDownloadWindow(index, 'end', e.target.value)}
+                                />
+                                <button
+                                    onClick={() => updatePreference('automaticDownloadWindows', preferences.automaticDownloadWindows.filter((_, i) => i !== index))}
+                                    style={{ padding: '4px 10px', backgroundColor: '#444', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                                >
+                                    Remove
+                                </button>
+                            </div>
+                        ))}
+                        <button
+                            onClick={() => updatePreference('automaticDownloadWindows', [...preferences.automaticDownloadWindows, { start: '01:00', end: '06:00' }])}
+                            style={{ padding: '8px 16px', backgroundColor: '#444', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                        >
+                            Add Time Window
+                        </button>
+                        <p className="setting-description">
+                            Automatic downloads only run inside these windows; without any, they run at any time.
+                            A window may run past midnight, e.g. 22:00 to 06:00.
+                        </p>
+                    </div>
+                    {downloadBlock && (
+                        <p className="setting-description">
+                            {describeAutomaticDownloadBlock(downloadBlock, preferences.automaticDownloadWindows)}
+                        </p>
+                    )}
                 </section>
 
                 {/* Account Section */}
@@ -294,6 +469,73 @@ export default function Settings() {
                     </div>
                 </section>
 
+                {/* Transcription */}
+                <section className="settings-section">
+                    <h2>Transcription</h2>
+                    <div className="setting-item">
+                        <label htmlFor="transcription-mode">Transcribe Episodes</label>
+                        <select
+                            id="transcription-mode"
+                            value={preferences.transcriptionMode}
+                            onChange={(e) => updatePreference('transcriptionMode', e.target.value as TranscriptionMode)}
+                        >
+                            <option value="cloud">In the cloud</option>
+                            <option value="local">On this computer</option>
+                            <option value="local-first">On this computer, cloud if that fails</option>
+                        </select>
+                        <p className="setting-description">
+                            On this computer uses whisper.cpp: it works offline and the audio never leaves your machine, but takes a while
+                            on a CPU. Skippable segments are still detected in the cloud from the transcript text when you're online.
+                        </p>
+                    </div>
+                    {preferences.transcriptionMode !== 'cloud' && (
+                        <div className="setting-item">
+                            <label>whisper.cpp</label>
+                            <p className="setting-description">
+                                Program: {localTranscription?.binaryPath ?? 'not found'}
+                                <br />
+                                Model: {localTranscription?.modelPath ?? 'not chosen'}
+                            </p>
+                            {localTranscription?.problem && (
+                                <p className="setting-description" style={{ color: '#ef4444' }}>{localTranscription.problem}</p>
+                            )}
+                            <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+                                <button
+                                    onClick={async () => setLocalTranscription(await window.electronAPI?.chooseLocalTranscriptionFile('binary') ?? null)}
+                                    style={{ padding: '8px 16px', backgroundColor: '#444', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                                >
+                                    Choose Program...
+                                </button>
+                                <button
+                                    onClick={async () => setLocalTranscription(await window.electronAPI?.chooseLocalTranscriptionFile('model') ?? null)}
+                                    style={{ padding: '8px 16px', backgroundColor: '#444', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                                >
+                                    Choose Model...
+                                </button>
+                            </div>
+                            <p className="setting-description">
+                                Install whisper.cpp (whisper-cli) and download a ggml model such as ggml-base.en.bin. Larger models are
+                                more accurate and slower.
+                            </p>
+                        </div>
+                    )}
+                    <div className="setting-item">
+                        <label htmlFor="max-transcriptions">Simultaneous Transcriptions</label>
+                        <input
+                            id="max-transcriptions"
+                            type="number"
+                            min="1"
+                            max="4"
+                            value={preferences.maxConcurrentTranscriptions}
+                            onChange={(e) => updatePreference('maxConcurrentTranscriptions', Math.min(4, Math.max(1, parseInt(e.target.value) || 1)))}
+                            style={{ width: '80px' }}
+                        />
+                        <p className="setting-description">
+                            Downloaded episodes wait their turn to be transcribed: the one you're playing first, then your queue in order.
+                        </p>
+                    </div>
+                </section>
+
                 {/* COMMENTED OUT: Transcription section - now handled by cloud backend
                 <section className="settings-section">
                     <h2>Transcription</h2>
@@ -588,6 +830,127 @@ export default function Settings() {
                         >
                             Open Folder
                         </button>
+                        <Link
+                            to="/storage"
+                            style={{
+                                marginTop: '8px',
+                                marginLeft: '8px',
+                                padding: '4px 12px',
+                                backgroundColor: '#444',
+                                color: 'white',
+                                borderRadius: '4px',
+                                display: 'inline-block',
+                                textDecoration: 'none'
+                            }}
+                            title="List every file with its episode, and find orphaned files and missing downloads"
+                        >
+                            Inspect Files
+                        </Link>
+                    </div>
+
+                    {diskUsage.length > 0 && (
+                        <div className="setting-item">
+                            <label>Usage by Podcast</label>
+                            <table style={{ width: '100%', fontSize: '0.875rem', borderCollapse: 'collapse' }}>
+                                <tbody>
+                                    {diskUsage.map(entry => (
+                                        <tr key={entry.podcastId ?? 'other'} style={{ borderBottom: '1px solid var(--border-color)' }}>
+                                            <td style={{ padding: '4px 0' }}>{entry.title}</td>
+                                            <td style={{ padding: '4px 8px', color: 'var(--text-secondary)', textAlign: 'right' }}>
+                                                {entry.podcastId === null ? '' : `${entry.episodeCount} episode(s)`}
+                                            </td>
+                                            <td style={{ padding: '4px 0', textAlign: 'right', whiteSpace: 'nowrap' }}>{formatBytes(entry.bytes)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    <div className="setting-item">
+                        <label htmlFor="max-storage">Maximum Storage</label>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                            <input
+                                id="max-storage"
+                                type="number"
+                                min="0"
+                                step="100"
+                                value={preferences.maxStorageMB}
+                                onChange={(e) => updatePreference('maxStorageMB', Math.max(0, parseInt(e.target.value) || 0))}
+                                style={{ width: '100px' }}
+                            />
+                            <span>MB</span>
+                        </div>
+                        <p className="setting-description">
+                            When downloads exceed this, played and older episodes are deleted first. 0 = no limit.
+                        </p>
+                    </div>
+
+                    <div className="setting-item">
+                        <label htmlFor="max-per-podcast">Downloads per Podcast</label>
+                        <input
+                            id="max-per-podcast"
+                            type="number"
+                            min="0"
+                            value={preferences.maxEpisodesPerPodcast}
+                            onChange={(e) => updatePreference('maxEpisodesPerPodcast', Math.max(0, parseInt(e.target.value) || 0))}
+                            style={{ width: '80px' }}
+                        />
+                        <p className="setting-description">
+                            Keep at most this many downloaded episodes of each podcast, newest first. 0 = no limit.
+                        </p>
+                    </div>
+
+                    <div className="setting-item">
+                        <label htmlFor="delete-played-after">Delete Played Episodes After</label>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                            <input
+                                id="delete-played-after"
+                                type="number"
+                                min="0"
+                                value={preferences.deletePlayedAfterDays}
+                                onChange={(e) => updatePreference('deletePlayedAfterDays', Math.max(0, parseInt(e.target.value) || 0))}
+                                style={{ width: '80px' }}
+                            />
+                            <span>days</span>
+                        </div>
+                        <p className="setting-description">
+                            For played episodes that are still downloaded, e.g. still queued or played on another device. 0 = never.
+                        </p>
+                    </div>
+
+                    <div className="setting-item">
+                        <label htmlFor="delete-on-unsubscribe" style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                            <input
+                                id="delete-on-unsubscribe"
+                                type="checkbox"
+                                checked={preferences.deleteFilesOnUnsubscribe}
+                                onChange={(e) => updatePreference('deleteFilesOnUnsubscribe', e.target.checked)}
+                            />
+                            Delete downloads when unsubscribing
+                        </label>
+                    </div>
+
+                    <div className="setting-item">
+                        <p className="setting-description">
+                            Cleanup runs in the background and never touches the playing episode or the next {PROTECTED_QUEUE_ITEMS} in your queue.
+                        </p>
+                        <button
+                            onClick={handleCleanupNow}
+                            disabled={cleaning}
+                            style={{
+                                marginTop: '8px',
+                                padding: '4px 12px',
+                                backgroundColor: '#444',
+                                color: 'white',
+                                border: 'none',
+                                borderRadius: '4px',
+                                cursor: 'pointer'
+                            }}
+                        >
+                            {cleaning ? 'Cleaning up...' : 'Clean Up Now'}
+                        </button>
+                        {cleanupResult && <span style={{ marginLeft: '8px', fontSize: '0.875rem' }}>{cleanupResult}</span>}
                     </div>
                 </section>
 
@@ -610,7 +973,8 @@ export default function Settings() {
                             <option value="96">96 kbps (Best quality, larger files)</option>
                         </select>
                         <p className="setting-description">
-                            Lower bitrates reduce file size and transcription costs but may affect audio quality.
+                            Episodes are compressed to mono at this bitrate before uploading to the cloud. Lower bitrates
+                            upload faster and reduce transcription costs but may affect audio quality.
                             Select "Original" to skip compression and upload the full-quality audio file for transcription.
                         </p>
                     </div>
@@ -0,0 +1,349 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Download, Link2, Loader, RefreshCw, Trash2, X } from 'lucide-react';
+import { formatBytes } from '../services/downloads';
+import {
+    storageInspector,
+    type InspectedFile,
+    type StorageReport,
+    type StoredFileStatus,
+} from '../services/storageInspector';
+
+type StatusFilter = 'all' | 'problems' | StoredFileStatus;
+
+const STATUS_LABELS: Record<StoredFileStatus, string> = {
+    linked: 'Linked',
+    unlinked: 'Not linked',
+    leftover: 'Leftover',
+    orphan: 'Orphan',
+    busy: 'In use',
+};
+
+const STATUS_COLORS: Record<StoredFileStatus, string> = {
+    linked: 'var(--text-secondary)',
+    unlinked: '#f59e0b',
+    leftover: '#f59e0b',
+    orphan: '#ef4444',
+    busy: 'var(--accent-color)',
+};
+
+const isProblem = (file: InspectedFile) => file.status !== 'linked' && file.status !== 'busy';
+
+const formatDate = (ms: number | undefined) => ms ? new Date(ms).toLocaleDateString() : '—';
+
+const buttonStyle: React.CSSProperties = {
+    padding: '4px 12px',
+    backgroundColor: '#444',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '4px',
+};
+
+const cellStyle: React.CSSProperties = { padding: '6px 8px', verticalAlign: 'top' };
+
+export const StorageInspector: React.FC = () => {
+    const [report, setReport] = useState<StorageReport | null>(null);
+    const [storageInfo, setStorageInfo] = useState<{ totalSizeBytes: number; fileCount: number; storagePath: string } | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [filter, setFilter] = useState<StatusFilter>('problems');
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [working, setWorking] = useState(false);
+    const [message, setMessage] = useState<{ text: string; isError?: boolean } | null>(null);
+
+    // Bumped to scan the folder again
+    const [scan, setScan] = useState(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all([
+            storageInspector.getReport(),
+            window.electronAPI?.getStorageInfo?.() ?? Promise.resolve(null),
+        ])
+            .then(([nextReport, info]) => {
+                if (cancelled) return;
+                setReport(nextReport);
+                setStorageInfo(info);
+                setSelected(new Set());
+            })
+            .catch(error => {
+                console.error('[StorageInspector] Failed to inspect storage:', error);
+                if (!cancelled) setMessage({ text: 'Could not read the storage folder', isError: true });
+            })
+            .finally(() => {
+                if (!cancelled) setLoading(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [scan]);
+
+    const rescan = () => {
+        setLoading(true);
+        setScan(n => n + 1);
+    };
+
+    const files = useMemo(() => {
+        const all = report?.files ?? [];
+        const shown = filter === 'all' ? all : filter === 'problems' ? all.filter(isProblem) : all.filter(file => file.status === filter);
+        return [...shown].sort((a, b) => b.size - a.size);
+    }, [report, filter]);
+
+    const counts = useMemo(() => {
+        const byStatus = new Map<StoredFileStatus, { count: number; bytes: number }>();
+        for (const file of report?.files ?? []) {
+            const entry = byStatus.get(file.status) ?? { count: 0, bytes: 0 };
+            entry.count++;
+            entry.bytes += file.size;
+            byStatus.set(file.status, entry);
+        }
+        return byStatus;
+    }, [report]);
+
+    const selectedFiles = files.filter(file => selected.has(file.filename));
+
+    const toggle = (filename: string) => {
+        setSelected(current => {
+            const next = new Set(current);
+            if (next.has(filename)) next.delete(filename);
+            else next.add(filename);
+            return next;
+        });
+    };
+
+    const toggleAll = () => {
+        const selectable = files.filter(file => file.status !== 'busy');
+        setSelected(selectedFiles.length === selectable.length ? new Set() : new Set(selectable.map(file => file.filename)));
+    };
+
+    const run = async (action: () => Promise<string>) => {
+        setWorking(true);
+        setMessage(null);
+        try {
+            setMessage({ text: await action() });
+        } catch (error) {
+            setMessage({ text: error instanceof Error ? error.message : String(error), isError: true });
+        } finally {
+            setWorking(false);
+            rescan();
+        }
+    };
+
+    const handleDelete = () => {
+        const linked = selectedFiles.filter(file => file.status === 'linked').length;
+        const prompt = linked > 0
+            ? `Delete ${selectedFiles.length} file(s)? ${linked} of them are downloaded episodes, which will be marked as not downloaded.`
+            : `Delete ${selectedFiles.length} file(s)?`;
+        if (!confirm(prompt)) return;
+        run(async () => `Freed ${formatBytes(await storageInspector.deleteFiles(selectedFiles))}`);
+    };
+
+    const handleRelink = (episodeId: number, filename: string) => run(async () => {
+        const check = await storageInspector.relinkFile(episodeId, filename);
+        if (!check.ok) throw new Error(`Could not re-link ${filename}: ${check.message}`);
+        return `Re-linked ${filename}`;
+    });
+
+    const handleRedownload = (episodeId: number) => run(async () => {
+        const result = await storageInspector.redownload(episodeId);
+        if (!result.success) throw new Error(`Re-download failed: ${result.error}`);
+        return 'Episode downloaded again';
+    });
+
+    const handleForget = (episodeId: number) => run(async () => {
+        await storageInspector.forgetFile(episodeId);
+        return 'Episode marked as not downloaded';
+    });
+
+    if (!window.electronAPI) {
+        return (
+            <div className="page-container">
+                <h1 className="page-title">Storage</h1>
+                <p>The storage inspector requires the desktop app.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="page-container">
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '1rem' }}>
+                <h1 className="page-title" style={{ marginBottom: 0 }}>Storage</h1>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    <Link to="/settings" className="action-btn"><ArrowLeft size={16} /> Settings</Link>
+                    <button className="action-btn" onClick={rescan} disabled={loading || working}>
+                        {loading ? <Loader className="animate-spin" size={16} /> : <RefreshCw size={16} />} Rescan
+                    </button>
+                    <button className="action-btn" onClick={() => window.electronAPI?.openStorageFolder?.()}>
+                        Open Folder
+                    </button>
+                </div>
+            </div>
+
+            {storageInfo && (
+                <div className="settings-section">
+                    <p style={{ marginTop: 0 }}>
+                        <strong>{formatBytes(storageInfo.totalSizeBytes)}</strong> in {storageInfo.fileCount} media file(s)
+                    </p>
+                    <p style={{ margin: 0, fontFamily: 'monospace', fontSize: '12px', color: 'var(--text-secondary)', wordBreak: 'break-all' }}>
+                        {storageInfo.storagePath}
+                    </p>
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem', marginTop: '0.75rem', fontSize: '0.875rem' }}>
+                        {(Object.keys(STATUS_LABELS) as StoredFileStatus[]).map(status => counts.has(status) && (
+                            <span key={status} style={{ color: STATUS_COLORS[status] }}>
+                                {STATUS_LABELS[status]}: {counts.get(status)?.count} ({formatBytes(counts.get(status)?.bytes ?? 0)})
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {message && (
+                <div className="settings-section" style={{ position: 'relative' }}>
+                    <button
+                        onClick={() => setMessage(null)}
+                        style={{ position: 'absolute', top: '0.75rem', right: '0.75rem', background: 'none', border: 'none', color: 'var(--text-secondary)', cursor: 'pointer' }}
+                        title="Dismiss"
+                    >
+                        <X size={16} />
+                    </button>
+                    <p style={{ margin: 0, color: message.isError ? '#ef4444' : undefined }}>{message.text}</p>
+                </div>
+            )}
+
+            {report && report.dangling.length > 0 && (
+                <section className="settings-section">
+                    <h2>Missing Files</h2>
+                    <p className="setting-description">
+                        These episodes are marked as downloaded but their file is gone.
+                    </p>
+                    <table style={{ width: '100%', fontSize: '0.875rem', borderCollapse: 'collapse' }}>
+                        <tbody>
+                            {report.dangling.map(record => (
+                                <tr key={record.episodeId} style={{ borderBottom: '1px solid var(--border-color)' }}>
+                                    <td style={cellStyle}>
+                                        <div>{record.title}</div>
+                                        <div style={{ color: 'var(--text-secondary)' }}>{record.podcastTitle} · expected {record.expectedFilename}</div>
+                                    </td>
+                                    <td style={{ ...cellStyle, textAlign: 'right', whiteSpace: 'nowrap' }}>
+                                        {record.relinkFilename && (
+                                            <button
+                                                style={buttonStyle}
+                                                disabled={working}
+                                                onClick={() => record.relinkFilename && handleRelink(record.episodeId, record.relinkFilename)}
+                                                title={`Use ${record.relinkFilename} as this episode's file`}
+                                            >
+                                                <Link2 size={14} /> Re-link
+                                            </button>
+                                        )}
+                                        <button
+                                            style={{ ...buttonStyle, marginLeft: '8px' }}
+                                            disabled={working}
+                                            onClick={() => handleRedownload(record.episodeId)}
+                                        >
+                                            <Download size={14} /> Re-download
+                                        </button>
+                                        <button
+                                            style={{ ...buttonStyle, marginLeft: '8px' }}
+                                            disabled={working}
+                                            onClick={() => handleForget(record.episodeId)}
+                                            title="Mark as not downloaded"
+                                        >
+                                            <X size={14} /> Forget
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </section>
+            )}
+
+            <section className="settings-section">
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '1rem', marginBottom: '0.75rem' }}>
+                    <h2 style={{ margin: 0 }}>Files</h2>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                        <select
+                            value={filter}
+                            onChange={(e) => { setFilter(e.target.value as StatusFilter); setSelected(new Set()); }}
+                            style={{ padding: '4px 8px', borderRadius: '4px', backgroundColor: '#2a2a2a', color: 'white', border: '1px solid #444' }}
+                        >
+                            <option value="problems">Needs attention</option>
+                            <option value="all">All files</option>
+                            {(Object.keys(STATUS_LABELS) as StoredFileStatus[]).map(status => (
+                                <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                            ))}
+                        </select>
+                        <button
+                            style={{ ...buttonStyle, backgroundColor: selectedFiles.length > 0 ? '#ef4444' : '#444' }}
+                            disabled={working || selectedFiles.length === 0}
+                            onClick={handleDelete}
+                        >
+                            <Trash2 size={14} /> Delete {selectedFiles.length > 0 ? `${selectedFiles.length} (${formatBytes(selectedFiles.reduce((sum, file) => sum + file.size, 0))})` : ''}
+                        </button>
+                    </div>
+                </div>
+
+                {files.length === 0 ? (
+                    <p className="setting-description">{loading ? 'Scanning...' : 'Nothing to show.'}</p>
+                ) : (
+                    <table style={{ width: '100%', fontSize: '0.875rem', borderCollapse: 'collapse' }}>
+                        <thead>
+                            <tr style={{ textAlign: 'left', color: 'var(--text-secondary)' }}>
+                                <th style={cellStyle}>
+                                    <input type="checkbox" checked={selectedFiles.length > 0 && selectedFiles.length === files.filter(f => f.status !== 'busy').length} onChange={toggleAll} />
+                                </th>
+                                <th style={cellStyle}>File</th>
+                                <th style={cellStyle}>Episode</th>
+                                <th style={cellStyle}>Played</th>
+                                <th style={{ ...cellStyle, textAlign: 'right' }}>Size</th>
+                                <th style={cellStyle}>Status</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {files.map(file => (
+                                <tr key={file.filename} style={{ borderBottom: '1px solid var(--border-color)' }}>
+                                    <td style={cellStyle}>
+                                        <input
+                                            type="checkbox"
+                                            checked={selected.has(file.filename)}
+                                            disabled={file.status === 'busy'}
+                                            onChange={() => toggle(file.filename)}
+                                        />
+                                    </td>
+                                    <td style={{ ...cellStyle, fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                                        {file.filename}
+                                        <div style={{ color: 'var(--text-secondary)', fontFamily: 'inherit' }}>{file.kind} · {formatDate(file.modifiedAt)}</div>
+                                    </td>
+                                    <td style={cellStyle}>
+                                        {file.episodeTitle ?? <span style={{ color: 'var(--text-secondary)' }}>Unknown</span>}
+                                        {file.podcastTitle && <div style={{ color: 'var(--text-secondary)' }}>{file.podcastTitle}</div>}
+                                    </td>
+                                    <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>
+                                        {file.episodeId === null ? '—' : file.isPlayed ? `Yes, ${formatDate(file.playedAt)}` : 'No'}
+                                    </td>
+                                    <td style={{ ...cellStyle, textAlign: 'right', whiteSpace: 'nowrap' }}>{formatBytes(file.size)}</td>
+                                    <td style={{ ...cellStyle, whiteSpace: 'nowrap', color: STATUS_COLORS[file.status] }}>
+                                        {STATUS_LABELS[file.status]}
+                                        {file.status === 'unlinked' && file.episodeId !== null && (
+                                            <button
+                                                style={{ ...buttonStyle, marginLeft: '8px' }}
+                                                disabled={working}
+                                                onClick={() => file.episodeId !== null && handleRelink(file.episodeId, file.filename)}
+                                                title="Use this file as the episode's download"
+                                            >
+                                                <Link2 size={14} /> Re-link
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </section>
+        </div>
+    );
+};
@@ -0,0 +1,106 @@
+/**
+ * Ad-free Export
+ *
+ * Builds the request for exporting a downloaded episode without its
+ * skippable segments (the main process does the cutting, see
+ * electron/audioExport.ts): which segments to cut by type, the chapters and
+ * ID3 tags to write, and a file name for the copy.
+ */
+
+import type { AdSegment, Episode } from '../types';
+import type { ExportRequest, ExportTags, ExportTimeRange } from '../types/electron';
+import { getEpisodeFilename } from './mediaTypes';
+
+export type SegmentType = AdSegment['type'];
+
+export interface ExportOptions {
+    types: SegmentType[]; // Segment types to cut out
+    includeChapters: boolean;
+}
+
+// Longest file name we produce, leaving room for " (2)" and the extension
+const MAX_NAME_LENGTH = 200;
+
+/**
+ * Segment types present in an episode with how many of each, in order of
+ * first appearance.
+ */
+export function getSegmentTypeCounts(segments: AdSegment[] = []): { type: SegmentType; count: number }[] {
+    const counts = new Map<SegmentType, number>();
+    for (const segment of segments) {
+        counts.set(segment.type, (counts.get(segment.type) ?? 0) + 1);
+    }
+    return [...counts].map(([type, count]) => ({ type, count }));
+}
+
+export function getCutRanges(segments: AdSegment[] = [], types: SegmentType[]): ExportTimeRange[] {
+    return segments
+        .filter(segment => types.includes(segment.type) && segment.endTimeSeconds > segment.startTimeSeconds)
+        .map(segment => ({ start: segment.startTimeSeconds, end: segment.endTimeSeconds }));
+}
+
+/**
+ * Seconds removed by the cuts, counting overlaps once.
+ */
+export function getCutSeconds(cuts: ExportTimeRange[]): number {
+    let total = 0;
+    let coveredUntil = 0;
+    for (const cut of [...cuts].sort((a, b) => a.start - b.start)) {
+        const start = Math.max(cut.start, coveredUntil);
+        if (cut.end > start) total += cut.end - start;
+        coveredUntil = Math.max(coveredUntil, cut.end);
+    }
+    return total;
+}
+
+const stripHtml = (html: string) => html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * "Show - Episode.mp3", without characters file systems reject.
+ */
+export function getExportFilename(episode: Pick<Episode, 'id' | 'title' | 'feedTitle'>): string {
+    const name = [episode.feedTitle, episode.title]
+        .filter(Boolean)
+        .join(' - ')
+        .replace(/[\\/:*?"<>|\p{Cc}]/gu, '')
+        .replace(/\s+/g, ' ')
+        .slice(0, MAX_NAME_LENGTH)
+        .replace(/^[\s.]+|[\s.]+$/g, '');
+    return `${name || `Episode ${episode.id}`}.mp3`;
+}
+
+export function buildExportTags(episode: Episode): ExportTags {
+    return {
+        title: episode.title,
+        artist: episode.feedTitle || undefined,
+        album: episode.feedTitle || undefined,
+        date: episode.datePublished > 0 ? new Date(episode.datePublished * 1000).toISOString().slice(0, 10) : undefined,
+        track: episode.episode ? String(episode.episode) : undefined,
+        comment: episode.description ? stripHtml(episode.description).slice(0, 1000) : undefined,
+    };
+}
+
+export function buildExportRequest(episode: Episode, options: ExportOptions, jobId = `export-${episode.id}-${Date.now()}`): ExportRequest {
+    return {
+        jobId,
+        inputFilename: getEpisodeFilename(episode),
+        outputFilename: getExportFilename(episode),
+        cuts: getCutRanges(episode.adSegments, options.types),
+        // Hidden chapters are usually the ads themselves. An empty list gets
+        // one chapter per remaining section.
+        chapters: options.includeChapters
+            ? (episode.chapters ?? []).filter(chapter => chapter.toc).map(chapter => ({ start: chapter.startTime, title: chapter.title }))
+            : null,
+        tags: buildExportTags(episode),
+        artworkUrl: episode.image || episode.feedImage || undefined,
+    };
+}
@@ -0,0 +1,132 @@
+/**
+ * Auto-Queue Rules
+ *
+ * Decides whether a newly published episode should be auto-added to the queue
+ * for a subscription, and where in the queue it goes.
+ */
+
+import type { AutoQueueRules, Episode, QueuePlacement } from '../types';
+
+export const DEFAULT_AUTO_QUEUE_RULES: AutoQueueRules = {
+    includePatterns: [],
+    excludePatterns: [],
+    placement: 'end',
+};
+
+export interface AutoQueueDecision {
+    queue: boolean;
+    reason?: string;
+}
+
+/**
+ * Compiles a user pattern. "/.../flags" is treated as a regular expression,
+ * anything else as a case-insensitive substring. Invalid regexes fall back
+ * to substring matching so a typo doesn't silently block every episode.
+ */
+export function compilePattern(pattern: string): RegExp {
+    const trimmed = pattern.trim();
+    const regexMatch = trimmed.match(/^\/(.+)\/([a-z]*)$/);
+    if (regexMatch) {
+        try {
+            const flags = regexMatch[2].includes('i') ? regexMatch[2] : `${regexMatch[2]}i`;
+            return new RegExp(regexMatch[1], flags);
+        } catch {
+            // Fall through to substring matching
+        }
+    }
+    return new RegExp(trimmed.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+}
+
+function activePatterns(patterns: string[] | undefined): RegExp[] {
+    return (patterns ?? []).filter(p => p.trim()).map(compilePattern);
+}
+
+/**
+ * True if the rules don't filter anything (only placement may differ).
+ */
+export function hasActiveFilters(rules: AutoQueueRules | undefined): boolean {
+    if (!rules) return false;
+    return activePatterns(rules.includePatterns).length > 0 ||
+        activePatterns(rules.excludePatterns).length > 0 ||
+        rules.minDurationMinutes !== undefined ||
+        rules.maxDurationMinutes !== undefined ||
+        !!rules.episodeTypes?.length ||
+        !!rules.seasons?.length;
+}
+
+/**
+ * Evaluates the rules for an episode. Unknown values (duration 0, no episode
+ * type or season) pass the corresponding filter rather than blocking the episode.
+ */
+export function evaluateAutoQueueRules(episode: Episode, rules: AutoQueueRules | undefined): AutoQueueDecision {
+    if (!rules) return { queue: true };
+
+    const title = episode.title ?? '';
+
+    const include = activePatterns(rules.includePatterns);
+    if (include.length > 0 && !include.some(re => re.test(title))) {
+        return { queue: false, reason: 'Title does not match any include pattern' };
+    }
+
+    const excluded = activePatterns(rules.excludePatterns).find(re => re.test(title));
+    if (excluded) {
+        return { queue: false, reason: `Title matches exclude pattern ${excluded.source}` };
+    }
+
+    if (episode.duration > 0) {
+        const minutes = episode.duration / 60;
+        if (rules.minDurationMinutes !== undefined && minutes < rules.minDurationMinutes) {
+            return { queue: false, reason: `Shorter than ${rules.minDurationMinutes} minutes` };
+        }
+        if (rules.maxDurationMinutes !== undefined && minutes > rules.maxDurationMinutes) {
+            return { queue: false, reason: `Longer than ${rules.maxDurationMinutes} minutes` };
+        }
+    }
+
+    if (rules.episodeTypes?.length) {
+        // Feeds without itunes:episodeType are treated as full episodes
+        const type = episode.episodeType ?? 'full';
+        if (!rules.episodeTypes.includes(type)) {
+            return { queue: false, reason: `Episode type "${type}" is not allowed` };
+        }
+    }
+
+    if (rules.seasons?.length && episode.season !== null && episode.season !== undefined) {
+        if (!rules.seasons.includes(episode.season)) {
+            return { queue: false, reason: `Season ${episode.season} is not allowed` };
+        }
+    }
+
+    return { queue: true };
+}
+
+/**
+ * Index at which to insert an episode for a given placement.
+ * "after-show" goes right after the last queued episode of the same podcast
+ * (or the end of the queue if none are queued).
+ */
+export function getQueueInsertIndex(queue: Episode[], episode: Episode, placement: QueuePlacement = 'end'): number {
+    switch (placement) {
+        case 'top':
+            return 0;
+        case 'after-show': {
+            for (let i = queue.length - 1; i >= 0; i--) {
+                if (queue[i].feedId === episode.feedId) return i + 1;
+            }
+            return queue.length;
+        }
+        case 'end':
+        default:
+            return queue.length;
+    }
+}
+
+/**
+ * Parses a comma-separated list of season numbers ("1, 3, 5").
+ */
+export function parseSeasonList(value: string): number[] {
+    return value
+        .split(/[,\s]+/)
+        .map(part => parseInt(part, 10))
+        .filter(n => Number.isInteger(n) && n >= 0);
+}
@@ -0,0 +1,178 @@
+/**
+ * Chapters Service
+ *
+ * Parses Podcasting 2.0 JSON chapters and derives player helpers from them:
+ * chapter lookup by time, and candidate skippable segments for chapters the
+ * publisher hid from the table of contents or titled like a sponsor read.
+ */
+
+import type { AdSegment, Chapter } from '../types';
+import { fetchRemoteText } from './remoteFetch';
+
+// Chapter titles that usually mark a sponsor read or ad break
+const SPONSOR_TITLE_PATTERN = /\b(sponsor(ed|s|ship)?|advert(isement|ising)?s?|ads?|ad break|promo(tion)?|commercial|brought to you by|partner)\b/i;
+
+export class ChaptersParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ChaptersParseError';
+    }
+}
+
+function formatTimestamp(seconds: number): string {
+    const total = Math.max(0, Math.floor(seconds));
+    const hours = Math.floor(total / 3600);
+    const mins = Math.floor((total % 3600) / 60);
+    const secs = total % 60;
+    if (hours > 0) {
+        return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    }
+    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Parses a JSON chapters document into chapters sorted by start time.
+ * Chapters without an explicit endTime end where the next one starts.
+ *
+ * @throws ChaptersParseError if the document isn't valid chapters JSON
+ */
+export function parseChapters(json: string): Chapter[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch (error) {
+        throw new ChaptersParseError(`Invalid chapters JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const rawChapters = (data as { chapters?: unknown })?.chapters;
+    if (!Array.isArray(rawChapters)) {
+        throw new ChaptersParseError('Chapters document has no "chapters" array');
+    }
+
+    const chapters: Chapter[] = [];
+    for (const raw of rawChapters as Record<string, unknown>[]) {
+        const startTime = Number(raw?.startTime);
+        if (!Number.isFinite(startTime) || startTime < 0) continue;
+
+        const endTime = Number(raw.endTime);
+        chapters.push({
+            startTime,
+            endTime: Number.isFinite(endTime) && endTime > startTime ? endTime : undefined,
+            title: typeof raw.title === 'string' ? raw.title.trim() : '',
+            img: typeof raw.img === 'string' && raw.img ? raw.img : undefined,
+            url: typeof raw.url === 'string' && raw.url ? raw.url : undefined,
+            toc: raw.toc !== false,
+        });
+    }
+
+    chapters.sort((a, b) => a.startTime - b.startTime);
+
+    for (let i = 0; i < chapters.length; i++) {
+        const next = chapters[i + 1];
+        if (chapters[i].endTime === undefined && next) {
+            chapters[i].endTime = next.startTime;
+        }
+    }
+
+    return chapters;
+}
+
+/**
+ * Fetches and parses a chapters file.
+ */
+export async function fetchChapters(url: string): Promise<Chapter[]> {
+    return parseChapters(await fetchRemoteText(url));
+}
+
+/**
+ * Returns the end time of a chapter, falling back to the episode duration for the last one.
+ */
+export function getChapterEnd(chapter: Chapter, duration: number): number {
+    return chapter.endTime ?? duration;
+}
+
+/**
+ * Returns the index of the chapter playing at `time`, or -1 before the first chapter.
+ */
+export function getChapterIndexAt(chapters: Chapter[], time: number): number {
+    let index = -1;
+    for (let i = 0; i < chapters.length; i++) {
+        if (chapters[i].startTime <= time) index = i;
+        else break;
+    }
+    return index;
+}
+
+/**
+ * Chapters shown to the user (publishers hide some with `toc: false`).
+ */
+export function getVisibleChapters(chapters: Chapter[]): Chapter[] {
+    return chapters.filter(chapter => chapter.toc);
+}
+
+/**
+ * Start time of the next visible chapter after `time`, or null if there isn't one.
+ */
+export function getNextChapterStart(chapters: Chapter[], time: number): number | null {
+    // Small tolerance so repeated presses don't get stuck on the current boundary
+    const next = getVisibleChapters(chapters).find(chapter => chapter.startTime > time + 0.5);
+    return next ? next.startTime : null;
+}
+
+/**
+ * Start time to jump to for "previous chapter". Like most players, this restarts
+ * the current chapter unless we're within the first few seconds of it.
+ */
+export function getPreviousChapterStart(chapters: Chapter[], time: number, restartThreshold = 3): number {
+    const visible = getVisibleChapters(chapters);
+    const index = getChapterIndexAt(visible, time);
+    if (index === -1) return 0;
+
+    const current = visible[index];
+    if (time - current.startTime > restartThreshold || index === 0) {
+        return current.startTime;
+    }
+    return visible[index - 1].startTime;
+}
+
+/**
+ * Derives candidate skippable segments from chapters: anything hidden from the
+ * table of contents, or titled like a sponsor read. These are only suggestions -
+ * the user has to accept them before the player skips them.
+ */
+export function getChapterSkipCandidates(chapters: Chapter[], duration: number): AdSegment[] {
+    const candidates: AdSegment[] = [];
+
+    for (const chapter of chapters) {
+        const isSponsor = SPONSOR_TITLE_PATTERN.test(chapter.title);
+        if (chapter.toc && !isSponsor) continue;
+
+        const start = chapter.startTime;
+        const end = getChapterEnd(chapter, duration);
+        if (!(end > start)) continue;
+
+        candidates.push({
+            startTime: formatTimestamp(start),
+            endTime: formatTimestamp(end),
+            startTimeSeconds: start,
+            endTimeSeconds: end,
+            confidence: isSponsor ? 90 : 60,
+            type: isSponsor ? 'advertisement' : 'chapter',
+            description: chapter.title
+                ? `Chapter: ${chapter.title}`
+                : 'Chapter hidden from the table of contents',
+        });
+    }
+
+    return candidates;
+}
+
+/**
+ * True if an equivalent segment (same start/end within a second) is already present.
+ */
+export function hasMatchingSegment(segments: AdSegment[] | undefined, candidate: AdSegment): boolean {
+    return (segments ?? []).some(seg =>
+        Math.abs(seg.startTimeSeconds - candidate.startTimeSeconds) < 1 &&
+        Math.abs(seg.endTimeSeconds - candidate.endTimeSeconds) < 1
+    );
+}
@@ -13,6 +13,8 @@ export interface CloudJobStatus {
     jobId: string;
     status: 'pending' | 'uploading' | 'transcribing' | 'detecting_basic' | 'detecting_advanced' | 'completed' | 'failed';
     progress?: number;
+    uploadedBytes?: number; // While uploading
+    totalBytes?: number;
     error?: string;
     createdAt: string;
     updatedAt: string;
@@ -34,6 +36,33 @@ export interface CloudJobResults {
     detectionMethod: 'basic' | 'advanced';
 }
 
+export interface TranscriptDetectionResults {
+    detectedSegments: AdSegment[];
+    detectionMethod: 'basic' | 'advanced';
+}
+
+/**
+ * The job itself failed or no longer exists on the server (as opposed to the
+ * request failing), so polling it again is pointless.
+ */
+export class CloudJobFailedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CloudJobFailedError';
+    }
+}
+
+// A network error or a server error worth trying again
+class RetryableUploadError extends Error { }
+
+export interface UploadOptions {
+    signal?: AbortSignal;
+    /** Byte progress, as an 'uploading' job status (jobId is empty until the server has created the job) */
+    onProgress?: (status: CloudJobStatus) => void;
+    /** Called as soon as the server creates the job (for chunked uploads, before any audio is sent) */
+    onJobCreated?: (jobId: string) => void | Promise<void>;
+}
+
 export interface EpisodeUploadMetadata {
     feedId: number;
     guid: string;
@@ -46,7 +75,7 @@ export interface EpisodeUploadMetadata {
 // API FUNCTIONS
 // ============================================================================
 
-async function getAuthHeaders(): Promise<HeadersInit> {
+async function getAuthHeaders(): Promise<Record<string, string>> {
     const token = await getAccessToken();
     if (!token) throw new Error('Not authenticated. Please sign in.');
 
@@ -56,38 +85,190 @@ async function getAuthHeaders(): Promise<HeadersInit> {
     };
 }
 
+async function uploadRequest<T>(url: string, init: RequestInit): Promise<T> {
+    let response: Response;
+    try {
+        response = await fetch(url, init);
+    } catch (error) {
+        if (init.signal?.aborted) throw error;
+        throw new RetryableUploadError(error instanceof Error ? error.message : String(error));
+    }
+
+    if (!response.ok) throw uploadFailure(response.status, await response.json().catch(() => null));
+    return response.json();
+}
+
+// Server errors and rate limits are worth trying again; the body may not be JSON (proxy error pages)
+function uploadFailure(status: number, body: unknown): Error {
+    const message = (body as { error?: string } | null)?.error || `Upload failed: ${status}`;
+    return status >= 500 || status === 429 ? new RetryableUploadError(message) : new Error(message);
+}
+
+/**
+ * An upload request through XMLHttpRequest, which unlike fetch reports bytes
+ * as they go out. Fails like uploadRequest.
+ */
+function uploadRequestWithProgress<T>(
+    url: string,
+    init: { method: string; headers: Record<string, string>; body: XMLHttpRequestBodyInit; signal?: AbortSignal },
+    onUploadProgress: (loaded: number, total: number) => void
+): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const { signal } = init;
+        if (signal?.aborted) return reject(new Error('Cloud request cancelled'));
+
+        const xhr = new XMLHttpRequest();
+        const onAbort = () => xhr.abort();
+        const settle = (finish: () => void) => {
+            signal?.removeEventListener('abort', onAbort);
+            finish();
+        };
+
+        xhr.open(init.method, url);
+        xhr.responseType = 'json';
+        for (const [name, value] of Object.entries(init.headers)) xhr.setRequestHeader(name, value);
+        xhr.upload.onprogress = (event) => {
+            if (event.lengthComputable) onUploadProgress(event.loaded, event.total);
+        };
+        xhr.onload = () => settle(() => {
+            if (xhr.status >= 200 && xhr.status < 300) resolve(xhr.response as T);
+            else reject(uploadFailure(xhr.status, xhr.response));
+        });
+        xhr.onerror = () => settle(() => reject(new RetryableUploadError('Network error during upload')));
+        xhr.onabort = () => settle(() => reject(new Error('Cloud request cancelled')));
+        signal?.addEventListener('abort', onAbort, { once: true });
+        xhr.send(init.body);
+    });
+}
+
+/**
+ * Runs an upload request, trying again with a growing delay after network
+ * and server errors. `attempt` is 0 for the first try.
+ */
+async function withRetries<T>(label: string, request: (attempt: number) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await request(attempt);
+        } catch (error) {
+            if (!(error instanceof RetryableUploadError) || attempt >= CLOUD_CONFIG.UPLOAD_MAX_RETRIES) throw error;
+            console.warn(`[CloudAPI] ${label} failed (attempt ${attempt + 1}), retrying:`, error.message);
+            await sleep(CLOUD_CONFIG.UPLOAD_RETRY_DELAY_MS * (attempt + 1), signal);
+        }
+    }
+}
+
+function uploadStatus(jobId: string, uploadedBytes: number, totalBytes: number): CloudJobStatus {
+    const now = new Date().toISOString();
+    return {
+        jobId,
+        status: 'uploading',
+        progress: totalBytes > 0 ? Math.round((uploadedBytes / totalBytes) * 100) : 100,
+        uploadedBytes,
+        totalBytes,
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+// Chunked uploads need the backend's chunk endpoints (VITE_CHUNKED_UPLOADS=true)
+function chunkedUploadsEnabled(): boolean {
+    return import.meta.env.VITE_CHUNKED_UPLOADS === 'true';
+}
+
+// The whole file in one multipart request; a failed attempt starts over
+async function uploadWholeFile(
+    fileBuffer: ArrayBuffer,
+    filename: string,
+    metadata: EpisodeUploadMetadata,
+    mimeType: string,
+    headers: Record<string, string>,
+    options: UploadOptions
+): Promise<string> {
+    const { signal, onProgress } = options;
+    const formData = new FormData();
+    formData.append('file', new Blob([fileBuffer], { type: mimeType }), filename);
+    formData.append('metadata', JSON.stringify(metadata));
+
+    const { jobId } = await withRetries('Upload', () => uploadRequestWithProgress<{ jobId: string }>(
+        `${CLOUD_CONFIG.SUPABASE_URL}${CLOUD_CONFIG.ENDPOINTS.UPLOAD_EPISODE}`,
+        { method: 'POST', headers, body: formData, signal },
+        // The multipart body is a little larger than the file
+        (loaded, total) => onProgress?.(uploadStatus('', Math.round(fileBuffer.byteLength * loaded / total), fileBuffer.byteLength))
+    ), signal);
+    return jobId;
+}
+
 /**
  * Upload episode audio file to cloud for processing
  * Returns job ID for status polling
+ *
+ * With chunked uploads enabled the job is created first, then the file goes up
+ * in pieces at byte offsets, and completing the upload starts processing. A
+ * failed chunk is retried from wherever the server says it got to. Otherwise
+ * the file goes up in a single request, retried from the start.
  */
 export async function uploadEpisodeToCloud(
     fileBuffer: ArrayBuffer,
     filename: string,
-    metadata: EpisodeUploadMetadata
+    metadata: EpisodeUploadMetadata,
+    mimeType: string = 'audio/mpeg',
+    options: UploadOptions = {}
 ): Promise<string> {
+    const { signal, onProgress } = options;
     const headers = await getAuthHeaders();
+    const totalBytes = fileBuffer.byteLength;
 
-    const formData = new FormData();
-    formData.append('file', new Blob([fileBuffer], { type: 'audio/mpeg' }), filename);
-    formData.append('metadata', JSON.stringify(metadata));
+    console.log(`[CloudAPI] Uploading episode: ${metadata.title || filename} (${totalBytes} bytes)`);
 
-    console.log('[CloudAPI] Uploading episode:', metadata.title || filename);
+    if (!chunkedUploadsEnabled()) {
+        const jobId = await uploadWholeFile(fileBuffer, filename, metadata, mimeType, headers, options);
+        await options.onJobCreated?.(jobId);
+        onProgress?.(uploadStatus(jobId, totalBytes, totalBytes));
+        console.log('[CloudAPI] Upload complete, job ID:', jobId);
+        return jobId;
+    }
 
-    const response = await fetch(
+    const { jobId } = await withRetries('Starting upload', () => uploadRequest<{ jobId: string }>(
         `${CLOUD_CONFIG.SUPABASE_URL}${CLOUD_CONFIG.ENDPOINTS.UPLOAD_EPISODE}`,
         {
             method: 'POST',
-            headers: headers,
-            body: formData
+            headers: { ...headers, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ filename, mimeType, totalBytes, metadata }),
+            signal
         }
-    );
+    ), signal);
+    await options.onJobCreated?.(jobId);
 
-    if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || `Upload failed: ${response.status}`);
+    let uploadedBytes = 0;
+    onProgress?.(uploadStatus(jobId, uploadedBytes, totalBytes));
+
+    while (uploadedBytes < totalBytes) {
+        ({ uploadedBytes } = await withRetries(`Chunk at byte ${uploadedBytes}`, async (attempt) => {
+            // The server may have kept part of a chunk that failed
+            if (attempt > 0) {
+                const status = await getCloudJobStatus(jobId).catch((error: unknown) => {
+                    throw error instanceof CloudJobFailedError || !(error instanceof Error) ? error : new RetryableUploadError(error.message);
+                });
+                uploadedBytes = status.uploadedBytes ?? uploadedBytes;
+            }
+            return uploadRequest<{ uploadedBytes: number }>(
+                `${CLOUD_CONFIG.SUPABASE_URL}${CLOUD_CONFIG.ENDPOINTS.UPLOAD_CHUNK}?jobId=${jobId}&offset=${uploadedBytes}`,
+                {
+                    method: 'PUT',
+                    headers: { ...headers, 'Content-Type': 'application/octet-stream' },
+                    body: fileBuffer.slice(uploadedBytes, uploadedBytes + CLOUD_CONFIG.UPLOAD_CHUNK_BYTES),
+                    signal
+                }
+            );
+        }, signal));
+        onProgress?.(uploadStatus(jobId, uploadedBytes, totalBytes));
     }
 
-    const { jobId } = await response.json();
+    await withRetries('Completing upload', () => uploadRequest(
+        `${CLOUD_CONFIG.SUPABASE_URL}${CLOUD_CONFIG.ENDPOINTS.COMPLETE_UPLOAD}?jobId=${jobId}`,
+        { method: 'POST', headers, signal }
+    ), signal);
+
     console.log('[CloudAPI] Upload complete, job ID:', jobId);
     return jobId;
 }
@@ -105,7 +286,8 @@ export async function getCloudJobStatus(jobId: string): Promise<CloudJobStatus>
 
     if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || `Status check failed: ${response.status}`);
+        const message = error.error || `Status check failed: ${response.status}`;
+        throw response.status === 404 ? new CloudJobFailedError(message) : new Error(message);
     }
 
     return response.json();
@@ -131,15 +313,51 @@ export async function getCloudJobResults(jobId: string): Promise<CloudJobResults
 }
 
 /**
- * Wait for job completion with polling
+ * Cancel a processing job on the server
+ */
+export async function cancelCloudJob(jobId: string): Promise<void> {
+    const headers = await getAuthHeaders();
+
+    const response = await fetch(
+        `${CLOUD_CONFIG.SUPABASE_URL}${CLOUD_CONFIG.ENDPOINTS.CANCEL_JOB}?jobId=${jobId}`,
+        { method: 'POST', headers }
+    );
+
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Cancel failed: ${response.status}`);
+    }
+}
+
+// Resolves after `ms`, or rejects as soon as the signal aborts (polling and upload retries)
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(new Error('Cloud request cancelled'));
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new Error('Cloud request cancelled'));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Wait for job completion with polling. Works for any job ID, so a job
+ * started before a restart can be picked up again.
  */
 export async function waitForCloudJobCompletion(
     jobId: string,
-    onProgress?: (status: CloudJobStatus) => void
+    onProgress?: (status: CloudJobStatus) => void,
+    signal?: AbortSignal
 ): Promise<CloudJobResults> {
     let attempts = 0;
 
     while (attempts < CLOUD_CONFIG.MAX_POLL_ATTEMPTS) {
+        if (signal?.aborted) throw new Error('Cloud request cancelled');
         const status = await getCloudJobStatus(jobId);
 
         if (onProgress) onProgress(status);
@@ -149,10 +367,10 @@ export async function waitForCloudJobCompletion(
         }
 
         if (status.status === 'failed') {
-            throw new Error(status.error || 'Cloud processing failed');
+            throw new CloudJobFailedError(status.error || 'Cloud processing failed');
         }
 
-        await new Promise(r => setTimeout(r, CLOUD_CONFIG.POLLING_INTERVAL_MS));
+        await sleep(CLOUD_CONFIG.POLLING_INTERVAL_MS, signal);
         attempts++;
     }
 
@@ -160,14 +378,30 @@ export async function waitForCloudJobCompletion(
 }
 
 /**
- * Full pipeline: Upload -> Wait -> Return results
+ * Detect skippable segments from transcript text only (no audio upload).
+ * Used when the publisher already provides a transcript.
  */
-export async function processEpisodeInCloud(
-    fileBuffer: ArrayBuffer,
-    filename: string,
-    metadata: EpisodeUploadMetadata,
-    onProgress?: (status: CloudJobStatus) => void
-): Promise<CloudJobResults> {
-    const jobId = await uploadEpisodeToCloud(fileBuffer, filename, metadata);
-    return waitForCloudJobCompletion(jobId, onProgress);
+export async function detectSegmentsFromTranscript(
+    transcriptText: string,
+    metadata: EpisodeUploadMetadata
+): Promise<TranscriptDetectionResults> {
+    const headers = await getAuthHeaders();
+
+    console.log('[CloudAPI] Detecting segments from transcript:', metadata.title || metadata.guid);
+
+    const response = await fetch(
+        `${CLOUD_CONFIG.SUPABASE_URL}${CLOUD_CONFIG.ENDPOINTS.DETECT_SEGMENTS}`,
+        {
+            method: 'POST',
+            headers: { ...headers, 'Content-Type': 'application/json' },
+            body: JSON.stringify({ metadata, transcript: transcriptText })
+        }
+    );
+
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Segment detection failed: ${response.status}`);
+    }
+
+    return response.json();
 }
@@ -0,0 +1,70 @@
+/**
+ * Cloud Jobs
+ *
+ * Remembers which cloud processing job belongs to which episode until it
+ * finishes, so closing the app mid-job doesn't lose it: on the next start the
+ * job is polled again instead of the episode being uploaded a second time.
+ * Also works out which "processing" or queued episodes are stale - nothing in
+ * this session is working on them and there is no job to pick up.
+ */
+
+import type { CloudJobRecord, Episode } from '../types';
+import { db } from './db';
+
+// The backend drops job results after a day
+export const MAX_CLOUD_JOB_AGE_MS = 24 * 60 * 60 * 1000;
+
+export interface TranscriptionRecovery {
+    resume: number[]; // Episodes with a job to poll again
+    stale: number[]; // Episodes stuck at 'processing' or 'pending' with nothing behind them
+    expired: number[]; // Jobs to forget (too old, or their episode is gone)
+}
+
+export async function trackCloudJob(episodeId: number, jobId: string, now = Date.now()): Promise<void> {
+    await db.saveCloudJob({ episodeId, jobId, startedAt: now });
+}
+
+export async function untrackCloudJob(episodeId: number): Promise<void> {
+    await db.removeCloudJob(episodeId);
+}
+
+export async function getTrackedCloudJobs(): Promise<Record<number, CloudJobRecord>> {
+    return db.getCloudJobs();
+}
+
+/**
+ * The unfinished job for an episode, if it is still young enough to pick up.
+ */
+export async function getTrackedCloudJob(episodeId: number, now = Date.now()): Promise<CloudJobRecord | undefined> {
+    const job = (await db.getCloudJobs())[episodeId];
+    return job && now - job.startedAt < MAX_CLOUD_JOB_AGE_MS ? job : undefined;
+}
+
+/**
+ * What to do at startup with saved jobs and episodes left at 'processing' or
+ * 'pending' (the transcription queue isn't kept across restarts).
+ */
+export function planTranscriptionRecovery(
+    episodes: Record<number, Episode>,
+    jobs: Record<number, CloudJobRecord>,
+    now = Date.now()
+): TranscriptionRecovery {
+    const recovery: TranscriptionRecovery = { resume: [], stale: [], expired: [] };
+
+    for (const job of Object.values(jobs)) {
+        if (episodes[job.episodeId] && now - job.startedAt < MAX_CLOUD_JOB_AGE_MS) {
+            recovery.resume.push(job.episodeId);
+        } else {
+            recovery.expired.push(job.episodeId);
+        }
+    }
+
+    for (const episode of Object.values(episodes)) {
+        const unfinished = episode.transcriptionStatus === 'processing' || episode.transcriptionStatus === 'pending';
+        if (unfinished && !recovery.resume.includes(episode.id)) {
+            recovery.stale.push(episode.id);
+        }
+    }
+
+    return recovery;
+}
@@ -0,0 +1,190 @@
+/**
+ * Cloud Provider
+ *
+ * The cloud backend as a processing provider: uploads the episode audio (only
+ * the audio track of a video, or a compressed copy) in chunks and gets back
+ * the transcript with speaker labels and the skippable segments in one job. Transcripts from elsewhere go to the
+ * transcript-only detection endpoint. The job ID is saved until the job
+ * finishes, so a job interrupted by a restart is polled again rather than
+ * uploaded again.
+ */
+
+import type { Episode } from '../types';
+import {
+    cancelCloudJob,
+    CloudJobFailedError,
+    detectSegmentsFromTranscript,
+    getCloudJobStatus,
+    uploadEpisodeToCloud,
+    waitForCloudJobCompletion,
+    type CloudJobResults,
+    type CloudJobStatus,
+    type EpisodeUploadMetadata,
+} from './cloudApi';
+import { getTrackedCloudJob, trackCloudJob, untrackCloudJob } from './cloudJobs';
+import { db } from './db';
+import { AUDIO_TRACK_MEDIA_TYPE, getAudioTrackFilename, getEpisodeFilename, getEpisodeMimeType, hasVideo } from './mediaTypes';
+import { TranscriptionCancelledError, type ProcessingProgress, type ProcessingProvider } from './processingProviders';
+
+// Running jobs by episode, for cancelling
+const controllers = new Map<number, AbortController>();
+
+const STAGE_LABELS: Record<CloudJobStatus['status'], string> = {
+    pending: 'Waiting for the server',
+    uploading: 'Uploading',
+    transcribing: 'Transcribing',
+    detecting_basic: 'Finding skippable segments',
+    detecting_advanced: 'Finding skippable segments',
+    completed: 'Done',
+    failed: 'Failed',
+};
+
+const toMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+export function describeCloudStatus(status: CloudJobStatus): ProcessingProgress {
+    if (status.status === 'uploading' && status.totalBytes) {
+        const uploaded = status.uploadedBytes ?? 0;
+        return {
+            stage: `Uploading ${toMB(uploaded)} of ${toMB(status.totalBytes)} MB`,
+            progress: Math.min(1, uploaded / status.totalBytes),
+        };
+    }
+    return {
+        stage: STAGE_LABELS[status.status] ?? status.status,
+        progress: status.progress === undefined ? undefined : Math.min(1, status.progress / 100),
+    };
+}
+
+/**
+ * Uploads the episode and waits for the job, saving its ID as soon as the
+ * server hands one out. With a compression quality set, a mono MP3 at that
+ * bitrate goes up instead of the original; otherwise only the audio track of
+ * a video does.
+ */
+async function uploadAndWait(
+    episode: Episode,
+    metadata: EpisodeUploadMetadata,
+    report: (status: CloudJobStatus) => void,
+    signal: AbortSignal,
+    onProgress?: (progress: ProcessingProgress) => void
+): Promise<CloudJobResults> {
+    const { storageService } = await import('./storage');
+    const { compressionQuality } = await db.getPreferences();
+    let filename = getEpisodeFilename(episode);
+    let mimeType = getEpisodeMimeType(episode);
+
+    // Compressed and extracted copies only exist for the upload
+    let temporary = true;
+    if (compressionQuality > 0) {
+        onProgress?.({ stage: 'Compressing audio' });
+        filename = await storageService.compressAudio(filename, compressionQuality);
+        mimeType = 'audio/mpeg';
+    } else if (hasVideo(episode)) {
+        onProgress?.({ stage: 'Extracting audio' });
+        filename = await storageService.extractAudio(filename, getAudioTrackFilename(episode.id));
+        mimeType = AUDIO_TRACK_MEDIA_TYPE.mimeType;
+    } else {
+        temporary = false;
+    }
+
+    let jobId;
+    try {
+        // Read the file for upload - use filename only, not full path
+        // (readFile IPC handler prepends the podcast directory)
+        const fileBuffer = await storageService.readFile(filename);
+        jobId = await uploadEpisodeToCloud(fileBuffer, filename, metadata, mimeType, {
+            signal,
+            onProgress: report,
+            onJobCreated: id => trackCloudJob(episode.id, id),
+        });
+    } finally {
+        if (temporary) {
+            storageService.deleteFile(filename).catch(() => { });
+        }
+    }
+
+    return waitForCloudJobCompletion(jobId, report, signal);
+}
+
+export const cloudProvider: ProcessingProvider = {
+    id: 'cloud',
+    name: 'Cloud',
+    capabilities: {
+        wordTimestamps: true,
+        diarization: true,
+        segmentDetection: true,
+        offline: false,
+        cancellable: true,
+    },
+
+    isAvailable: async () => typeof navigator === 'undefined' || navigator.onLine !== false,
+
+    transcribe: async ({ episode, metadata, onProgress }) => {
+        if (!window.electronAPI) throw new Error('Electron API not available');
+
+        const controller = new AbortController();
+        controllers.set(episode.id, controller);
+        const report = (status: CloudJobStatus) => {
+            console.log(`[Cloud] Status: ${status.status} (${status.progress || 0}%)`);
+            onProgress?.(describeCloudStatus(status));
+        };
+
+        let results: CloudJobResults | undefined;
+        try {
+            const tracked = await getTrackedCloudJob(episode.id);
+            if (tracked) {
+                console.log(`[Cloud] Resuming job ${tracked.jobId} for "${episode.title}"`);
+                try {
+                    // The upload itself can't be picked up again, only the processing after it
+                    const status = await getCloudJobStatus(tracked.jobId);
+                    if (status.status === 'uploading') throw new CloudJobFailedError('Upload was interrupted');
+                    results = await waitForCloudJobCompletion(tracked.jobId, report, controller.signal);
+                } catch (error) {
+                    // Any other error (offline, signed out) leaves the job to try again later
+                    if (!(error instanceof CloudJobFailedError)) throw error;
+                    console.warn(`[Cloud] Job ${tracked.jobId} can't be resumed, uploading again:`, error.message);
+                    await untrackCloudJob(episode.id);
+                }
+            }
+            results ??= await uploadAndWait(episode, metadata, report, controller.signal, onProgress);
+        } catch (error) {
+            const cancelled = controller.signal.aborted;
+            if (cancelled || error instanceof CloudJobFailedError) await untrackCloudJob(episode.id);
+            throw cancelled ? new TranscriptionCancelledError() : error;
+        } finally {
+            controllers.delete(episode.id);
+        }
+
+        await untrackCloudJob(episode.id);
+        return {
+            transcript: {
+                episodeId: episode.id,
+                text: results.transcript.text,
+                segments: results.transcript.segments,
+                language: results.transcript.language,
+                duration: results.transcript.duration,
+                createdAt: Date.now(),
+                source: 'cloud',
+            },
+            detection: {
+                detectedSegments: results.detectedSegments,
+                detectionMethod: results.detectionMethod,
+            },
+        };
+    },
+
+    detectSegments: async (transcript, metadata) => {
+        const { preprocessTranscript } = await import('./transcriptPreprocessor');
+        return detectSegmentsFromTranscript(preprocessTranscript(transcript), metadata);
+    },
+
+    // Stops polling and forgets the job, so it isn't resumed; stopping it on
+    // the server is best effort
+    cancel: async (episodeId) => {
+        const job = await getTrackedCloudJob(episodeId);
+        controllers.get(episodeId)?.abort();
+        if (!job) return;
+        await untrackCloudJob(episodeId);
+        await cancelCloudJob(job.jobId).catch(error => console.warn(`[Cloud] Couldn't cancel job ${job.jobId}:`, error));
+    },
+};
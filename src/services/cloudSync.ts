@@ -17,6 +17,7 @@ import type { Podcast, Episode } from '../types';
 import type {
     CloudSubscription,
     SubscriptionPayload,
+    SubscriptionSettingsPayload,
     CloudEpisodeState,
     EpisodeStatePayload,
     CloudUserQueue,
@@ -134,6 +135,41 @@ export async function pushSubscription(payload: SubscriptionPayload): Promise<vo
     });
 }
 
+/**
+ * Updates the synced settings (auto-queue) of a subscription by feed URL.
+ */
+export async function updateSubscriptionSettings(feedUrl: string, settings: SubscriptionSettingsPayload): Promise<void> {
+    console.log('[CloudSync] Updating subscription settings:', feedUrl);
+    await supabaseRest('subscriptions', {
+        method: 'PATCH',
+        params: { feed_url: `eq.${feedUrl}` },
+        body: settings,
+        prefer: 'return=minimal',
+    });
+}
+
+/**
+ * Cloud settings payload for a local subscription.
+ */
+export function getSubscriptionSettings(podcast: Podcast): SubscriptionSettingsPayload {
+    return {
+        auto_add_to_queue: podcast.autoAddToQueue,
+        auto_queue_rules: podcast.autoQueueRules ?? null,
+    };
+}
+
+/**
+ * Applies settings from a cloud subscription row to a local podcast.
+ * Rows created before settings were synced carry nulls and leave the podcast untouched.
+ */
+export function applySubscriptionSettings(podcast: Podcast, cloudSub: CloudSubscription): Podcast {
+    return {
+        ...podcast,
+        autoAddToQueue: cloudSub.auto_add_to_queue ?? podcast.autoAddToQueue,
+        autoQueueRules: cloudSub.auto_queue_rules ?? podcast.autoQueueRules,
+    };
+}
+
 /**
  * Deletes a subscription by feed URL.
  */
@@ -145,6 +181,33 @@ export async function deleteSubscription(feedUrl: string): Promise<void> {
     });
 }
 
+/**
+ * Moves a subscription and its episode state rows to a new feed URL after the
+ * feed moved hosts. If the new URL is already subscribed (e.g. another device
+ * migrated first), the old subscription row is dropped instead.
+ */
+export async function migrateFeedUrl(oldUrl: string, newUrl: string): Promise<void> {
+    console.log(`[CloudSync] Migrating feed URL ${oldUrl} -> ${newUrl}`);
+    try {
+        await supabaseRest('subscriptions', {
+            method: 'PATCH',
+            params: { feed_url: `eq.${oldUrl}` },
+            body: { feed_url: newUrl },
+            prefer: 'return=minimal',
+        });
+    } catch (error) {
+        console.warn('[CloudSync] Could not move subscription, removing the old one:', error);
+        await deleteSubscription(oldUrl);
+    }
+
+    await supabaseRest('user_episode_state', {
+        method: 'PATCH',
+        params: { feed_url: `eq.${oldUrl}` },
+        body: { feed_url: newUrl },
+        prefer: 'return=minimal',
+    });
+}
+
 // =========================================================================
 // Episode State
 // =========================================================================
@@ -365,7 +428,9 @@ async function syncSubscriptions(): Promise<void> {
     // Dynamic import to avoid circular dependency
     const { usePodcastStore } = await import('../store/usePodcastStore');
     const { db } = await import('./db');
-    const { api } = await import('./api');
+    const { feedService } = await import('./feedService');
+    const { isPrivateFeedUrl, getPrivateFeedSecret } = await import('./privateFeeds');
+    const { isLocalFilesUrl } = await import('./localFiles');
 
     const localSubs = usePodcastStore.getState().subscriptions;
     const cloudSubs = await fetchSubscriptions();
@@ -377,62 +442,75 @@ async function syncSubscriptions(): Promise<void> {
     }
 
     const cloudByFeedUrl = new Set(cloudSubs.map(s => s.feed_url));
+    const movedLocalUrls = new Set<string>();
 
     // Cloud → Local: Add cloud subscriptions that are missing locally
     for (const cloudSub of cloudSubs) {
         if (!localByFeedUrl.has(cloudSub.feed_url)) {
+            // Private feeds only sync an opaque identifier; the URL has to be added on each device
+            if (isPrivateFeedUrl(cloudSub.feed_url) && !await getPrivateFeedSecret(cloudSub.feed_url)) {
+                console.log(`[CloudSync] Skipping private feed without local credentials: ${cloudSub.title}`);
+                continue;
+            }
             console.log(`[CloudSync] Adding cloud subscription locally: ${cloudSub.title}`);
             try {
-                // Fetch the full podcast data from Podcast Index API
-                const response = await api.getPodcastByFeedUrl(cloudSub.feed_url);
-                if (response?.feed) {
-                    const feed = response.feed;
-                    // Map API response to Podcast interface - must include all required fields
-                    const podcast: Podcast = {
-                        id: feed.id,
-                        title: feed.title,
-                        url: feed.url,
-                        originalUrl: feed.originalUrl || feed.url,
-                        link: feed.link || '',
-                        description: feed.description || '',
-                        author: feed.author || '',
-                        ownerName: feed.ownerName || feed.author || '',
-                        image: feed.image || feed.artwork || '',
-                        artwork: feed.artwork || feed.image || '',
-                        lastUpdateTime: feed.lastUpdateTime || Date.now(),
-                        contentType: feed.contentType || 'application/rss+xml',
-                        itunesId: feed.itunesId || null,
-                        generator: feed.generator || '',
-                        language: feed.language || 'en',
-                        episodeCount: feed.episodeCount || 0,
-                        autoAddToQueue: true,
-                        subscribedAt: Date.now(),
-                    };
-
-                    await db.savePodcast(podcast);
-                    usePodcastStore.setState((state) => ({
-                        subscriptions: {
-                            ...state.subscriptions,
-                            [podcast.id]: podcast
-                        }
-                    }));
-                    console.log(`[CloudSync] Successfully added: ${podcast.title}`);
+                // Resolve via Podcast Index when indexed, otherwise from the raw feed
+                const resolved: Podcast = await feedService.resolvePodcastByUrl(cloudSub.feed_url);
+
+                // Same show under an old URL: another device already migrated the feed
+                const existing = localSubs[resolved.id];
+                if (existing && existing.url !== cloudSub.feed_url) {
+                    await feedService.migrateFeedUrl(existing, cloudSub.feed_url, { syncCloud: false });
+                    movedLocalUrls.add(existing.url);
+                    continue;
                 }
+
+                const podcast = applySubscriptionSettings(resolved, cloudSub);
+
+                await db.savePodcast(podcast);
+                usePodcastStore.setState((state) => ({
+                    subscriptions: {
+                        ...state.subscriptions,
+                        [podcast.id]: podcast
+                    }
+                }));
+                console.log(`[CloudSync] Successfully added: ${podcast.title}`);
             } catch (err) {
                 console.error(`[CloudSync] Failed to add subscription ${cloudSub.feed_url}:`, err);
             }
         }
     }
 
+    // Cloud → Local: Every local settings change is pushed immediately, so the
+    // cloud copy wins for subscriptions that exist on both sides
+    for (const cloudSub of cloudSubs) {
+        const localId = localByFeedUrl.get(cloudSub.feed_url);
+        if (localId === undefined) continue;
+
+        const local = localSubs[localId];
+        const merged = applySubscriptionSettings(local, cloudSub);
+        if (merged.autoAddToQueue !== local.autoAddToQueue ||
+            JSON.stringify(merged.autoQueueRules) !== JSON.stringify(local.autoQueueRules)) {
+            console.log(`[CloudSync] Applying cloud settings for ${local.title}`);
+            await db.savePodcast(merged);
+            usePodcastStore.setState((state) => ({
+                subscriptions: { ...state.subscriptions, [localId]: merged }
+            }));
+        }
+    }
+
     // Local → Cloud: Push local subscriptions that are missing in cloud
     for (const [_, podcast] of Object.entries(localSubs)) {
-        if (!cloudByFeedUrl.has(podcast.url)) {
+        // Imported local files only exist on this device
+        if (isLocalFilesUrl(podcast.url)) continue;
+        if (!cloudByFeedUrl.has(podcast.url) && !movedLocalUrls.has(podcast.url)) {
             console.log(`[CloudSync] Pushing local subscription to cloud: ${podcast.title}`);
             try {
                 await pushSubscription({
                     feed_url: podcast.url,
                     title: podcast.title,
                     image_url: podcast.image || '',
+                    ...getSubscriptionSettings(podcast),
                 });
             } catch (err) {
                 console.error(`[CloudSync] Failed to push subscription ${podcast.url}:`, err);
@@ -547,6 +625,27 @@ async function fetchAndSaveEpisode(feedUrl: string, episodeGuid: string): Promis
         console.warn(`[CloudSync] Could not fetch episodes from feed ${feedUrl}:`, err);
     }
 
+    // Last resort: read the raw feed (covers shows Podcast Index hasn't crawled)
+    try {
+        const { feedService } = await import('./feedService');
+        // Attach the episode to the existing subscription rather than a synthetic feed ID
+        const subscription = Object.values(usePodcastStore.getState().subscriptions).find(podcast => podcast.url === feedUrl);
+        const parsed = await feedService.fetchFeed(feedUrl, subscription?.id);
+        const episode = parsed.episodes.find(ep => ep.guid === episodeGuid);
+
+        if (episode) {
+            await db.saveEpisode(episode);
+            usePodcastStore.setState((state) => ({
+                episodes: { ...state.episodes, [episode.id]: episode }
+            }));
+
+            console.log(`[CloudSync] Fetched and saved episode from raw feed: ${episode.title}`);
+            return episode;
+        }
+    } catch (err) {
+        console.warn(`[CloudSync] Could not read raw feed ${feedUrl}:`, err);
+    }
+
     return null;
 }
 
@@ -705,6 +804,7 @@ async function syncEpisodeStates(): Promise<void> {
                 const updatedEpisode = {
                     ...episode,
                     isPlayed: cloudIsPlayed,
+                    playedAt: cloudIsPlayed ? (episode.playedAt ?? (Date.parse(cloudState.updated_at) || Date.now())) : undefined,
                     playbackPosition: cloudPosition,
                 };
 
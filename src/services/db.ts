@@ -1,5 +1,5 @@
 import { get, set, update, createStore } from 'idb-keyval';
-import type { Podcast, Episode, UserSession, UserPreferences } from '../types';
+import type { Podcast, Episode, UserSession, UserPreferences, FeedState, CloudJobRecord } from '../types';
 
 // In-memory fallback storage
 let memoryStorage: Record<string, any> = {};
@@ -15,6 +15,8 @@ const DB_KEYS = {
     SESSION: 'session',
     PREFERENCES: 'preferences',
     PLAYER_STATE: 'playerState',
+    FEED_STATE: 'feedState',
+    CLOUD_JOBS: 'cloudJobs',
 };
 
 // Default values for settings, used if no value is found in the database or 
@@ -24,12 +26,24 @@ const DEFAULT_PREFERENCES: UserPreferences = {
     theme: 'dark',
     volume: 0.65,
     transcriptionProvider: 'assemblyai',
+    transcriptionMode: 'cloud',
     compressionQuality: 0,
     autoPlayNext: true,
     skipForwardSeconds: 30,
     skipBackwardSeconds: 20,
     debugLogsEnabled: true, //Set to false for production stable build
     refreshIntervalMinutes: 5,
+    maxConcurrentDownloads: 2,
+    maxConcurrentTranscriptions: 1,
+    downloadBandwidthLimitKBps: 0,
+    automaticDownloadWindows: [],
+    pauseAutomaticDownloads: false,
+    manualDownloadsOnly: false,
+    videoAudioOnly: false,
+    maxStorageMB: 0,
+    maxEpisodesPerPodcast: 0,
+    deletePlayedAfterDays: 0,
+    deleteFilesOnUnsubscribe: false,
     includePrereleases: true,
     autoDetectSkippables: true,
 };
@@ -195,6 +209,63 @@ export const db = {
         );
     },
 
+    // Feed refresh state
+    async getFeedStates(): Promise<Record<number, FeedState>> {
+        return await safeGet(DB_KEYS.FEED_STATE, {});
+    },
+
+    async saveFeedStates(states: FeedState[]): Promise<void> {
+        await safeUpdate(
+            DB_KEYS.FEED_STATE,
+            (val: Record<number, FeedState>) => {
+                const next = { ...val };
+                states.forEach(state => next[state.podcastId] = state);
+                return next;
+            },
+            {}
+        );
+    },
+
+    async removeFeedState(podcastId: number): Promise<void> {
+        await safeUpdate(
+            DB_KEYS.FEED_STATE,
+            (val: Record<number, FeedState>) => {
+                const copy = { ...val };
+                delete copy[podcastId];
+                return copy;
+            },
+            {}
+        );
+    },
+
+    // Cloud processing jobs in flight
+    async getCloudJobs(): Promise<Record<number, CloudJobRecord>> {
+        return await safeGet(DB_KEYS.CLOUD_JOBS, {});
+    },
+
+    async saveCloudJob(job: CloudJobRecord): Promise<void> {
+        await safeUpdate(
+            DB_KEYS.CLOUD_JOBS,
+            (val: Record<number, CloudJobRecord>) => ({
+                ...val,
+                [job.episodeId]: job,
+            }),
+            {}
+        );
+    },
+
+    async removeCloudJob(episodeId: number): Promise<void> {
+        await safeUpdate(
+            DB_KEYS.CLOUD_JOBS,
+            (val: Record<number, CloudJobRecord>) => {
+                const copy = { ...val };
+                delete copy[episodeId];
+                return copy;
+            },
+            {}
+        );
+    },
+
     // Session
     async getSession(): Promise<UserSession | undefined> {
         return await safeGet(DB_KEYS.SESSION, undefined);
@@ -0,0 +1,60 @@
+/**
+ * Download Integrity
+ *
+ * Judges an inspected episode file (see electron/fileIntegrity.ts) against
+ * what we know about it: the size and hash recorded when it was downloaded,
+ * and the length and duration the feed advertises. The main-process download
+ * manager already rejects responses shorter than their Content-Length; this
+ * catches what gets past it (servers that send no length, files that were
+ * damaged on disk, error pages served as audio).
+ */
+
+import type { Episode } from '../types';
+import type { FileInspection } from '../types/electron';
+
+export type IntegrityProblem = 'missing' | 'empty' | 'truncated' | 'modified' | 'undecodable';
+
+export interface IntegrityCheck {
+    ok: boolean;
+    problem?: IntegrityProblem;
+    message?: string;
+}
+
+// Advertised lengths and durations are approximate (and dynamic ad insertion
+// changes them), so only a file well short of them counts as truncated
+export const MIN_ADVERTISED_RATIO = 0.5;
+
+type VerifiableEpisode = Pick<Episode, 'enclosureLength' | 'duration' | 'fileSize' | 'contentHash'>;
+
+const fail = (problem: IntegrityProblem, message: string): IntegrityCheck => ({ ok: false, problem, message });
+
+export function checkEpisodeFile(inspection: FileInspection, episode: VerifiableEpisode): IntegrityCheck {
+    if (!inspection.exists) return fail('missing', 'File not found');
+    if (inspection.size === 0) return fail('empty', 'File is empty');
+
+    // Against the download we recorded
+    if (episode.fileSize !== undefined && inspection.size < episode.fileSize) {
+        return fail('truncated', `File has ${inspection.size} of ${episode.fileSize} bytes`);
+    }
+    if (episode.fileSize !== undefined && inspection.size !== episode.fileSize) {
+        return fail('modified', 'File size changed since download');
+    }
+    if (episode.contentHash && inspection.sha256 && inspection.sha256 !== episode.contentHash) {
+        return fail('modified', 'File contents changed since download');
+    }
+
+    if (inspection.duration === null) {
+        return fail('undecodable', inspection.error ?? 'File could not be decoded');
+    }
+
+    // Against what the feed advertises. A recorded size supersedes the
+    // enclosure length (the file may be a video's extracted audio track).
+    if (episode.fileSize === undefined && episode.enclosureLength > 0 && inspection.size < episode.enclosureLength * MIN_ADVERTISED_RATIO) {
+        return fail('truncated', `File has ${inspection.size} bytes, feed lists ${episode.enclosureLength}`);
+    }
+    if (episode.duration > 0 && inspection.duration < episode.duration * MIN_ADVERTISED_RATIO) {
+        return fail('truncated', `File plays for ${Math.round(inspection.duration)}s, feed lists ${episode.duration}s`);
+    }
+
+    return { ok: true };
+}
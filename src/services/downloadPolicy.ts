@@ -0,0 +1,136 @@
+/**
+ * Download Policy
+ *
+ * Decides when automatic downloads (queue prefetching and auto-queue rules)
+ * may run: not while paused, not in manual-only mode, and only inside the
+ * allowed time windows. The main-process download manager holds automatic
+ * downloads and caps their bandwidth; downloads the user starts by hand, from
+ * PodcastDetail or by playing an episode, are never held or capped.
+ */
+
+import type { DownloadWindow, UserPreferences } from '../types';
+
+export type DownloadPolicy = Pick<
+    UserPreferences,
+    'downloadBandwidthLimitKBps' | 'automaticDownloadWindows' | 'pauseAutomaticDownloads' | 'manualDownloadsOnly'
+>;
+
+/**
+ * - paused: the user paused all automatic downloads
+ * - manual-only: queued episodes wait for the user to download them
+ * - outside-window: not inside any of the allowed time windows
+ */
+export type AutomaticDownloadBlock = 'paused' | 'manual-only' | 'outside-window';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Minutes since midnight for "HH:MM", or null for anything else.
+ */
+export function parseTimeOfDay(value: string): number | null {
+    const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) return null;
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (hours > 23 || minutes > 59) return null;
+    return hours * 60 + minutes;
+}
+
+const minuteOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+function isWithinWindow(range: DownloadWindow, minute: number): boolean {
+    const start = parseTimeOfDay(range.start);
+    const end = parseTimeOfDay(range.end);
+    if (start === null || end === null) return false;
+    if (start === end) return true; // The whole day
+    // A window that ends before it starts runs past midnight, e.g. 22:00-06:00
+    return start < end ? minute >= start && minute < end : minute >= start || minute < end;
+}
+
+/**
+ * Whether `now` is inside one of the windows (local time). No windows means
+ * any time is fine.
+ */
+export function isWithinDownloadWindows(windows: DownloadWindow[], now: Date = new Date()): boolean {
+    if (windows.length === 0) return true;
+    const minute = minuteOfDay(now);
+    return windows.some(range => isWithinWindow(range, minute));
+}
+
+/**
+ * Why automatic downloads can't run right now, or null when they can.
+ */
+export function getAutomaticDownloadBlock(policy: DownloadPolicy, now: Date = new Date()): AutomaticDownloadBlock | null {
+    if (policy.pauseAutomaticDownloads) return 'paused';
+    if (policy.manualDownloadsOnly) return 'manual-only';
+    if (!isWithinDownloadWindows(policy.automaticDownloadWindows, now)) return 'outside-window';
+    return null;
+}
+
+/**
+ * When the next window opens after `now`, for telling the user when queued
+ * episodes will download. Null without (valid) windows.
+ */
+export function getNextWindowStart(windows: DownloadWindow[], now: Date = new Date()): Date | null {
+    const current = minuteOfDay(now);
+    let soonest: number | null = null;
+    for (const range of windows) {
+        const start = parseTimeOfDay(range.start);
+        if (start === null || parseTimeOfDay(range.end) === null) continue;
+        const wait = (start - current + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY;
+        if (soonest === null || wait < soonest) soonest = wait;
+    }
+    if (soonest === null) return null;
+
+    const next = new Date(now);
+    next.setSeconds(0, 0);
+    next.setMinutes(next.getMinutes() + soonest);
+    return next;
+}
+
+export function describeAutomaticDownloadBlock(block: AutomaticDownloadBlock, windows: DownloadWindow[], now: Date = new Date()): string {
+    switch (block) {
+        case 'paused':
+            return 'Automatic downloads are paused';
+        case 'manual-only':
+            return 'Queued episodes download when you click Download';
+        case 'outside-window': {
+            const next = getNextWindowStart(windows, now);
+            return next
+                ? `Automatic downloads resume at ${next.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                : 'No valid download window';
+        }
+    }
+}
+
+// =========================================================================
+// Applying the policy
+// =========================================================================
+
+let lastBlock: AutomaticDownloadBlock | null | undefined;
+
+/**
+ * Sends the limits to the download manager. Called on startup, every minute
+ * (windows open and close) and when the settings change; once automatic
+ * downloads are allowed again, the queue picks up where it stopped.
+ */
+export async function applyDownloadPolicy(policy: DownloadPolicy, now: Date = new Date()): Promise<AutomaticDownloadBlock | null> {
+    const block = getAutomaticDownloadBlock(policy, now);
+    await window.electronAPI?.setDownloadLimits?.({
+        bytesPerSecond: Math.max(0, policy.downloadBandwidthLimitKBps) * 1024,
+        automaticHeld: block !== null,
+    });
+
+    if (block !== lastBlock) {
+        console.log(`[DownloadPolicy] Automatic downloads ${block ? `held (${block})` : 'allowed'}`);
+    }
+    const resumed = lastBlock !== undefined && lastBlock !== null && block === null;
+    lastBlock = block;
+
+    if (resumed) {
+        const { usePlayerStore } = await import('../store/usePlayerStore');
+        const { usePodcastStore } = await import('../store/usePodcastStore');
+        await usePodcastStore.getState().ensureQueueDownloaded(usePlayerStore.getState().queue);
+    }
+    return block;
+}
@@ -0,0 +1,140 @@
+/**
+ * Download Helpers
+ *
+ * Renderer side of the main-process download manager: how urgent each
+ * episode's download is, the per-episode download state kept in
+ * usePodcastStore, and formatting for progress displays.
+ */
+
+import type { Episode } from '../types';
+import type { DownloadProgress, DownloadStatus } from '../types/electron';
+
+// Higher runs first. Queue positions count down from QUEUE_HEAD.
+export const DOWNLOAD_PRIORITY = {
+    PLAYING: 1000,
+    QUEUE_HEAD: 500,
+    MANUAL: 100,
+} as const;
+
+export interface EpisodeDownload {
+    episodeId: number;
+    filename: string;
+    status: DownloadStatus;
+    priority: number;
+    receivedBytes: number;
+    totalBytes: number | null;
+    bytesPerSecond: number;
+    resumed: boolean;
+    error?: string;
+    startedAt: number;
+    automatic?: boolean; // Queue prefetching or auto-queue; held and capped by the download policy
+}
+
+const ACTIVE_STATUSES: DownloadStatus[] = ['queued', 'downloading', 'retrying'];
+
+export function isActiveDownload(download: EpisodeDownload | undefined): boolean {
+    return !!download && ACTIVE_STATUSES.includes(download.status);
+}
+
+/**
+ * Whether to offer a Download button: nothing is downloading yet (the
+ * download policy may be holding the episode back), or only in the
+ * background, where a click lifts the hold and bandwidth cap.
+ */
+export function canStartManualDownload(download: EpisodeDownload | undefined): boolean {
+    return !isActiveDownload(download) || !!download?.automatic;
+}
+
+/**
+ * Priority for an episode's download: the playing episode first, then the
+ * queue in order, then anything downloaded by hand.
+ */
+export function getDownloadPriority(episodeId: number, currentEpisodeId: number | undefined, queue: Episode[]): number {
+    if (episodeId === currentEpisodeId) return DOWNLOAD_PRIORITY.PLAYING;
+    const position = queue.findIndex(ep => ep.id === episodeId);
+    if (position === -1) return DOWNLOAD_PRIORITY.MANUAL;
+    // Everything in the queue outranks manual downloads
+    return Math.max(DOWNLOAD_PRIORITY.MANUAL + 1, DOWNLOAD_PRIORITY.QUEUE_HEAD - position);
+}
+
+export function createEpisodeDownload(episodeId: number, filename: string, priority: number, now = Date.now()): EpisodeDownload {
+    return {
+        episodeId,
+        filename,
+        status: 'queued',
+        priority,
+        receivedBytes: 0,
+        totalBytes: null,
+        bytesPerSecond: 0,
+        resumed: false,
+        startedAt: now,
+    };
+}
+
+export function withoutDownload(downloads: Record<number, EpisodeDownload>, episodeId: number): Record<number, EpisodeDownload> {
+    const remaining = { ...downloads };
+    delete remaining[episodeId];
+    return remaining;
+}
+
+/**
+ * Folds a progress event from the main process into an episode's download state.
+ */
+export function applyDownloadProgress(download: EpisodeDownload, progress: DownloadProgress): EpisodeDownload {
+    return {
+        ...download,
+        status: progress.status,
+        priority: progress.priority,
+        receivedBytes: progress.receivedBytes,
+        totalBytes: progress.totalBytes,
+        bytesPerSecond: progress.bytesPerSecond,
+        resumed: progress.resumed,
+        error: progress.error,
+    };
+}
+
+/**
+ * Percentage complete, or null while the size is unknown.
+ */
+export function getDownloadPercent(download: EpisodeDownload): number | null {
+    if (!download.totalBytes) return null;
+    return Math.min(100, Math.floor((download.receivedBytes / download.totalBytes) * 100));
+}
+
+// Bytes on disk before playback starts from a download in progress
+export const PROGRESSIVE_START_BYTES = 512 * 1024;
+
+/**
+ * Whether enough of a running download is on disk to start playing it (see
+ * electron/progressiveMedia.ts).
+ */
+export function canPlayWhileDownloading(download: EpisodeDownload | undefined): boolean {
+    if (!download || (download.status !== 'downloading' && download.status !== 'retrying' && download.status !== 'completed')) return false;
+    const needed = download.totalBytes === null ? PROGRESSIVE_START_BYTES : Math.min(PROGRESSIVE_START_BYTES, download.totalBytes);
+    return download.receivedBytes >= needed;
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+/**
+ * Short label for buttons and lists, e.g. "42%", "12.3 MB" or "Waiting".
+ */
+export function formatDownloadStatus(download: EpisodeDownload): string {
+    switch (download.status) {
+        case 'queued':
+            return 'Waiting';
+        case 'retrying':
+            return 'Retrying';
+        case 'failed':
+            return 'Failed';
+        default: {
+            const percent = getDownloadPercent(download);
+            return percent === null ? formatBytes(download.receivedBytes) : `${percent}%`;
+        }
+    }
+}
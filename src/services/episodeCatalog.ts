@@ -0,0 +1,88 @@
+/**
+ * Episode Catalog
+ *
+ * Search, sorting, paging and season grouping for a podcast's back catalog
+ * as shown in PodcastDetail.
+ */
+
+import type { Episode } from '../types';
+import { decodeXmlEntities } from '../utils/xmlParser';
+
+// Episodes rendered per page of the infinite list
+export const CATALOG_PAGE_SIZE = 50;
+
+export type EpisodeSortOrder = 'newest' | 'oldest' | 'longest';
+
+export interface SeasonGroup {
+    /** null for episodes the feed doesn't assign to a season */
+    season: number | null;
+    episodes: Episode[];
+}
+
+function plainText(html: string | undefined): string {
+    return decodeXmlEntities((html ?? '').replace(/<[^>]*>/g, ' ')).toLowerCase();
+}
+
+/**
+ * Filters episodes whose title or description contains every word of the query.
+ */
+export function searchEpisodes(episodes: Episode[], query: string): Episode[] {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return episodes;
+
+    return episodes.filter(ep => {
+        const haystack = `${(ep.title ?? '').toLowerCase()} ${plainText(ep.description)}`;
+        return terms.every(term => haystack.includes(term));
+    });
+}
+
+/**
+ * Returns a sorted copy. Ties fall back to newest first so the order is stable.
+ */
+export function sortEpisodes(episodes: Episode[], order: EpisodeSortOrder): Episode[] {
+    const newest = (a: Episode, b: Episode) => b.datePublished - a.datePublished;
+    const sorted = [...episodes];
+
+    switch (order) {
+        case 'oldest':
+            return sorted.sort((a, b) => a.datePublished - b.datePublished);
+        case 'longest':
+            return sorted.sort((a, b) => (b.duration || 0) - (a.duration || 0) || newest(a, b));
+        case 'newest':
+        default:
+            return sorted.sort(newest);
+    }
+}
+
+/**
+ * Groups episodes by season, keeping the given order both within and between
+ * groups (seasons appear in the order their first episode does). Episodes
+ * without a season are collected in a trailing group.
+ */
+export function groupBySeason(episodes: Episode[]): SeasonGroup[] {
+    const groups = new Map<number, Episode[]>();
+    const unseasoned: Episode[] = [];
+
+    for (const ep of episodes) {
+        if (ep.season === null || ep.season === undefined) {
+            unseasoned.push(ep);
+            continue;
+        }
+        const group = groups.get(ep.season);
+        if (group) group.push(ep);
+        else groups.set(ep.season, [ep]);
+    }
+
+    const result: SeasonGroup[] = [...groups].map(([season, eps]) => ({ season, episodes: eps }));
+    if (unseasoned.length > 0) {
+        result.push({ season: null, episodes: unseasoned });
+    }
+    return result;
+}
+
+/**
+ * True if grouping by season would be meaningful (at least one episode has a season).
+ */
+export function hasSeasons(episodes: Episode[]): boolean {
+    return episodes.some(ep => ep.season !== null && ep.season !== undefined);
+}
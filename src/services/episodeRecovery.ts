@@ -2,7 +2,8 @@
  * Episode Recovery Service
  * 
  * Provides a modular, reusable function to recover episodes with missing files.
- * When an episode file is missing (e.g., deleted, corrupted, or moved), this service:
+ * When an episode file is missing or fails verification (e.g., deleted,
+ * truncated, corrupted, or moved), this service:
  * 1. Preserves the user's current playback position
  * 2. Clears stale transcription and ad segment data
  * 3. Triggers a fresh download
@@ -15,6 +16,8 @@
 
 import { db } from './db';
 import { storageService } from './storage';
+import { getEpisodeFilename } from './mediaTypes';
+import { checkEpisodeFile, type IntegrityCheck } from './downloadIntegrity';
 import type { Episode } from '../types';
 
 export interface RecoveryResult {
@@ -86,11 +89,18 @@ async function performRecovery(
             : (episode.playbackPosition || 0);
         console.log(`[EpisodeRecovery] Preserving playback position: ${positionToRestore}s`);
 
+        // Remove whatever is left of the old file; it may be corrupt or have another extension
+        if (episode.isDownloaded) {
+            await storageService.deleteFile(getEpisodeFilename(episode)).catch(() => { });
+        }
+
         // Reset the episode state to clear stale data and allow fresh download/transcription
         const resetEpisode: Episode = {
             ...episode,
             isDownloaded: false,
             localFilePath: undefined,
+            fileSize: undefined,
+            contentHash: undefined,
             transcript: undefined,
             adSegments: undefined,
             transcriptionStatus: undefined,
@@ -162,7 +172,7 @@ export async function verifyEpisodeFileExists(episode: Episode): Promise<boolean
         return false;
     }
 
-    const filename = `${episode.id}.mp3`;
+    const filename = getEpisodeFilename(episode);
     try {
         const exists = await storageService.checkFileExists(filename);
         if (!exists) {
@@ -176,7 +186,32 @@ export async function verifyEpisodeFileExists(episode: Episode): Promise<boolean
 }
 
 /**
- * Verifies and recovers multiple episodes if their files are missing.
+ * Verifies that an episode's file is intact: present, the size and hash
+ * recorded at download, and decodable. Slower than verifyEpisodeFileExists
+ * since the whole file is read.
+ */
+export async function verifyEpisodeFile(episode: Episode): Promise<IntegrityCheck> {
+    if (!episode.isDownloaded || !episode.localFilePath) {
+        return { ok: false, problem: 'missing', message: 'Episode is not downloaded' };
+    }
+
+    const filename = getEpisodeFilename(episode);
+    try {
+        const check = checkEpisodeFile(await storageService.verifyFile(filename), episode);
+        if (!check.ok) {
+            console.warn(`[EpisodeRecovery] File for episode ${episode.id} failed verification (${check.problem}): ${check.message}`);
+        }
+        return check;
+    } catch (error) {
+        // Couldn't inspect the file (e.g. IPC unavailable); don't treat that as corruption
+        console.error(`[EpisodeRecovery] Error verifying file for episode ${episode.id}:`, error);
+        return { ok: true };
+    }
+}
+
+/**
+ * Verifies and recovers multiple episodes if their files are missing,
+ * truncated or corrupt.
  * Typically called on app startup to ensure queued/playing episodes have valid files.
  * 
  * @param episodes - Array of episodes to verify
@@ -184,17 +219,21 @@ export async function verifyEpisodeFileExists(episode: Episode): Promise<boolean
  */
 export async function verifyAndRecoverEpisodes(episodes: Episode[]): Promise<RecoveryResult[]> {
     const results: RecoveryResult[] = [];
+    const { usePodcastStore } = await import('../store/usePodcastStore');
+
+    for (const queuedEpisode of episodes) {
+        // Player snapshots can predate the download, so check against the library's record
+        const episode = usePodcastStore.getState().episodes[queuedEpisode.id] ?? queuedEpisode;
 
-    for (const episode of episodes) {
         // Only check episodes that claim to be downloaded
         if (!episode.isDownloaded) {
             continue;
         }
 
-        const fileExists = await verifyEpisodeFileExists(episode);
+        const check = await verifyEpisodeFile(episode);
 
-        if (!fileExists) {
-            console.log(`[EpisodeRecovery] Episode "${episode.title}" has missing file. Attempting recovery...`);
+        if (!check.ok) {
+            console.log(`[EpisodeRecovery] Episode "${episode.title}" has a ${check.problem} file. Attempting recovery...`);
             const result = await recoverMissingEpisode(episode.id, episode.playbackPosition);
             results.push(result);
         }
@@ -0,0 +1,148 @@
+/**
+ * Fake Provider
+ *
+ * An in-process processing provider that returns fixture transcripts and
+ * segments instead of calling a backend, so the whole pipeline (store,
+ * transcript view, ad skipping, export) runs offline and in tests. Every
+ * episode gets the same short script spread over its duration, with a
+ * sponsor read that detection reports as an ad. Tests can set a fixture, a
+ * failure or a delay per episode.
+ */
+
+import type { AdSegment, Episode, Transcript, TranscriptSegment } from '../types';
+import type { TranscriptDetectionResults } from './cloudApi';
+import { TranscriptionCancelledError, type ProcessingProvider } from './processingProviders';
+
+export interface FakeFixture {
+    transcript?: Transcript;
+    detection?: TranscriptDetectionResults;
+    error?: string; // Fail with this message
+    delayMs?: number; // Time "spent" transcribing
+}
+
+const SCRIPT: { speaker: string; text: string; sponsor?: boolean }[] = [
+    { speaker: 'A', text: 'Welcome back to the show, it is great to have you here.' },
+    { speaker: 'B', text: 'Thanks for having me, I have been looking forward to this.' },
+    { speaker: 'A', text: 'This episode is brought to you by our sponsor, use code PODCAST for ten percent off.', sponsor: true },
+    { speaker: 'A', text: 'So let us get into it, where did the idea come from?' },
+    { speaker: 'B', text: 'It started as a side project and slowly took over everything.' },
+    { speaker: 'A', text: 'That is all for today, see you next week.' },
+];
+
+const DEFAULT_DURATION_SECONDS = 600;
+
+const fixtures = new Map<number, FakeFixture>();
+const pending = new Map<number, () => void>();
+
+export function setFakeFixture(episodeId: number, fixture: FakeFixture): void {
+    fixtures.set(episodeId, fixture);
+}
+
+export function resetFakeFixtures(): void {
+    fixtures.clear();
+}
+
+const formatClock = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+/**
+ * The fixture script spread evenly over the episode, with evenly spaced word timings.
+ */
+export function buildFixtureTranscript(episode: Pick<Episode, 'id' | 'duration'>, now = Date.now()): Transcript {
+    const duration = episode.duration > 0 ? episode.duration : DEFAULT_DURATION_SECONDS;
+    const length = duration / SCRIPT.length;
+
+    const segments = SCRIPT.map((line, index): TranscriptSegment => {
+        const start = index * length;
+        const words = line.text.split(' ');
+        const wordLength = length / words.length;
+        return {
+            id: index,
+            start,
+            end: start + length,
+            text: line.text,
+            speaker: line.speaker,
+            words: words.map((word, wordIndex) => ({
+                word,
+                startTime: start + wordIndex * wordLength,
+                endTime: start + (wordIndex + 1) * wordLength,
+                speaker: line.speaker,
+            })),
+        };
+    });
+
+    return {
+        episodeId: episode.id,
+        text: SCRIPT.map(line => line.text).join(' '),
+        segments,
+        language: 'en',
+        duration,
+        createdAt: now,
+        source: 'fake',
+    };
+}
+
+/**
+ * The sponsor read of a fixture transcript as an advertisement.
+ */
+export function buildFixtureDetection(transcript: Transcript): TranscriptDetectionResults {
+    const sponsorLines = new Set(SCRIPT.filter(line => line.sponsor).map(line => line.text));
+    const detectedSegments = transcript.segments
+        .filter(segment => sponsorLines.has(segment.text))
+        .map((segment): AdSegment => ({
+            startTime: formatClock(segment.start),
+            endTime: formatClock(segment.end),
+            startTimeSeconds: segment.start,
+            endTimeSeconds: segment.end,
+            confidence: 90,
+            type: 'advertisement',
+            description: 'Sponsor read',
+        }));
+    return { detectedSegments, detectionMethod: 'basic' };
+}
+
+// Resolves after `ms`, or rejects when the episode's job is cancelled
+function wait(episodeId: number, ms: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            pending.delete(episodeId);
+            resolve();
+        }, ms);
+        pending.set(episodeId, () => {
+            clearTimeout(timer);
+            pending.delete(episodeId);
+            reject(new TranscriptionCancelledError());
+        });
+    });
+}
+
+export const fakeProvider: ProcessingProvider = {
+    id: 'fake',
+    name: 'Fixture transcripts',
+    capabilities: {
+        wordTimestamps: true,
+        diarization: true,
+        segmentDetection: true,
+        offline: true,
+        cancellable: true,
+    },
+
+    isAvailable: async () => true,
+
+    transcribe: async ({ episode, onProgress }) => {
+        const fixture = fixtures.get(episode.id) ?? {};
+        onProgress?.({ stage: 'Transcribing', progress: 0 });
+        await wait(episode.id, fixture.delayMs ?? 0);
+        if (fixture.error) throw new Error(fixture.error);
+        onProgress?.({ stage: 'Transcribing', progress: 1 });
+
+        const transcript = fixture.transcript ?? buildFixtureTranscript(episode);
+        return { transcript, detection: fixture.detection ?? buildFixtureDetection(transcript) };
+    },
+
+    detectSegments: async (transcript) => fixtures.get(transcript.episodeId)?.detection ?? buildFixtureDetection(transcript),
+
+    cancel: async (episodeId) => {
+        pending.get(episodeId)?.();
+    },
+};
@@ -0,0 +1,76 @@
+/**
+ * Feed Health & Moves
+ *
+ * Pure helpers for tracking whether a subscription's raw feed is still
+ * reachable, and for deciding when a feed has permanently moved.
+ */
+
+import type { FeedState } from '../types';
+
+// Consecutive failed refreshes before a feed is reported as dead
+export const DEAD_FEED_FAILURES = 5;
+
+export type FeedHealthStatus = 'healthy' | 'failing' | 'dead' | 'unknown';
+
+function baseState(previous: FeedState | undefined, podcastId: number, now: number): FeedState {
+    return { ...previous, podcastId, lastCheckedAt: now };
+}
+
+/**
+ * Records a successful fetch of the raw feed.
+ */
+export function recordFeedSuccess(previous: FeedState | undefined, podcastId: number, now = Date.now()): FeedState {
+    return {
+        ...baseState(previous, podcastId, now),
+        lastSuccessAt: now,
+        consecutiveFailures: 0,
+        lastError: undefined,
+    };
+}
+
+/**
+ * Records a failed fetch of the raw feed.
+ */
+export function recordFeedFailure(previous: FeedState | undefined, podcastId: number, error: string, now = Date.now()): FeedState {
+    return {
+        ...baseState(previous, podcastId, now),
+        consecutiveFailures: (previous?.consecutiveFailures ?? 0) + 1,
+        lastError: error,
+    };
+}
+
+export function getFeedHealth(state: FeedState | undefined): FeedHealthStatus {
+    if (!state || (state.lastSuccessAt === undefined && !state.consecutiveFailures)) return 'unknown';
+    const failures = state.consecutiveFailures ?? 0;
+    if (failures >= DEAD_FEED_FAILURES) return 'dead';
+    if (failures > 0) return 'failing';
+    return 'healthy';
+}
+
+function isHttpUrl(value: string): boolean {
+    try {
+        const { protocol } = new URL(value);
+        return protocol === 'http:' || protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Returns the URL a feed has moved to, or null if it hasn't. A permanent
+ * redirect wins over a new-feed-url declaration because it is what the
+ * host actually serves. Candidates pointing back at the current URL, or at
+ * the URL we just moved away from (misconfigured feeds pointing at each
+ * other), are ignored.
+ */
+export function detectFeedMove(
+    currentUrl: string,
+    signals: { permanentUrl?: string; newFeedUrl?: string; movedFrom?: string }
+): string | null {
+    for (const candidate of [signals.permanentUrl, signals.newFeedUrl]) {
+        if (candidate && candidate !== currentUrl && candidate !== signals.movedFrom && isHttpUrl(candidate)) {
+            return candidate;
+        }
+    }
+    return null;
+}
@@ -0,0 +1,402 @@
+/**
+ * Feed Parser
+ *
+ * Parses raw podcast feeds (RSS 2.0 and Atom, including the iTunes and
+ * Podcasting 2.0 namespaces) into our Podcast/Episode types, so we can
+ * subscribe to and refresh shows without going through Podcast Index.
+ */
+
+import type { Podcast, Episode, EpisodeType, TranscriptLink } from '../types';
+import {
+    parseXml,
+    childElement,
+    childElements,
+    childText,
+    type XmlElement,
+} from '../utils/xmlParser';
+
+export const NAMESPACES = {
+    ITUNES: 'http://www.itunes.com/dtds/podcast-1.0.dtd',
+    ATOM: 'http://www.w3.org/2005/Atom',
+    CONTENT: 'http://purl.org/rss/1.0/modules/content/',
+} as const;
+
+// The Podcasting 2.0 namespace has been published under a few URIs over time
+const PODCAST_NAMESPACES = new Set([
+    'https://podcastindex.org/namespace/1.0',
+    'http://podcastindex.org/namespace/1.0',
+    'https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/1.0.md',
+]);
+
+export interface ParseFeedOptions {
+    /** URL the feed was fetched from (stored on the podcast and its episodes) */
+    feedUrl: string;
+    /** Known feed ID (e.g. from Podcast Index). Defaults to a synthetic ID derived from the URL. */
+    feedId?: number;
+    /** URL relative links resolve against, when feedUrl isn't the real location (private feeds) */
+    baseUrl?: string;
+}
+
+export interface ParsedFeed {
+    format: 'rss' | 'atom';
+    podcast: Podcast;
+    episodes: Episode[];
+    /** Where the publisher says the feed has moved (itunes:new-feed-url / podcast:newFeedUrl) */
+    newFeedUrl?: string;
+}
+
+export class FeedParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'FeedParseError';
+    }
+}
+
+// =========================================================================
+// Helpers
+// =========================================================================
+
+/**
+ * Creates a stable negative ID from a string key (FNV-1a hash).
+ *
+ * Podcast Index IDs are always positive, so negative IDs let feeds and
+ * episodes that were never indexed live alongside indexed ones without
+ * colliding.
+ */
+export function createSyntheticId(key: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+        hash ^= key.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return -((hash >>> 0) & 0x7fffffff) || -1;
+}
+
+/**
+ * Parses an itunes:duration value ("HH:MM:SS", "MM:SS" or plain seconds).
+ */
+export function parseDuration(value: string): number {
+    const trimmed = value.trim();
+    if (!trimmed) return 0;
+
+    if (trimmed.includes(':')) {
+        const parts = trimmed.split(':').map(p => parseFloat(p));
+        if (parts.some(p => Number.isNaN(p))) return 0;
+        return Math.round(parts.reduce((total, part) => total * 60 + part, 0));
+    }
+
+    const seconds = parseFloat(trimmed);
+    return Number.isNaN(seconds) ? 0 : Math.round(seconds);
+}
+
+/**
+ * Parses an RFC 822 (RSS) or ISO 8601 (Atom) date into epoch seconds.
+ * Returns 0 if the date can't be parsed.
+ */
+export function parseFeedDate(value: string): number {
+    const trimmed = value.trim();
+    if (!trimmed) return 0;
+    const ms = Date.parse(trimmed);
+    return Number.isNaN(ms) ? 0 : Math.floor(ms / 1000);
+}
+
+export function formatPrettyDate(epochSeconds: number): string {
+    if (!epochSeconds) return '';
+    return new Date(epochSeconds * 1000).toLocaleString('en-US', {
+        month: 'long',
+        day: 'numeric',
+        year: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+    });
+}
+
+function parseInteger(value: string): number | null {
+    const n = parseInt(value, 10);
+    return Number.isNaN(n) ? null : n;
+}
+
+function parseExplicit(value: string): 0 | 1 {
+    return ['yes', 'true', 'explicit'].includes(value.trim().toLowerCase()) ? 1 : 0;
+}
+
+function parseEpisodeType(value: string): EpisodeType | undefined {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === 'full' || normalized === 'trailer' || normalized === 'bonus') {
+        return normalized;
+    }
+    return undefined;
+}
+
+function podcastChild(parent: XmlElement, localName: string): XmlElement | undefined {
+    return parent.children.find(child => child.localName === localName && PODCAST_NAMESPACES.has(child.namespace));
+}
+
+function podcastText(parent: XmlElement, localName: string): string {
+    return podcastChild(parent, localName)?.text.trim() ?? '';
+}
+
+/**
+ * Returns the resolved `url` attribute of a Podcasting 2.0 element, if present.
+ */
+function podcastUrl(parent: XmlElement, localName: string, base: string): string | undefined {
+    const url = podcastChild(parent, localName)?.attributes.url?.trim();
+    return url ? resolveUrl(url, base) : undefined;
+}
+
+function podcastTranscripts(parent: XmlElement, base: string): TranscriptLink[] | undefined {
+    const links = parent.children
+        .filter(child => child.localName === 'transcript' && PODCAST_NAMESPACES.has(child.namespace))
+        .map(el => ({
+            url: resolveUrl(el.attributes.url?.trim() ?? '', base),
+            type: el.attributes.type?.trim() ?? '',
+            language: el.attributes.language?.trim() || undefined,
+            rel: el.attributes.rel?.trim() || undefined,
+        }))
+        .filter(link => link.url);
+    return links.length > 0 ? links : undefined;
+}
+
+function itunesText(parent: XmlElement, localName: string): string {
+    return childText(parent, localName, NAMESPACES.ITUNES);
+}
+
+/**
+ * Reads a "this feed has moved" declaration from the channel/feed element.
+ */
+function newFeedUrl(parent: XmlElement, base: string): string | undefined {
+    const podcastMove = podcastChild(parent, 'newFeedUrl');
+    const url = itunesText(parent, 'new-feed-url') ||
+        podcastMove?.text.trim() ||
+        podcastMove?.attributes.url?.trim();
+    return url ? resolveUrl(url, base) : undefined;
+}
+
+function itunesImage(parent: XmlElement): string {
+    return childElement(parent, 'image', NAMESPACES.ITUNES)?.attributes.href?.trim() ?? '';
+}
+
+function resolveUrl(url: string, base: string): string {
+    if (!url) return '';
+    try {
+        return new URL(url, base).toString();
+    } catch {
+        return url;
+    }
+}
+
+// =========================================================================
+// RSS 2.0
+// =========================================================================
+
+function parseRssChannel(channel: XmlElement, options: ParseFeedOptions): ParsedFeed {
+    const feedId = options.feedId ?? createSyntheticId(options.feedUrl);
+    const base = options.baseUrl ?? options.feedUrl;
+    const title = childText(channel, 'title', '');
+    const language = childText(channel, 'language', '') || 'en';
+    const imageElement = childElement(channel, 'image', '');
+    const channelImage = itunesImage(channel) || (imageElement ? childText(imageElement, 'url', '') : '');
+
+    const items = childElements(channel, 'item', '');
+    const episodes: Episode[] = [];
+    const crawledAt = Math.floor(Date.now() / 1000);
+
+    for (const item of items) {
+        const enclosure = childElement(item, 'enclosure', '');
+        const enclosureUrl = resolveUrl(enclosure?.attributes.url?.trim() ?? '', base);
+        // Items without media aren't playable episodes
+        if (!enclosureUrl) continue;
+
+        const link = childText(item, 'link', '');
+        const guid = childText(item, 'guid', '') || enclosureUrl;
+        const datePublished = parseFeedDate(childText(item, 'pubDate', ''));
+
+        episodes.push({
+            id: createSyntheticId(`${options.feedUrl}#${guid}`),
+            title: childText(item, 'title', '') || itunesText(item, 'title'),
+            link,
+            description:
+                childText(item, 'description', '') ||
+                childText(item, 'encoded', NAMESPACES.CONTENT) ||
+                itunesText(item, 'summary'),
+            guid,
+            datePublished,
+            datePublishedPretty: formatPrettyDate(datePublished),
+            dateCrawled: crawledAt,
+            enclosureUrl,
+            enclosureType: enclosure?.attributes.type?.trim() || 'audio/mpeg',
+            enclosureLength: parseInteger(enclosure?.attributes.length ?? '') ?? 0,
+            duration: parseDuration(itunesText(item, 'duration')),
+            explicit: parseExplicit(itunesText(item, 'explicit')),
+            episode: parseInteger(itunesText(item, 'episode') || podcastText(item, 'episode')),
+            season: parseInteger(itunesText(item, 'season') || podcastText(item, 'season')),
+            episodeType: parseEpisodeType(itunesText(item, 'episodeType')),
+            chaptersUrl: podcastUrl(item, 'chapters', base),
+            transcriptLinks: podcastTranscripts(item, base),
+            image: resolveUrl(itunesImage(item), base),
+            feedImage: resolveUrl(channelImage, base),
+            feedId,
+            feedUrl: options.feedUrl,
+            feedTitle: title,
+            feedLanguage: language,
+            isPlayed: false,
+            playbackPosition: 0,
+            isDownloaded: false,
+            inQueue: false,
+        });
+    }
+
+    const newestEpisode = episodes.reduce((max, ep) => Math.max(max, ep.datePublished), 0);
+
+    const podcast: Podcast = {
+        id: feedId,
+        title,
+        url: options.feedUrl,
+        originalUrl: options.feedUrl,
+        link: childText(channel, 'link', ''),
+        description: childText(channel, 'description', '') || itunesText(channel, 'summary'),
+        author: itunesText(channel, 'author') || childText(channel, 'managingEditor', ''),
+        ownerName: (() => {
+            const owner = childElement(channel, 'owner', NAMESPACES.ITUNES);
+            return (owner && childText(owner, 'name', NAMESPACES.ITUNES)) || itunesText(channel, 'author');
+        })(),
+        image: resolveUrl(channelImage, base),
+        artwork: resolveUrl(channelImage, base),
+        lastUpdateTime: parseFeedDate(childText(channel, 'lastBuildDate', '')) || newestEpisode,
+        contentType: 'application/rss+xml',
+        itunesId: null,
+        generator: childText(channel, 'generator', ''),
+        language,
+        episodeCount: episodes.length,
+        autoAddToQueue: false,
+        subscribedAt: 0,
+    };
+
+    return { format: 'rss', podcast, episodes, newFeedUrl: newFeedUrl(channel, base) };
+}
+
+// =========================================================================
+// Atom
+// =========================================================================
+
+function atomLinks(parent: XmlElement): XmlElement[] {
+    return childElements(parent, 'link', NAMESPACES.ATOM);
+}
+
+function atomAlternateLink(parent: XmlElement): string {
+    const link = atomLinks(parent).find(l => !l.attributes.rel || l.attributes.rel === 'alternate');
+    return link?.attributes.href?.trim() ?? '';
+}
+
+function parseAtomFeed(feed: XmlElement, options: ParseFeedOptions): ParsedFeed {
+    const feedId = options.feedId ?? createSyntheticId(options.feedUrl);
+    const base = options.baseUrl ?? options.feedUrl;
+    const title = childText(feed, 'title', NAMESPACES.ATOM);
+    const language = feed.attributes['xml:lang'] || 'en';
+    const feedImage = resolveUrl(
+        itunesImage(feed) || childText(feed, 'logo', NAMESPACES.ATOM) || childText(feed, 'icon', NAMESPACES.ATOM),
+        base
+    );
+    const author = (() => {
+        const authorEl = childElement(feed, 'author', NAMESPACES.ATOM);
+        return authorEl ? childText(authorEl, 'name', NAMESPACES.ATOM) : '';
+    })();
+
+    const episodes: Episode[] = [];
+    const crawledAt = Math.floor(Date.now() / 1000);
+
+    for (const entry of childElements(feed, 'entry', NAMESPACES.ATOM)) {
+        const enclosure = atomLinks(entry).find(l => l.attributes.rel === 'enclosure');
+        const enclosureUrl = resolveUrl(enclosure?.attributes.href?.trim() ?? '', base);
+        if (!enclosureUrl) continue;
+
+        const guid = childText(entry, 'id', NAMESPACES.ATOM) || enclosureUrl;
+        const datePublished = parseFeedDate(
+            childText(entry, 'published', NAMESPACES.ATOM) || childText(entry, 'updated', NAMESPACES.ATOM)
+        );
+
+        episodes.push({
+            id: createSyntheticId(`${options.feedUrl}#${guid}`),
+            title: childText(entry, 'title', NAMESPACES.ATOM),
+            link: atomAlternateLink(entry),
+            description: childText(entry, 'summary', NAMESPACES.ATOM) || childText(entry, 'content', NAMESPACES.ATOM),
+            guid,
+            datePublished,
+            datePublishedPretty: formatPrettyDate(datePublished),
+            dateCrawled: crawledAt,
+            enclosureUrl,
+            enclosureType: enclosure?.attributes.type?.trim() || 'audio/mpeg',
+            enclosureLength: parseInteger(enclosure?.attributes.length ?? '') ?? 0,
+            duration: parseDuration(itunesText(entry, 'duration')),
+            explicit: parseExplicit(itunesText(entry, 'explicit')),
+            episode: parseInteger(itunesText(entry, 'episode') || podcastText(entry, 'episode')),
+            season: parseInteger(itunesText(entry, 'season') || podcastText(entry, 'season')),
+            episodeType: parseEpisodeType(itunesText(entry, 'episodeType')),
+            chaptersUrl: podcastUrl(entry, 'chapters', base),
+            transcriptLinks: podcastTranscripts(entry, base),
+            image: resolveUrl(itunesImage(entry), base),
+            feedImage,
+            feedId,
+            feedUrl: options.feedUrl,
+            feedTitle: title,
+            feedLanguage: language,
+            isPlayed: false,
+            playbackPosition: 0,
+            isDownloaded: false,
+            inQueue: false,
+        });
+    }
+
+    const podcast: Podcast = {
+        id: feedId,
+        title,
+        url: options.feedUrl,
+        originalUrl: options.feedUrl,
+        link: atomAlternateLink(feed),
+        description: childText(feed, 'subtitle', NAMESPACES.ATOM) || itunesText(feed, 'summary'),
+        author: itunesText(feed, 'author') || author,
+        ownerName: author,
+        image: feedImage,
+        artwork: feedImage,
+        lastUpdateTime: parseFeedDate(childText(feed, 'updated', NAMESPACES.ATOM)),
+        contentType: 'application/atom+xml',
+        itunesId: null,
+        generator: childText(feed, 'generator', NAMESPACES.ATOM),
+        language,
+        episodeCount: episodes.length,
+        autoAddToQueue: false,
+        subscribedAt: 0,
+    };
+
+    return { format: 'atom', podcast, episodes, newFeedUrl: newFeedUrl(feed, base) };
+}
+
+// =========================================================================
+// Public API
+// =========================================================================
+
+/**
+ * Parses a raw RSS 2.0 or Atom feed document.
+ *
+ * @throws FeedParseError if the document isn't a recognizable podcast feed
+ */
+export function parseFeed(xml: string, options: ParseFeedOptions): ParsedFeed {
+    let root: XmlElement;
+    try {
+        root = parseXml(xml);
+    } catch (error) {
+        throw new FeedParseError(`Invalid feed XML: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (root.localName === 'rss') {
+        const channel = childElement(root, 'channel');
+        if (!channel) throw new FeedParseError('RSS feed has no <channel> element');
+        return parseRssChannel(channel, options);
+    }
+
+    if (root.localName === 'feed' && root.namespace === NAMESPACES.ATOM) {
+        return parseAtomFeed(root, options);
+    }
+
+    throw new FeedParseError(`Unsupported feed format: <${root.name}>`);
+}
@@ -0,0 +1,151 @@
+/**
+ * Feed Refresh Helpers
+ *
+ * Pure building blocks for feedService.refreshFeeds: bounded-concurrency
+ * execution, an indexed GUID lookup for "do we already have this episode?",
+ * Podcast Index IDs for raw feed items, and the structured report the UI
+ * shows after each refresh.
+ */
+
+import type { Episode, Podcast } from '../types';
+
+// Number of feeds fetched at the same time
+export const FEED_REFRESH_CONCURRENCY = 4;
+
+export interface FeedRefreshResult {
+    podcastId: number;
+    title: string;
+    status: 'updated' | 'unchanged' | 'error';
+    source: 'feed' | 'podcastindex';
+    newEpisodes: number;
+    /** Items in the feed that were already known or predate the subscription */
+    skipped: number;
+    error?: string;
+    /** New feed URL when the feed moved during this refresh */
+    movedTo?: string;
+    durationMs: number;
+}
+
+export interface FeedRefreshReport {
+    startedAt: number;
+    finishedAt: number;
+    durationMs: number;
+    totalNew: number;
+    feeds: FeedRefreshResult[];
+}
+
+/**
+ * Runs `worker` over `items` with at most `limit` in flight, preserving result order.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const run = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await worker(items[index], index);
+        }
+    };
+
+    const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, run);
+    await Promise.all(runners);
+    return results;
+}
+
+// =========================================================================
+// Episode index
+// =========================================================================
+
+/**
+ * Lookup of known episodes by ID and by (feed, GUID). Episodes can be keyed by
+ * feed ID or feed URL depending on where they came from, so both are indexed.
+ */
+export interface EpisodeIndex {
+    ids: Set<number>;
+    keys: Set<string>;
+}
+
+function feedIdKey(feedId: number, guid: string): string {
+    return `id:${feedId}|${guid}`;
+}
+
+function feedUrlKey(feedUrl: string, guid: string): string {
+    return `url:${feedUrl}|${guid}`;
+}
+
+export function buildEpisodeIndex(episodes: Iterable<Episode>): EpisodeIndex {
+    const index: EpisodeIndex = { ids: new Set(), keys: new Set() };
+    for (const episode of episodes) {
+        addToEpisodeIndex(index, episode);
+    }
+    return index;
+}
+
+export function addToEpisodeIndex(index: EpisodeIndex, episode: Episode): void {
+    index.ids.add(episode.id);
+    index.keys.add(feedIdKey(episode.feedId, episode.guid));
+    if (episode.feedUrl) {
+        index.keys.add(feedUrlKey(episode.feedUrl, episode.guid));
+    }
+}
+
+export function isKnownEpisode(index: EpisodeIndex, podcast: Podcast, episode: Episode): boolean {
+    return index.ids.has(episode.id) ||
+        index.keys.has(feedIdKey(podcast.id, episode.guid)) ||
+        index.keys.has(feedUrlKey(podcast.url, episode.guid));
+}
+
+/**
+ * Splits feed items into new episodes (published after the subscription and
+ * not already known) and a count of skipped ones.
+ */
+export function selectNewEpisodes(
+    items: Episode[],
+    podcast: Podcast,
+    index: EpisodeIndex
+): { newEpisodes: Episode[]; skipped: number } {
+    const newEpisodes: Episode[] = [];
+    const seen = new Set<string>();
+
+    for (const item of items) {
+        const isNew = item.datePublished * 1000 > podcast.subscribedAt;
+        // Feeds occasionally repeat a GUID; only take the first
+        if (isNew && !seen.has(item.guid) && !isKnownEpisode(index, podcast, item)) {
+            newEpisodes.push(item);
+        }
+        seen.add(item.guid);
+    }
+
+    return { newEpisodes, skipped: items.length - newEpisodes.length };
+}
+
+/**
+ * Gives raw feed items of an indexed show the Podcast Index ID of the item
+ * with the same GUID, so the show doesn't end up with two ID schemes. Items
+ * the index doesn't have (yet) keep their synthetic IDs.
+ */
+export function applyIndexedIds(items: Episode[], indexed: Episode[]): Episode[] {
+    const idByGuid = new Map(indexed.map(ep => [ep.guid, ep.id]));
+    return items.map(item => {
+        const id = idByGuid.get(item.guid);
+        return id === undefined ? item : { ...item, id };
+    });
+}
+
+/**
+ * Builds the report for a finished refresh run.
+ */
+export function buildRefreshReport(startedAt: number, feeds: FeedRefreshResult[], finishedAt = Date.now()): FeedRefreshReport {
+    return {
+        startedAt,
+        finishedAt,
+        durationMs: finishedAt - startedAt,
+        totalNew: feeds.reduce((sum, feed) => sum + feed.newEpisodes, 0),
+        feeds,
+    };
+}
@@ -0,0 +1,218 @@
+/**
+ * Local Files
+ *
+ * Imports audio files from disk (recorded talks, conference audio...) as
+ * episodes of a "Local Files" pseudo-podcast. Files are copied into the
+ * podcast directory under the same filename a downloaded episode would get,
+ * so playback, the queue, transcription and ad skipping treat them like any
+ * other downloaded episode.
+ */
+
+import type { Episode, Podcast } from '../types';
+import type { LocalAudioFileInfo } from '../types/electron';
+import { createSyntheticId, formatPrettyDate } from './feedParser';
+import { getEpisodeFilename, resolveMediaType } from './mediaTypes';
+import { db } from './db';
+import { usePodcastStore } from '../store/usePodcastStore';
+
+export const LOCAL_FILES_FEED_URL = 'local-files://library';
+export const LOCAL_FILES_PODCAST_ID = createSyntheticId(LOCAL_FILES_FEED_URL);
+const LOCAL_FILES_TITLE = 'Local Files';
+
+export interface LocalImportResult {
+    fileName: string;
+    title: string;
+    status: 'imported' | 'existing' | 'failed';
+    episodeId?: number;
+    error?: string;
+}
+
+export function isLocalFilesUrl(url: string | undefined): boolean {
+    return !!url && url.startsWith('local-files://');
+}
+
+export function createLocalFilesPodcast(now = Date.now()): Podcast {
+    return {
+        id: LOCAL_FILES_PODCAST_ID,
+        title: LOCAL_FILES_TITLE,
+        url: LOCAL_FILES_FEED_URL,
+        originalUrl: LOCAL_FILES_FEED_URL,
+        link: '',
+        description: 'Audio files imported from this computer.',
+        author: '',
+        ownerName: '',
+        image: '',
+        artwork: '',
+        lastUpdateTime: Math.floor(now / 1000),
+        contentType: '',
+        itunesId: null,
+        generator: '',
+        language: 'en',
+        episodeCount: 0,
+        autoAddToQueue: false,
+        subscribedAt: now,
+    };
+}
+
+function stripExtension(fileName: string): string {
+    return fileName.replace(/\.[^.]+$/, '');
+}
+
+/**
+ * GUID for an imported file. Name, size and modification time identify the
+ * same recording well enough to skip re-imports without hashing the audio.
+ */
+export function getLocalFileGuid(file: LocalAudioFileInfo): string {
+    return `${file.fileName}|${file.size ?? 0}|${Math.floor(file.modifiedAt ?? 0)}`;
+}
+
+/**
+ * Builds the episode record for an imported file from its tags, falling back
+ * to the file name and modification time.
+ */
+export function buildLocalEpisode(file: LocalAudioFileInfo, importedAt = Date.now()): Episode {
+    const guid = getLocalFileGuid(file);
+    const datePublished = Math.floor((file.modifiedAt || importedAt) / 1000);
+    const details = [file.artist, file.album].filter(Boolean).join(' - ');
+    const media = resolveMediaType(undefined, file.fileName);
+
+    return {
+        id: createSyntheticId(`${LOCAL_FILES_FEED_URL}#${guid}`),
+        title: file.title?.trim() || stripExtension(file.fileName),
+        link: '',
+        description: [details, file.comment].filter(Boolean).join('\n\n'),
+        guid,
+        datePublished,
+        datePublishedPretty: formatPrettyDate(datePublished),
+        dateCrawled: Math.floor(importedAt / 1000),
+        // Points at the original file, for reference only; playback uses the imported copy
+        enclosureUrl: file.fileUrl ?? '',
+        enclosureType: media.mimeType,
+        enclosureLength: file.size ?? 0,
+        duration: Math.round(file.duration ?? 0),
+        explicit: 0,
+        episode: null,
+        season: null,
+        image: '',
+        feedImage: '',
+        feedId: LOCAL_FILES_PODCAST_ID,
+        feedUrl: LOCAL_FILES_FEED_URL,
+        feedTitle: LOCAL_FILES_TITLE,
+        feedLanguage: 'en',
+        isPlayed: false,
+        playbackPosition: 0,
+        fileExtension: media.extension,
+        mimeType: media.mimeType,
+        isDownloaded: false,
+        inQueue: false,
+    };
+}
+
+/**
+ * Stored episodes of the Local Files pseudo-podcast, newest first.
+ */
+export function getLocalEpisodes(episodes: Record<number, Episode>): Episode[] {
+    return Object.values(episodes)
+        .filter(ep => ep.feedId === LOCAL_FILES_PODCAST_ID)
+        .sort((a, b) => b.datePublished - a.datePublished);
+}
+
+// =========================================================================
+// Import
+// =========================================================================
+
+async function ensureLocalFilesPodcast(): Promise<Podcast> {
+    const existing = usePodcastStore.getState().subscriptions[LOCAL_FILES_PODCAST_ID];
+    if (existing) return existing;
+
+    // Saved directly rather than through subscribe(): there is nothing to sync
+    const podcast = createLocalFilesPodcast();
+    await db.savePodcast(podcast);
+    usePodcastStore.setState(state => ({
+        subscriptions: { ...state.subscriptions, [podcast.id]: podcast }
+    }));
+    return podcast;
+}
+
+export const localFilesService = {
+    /**
+     * Opens the system file picker and imports the chosen files.
+     */
+    pickAndImport: async (onProgress?: (done: number, total: number) => void): Promise<LocalImportResult[]> => {
+        if (!window.electronAPI) throw new Error('Importing files requires the desktop app');
+        const infos = await window.electronAPI.selectLocalAudioFiles();
+        return localFilesService.importFiles(infos, onProgress);
+    },
+
+    /**
+     * Imports dropped files (browser File objects from a drag-and-drop).
+     */
+    importDroppedFiles: async (files: File[], onProgress?: (done: number, total: number) => void): Promise<LocalImportResult[]> => {
+        if (!window.electronAPI) throw new Error('Importing files requires the desktop app');
+        const infos = await window.electronAPI.readDroppedAudioFiles(files);
+        return localFilesService.importFiles(infos, onProgress);
+    },
+
+    /**
+     * Imports files the main process has read, one at a time. Failures are
+     * reported per file.
+     */
+    importFiles: async (infos: LocalAudioFileInfo[], onProgress?: (done: number, total: number) => void): Promise<LocalImportResult[]> => {
+        const api = window.electronAPI;
+        if (!api || infos.length === 0) return [];
+
+        const podcast = await ensureLocalFilesPodcast();
+        const results: LocalImportResult[] = [];
+
+        for (const [index, info] of infos.entries()) {
+            let result: LocalImportResult;
+            if (info.error) {
+                result = { fileName: info.fileName, title: info.fileName, status: 'failed', error: info.error };
+            } else {
+                const episode = buildLocalEpisode(info);
+                if (usePodcastStore.getState().episodes[episode.id]?.isDownloaded) {
+                    result = { fileName: info.fileName, title: episode.title, status: 'existing', episodeId: episode.id };
+                } else {
+                    try {
+                        const filename = getEpisodeFilename(episode);
+                        const copied = await api.importLocalAudioFile(
+                            info.path,
+                            filename,
+                            info.hasArtwork ? `${episode.id}.jpg` : undefined
+                        );
+                        const imported: Episode = {
+                            ...episode,
+                            image: copied.artworkFilename ? `local-media://${copied.artworkFilename}` : '',
+                            isDownloaded: true,
+                            localFilePath: copied.filePath,
+                        };
+                        await db.saveEpisode(imported);
+                        usePodcastStore.setState(state => ({
+                            episodes: { ...state.episodes, [imported.id]: imported }
+                        }));
+                        result = { fileName: info.fileName, title: imported.title, status: 'imported', episodeId: imported.id };
+                    } catch (error) {
+                        console.error(`[LocalFiles] Failed to import ${info.fileName}:`, error);
+                        result = {
+                            fileName: info.fileName,
+                            title: episode.title,
+                            status: 'failed',
+                            error: error instanceof Error ? error.message : String(error),
+                        };
+                    }
+                }
+            }
+            results.push(result);
+            onProgress?.(index + 1, infos.length);
+        }
+
+        const episodeCount = getLocalEpisodes(usePodcastStore.getState().episodes).length;
+        const updated = { ...podcast, episodeCount, lastUpdateTime: Math.floor(Date.now() / 1000) };
+        await db.savePodcast(updated);
+        usePodcastStore.setState(state => ({
+            subscriptions: { ...state.subscriptions, [updated.id]: updated }
+        }));
+
+        return results;
+    },
+};
@@ -0,0 +1,111 @@
+/**
+ * Local Transcription
+ *
+ * Renderer side of electron/localTranscription.ts: runs whisper.cpp in the
+ * main process on a downloaded episode and turns its output into a
+ * Transcript. Works offline and signed out, and the audio never leaves the
+ * machine. Skippable segments for a local transcript come from transcript-only
+ * detection when the backend is reachable (as for publisher transcripts).
+ */
+
+import type { Episode, Transcript } from '../types';
+import type { LocalTranscriptionProgress, LocalTranscriptionResult, LocalTranscriptionStatus } from '../types/electron';
+import { getEpisodeFilename } from './mediaTypes';
+import { TranscriptionCancelledError, type ProcessingProvider } from './processingProviders';
+
+// Running jobs by episode, for cancelling
+const runningJobs = new Map<number, string>();
+
+/**
+ * Whisper language code for a feed language such as "en-us"; 'auto' lets
+ * whisper detect it.
+ */
+export function getWhisperLanguage(feedLanguage: string | undefined): string {
+    const code = feedLanguage?.trim().toLowerCase().split(/[-_]/)[0] ?? '';
+    return /^[a-z]{2,3}$/.test(code) ? code : 'auto';
+}
+
+export function toLocalTranscript(episodeId: number, result: LocalTranscriptionResult, now = Date.now()): Transcript {
+    return {
+        episodeId,
+        text: result.text,
+        segments: result.segments,
+        language: result.language,
+        duration: result.duration,
+        createdAt: now,
+        source: 'local',
+    };
+}
+
+export async function getLocalTranscriptionStatus(): Promise<LocalTranscriptionStatus> {
+    if (!window.electronAPI?.getLocalTranscriptionStatus) {
+        return { available: false, binaryPath: null, modelPath: null, problem: 'Only available in the desktop app' };
+    }
+    return window.electronAPI.getLocalTranscriptionStatus();
+}
+
+/**
+ * Transcribes a downloaded episode with whisper.cpp. `onProgress` gets 0-1
+ * while whisper runs.
+ */
+export async function transcribeLocally(episode: Episode, onProgress?: (progress: LocalTranscriptionProgress) => void): Promise<Transcript> {
+    if (!window.electronAPI?.transcribeLocally) throw new Error('Electron API not available');
+    if (!episode.isDownloaded) throw new Error('Episode is not downloaded');
+
+    const jobId = `whisper-${episode.id}-${Date.now()}`;
+    const unsubscribe = window.electronAPI.onLocalTranscriptionProgress(progress => {
+        if (progress.jobId === jobId) onProgress?.(progress);
+    });
+    runningJobs.set(episode.id, jobId);
+
+    try {
+        console.log(`[LocalTranscription] Transcribing "${episode.title}"`);
+        const result = await window.electronAPI.transcribeLocally(jobId, getEpisodeFilename(episode), {
+            language: getWhisperLanguage(episode.feedLanguage),
+        });
+        console.log(`[LocalTranscription] Done: ${result.segments.length} segments`);
+        return toLocalTranscript(episode.id, result);
+    } finally {
+        unsubscribe();
+        runningJobs.delete(episode.id);
+    }
+}
+
+export async function cancelLocalTranscription(episodeId: number): Promise<void> {
+    const jobId = runningJobs.get(episodeId);
+    if (jobId) await window.electronAPI?.cancelLocalTranscription(jobId);
+}
+
+export const localProvider: ProcessingProvider = {
+    id: 'local',
+    name: 'This computer (whisper.cpp)',
+    capabilities: {
+        wordTimestamps: true,
+        diarization: false,
+        segmentDetection: false,
+        offline: true,
+        cancellable: true,
+    },
+
+    isAvailable: async () => (await getLocalTranscriptionStatus()).available,
+
+    transcribe: async ({ episode, onProgress }) => {
+        try {
+            const transcript = await transcribeLocally(episode, ({ status, progress }) => {
+                onProgress?.(status === 'converting'
+                    ? { stage: 'Preparing audio' }
+                    : { stage: 'Transcribing on this computer', progress });
+            });
+            return { transcript, detection: null };
+        } catch (error) {
+            if (error instanceof Error && error.message.includes('cancelled')) throw new TranscriptionCancelledError();
+            throw error;
+        }
+    },
+
+    detectSegments: async () => {
+        throw new Error('whisper.cpp does not detect skippable segments');
+    },
+
+    cancel: cancelLocalTranscription,
+};
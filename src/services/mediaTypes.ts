@@ -0,0 +1,208 @@
+/**
+ * Media Types
+ *
+ * Maps enclosures to a file extension and MIME type. The feed's declared
+ * `enclosureType` wins, then the extension in the enclosure URL; after the
+ * download the first bytes of the file are sniffed to correct feeds that
+ * mislabel their media (or send application/octet-stream). Video enclosures
+ * are supported too; sniffing only identifies the container, so whether a
+ * file has video comes from the declared type.
+ */
+
+import type { Episode } from '../types';
+
+export interface MediaType {
+    extension: string;
+    mimeType: string;
+}
+
+export const DEFAULT_MEDIA_TYPE: MediaType = { extension: 'mp3', mimeType: 'audio/mpeg' };
+
+// Canonical MIME type per extension
+const MIME_BY_EXTENSION: Record<string, string> = {
+    mp3: 'audio/mpeg',
+    m4a: 'audio/mp4',
+    m4b: 'audio/mp4',
+    aac: 'audio/aac',
+    ogg: 'audio/ogg',
+    oga: 'audio/ogg',
+    opus: 'audio/ogg',
+    wav: 'audio/wav',
+    flac: 'audio/flac',
+    webm: 'audio/webm',
+    mp4: 'video/mp4',
+    m4v: 'video/x-m4v',
+    mov: 'video/quicktime',
+};
+
+// Extensions sharing a container, which sniffing can't tell apart
+const CONTAINER_BY_EXTENSION: Record<string, string> = {
+    m4a: 'mp4',
+    m4b: 'mp4',
+    m4v: 'mp4',
+    mov: 'mp4',
+    oga: 'ogg',
+    opus: 'ogg',
+};
+
+// Extension per MIME type, including the non-standard aliases feeds use
+const EXTENSION_BY_MIME: Record<string, string> = {
+    'audio/mpeg': 'mp3',
+    'audio/mp3': 'mp3',
+    'audio/mpeg3': 'mp3',
+    'audio/x-mp3': 'mp3',
+    'audio/x-mpeg': 'mp3',
+    'audio/mpg': 'mp3',
+    'audio/mp4': 'm4a',
+    'audio/m4a': 'm4a',
+    'audio/x-m4a': 'm4a',
+    'audio/x-m4b': 'm4b',
+    'audio/aac': 'aac',
+    'audio/aacp': 'aac',
+    'audio/x-aac': 'aac',
+    'audio/ogg': 'ogg',
+    'application/ogg': 'ogg',
+    'audio/vorbis': 'ogg',
+    'audio/opus': 'opus',
+    'audio/wav': 'wav',
+    'audio/wave': 'wav',
+    'audio/x-wav': 'wav',
+    'audio/flac': 'flac',
+    'audio/x-flac': 'flac',
+    'audio/webm': 'webm',
+    'video/mp4': 'mp4',
+    'video/x-m4v': 'm4v',
+    'video/quicktime': 'mov',
+    'video/webm': 'webm',
+};
+
+export function isKnownMediaExtension(extension: string): boolean {
+    return extension.toLowerCase() in MIME_BY_EXTENSION;
+}
+
+export function isVideoMimeType(mimeType: string | undefined): boolean {
+    return !!mimeType?.trim().toLowerCase().startsWith('video/');
+}
+
+export function getMimeTypeForExtension(extension: string): string {
+    return MIME_BY_EXTENSION[extension.toLowerCase()] ?? DEFAULT_MEDIA_TYPE.mimeType;
+}
+
+/**
+ * Extension for a declared MIME type, ignoring parameters like `; codecs=...`.
+ */
+export function getExtensionForMimeType(mimeType: string | undefined): string | null {
+    const base = mimeType?.split(';')[0].trim().toLowerCase() ?? '';
+    return EXTENSION_BY_MIME[base] ?? null;
+}
+
+export function getExtensionFromUrl(url: string | undefined): string | null {
+    if (!url) return null;
+    let pathname: string;
+    try {
+        pathname = new URL(url).pathname;
+    } catch {
+        pathname = url.split(/[?#]/)[0];
+    }
+    const extension = pathname.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase();
+    return extension && isKnownMediaExtension(extension) ? extension : null;
+}
+
+/**
+ * Media type for an enclosure before downloading it.
+ */
+export function resolveMediaType(enclosureType: string | undefined, enclosureUrl: string | undefined): MediaType {
+    const declared = getExtensionForMimeType(enclosureType);
+    if (declared) {
+        // WebM is both; the extension alone reads as audio
+        const mimeType = declared === 'webm' && isVideoMimeType(enclosureType) ? 'video/webm' : getMimeTypeForExtension(declared);
+        return { extension: declared, mimeType };
+    }
+    const extension = getExtensionFromUrl(enclosureUrl);
+    return extension ? { extension, mimeType: getMimeTypeForExtension(extension) } : DEFAULT_MEDIA_TYPE;
+}
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(start, start + length));
+
+/**
+ * Identifies audio from the first bytes of a file (64 is plenty). Returns null
+ * when the format isn't recognised.
+ */
+export function sniffMediaType(bytes: Uint8Array): MediaType | null {
+    const media = (extension: string): MediaType => ({ extension, mimeType: getMimeTypeForExtension(extension) });
+
+    if (bytes.length < 4) return null;
+    if (ascii(bytes, 4, 4) === 'ftyp') {
+        const brand = ascii(bytes, 8, 4);
+        if (brand === 'M4B ') return media('m4b');
+        if (brand === 'M4V ') return media('m4v');
+        if (brand === 'qt  ') return media('mov');
+        return media('m4a');
+    }
+    if (ascii(bytes, 0, 4) === 'OggS') return media(ascii(bytes, 28, 8) === 'OpusHead' ? 'opus' : 'ogg');
+    if (ascii(bytes, 0, 4) === 'fLaC') return media('flac');
+    if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WAVE') return media('wav');
+    if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return media('webm');
+    if (ascii(bytes, 0, 3) === 'ID3') return media('mp3');
+    if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) {
+        // Frame sync: ADTS (AAC) has layer bits 00, MPEG audio doesn't
+        return media((bytes[1] & 0x06) === 0 ? 'aac' : 'mp3');
+    }
+    return null;
+}
+
+const containerOf = (extension: string) => CONTAINER_BY_EXTENSION[extension] ?? extension;
+
+/**
+ * Settles the declared type against the sniffed one. The file's header wins
+ * unless it is unrecognised or the same container (m4a vs m4b, or an MP4
+ * that is declared as video).
+ */
+export function reconcileMediaType(declared: MediaType, sniffed: MediaType | null): MediaType {
+    if (!sniffed || containerOf(sniffed.extension) === containerOf(declared.extension)) return declared;
+    return sniffed;
+}
+
+// =========================================================================
+// Episode files
+// =========================================================================
+
+/**
+ * Name of an episode's downloaded file in the podcast directory. Episodes
+ * downloaded before the extension was recorded are MP3s.
+ */
+export function getEpisodeFilename(episode: Pick<Episode, 'id' | 'fileExtension'>): string {
+    return `${episode.id}.${episode.fileExtension ?? DEFAULT_MEDIA_TYPE.extension}`;
+}
+
+/**
+ * MIME type of an episode's downloaded file.
+ */
+export function getEpisodeMimeType(episode: Pick<Episode, 'mimeType' | 'fileExtension'>): string {
+    return episode.mimeType ?? getMimeTypeForExtension(episode.fileExtension ?? DEFAULT_MEDIA_TYPE.extension);
+}
+
+/**
+ * Name of the compressed copy made for uploads (always MP3).
+ */
+export function getCompressedFilename(episodeId: number): string {
+    return `${episodeId}-compressed.mp3`;
+}
+
+/**
+ * Name of the audio track extracted from a video episode (always M4A).
+ */
+export function getAudioTrackFilename(episodeId: number): string {
+    return `${episodeId}-audio.m4a`;
+}
+
+export const AUDIO_TRACK_MEDIA_TYPE: MediaType = { extension: 'm4a', mimeType: 'audio/mp4' };
+
+/**
+ * Whether what plays for this episode has a picture: the downloaded file if
+ * there is one (video episodes may be kept as audio only), else the enclosure.
+ */
+export function hasVideo(episode: Pick<Episode, 'isDownloaded' | 'mimeType' | 'enclosureType'>): boolean {
+    return isVideoMimeType(episode.isDownloaded && episode.mimeType ? episode.mimeType : episode.enclosureType);
+}
@@ -0,0 +1,122 @@
+/**
+ * OPML Service
+ *
+ * Reads and writes OPML 2.0 subscription lists so users can move their
+ * library between podcast players. Our per-podcast settings are carried in a
+ * custom namespace so they survive an export/import round-trip.
+ */
+
+import type { Podcast } from '../types';
+import { parseXml, findElements, escapeXml, XmlParseError } from '../utils/xmlParser';
+
+export const OPML_NAMESPACE = 'https://stfuai.com/opml/1.0';
+const OPML_PREFIX = 'stfuai';
+
+export interface OpmlOutline {
+    feedUrl: string;
+    title: string;
+    /** Only present when the file was exported by us */
+    autoAddToQueue?: boolean;
+}
+
+export interface OpmlImportResult {
+    feedUrl: string;
+    title: string;
+    status: 'imported' | 'existing' | 'failed';
+    error?: string;
+}
+
+export class OpmlParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'OpmlParseError';
+    }
+}
+
+function parseBoolean(value: string | undefined): boolean | undefined {
+    if (value === undefined) return undefined;
+    const normalized = value.trim().toLowerCase();
+    if (normalized === 'true' || normalized === '1') return true;
+    if (normalized === 'false' || normalized === '0') return false;
+    return undefined;
+}
+
+/**
+ * Extracts feed outlines from an OPML document. Category outlines are
+ * flattened; duplicate feed URLs are only returned once.
+ *
+ * @throws OpmlParseError if the document isn't OPML
+ */
+export function parseOpml(xml: string): OpmlOutline[] {
+    let root;
+    try {
+        root = parseXml(xml);
+    } catch (error) {
+        const message = error instanceof XmlParseError ? error.message : String(error);
+        throw new OpmlParseError(`Invalid OPML: ${message}`);
+    }
+
+    if (root.localName !== 'opml') {
+        throw new OpmlParseError(`Not an OPML document: <${root.name}>`);
+    }
+
+    // Find whichever prefix the file bound to our namespace (usually "stfuai")
+    let autoQueueAttribute = `${OPML_PREFIX}:autoAddToQueue`;
+    for (const [name, value] of Object.entries(root.attributes)) {
+        if (name.startsWith('xmlns:') && value === OPML_NAMESPACE) {
+            autoQueueAttribute = `${name.slice(6)}:autoAddToQueue`;
+        }
+    }
+
+    const outlines: OpmlOutline[] = [];
+    const seen = new Set<string>();
+
+    for (const outline of findElements(root, 'outline')) {
+        const feedUrl = (outline.attributes.xmlUrl || outline.attributes.xmlurl || '').trim();
+        if (!feedUrl || seen.has(feedUrl)) continue;
+        seen.add(feedUrl);
+
+        outlines.push({
+            feedUrl,
+            title: (outline.attributes.title || outline.attributes.text || feedUrl).trim(),
+            autoAddToQueue: parseBoolean(outline.attributes[autoQueueAttribute]),
+        });
+    }
+
+    return outlines;
+}
+
+/**
+ * Builds an OPML 2.0 document for the given subscriptions.
+ */
+export function buildOpml(podcasts: Podcast[], title = 'STFUAI Podcasts Subscriptions'): string {
+    const sorted = [...podcasts].sort((a, b) => a.title.localeCompare(b.title));
+
+    const outlines = sorted.map(podcast => {
+        const attributes = [
+            `type="rss"`,
+            `text="${escapeXml(podcast.title)}"`,
+            `title="${escapeXml(podcast.title)}"`,
+            `xmlUrl="${escapeXml(podcast.url)}"`,
+        ];
+        if (podcast.link) {
+            attributes.push(`htmlUrl="${escapeXml(podcast.link)}"`);
+        }
+        attributes.push(`${OPML_PREFIX}:autoAddToQueue="${podcast.autoAddToQueue ? 'true' : 'false'}"`);
+        return `    <outline ${attributes.join(' ')}/>`;
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<opml version="2.0" xmlns:${OPML_PREFIX}="${OPML_NAMESPACE}">`,
+        '  <head>',
+        `    <title>${escapeXml(title)}</title>`,
+        `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+        '  </head>',
+        '  <body>',
+        ...outlines,
+        '  </body>',
+        '</opml>',
+        '',
+    ].join('\n');
+}
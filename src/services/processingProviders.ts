@@ -0,0 +1,123 @@
+/**
+ * Processing Providers
+ *
+ * One interface for everything that turns an episode into a transcript and
+ * skippable segments: the cloud backend, whisper.cpp on this machine, and an
+ * in-process fake that returns fixture transcripts (for working offline and
+ * for tests). The transcription pipeline (services/transcription.ts) asks the
+ * registry which providers to use and never talks to a backend directly.
+ */
+
+import type { Episode, Transcript, TranscriptionMode } from '../types';
+import type { EpisodeUploadMetadata, TranscriptDetectionResults } from './cloudApi';
+
+export type ProcessingProviderId = 'cloud' | 'local' | 'fake';
+
+export interface ProviderCapabilities {
+    wordTimestamps: boolean;
+    diarization: boolean; // Speaker labels
+    segmentDetection: boolean; // Finds skippable segments
+    offline: boolean; // Works without the backend
+    cancellable: boolean;
+}
+
+export interface ProcessingProgress {
+    stage: string; // For display, e.g. "Uploading"
+    progress?: number; // 0-1, when known
+    cancellable?: boolean; // Set by the pipeline from the running provider
+}
+
+export interface TranscriptionRequest {
+    episode: Episode;
+    metadata: EpisodeUploadMetadata;
+    onProgress?: (progress: ProcessingProgress) => void;
+}
+
+export interface TranscriptionResult {
+    transcript: Transcript;
+    /** Segments found while transcribing; null when detection is a separate step */
+    detection: TranscriptDetectionResults | null;
+}
+
+export interface ProcessingProvider {
+    id: ProcessingProviderId;
+    name: string;
+    capabilities: ProviderCapabilities;
+    isAvailable: () => Promise<boolean>;
+    transcribe: (request: TranscriptionRequest) => Promise<TranscriptionResult>;
+    /** Skippable segments from transcript text alone */
+    detectSegments: (transcript: Transcript, metadata: EpisodeUploadMetadata) => Promise<TranscriptDetectionResults>;
+    cancel: (episodeId: number) => Promise<void>;
+}
+
+/**
+ * Thrown by providers when a job was cancelled, so the pipeline neither
+ * falls back to another provider nor marks the episode as failed.
+ */
+export class TranscriptionCancelledError extends Error {
+    constructor(message = 'Transcription cancelled') {
+        super(message);
+        this.name = 'TranscriptionCancelledError';
+    }
+}
+
+// =========================================================================
+// Registry
+// =========================================================================
+
+const providers = new Map<ProcessingProviderId, ProcessingProvider>();
+let override: ProcessingProviderId | null = import.meta.env.VITE_FAKE_PROCESSING === 'true' ? 'fake' : null;
+
+export function registerProcessingProvider(provider: ProcessingProvider): void {
+    providers.set(provider.id, provider);
+}
+
+export function getProcessingProvider(id: ProcessingProviderId): ProcessingProvider | undefined {
+    return providers.get(id);
+}
+
+export function listProcessingProviders(): ProcessingProvider[] {
+    return [...providers.values()];
+}
+
+/**
+ * Routes all processing to one provider regardless of the user's mode (the
+ * fake provider in tests and offline development); null restores the mode.
+ */
+export function setProcessingProviderOverride(id: ProcessingProviderId | null): void {
+    override = id;
+}
+
+/**
+ * Which providers to try, in order, for a transcription mode.
+ */
+export function getTranscriptionOrder(mode: TranscriptionMode): ProcessingProviderId[] {
+    switch (mode) {
+        case 'local':
+            return ['local'];
+        case 'local-first':
+            return ['local', 'cloud'];
+        default:
+            return ['cloud'];
+    }
+}
+
+/**
+ * The providers to try for a mode. A cloud job already in flight for the
+ * episode is picked up first, whatever the mode, rather than starting over.
+ */
+export function getTranscriptionProviders(mode: TranscriptionMode, options: { resumeCloud?: boolean } = {}): ProcessingProvider[] {
+    let ids = override ? [override] : getTranscriptionOrder(mode);
+    if (!override && options.resumeCloud) ids = ['cloud', ...ids.filter(id => id !== 'cloud')];
+    return ids.flatMap(id => providers.get(id) ?? []);
+}
+
+/**
+ * The provider that detects segments in transcripts it didn't produce
+ * (publisher and local transcripts).
+ */
+export function getDetectionProvider(): ProcessingProvider | undefined {
+    const preferred = override ? providers.get(override) : providers.get('cloud');
+    if (preferred?.capabilities.segmentDetection) return preferred;
+    return listProcessingProviders().find(provider => provider.capabilities.segmentDetection);
+}
@@ -0,0 +1,346 @@
+/**
+ * Publisher Transcripts
+ *
+ * Parses transcripts linked from feeds via `podcast:transcript` (SRT, WebVTT,
+ * Podcasting 2.0 JSON and HTML) into our Transcript structure, so we can skip
+ * uploading audio for transcription when the publisher already provides one.
+ *
+ * Caption formats only have cue-level timing, so word timings are interpolated
+ * across each cue in proportion to word length. That's precise enough for
+ * click-to-seek and for the smart timestamps sent to segment detection.
+ */
+
+import type { Episode, Transcript, TranscriptLink, TranscriptSegment, TranscriptWord } from '../types';
+import { decodeXmlEntities } from '../utils/xmlParser';
+import { fetchRemoteText } from './remoteFetch';
+
+export type TranscriptFormat = 'json' | 'vtt' | 'srt' | 'html';
+
+export class TranscriptParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TranscriptParseError';
+    }
+}
+
+interface Cue {
+    start: number;
+    end: number;
+    text: string;
+    speaker?: string;
+}
+
+// Preferred order: formats with the most precise timing first
+const FORMAT_PRIORITY: TranscriptFormat[] = ['json', 'vtt', 'srt', 'html'];
+
+// Cues are merged into segments until one of these limits is reached
+const MAX_SEGMENT_SECONDS = 30;
+const MAX_CUE_GAP_SECONDS = 2;
+
+// =========================================================================
+// Helpers
+// =========================================================================
+
+/**
+ * Parses "HH:MM:SS,mmm", "HH:MM:SS.mmm", "MM:SS.mmm" or plain seconds.
+ * Returns NaN if the value isn't a timestamp.
+ */
+export function parseTimestamp(value: string): number {
+    const trimmed = value.trim().replace(',', '.');
+    if (!trimmed) return NaN;
+    if (!trimmed.includes(':')) return Number(trimmed);
+
+    const parts = trimmed.split(':').map(Number);
+    if (parts.length > 3 || parts.some(p => Number.isNaN(p))) return NaN;
+    return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+function stripTags(value: string): string {
+    return decodeXmlEntities(value.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Splits a cue into words with interpolated timings.
+ */
+function interpolateWords(cue: Cue): TranscriptWord[] {
+    const tokens = cue.text.split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) return [];
+
+    const totalChars = tokens.reduce((sum, token) => sum + token.length, 0);
+    const span = Math.max(0, cue.end - cue.start);
+    const words: TranscriptWord[] = [];
+    let cursor = cue.start;
+
+    for (const token of tokens) {
+        const length = totalChars > 0 ? (token.length / totalChars) * span : span / tokens.length;
+        words.push({
+            word: token,
+            startTime: cursor,
+            endTime: cursor + length,
+            speaker: cue.speaker,
+        });
+        cursor += length;
+    }
+
+    return words;
+}
+
+function endsSentence(text: string): boolean {
+    return /[.!?]["')\]]?$/.test(text.trim());
+}
+
+/**
+ * Merges timed cues into transcript segments. Caption files often have very
+ * short cues (or one cue per word for JSON), so consecutive cues from the same
+ * speaker are joined up to a sentence boundary or time limit.
+ */
+export function cuesToTranscript(cues: Cue[], episodeId: number, language: string): Transcript {
+    const sorted = cues
+        .filter(cue => cue.text && Number.isFinite(cue.start))
+        .sort((a, b) => a.start - b.start);
+
+    const segments: TranscriptSegment[] = [];
+    let current: { cues: Cue[]; speaker?: string } | null = null;
+
+    const flush = () => {
+        if (!current || current.cues.length === 0) return;
+        const words = current.cues.flatMap(interpolateWords);
+        segments.push({
+            id: segments.length,
+            start: current.cues[0].start,
+            end: current.cues[current.cues.length - 1].end,
+            text: current.cues.map(c => c.text).join(' '),
+            words,
+            speaker: current.speaker,
+        });
+        current = null;
+    };
+
+    for (const cue of sorted) {
+        if (current) {
+            const first = current.cues[0];
+            const last = current.cues[current.cues.length - 1];
+            const speakerChanged = (cue.speaker ?? '') !== (current.speaker ?? '');
+            const tooLong = cue.end - first.start > MAX_SEGMENT_SECONDS;
+            const gap = cue.start - last.end > MAX_CUE_GAP_SECONDS;
+            if (speakerChanged || tooLong || gap || endsSentence(last.text)) {
+                flush();
+            }
+        }
+        if (!current) current = { cues: [], speaker: cue.speaker };
+        current.cues.push(cue);
+    }
+    flush();
+
+    return {
+        episodeId,
+        text: segments.map(s => s.text).join(' '),
+        segments,
+        language,
+        duration: segments.length > 0 ? segments[segments.length - 1].end : 0,
+        createdAt: Date.now(),
+        source: 'publisher',
+    };
+}
+
+// =========================================================================
+// Format parsers
+// =========================================================================
+
+/**
+ * Parses cue blocks shared by SRT and WebVTT ("start --> end" followed by text lines).
+ */
+function parseCueBlocks(input: string): Cue[] {
+    const cues: Cue[] = [];
+    const blocks = input.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+    for (const block of blocks) {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex(line => line.includes('-->'));
+        if (timingIndex === -1) continue;
+
+        const [startRaw, endRaw] = lines[timingIndex].split('-->');
+        const start = parseTimestamp(startRaw);
+        // VTT allows cue settings after the end timestamp ("00:01.000 align:start")
+        const end = parseTimestamp((endRaw ?? '').trim().split(/\s+/)[0] ?? '');
+        if (Number.isNaN(start) || Number.isNaN(end)) continue;
+
+        const rawText = lines.slice(timingIndex + 1).join(' ');
+        const voice = rawText.match(/<v(?:\.[^\s>]*)?\s+([^>]+)>/);
+        const text = stripTags(rawText);
+        if (!text) continue;
+
+        cues.push({ start, end, text, speaker: voice ? voice[1].trim() : undefined });
+    }
+
+    return cues;
+}
+
+export function parseSrt(input: string, episodeId: number, language = 'en'): Transcript {
+    const cues = parseCueBlocks(input);
+    if (cues.length === 0) throw new TranscriptParseError('No cues found in SRT transcript');
+    return cuesToTranscript(cues, episodeId, language);
+}
+
+export function parseVtt(input: string, episodeId: number, language = 'en'): Transcript {
+    if (!input.trimStart().startsWith('WEBVTT')) {
+        throw new TranscriptParseError('Missing WEBVTT header');
+    }
+    const cues = parseCueBlocks(input);
+    if (cues.length === 0) throw new TranscriptParseError('No cues found in WebVTT transcript');
+    return cuesToTranscript(cues, episodeId, language);
+}
+
+/**
+ * Parses the Podcasting 2.0 JSON transcript format
+ * ({ version, segments: [{ startTime, endTime, body, speaker }] }).
+ */
+export function parseJsonTranscript(input: string, episodeId: number, language = 'en'): Transcript {
+    let data: unknown;
+    try {
+        data = JSON.parse(input);
+    } catch (error) {
+        throw new TranscriptParseError(`Invalid JSON transcript: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const rawSegments = (data as { segments?: unknown })?.segments;
+    if (!Array.isArray(rawSegments)) {
+        throw new TranscriptParseError('JSON transcript has no "segments" array');
+    }
+
+    const cues: Cue[] = [];
+    for (const raw of rawSegments as Record<string, unknown>[]) {
+        const start = Number(raw?.startTime);
+        const end = Number(raw?.endTime);
+        const text = typeof raw?.body === 'string' ? raw.body.trim() : '';
+        if (!Number.isFinite(start) || !text) continue;
+
+        cues.push({
+            start,
+            end: Number.isFinite(end) && end >= start ? end : start,
+            text,
+            speaker: typeof raw.speaker === 'string' && raw.speaker ? raw.speaker : undefined,
+        });
+    }
+
+    if (cues.length === 0) throw new TranscriptParseError('No segments found in JSON transcript');
+    return cuesToTranscript(cues, episodeId, language);
+}
+
+/**
+ * Parses an HTML transcript. The Podcasting 2.0 spec suggests
+ * `<cite>Speaker:</cite> <time>00:00:00</time> <p>text</p>`; plain paragraphs
+ * without timestamps are accepted too, but every paragraph then shares time 0.
+ */
+export function parseHtmlTranscript(input: string, episodeId: number, language = 'en'): Transcript {
+    const body = input
+        .replace(/<script[\s\S]*?<\/script>/gi, '')
+        .replace(/<style[\s\S]*?<\/style>/gi, '');
+
+    const cues: Cue[] = [];
+    let speaker: string | undefined;
+    let time = 0;
+
+    const tokenPattern = /<cite[^>]*>([\s\S]*?)<\/cite>|<time[^>]*>([\s\S]*?)<\/time>|<p[^>]*>([\s\S]*?)<\/p>/gi;
+    let match: RegExpExecArray | null;
+    while ((match = tokenPattern.exec(body)) !== null) {
+        if (match[1] !== undefined) {
+            speaker = stripTags(match[1]).replace(/:$/, '') || undefined;
+        } else if (match[2] !== undefined) {
+            const parsed = parseTimestamp(stripTags(match[2]));
+            if (!Number.isNaN(parsed)) time = parsed;
+        } else if (match[3] !== undefined) {
+            const text = stripTags(match[3]);
+            if (text) cues.push({ start: time, end: time, text, speaker });
+        }
+    }
+
+    // Each paragraph runs until the next one starts
+    for (let i = 0; i < cues.length; i++) {
+        const next = cues[i + 1];
+        if (next && next.start > cues[i].start) cues[i].end = next.start;
+    }
+
+    if (cues.length === 0) throw new TranscriptParseError('No paragraphs found in HTML transcript');
+    return cuesToTranscript(cues, episodeId, language);
+}
+
+// =========================================================================
+// Link selection & fetching
+// =========================================================================
+
+/**
+ * Maps a transcript MIME type (or URL extension) to a supported format.
+ */
+export function getTranscriptFormat(link: TranscriptLink): TranscriptFormat | null {
+    const type = link.type.toLowerCase();
+    if (type.includes('json')) return 'json';
+    if (type.includes('vtt')) return 'vtt';
+    if (type.includes('srt') || type.includes('subrip')) return 'srt';
+    if (type.includes('html')) return 'html';
+
+    const extension = link.url.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+    if (extension === 'json' || extension === 'vtt' || extension === 'srt') return extension;
+    if (extension === 'html' || extension === 'htm') return 'html';
+    return null;
+}
+
+/**
+ * Orders transcript links by preference: supported formats with the best
+ * timing first, full transcripts before captions of the same format, and
+ * links in the preferred language first.
+ */
+export function rankTranscriptLinks(links: TranscriptLink[], language?: string): TranscriptLink[] {
+    const lang = language?.toLowerCase().split('-')[0];
+
+    return links
+        .filter(link => getTranscriptFormat(link) !== null)
+        .map(link => {
+            const format = getTranscriptFormat(link) as TranscriptFormat;
+            const linkLang = link.language?.toLowerCase().split('-')[0];
+            const languageScore = !lang || !linkLang || linkLang === lang ? 0 : 1;
+            return { link, score: [languageScore, FORMAT_PRIORITY.indexOf(format), link.rel === 'captions' ? 1 : 0] };
+        })
+        .sort((a, b) => a.score[0] - b.score[0] || a.score[1] - b.score[1] || a.score[2] - b.score[2])
+        .map(entry => entry.link);
+}
+
+/**
+ * Parses a transcript document in the given format.
+ */
+export function parsePublisherTranscript(
+    input: string,
+    format: TranscriptFormat,
+    episodeId: number,
+    language = 'en'
+): Transcript {
+    switch (format) {
+        case 'json': return parseJsonTranscript(input, episodeId, language);
+        case 'vtt': return parseVtt(input, episodeId, language);
+        case 'srt': return parseSrt(input, episodeId, language);
+        case 'html': return parseHtmlTranscript(input, episodeId, language);
+    }
+}
+
+/**
+ * Fetches the best available publisher transcript for an episode.
+ * Returns null if the episode has no usable transcript links; tries each
+ * link in order of preference until one parses.
+ */
+export async function fetchPublisherTranscript(episode: Episode): Promise<Transcript | null> {
+    const links = rankTranscriptLinks(episode.transcriptLinks ?? [], episode.feedLanguage);
+
+    for (const link of links) {
+        try {
+            const format = getTranscriptFormat(link) as TranscriptFormat;
+            const body = await fetchRemoteText(link.url);
+            const transcript = parsePublisherTranscript(body, format, episode.id, link.language || episode.feedLanguage || 'en');
+            console.log(`[PublisherTranscripts] Using ${format} transcript for ${episode.title}`);
+            return transcript;
+        } catch (error) {
+            console.warn(`[PublisherTranscripts] Could not use ${link.url}:`, error);
+        }
+    }
+
+    return null;
+}
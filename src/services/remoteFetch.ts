@@ -0,0 +1,71 @@
+/**
+ * Remote Fetch
+ *
+ * Fetches text resources (feeds, chapters, transcripts) from arbitrary hosts.
+ * In Electron this goes through the main process, because the renderer's CSP
+ * only allows a handful of API hosts and most podcast hosts don't send CORS
+ * headers. Outside Electron (tests, web) it falls back to plain fetch().
+ */
+
+export interface CacheValidators {
+    etag?: string;
+    lastModified?: string;
+}
+
+export interface ConditionalTextResult extends CacheValidators {
+    notModified: boolean;
+    body: string;
+    /** Where the resource now lives, if it was permanently redirected */
+    permanentUrl?: string;
+}
+
+export async function fetchRemoteText(url: string, headers: Record<string, string> = {}): Promise<string> {
+    const result = await fetchRemoteTextConditional(url, {}, headers);
+    return result.body;
+}
+
+/**
+ * Fetches a text resource with conditional request headers, so unchanged
+ * resources come back as `notModified` without a body.
+ */
+export async function fetchRemoteTextConditional(
+    url: string,
+    validators: CacheValidators = {},
+    extraHeaders: Record<string, string> = {}
+): Promise<ConditionalTextResult> {
+    const headers: Record<string, string> = { ...extraHeaders };
+    if (validators.etag) headers['If-None-Match'] = validators.etag;
+    if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+
+    if (window.electronAPI?.fetchText) {
+        const response = await window.electronAPI.fetchText(url, { headers });
+        if (response.status === 304) {
+            return { notModified: true, body: '', ...validators, permanentUrl: response.permanentUrl };
+        }
+        if (!response.ok) {
+            throw new Error(`Request failed with status ${response.status}`);
+        }
+        return {
+            notModified: false,
+            body: response.body,
+            etag: response.etag,
+            lastModified: response.lastModified,
+            permanentUrl: response.permanentUrl,
+        };
+    }
+
+    // Plain fetch follows redirects without telling us whether they were permanent
+    const response = await fetch(url, { headers });
+    if (response.status === 304) {
+        return { notModified: true, body: '', ...validators };
+    }
+    if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}`);
+    }
+    return {
+        notModified: false,
+        body: await response.text(),
+        etag: response.headers.get('etag') ?? undefined,
+        lastModified: response.headers.get('last-modified') ?? undefined,
+    };
+}
@@ -1,18 +1,26 @@
+import type { FileInspection } from '../types/electron';
+
 export interface StorageService {
-    downloadFile(url: string, filename: string): Promise<string>;
+    downloadFile(url: string, filename: string, headers?: Record<string, string>, priority?: number, automatic?: boolean): Promise<string>;
     cancelDownload(filename: string): Promise<void>;
+    setDownloadPriority(filename: string, priority: number): Promise<void>;
     deleteFile(filename: string): Promise<void>;
     checkFileExists(filename: string): Promise<boolean>;
     readFile(filename: string): Promise<ArrayBuffer>;
+    readFileHeader(filename: string, length?: number): Promise<Uint8Array>;
+    renameFile(from: string, to: string): Promise<void>;
+    verifyFile(filename: string, options?: { hash?: boolean }): Promise<FileInspection>;
+    extractAudio(filename: string, outputFilename: string): Promise<string>;
+    compressAudio(filename: string, bitrateKbps: number): Promise<string>;
     getFilePath(filename: string): string;
 }
 
 // Electron API is defined in src/types/electron.d.ts
 
 class ElectronStorageService implements StorageService {
-    async downloadFile(url: string, filename: string): Promise<string> {
+    async downloadFile(url: string, filename: string, headers?: Record<string, string>, priority?: number, automatic?: boolean): Promise<string> {
         if (!window.electronAPI) throw new Error('Electron API not available');
-        return window.electronAPI.downloadFile(url, filename);
+        return window.electronAPI.downloadFile(url, filename, { headers, priority, automatic });
     }
 
     async cancelDownload(filename: string): Promise<void> {
@@ -20,6 +28,11 @@ class ElectronStorageService implements StorageService {
         return window.electronAPI.cancelDownload(filename);
     }
 
+    async setDownloadPriority(filename: string, priority: number): Promise<void> {
+        if (!window.electronAPI) return;
+        return window.electronAPI.setDownloadPriority(filename, priority);
+    }
+
     async deleteFile(filename: string): Promise<void> {
         if (!window.electronAPI) throw new Error('Electron API not available');
         return window.electronAPI.deleteFile(filename);
@@ -35,6 +48,31 @@ class ElectronStorageService implements StorageService {
         return window.electronAPI.readFile(filename);
     }
 
+    async readFileHeader(filename: string, length?: number): Promise<Uint8Array> {
+        if (!window.electronAPI) throw new Error('Electron API not available');
+        return window.electronAPI.readFileHeader(filename, length);
+    }
+
+    async renameFile(from: string, to: string): Promise<void> {
+        if (!window.electronAPI) throw new Error('Electron API not available');
+        return window.electronAPI.renameFile(from, to);
+    }
+
+    async verifyFile(filename: string, options?: { hash?: boolean }): Promise<FileInspection> {
+        if (!window.electronAPI) throw new Error('Electron API not available');
+        return window.electronAPI.verifyFile(filename, options);
+    }
+
+    async extractAudio(filename: string, outputFilename: string): Promise<string> {
+        if (!window.electronAPI) throw new Error('Electron API not available');
+        return window.electronAPI.extractAudio(filename, outputFilename);
+    }
+
+    async compressAudio(filename: string, bitrateKbps: number): Promise<string> {
+        if (!window.electronAPI) throw new Error('Electron API not available');
+        return window.electronAPI.compressAudio(filename, bitrateKbps);
+    }
+
     getFilePath(filename: string): string {
         // This is tricky because we might not know the full path synchronously in renderer.
         // But we can return a protocol URL like 'local-media://filename'
@@ -46,9 +84,15 @@ class ElectronStorageService implements StorageService {
 class WebStorageService implements StorageService {
     async downloadFile(_url: string, _filename: string): Promise<string> { return ''; }
     async cancelDownload(_filename: string): Promise<void> { }
+    async setDownloadPriority(): Promise<void> { }
     async deleteFile(_filename: string): Promise<void> { }
     async checkFileExists(_filename: string): Promise<boolean> { return false; }
     async readFile(_filename: string): Promise<ArrayBuffer> { return new ArrayBuffer(0); }
+    async readFileHeader(): Promise<Uint8Array> { return new Uint8Array(0); }
+    async renameFile(): Promise<void> { }
+    async verifyFile(): Promise<FileInspection> { return { exists: false, size: 0, sha256: null, duration: null }; }
+    async extractAudio(): Promise<string> { return ''; }
+    async compressAudio(): Promise<string> { return ''; }
     getFilePath(_filename: string): string { return ''; }
 }
 
@@ -0,0 +1,273 @@
+/**
+ * Storage Inspector
+ *
+ * Matches the files in the podcast directory against the episode records.
+ * Crashes and recoveries leave files that no episode owns (and compressed or
+ * extracted copies that were never cleaned up), and episodes that claim to be
+ * downloaded although their file is gone. The report flags both; the actions
+ * delete files, re-link a file to its episode after verifying it, or fix a
+ * dangling record by re-downloading (episodeRecovery) or forgetting the file.
+ */
+
+import { db } from './db';
+import { checkEpisodeFile, type IntegrityCheck } from './downloadIntegrity';
+import {
+    getAudioTrackFilename,
+    getCompressedFilename,
+    getEpisodeFilename,
+    getMimeTypeForExtension,
+    isKnownMediaExtension,
+    isVideoMimeType,
+    resolveMediaType,
+} from './mediaTypes';
+import type { Episode, Podcast } from '../types';
+import type { StoredFile } from '../types/electron';
+
+export type StoredFileKind = 'media' | 'compressed' | 'audio-track' | 'partial' | 'artwork' | 'other';
+
+/**
+ * - linked: the file an episode records as its download
+ * - unlinked: an episode's media file that its record doesn't point to; can be re-linked
+ * - leftover: an upload copy, partial download or duplicate of an episode's file
+ * - orphan: belongs to no known episode
+ * - busy: in use by a running download or transcription
+ */
+export type StoredFileStatus = 'linked' | 'unlinked' | 'leftover' | 'orphan' | 'busy';
+
+export interface InspectedFile extends StoredFile {
+    kind: StoredFileKind;
+    status: StoredFileStatus;
+    episodeId: number | null;
+    episodeTitle: string | null;
+    podcastId: number | null;
+    podcastTitle: string | null;
+    isPlayed: boolean;
+    playedAt?: number; // ms
+}
+
+/** An episode marked as downloaded whose file isn't on disk */
+export interface DanglingRecord {
+    episodeId: number;
+    title: string;
+    podcastTitle: string;
+    expectedFilename: string;
+    relinkFilename: string | null; // a media file of this episode under another name
+}
+
+export interface StorageReport {
+    files: InspectedFile[];
+    dangling: DanglingRecord[];
+}
+
+export interface StorageInspectionInput {
+    episodes: Episode[];
+    files: StoredFile[];
+    subscriptions: Record<number, Podcast>;
+    /** Episodes with a running download or transcription */
+    busyIds?: Set<number>;
+}
+
+const PARTIAL_SUFFIX = /\.part(\.json)?$/;
+
+/**
+ * Which episode a file name belongs to and what it is, from the names the
+ * app gives its files. Returns null for names the app doesn't produce.
+ */
+export function parseStoredFilename(filename: string): { episodeId: number; kind: StoredFileKind; extension: string } | null {
+    const partial = PARTIAL_SUFFIX.test(filename);
+    const match = filename.replace(PARTIAL_SUFFIX, '').match(/^(-?\d+)(-compressed|-audio)?\.([a-z0-9]+)$/i);
+    if (!match) return null;
+
+    const episodeId = Number(match[1]);
+    const extension = match[3].toLowerCase();
+    if (!Number.isSafeInteger(episodeId)) return null;
+    if (partial) return { episodeId, kind: 'partial', extension };
+    if (filename === getCompressedFilename(episodeId)) return { episodeId, kind: 'compressed', extension };
+    if (filename === getAudioTrackFilename(episodeId)) return { episodeId, kind: 'audio-track', extension };
+    if (match[2]) return null;
+    if (isKnownMediaExtension(extension)) return { episodeId, kind: 'media', extension };
+    if (extension === 'jpg' || extension === 'png') return { episodeId, kind: 'artwork', extension };
+    return null;
+}
+
+const isLinkedFile = (episode: Episode, filename: string) =>
+    episode.isDownloaded && getEpisodeFilename(episode) === filename;
+
+export function inspectStorage({ episodes, files, subscriptions, busyIds = new Set() }: StorageInspectionInput): StorageReport {
+    const byId = new Map(episodes.map(episode => [episode.id, episode]));
+    const names = new Set(files.map(file => file.filename));
+
+    const inspected = files.map((file): InspectedFile => {
+        const parsed = parseStoredFilename(file.filename);
+        const episode = parsed ? byId.get(parsed.episodeId) : undefined;
+        const kind = parsed?.kind ?? 'other';
+
+        let status: StoredFileStatus;
+        if (!episode) {
+            status = 'orphan';
+        } else if (kind === 'artwork') {
+            // Imported local files keep their cover art next to the audio
+            status = episode.image === `local-media://${file.filename}` ? 'linked' : 'orphan';
+        } else if (isLinkedFile(episode, file.filename)) {
+            status = 'linked';
+        } else if (busyIds.has(episode.id)) {
+            status = 'busy';
+        } else if (kind !== 'media') {
+            status = 'leftover';
+        } else if (episode.isDownloaded && names.has(getEpisodeFilename(episode))) {
+            status = 'leftover'; // A second copy under another extension
+        } else {
+            status = 'unlinked';
+        }
+
+        return {
+            ...file,
+            kind,
+            status,
+            episodeId: episode?.id ?? null,
+            episodeTitle: episode?.title ?? null,
+            podcastId: episode?.feedId ?? null,
+            podcastTitle: episode ? (subscriptions[episode.feedId]?.title ?? episode.feedTitle ?? null) : null,
+            isPlayed: episode?.isPlayed ?? false,
+            playedAt: episode?.playedAt,
+        };
+    });
+
+    const dangling = episodes
+        .filter(episode => episode.isDownloaded && !busyIds.has(episode.id) && !names.has(getEpisodeFilename(episode)))
+        .map((episode): DanglingRecord => ({
+            episodeId: episode.id,
+            title: episode.title,
+            podcastTitle: subscriptions[episode.feedId]?.title ?? episode.feedTitle ?? 'Unknown podcast',
+            expectedFilename: getEpisodeFilename(episode),
+            relinkFilename: inspected.find(file => file.episodeId === episode.id && file.status === 'unlinked')?.filename ?? null,
+        }));
+
+    return { files: inspected, dangling };
+}
+
+// =========================================================================
+// Actions
+// =========================================================================
+
+async function listFiles(): Promise<StoredFile[]> {
+    if (!window.electronAPI?.listStorageFiles) return [];
+    return window.electronAPI.listStorageFiles();
+}
+
+async function getBusyIds(): Promise<Set<number>> {
+    const { usePodcastStore } = await import('../store/usePodcastStore');
+    const { episodes, downloadingEpisodes, isDownloading } = usePodcastStore.getState();
+    const busy = new Set(Object.keys(downloadingEpisodes).map(Number).filter(id => isDownloading(id)));
+    for (const episode of Object.values(episodes)) {
+        if (episode.transcriptionStatus === 'processing') busy.add(episode.id);
+    }
+    return busy;
+}
+
+async function saveEpisode(episode: Episode): Promise<void> {
+    const { usePodcastStore } = await import('../store/usePodcastStore');
+    await db.saveEpisode(episode);
+    usePodcastStore.setState(state => ({
+        episodes: { ...state.episodes, [episode.id]: episode }
+    }));
+}
+
+export const storageInspector = {
+    getReport: async (): Promise<StorageReport> => {
+        const { usePodcastStore } = await import('../store/usePodcastStore');
+        const { episodes, subscriptions } = usePodcastStore.getState();
+        return inspectStorage({
+            episodes: Object.values(episodes),
+            files: await listFiles(),
+            subscriptions,
+            busyIds: await getBusyIds(),
+        });
+    },
+
+    /**
+     * Deletes files. Linked files go through the podcast store so their
+     * episodes stop claiming to be downloaded. Returns the bytes freed.
+     */
+    deleteFiles: async (files: InspectedFile[]): Promise<number> => {
+        const { usePodcastStore } = await import('../store/usePodcastStore');
+        const { storageService } = await import('./storage');
+        let freed = 0;
+        for (const file of files) {
+            if (file.status === 'busy') continue;
+            try {
+                if (file.status === 'linked' && file.kind === 'media' && file.episodeId !== null) {
+                    await usePodcastStore.getState().deleteEpisodeFile(file.episodeId);
+                } else {
+                    await storageService.deleteFile(file.filename);
+                }
+                freed += file.size;
+            } catch (error) {
+                console.error(`[StorageInspector] Failed to delete ${file.filename}:`, error);
+            }
+        }
+        console.log(`[StorageInspector] Deleted ${files.length} file(s), freed ${freed} bytes`);
+        return freed;
+    },
+
+    /**
+     * Points an episode at one of its media files after checking the file
+     * decodes and matches the feed. The file becomes the episode's download.
+     */
+    relinkFile: async (episodeId: number, filename: string): Promise<IntegrityCheck> => {
+        const { usePodcastStore } = await import('../store/usePodcastStore');
+        const { storageService } = await import('./storage');
+        const episode = usePodcastStore.getState().episodes[episodeId];
+        const parsed = parseStoredFilename(filename);
+        if (!episode || parsed?.kind !== 'media' || parsed.episodeId !== episodeId) {
+            return { ok: false, problem: 'missing', message: 'File does not belong to this episode' };
+        }
+
+        const declared = resolveMediaType(episode.enclosureType, episode.enclosureUrl);
+        const mimeType = declared.extension === parsed.extension ? declared.mimeType : getMimeTypeForExtension(parsed.extension);
+        const inspection = await storageService.verifyFile(filename);
+        const check = checkEpisodeFile(inspection, {
+            // The audio track of a video is much smaller than the enclosure
+            enclosureLength: isVideoMimeType(episode.enclosureType) && !isVideoMimeType(mimeType) ? 0 : episode.enclosureLength,
+            duration: episode.duration,
+        });
+        if (!check.ok) {
+            console.warn(`[StorageInspector] Not re-linking ${filename} (${check.problem}): ${check.message}`);
+            return check;
+        }
+
+        await saveEpisode({
+            ...episode,
+            isDownloaded: true,
+            localFilePath: await window.electronAPI?.getFilePath(filename) ?? storageService.getFilePath(filename),
+            fileExtension: parsed.extension,
+            mimeType,
+            fileSize: inspection.size,
+            contentHash: inspection.sha256 ?? undefined,
+        });
+        console.log(`[StorageInspector] Re-linked ${filename} to episode ${episodeId}`);
+        return check;
+    },
+
+    /**
+     * Marks an episode whose file is gone as not downloaded. Transcript and
+     * segments stay; they describe the episode, not the file.
+     */
+    forgetFile: async (episodeId: number): Promise<void> => {
+        const { usePodcastStore } = await import('../store/usePodcastStore');
+        const episode = usePodcastStore.getState().episodes[episodeId];
+        if (!episode) return;
+        await saveEpisode({
+            ...episode,
+            isDownloaded: false,
+            localFilePath: undefined,
+            fileSize: undefined,
+            contentHash: undefined,
+        });
+    },
+
+    redownload: async (episodeId: number) => {
+        const { recoverMissingEpisode } = await import('./episodeRecovery');
+        return recoverMissingEpisode(episodeId);
+    },
+};
@@ -0,0 +1,113 @@
+/**
+ * Storage Janitor
+ *
+ * Applies the storage policies in the background: lists the podcast
+ * directory, plans a cleanup with storagePolicy and deletes the chosen
+ * episode files through the podcast store, so episode state stays in sync
+ * with what is on disk.
+ */
+
+import { db } from './db';
+import { buildDiskUsage, planCleanup, PROTECTED_QUEUE_ITEMS, type CleanupItem, type DiskUsageEntry } from './storagePolicy';
+import type { StoredFile } from '../types/electron';
+
+// Delay before a requested run, so a burst of finished downloads triggers one cleanup
+const REQUEST_DELAY_MS = 30 * 1000;
+
+let activeRun: Promise<CleanupItem[]> | null = null;
+let requestTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function listFiles(): Promise<StoredFile[]> {
+    if (!window.electronAPI?.listStorageFiles) return [];
+    return window.electronAPI.listStorageFiles();
+}
+
+/**
+ * Episodes whose files must stay: the current episode, the next few in the
+ * queue and anything still downloading.
+ */
+async function getProtectedIds(): Promise<{ protectedIds: Set<number>; queuedIds: Set<number> }> {
+    const { usePlayerStore } = await import('../store/usePlayerStore');
+    const { usePodcastStore } = await import('../store/usePodcastStore');
+    const { currentEpisode, queue } = usePlayerStore.getState();
+    const { downloadingEpisodes, isDownloading } = usePodcastStore.getState();
+
+    const protectedIds = new Set(queue.slice(0, PROTECTED_QUEUE_ITEMS).map(ep => ep.id));
+    if (currentEpisode) protectedIds.add(currentEpisode.id);
+    for (const id of Object.keys(downloadingEpisodes).map(Number)) {
+        if (isDownloading(id)) protectedIds.add(id);
+    }
+    return { protectedIds, queuedIds: new Set(queue.map(ep => ep.id)) };
+}
+
+export const storageJanitor = {
+    /**
+     * Enforces the storage policies once. Returns what was deleted.
+     */
+    run: (): Promise<CleanupItem[]> => {
+        if (activeRun) return activeRun;
+
+        activeRun = (async () => {
+            const { usePodcastStore } = await import('../store/usePodcastStore');
+            const policy = await db.getPreferences();
+            if (!policy.maxStorageMB && !policy.maxEpisodesPerPodcast && !policy.deletePlayedAfterDays) return [];
+
+            const files = await listFiles();
+            const { protectedIds, queuedIds } = await getProtectedIds();
+            const plan = planCleanup({
+                episodes: Object.values(usePodcastStore.getState().episodes),
+                files,
+                policy,
+                protectedIds,
+                queuedIds,
+            });
+
+            for (const item of plan) {
+                console.log(`[StorageJanitor] Deleting "${item.title}" (${item.reason}, ${item.bytes} bytes)`);
+                await usePodcastStore.getState().deleteEpisodeFile(item.episodeId);
+            }
+            if (plan.length > 0) {
+                const freed = plan.reduce((sum, item) => sum + item.bytes, 0);
+                console.log(`[StorageJanitor] Freed ${(freed / (1024 * 1024)).toFixed(1)} MB from ${plan.length} episodes`);
+            }
+            return plan;
+        })().finally(() => {
+            activeRun = null;
+        });
+
+        return activeRun;
+    },
+
+    /**
+     * Schedules a run shortly, e.g. after a download finished.
+     */
+    requestRun: (): void => {
+        if (requestTimer) return;
+        requestTimer = setTimeout(() => {
+            requestTimer = null;
+            storageJanitor.run().catch(err => console.error('[StorageJanitor] Cleanup failed:', err));
+        }, REQUEST_DELAY_MS);
+    },
+
+    /**
+     * Deletes the downloaded files of a podcast that is being unsubscribed,
+     * except for the current episode and the next few in the queue.
+     */
+    deletePodcastFiles: async (podcastId: number): Promise<number> => {
+        const { usePodcastStore } = await import('../store/usePodcastStore');
+        const { protectedIds } = await getProtectedIds();
+        const downloaded = Object.values(usePodcastStore.getState().episodes)
+            .filter(ep => ep.feedId === podcastId && ep.isDownloaded && !protectedIds.has(ep.id));
+
+        for (const episode of downloaded) {
+            await usePodcastStore.getState().deleteEpisodeFile(episode.id);
+        }
+        return downloaded.length;
+    },
+
+    getDiskUsage: async (): Promise<DiskUsageEntry[]> => {
+        const { usePodcastStore } = await import('../store/usePodcastStore');
+        const { episodes, subscriptions } = usePodcastStore.getState();
+        return buildDiskUsage(Object.values(episodes), await listFiles(), subscriptions);
+    },
+};
@@ -0,0 +1,177 @@
+/**
+ * Storage Policy
+ *
+ * Decides which downloaded episode files to delete to honour the storage
+ * preferences: delete played episodes after a number of days, keep at most N
+ * downloads per podcast, and stay under a total size for the podcast
+ * directory. Pure planning only; the storage janitor carries the plan out.
+ */
+
+import type { Episode, Podcast, UserPreferences } from '../types';
+import type { StoredFile } from '../types/electron';
+import { isLocalFilesUrl } from './localFiles';
+import { getAudioTrackFilename, getCompressedFilename, getEpisodeFilename } from './mediaTypes';
+
+// The current episode and this many queue items are never cleaned up
+export const PROTECTED_QUEUE_ITEMS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+export type StoragePolicy = Pick<UserPreferences,
+    'maxStorageMB' | 'maxEpisodesPerPodcast' | 'deletePlayedAfterDays' | 'deleteFilesOnUnsubscribe'>;
+
+export type CleanupReason = 'played' | 'per-podcast-limit' | 'storage-limit';
+
+export interface CleanupItem {
+    episodeId: number;
+    podcastId: number;
+    title: string;
+    reason: CleanupReason;
+    bytes: number;
+}
+
+export interface CleanupInput {
+    episodes: Episode[];
+    files: StoredFile[];
+    policy: StoragePolicy;
+    /** Episodes that must keep their files (playing, next in queue, downloading) */
+    protectedIds: Set<number>;
+    /** Queued episodes are deleted last when over the size limit */
+    queuedIds?: Set<number>;
+    now?: number;
+}
+
+export interface DiskUsageEntry {
+    podcastId: number | null; // null for files that belong to no known episode
+    title: string;
+    episodeCount: number;
+    bytes: number;
+}
+
+// Files an episode can own: the download and the copies made for uploads
+function episodeFilenames(episode: Episode): string[] {
+    return [getEpisodeFilename(episode), getCompressedFilename(episode.id), getAudioTrackFilename(episode.id)];
+}
+
+/**
+ * Bytes on disk per episode ID, plus the bytes not owned by any episode.
+ */
+export function getEpisodeFileSizes(episodes: Episode[], files: StoredFile[]): { sizes: Map<number, number>; unowned: number } {
+    const byName = new Map(files.map(file => [file.filename, file.size]));
+    const sizes = new Map<number, number>();
+    let owned = 0;
+
+    for (const episode of episodes) {
+        let bytes = 0;
+        for (const name of episodeFilenames(episode)) {
+            bytes += byName.get(name) ?? 0;
+            byName.delete(name);
+        }
+        if (bytes > 0) {
+            sizes.set(episode.id, bytes);
+            owned += bytes;
+        }
+    }
+
+    const total = files.reduce((sum, file) => sum + file.size, 0);
+    return { sizes, unowned: total - owned };
+}
+
+/**
+ * Works out which episode files to delete, in the order they should go.
+ */
+export function planCleanup({ episodes, files, policy, protectedIds, queuedIds = new Set(), now = Date.now() }: CleanupInput): CleanupItem[] {
+    const { sizes } = getEpisodeFileSizes(episodes, files);
+    const modifiedAt = new Map(files.map(file => [file.filename, file.modifiedAt]));
+    const plan: CleanupItem[] = [];
+    const planned = new Set<number>();
+
+    // Imported local files can't be downloaded again, so they are never cleaned up
+    const onDisk = episodes.filter(ep => sizes.has(ep.id) && !isLocalFilesUrl(ep.feedUrl));
+    const candidates = onDisk.filter(ep => !protectedIds.has(ep.id));
+
+    const add = (episode: Episode, reason: CleanupReason) => {
+        if (planned.has(episode.id)) return;
+        planned.add(episode.id);
+        plan.push({ episodeId: episode.id, podcastId: episode.feedId, title: episode.title, reason, bytes: sizes.get(episode.id) ?? 0 });
+    };
+
+    // 1. Played long enough ago
+    if (policy.deletePlayedAfterDays > 0) {
+        const cutoff = now - policy.deletePlayedAfterDays * DAY_MS;
+        for (const episode of candidates) {
+            const playedAt = episode.playedAt ?? modifiedAt.get(getEpisodeFilename(episode)) ?? now;
+            if (episode.isPlayed && playedAt <= cutoff) add(episode, 'played');
+        }
+    }
+
+    // 2. Too many downloads of one podcast: keep the newest episodes. Protected
+    //    episodes always stay but still take up slots.
+    if (policy.maxEpisodesPerPodcast > 0) {
+        const byPodcast = new Map<number, Episode[]>();
+        for (const episode of onDisk) {
+            if (planned.has(episode.id)) continue;
+            byPodcast.set(episode.feedId, [...(byPodcast.get(episode.feedId) ?? []), episode]);
+        }
+        for (const podcastEpisodes of byPodcast.values()) {
+            let kept = podcastEpisodes.filter(ep => protectedIds.has(ep.id)).length;
+            const newestFirst = podcastEpisodes
+                .filter(ep => !protectedIds.has(ep.id))
+                .sort((a, b) => b.datePublished - a.datePublished);
+            for (const episode of newestFirst) {
+                if (kept < policy.maxEpisodesPerPodcast) {
+                    kept++;
+                } else {
+                    add(episode, 'per-podcast-limit');
+                }
+            }
+        }
+    }
+
+    // 3. Over the total size: played first, then unqueued, then the oldest
+    if (policy.maxStorageMB > 0) {
+        const limit = policy.maxStorageMB * MB;
+        let total = files.reduce((sum, file) => sum + file.size, 0) - plan.reduce((sum, item) => sum + item.bytes, 0);
+        const rank = (ep: Episode) => (ep.isPlayed ? 0 : queuedIds.has(ep.id) ? 2 : 1);
+        const ordered = candidates
+            .filter(ep => !planned.has(ep.id))
+            .sort((a, b) => rank(a) - rank(b) || a.datePublished - b.datePublished);
+        for (const episode of ordered) {
+            if (total <= limit) break;
+            add(episode, 'storage-limit');
+            total -= sizes.get(episode.id) ?? 0;
+        }
+    }
+
+    return plan;
+}
+
+/**
+ * Disk usage per podcast, largest first, with unowned files (partial
+ * downloads, artwork, leftovers) grouped into one entry at the end.
+ */
+export function buildDiskUsage(episodes: Episode[], files: StoredFile[], subscriptions: Record<number, Podcast>): DiskUsageEntry[] {
+    const { sizes, unowned } = getEpisodeFileSizes(episodes, files);
+    const byPodcast = new Map<number, DiskUsageEntry>();
+
+    for (const episode of episodes) {
+        const bytes = sizes.get(episode.id);
+        if (!bytes) continue;
+        const entry = byPodcast.get(episode.feedId) ?? {
+            podcastId: episode.feedId,
+            title: subscriptions[episode.feedId]?.title ?? episode.feedTitle ?? 'Unknown podcast',
+            episodeCount: 0,
+            bytes: 0,
+        };
+        entry.episodeCount++;
+        entry.bytes += bytes;
+        byPodcast.set(episode.feedId, entry);
+    }
+
+    const usage = [...byPodcast.values()].sort((a, b) => b.bytes - a.bytes);
+    if (unowned > 0) {
+        usage.push({ podcastId: null, title: 'Other files', episodeCount: 0, bytes: unowned });
+    }
+    return usage;
+}
@@ -1,74 +1,158 @@
 // src/services/transcription.ts
-// Transcription service - now routes to cloud backend
+// Transcription pipeline - routes episodes through the processing providers
 
-import type { Transcript } from '../types';
-import { processEpisodeInCloud, CloudJobStatus } from './cloudApi';
+import type { AdSegment, Episode, Transcript } from '../types';
+import type { EpisodeUploadMetadata, TranscriptDetectionResults } from './cloudApi';
+import { getTrackedCloudJob } from './cloudJobs';
+import { cloudProvider } from './cloudProvider';
 import { db } from './db';
+import { fakeProvider } from './fakeProvider';
+import { localProvider } from './localTranscription';
+import {
+    getDetectionProvider,
+    getTranscriptionProviders,
+    registerProcessingProvider,
+    TranscriptionCancelledError,
+    type ProcessingProgress,
+    type ProcessingProvider,
+} from './processingProviders';
+
+registerProcessingProvider(cloudProvider);
+registerProcessingProvider(localProvider);
+registerProcessingProvider(fakeProvider);
+
+export interface ProcessEpisodeOptions {
+    force?: boolean;
+    onProgress?: (progress: ProcessingProgress) => void;
+}
+
+export interface ProcessedEpisode {
+    transcript: Transcript;
+    adSegments?: AdSegment[];
+    adDetectionType?: Episode['adDetectionType'];
+}
+
+// The provider working on each episode, for cancelling
+const running = new Map<number, ProcessingProvider>();
+
+export function getUploadMetadata(episode: Episode): EpisodeUploadMetadata {
+    return {
+        feedId: episode.feedId,
+        guid: episode.guid,
+        title: episode.title,
+        durationSeconds: episode.duration,
+    };
+}
 
 /**
- * Transcribe an episode using the cloud backend
- * 
- * @param filename - Local filename (e.g., "12345.mp3")
- * @param episodeId - Episode ID in local database
- * @param onProgress - Optional callback for progress updates
+ * Where a transcript can come from. The publisher's own transcript is
+ * preferred when the feed links one - it's free and avoids processing the
+ * audio - except on a forced re-transcribe of a publisher transcript.
  */
-export async function transcribeEpisode(
-    filename: string,
-    episodeId: number,
-    onProgress?: (status: CloudJobStatus) => void
-): Promise<Transcript> {
-    // Get episode metadata for the cloud API
-    const episodes = await db.getEpisodes();
-    const episode = episodes[episodeId];
+export function getTranscriptSources(episode: Episode, force = false): { publisher: boolean; audio: boolean } {
+    return {
+        publisher: !!episode.transcriptLinks?.length && !(force && episode.transcript?.source === 'publisher'),
+        audio: episode.isDownloaded && !!episode.localFilePath,
+    };
+}
+
+/**
+ * Whether skippable segments have to be detected separately from the
+ * transcript text (the cloud finds them while transcribing).
+ */
+export function needsSeparateDetection(transcript: Transcript | undefined): boolean {
+    return !!transcript?.source && transcript.source !== 'cloud';
+}
 
-    if (!episode) {
-        throw new Error(`Episode ${episodeId} not found in database`);
+/**
+ * Runs text-only skippable segment detection for a transcript. Returns null on
+ * failure so the transcript is still kept.
+ */
+export async function detectSegmentsForTranscript(
+    transcript: Transcript,
+    metadata: EpisodeUploadMetadata
+): Promise<TranscriptDetectionResults | null> {
+    const provider = getDetectionProvider();
+    if (!provider) return null;
+    try {
+        return await provider.detectSegments(transcript, metadata);
+    } catch (error) {
+        console.error('[Transcription] Transcript-only segment detection failed:', error);
+        return null;
     }
+}
 
-    console.log(`[Transcription] Starting cloud processing for: ${episode.title}`);
+async function transcribeWithProviders(
+    episode: Episode,
+    metadata: EpisodeUploadMetadata,
+    resumeCloud: boolean,
+    onProgress?: (progress: ProcessingProgress) => void
+) {
+    const providers = getTranscriptionProviders((await db.getPreferences()).transcriptionMode, { resumeCloud });
+    let lastError: unknown = new Error('No transcription provider available');
 
-    // Read the local file
-    if (!window.electronAPI) {
-        throw new Error('Electron API not available');
+    for (const provider of providers) {
+        if (!(await provider.isAvailable())) {
+            console.log(`[Transcription] ${provider.name} is not available, skipping`);
+            continue;
+        }
+
+        running.set(episode.id, provider);
+        try {
+            console.log(`[Transcription] Transcribing "${episode.title}" with ${provider.name}`);
+            return await provider.transcribe({
+                episode,
+                metadata,
+                onProgress: progress => onProgress?.({ ...progress, cancellable: provider.capabilities.cancellable }),
+            });
+        } catch (error) {
+            if (error instanceof TranscriptionCancelledError) throw error;
+            console.warn(`[Transcription] ${provider.name} failed:`, error);
+            lastError = error;
+        } finally {
+            running.delete(episode.id);
+        }
     }
-    // Read the local file - use filename only, not full path
-    // (readFile IPC handler prepends the podcast directory)
-    const fileBuffer = await window.electronAPI.readFile(filename);
-
-    // Process in cloud
-    const results = await processEpisodeInCloud(
-        fileBuffer,
-        filename,
-        {
-            feedId: episode.feedId,
-            guid: episode.guid,
-            title: episode.title,
-            description: episode.description,
-            durationSeconds: episode.duration
-        },
-        onProgress
-    );
-
-    console.log(`[Transcription] Cloud processing complete. ${results.detectedSegments.length} segments detected.`);
-
-    // Convert cloud response to local Transcript format
-    const transcript: Transcript = {
-        episodeId,
-        text: results.transcript.text,
-        segments: results.transcript.segments,
-        language: results.transcript.language,
-        duration: results.transcript.duration,
-        createdAt: Date.now()
-    };
 
-    return transcript;
+    throw lastError;
 }
 
 /**
- * Get the detected segments from the most recent cloud processing
- * (These are returned alongside the transcript from processEpisodeInCloud)
+ * Gets a transcript and skippable segments for an episode: the publisher's
+ * transcript when there is one, otherwise the audio through the providers for
+ * the user's transcription mode, falling back to the next provider on failure
+ * (but not after a cancel). A cloud job left over from before a restart is
+ * picked up before anything else.
  */
-export { processEpisodeInCloud, CloudJobStatus } from './cloudApi';
+export async function processEpisode(episode: Episode, options: ProcessEpisodeOptions = {}): Promise<ProcessedEpisode> {
+    const sources = getTranscriptSources(episode, options.force);
+    const metadata = getUploadMetadata(episode);
+    const resumeCloud = !!(await getTrackedCloudJob(episode.id));
+
+    if (sources.publisher && !resumeCloud) {
+        const { fetchPublisherTranscript } = await import('./publisherTranscripts');
+        const transcript = await fetchPublisherTranscript(episode);
+        if (transcript) {
+            console.log(`[Transcription] Using publisher transcript for "${episode.title}"`);
+            const detection = await detectSegmentsForTranscript(transcript, metadata);
+            return { transcript, adSegments: detection?.detectedSegments, adDetectionType: detection?.detectionMethod };
+        }
+        if (!sources.audio) throw new Error('No usable publisher transcript and episode is not downloaded');
+    }
+    if (!sources.audio && !resumeCloud) throw new Error('Episode is not downloaded');
+
+    const { transcript, detection } = await transcribeWithProviders(episode, metadata, resumeCloud, options.onProgress);
+    const segments = detection ?? await detectSegmentsForTranscript(transcript, metadata);
+    return { transcript, adSegments: segments?.detectedSegments, adDetectionType: segments?.detectionMethod };
+}
+
+/**
+ * Stops the provider working on an episode. Providers that can't stop a job
+ * let it finish.
+ */
+export async function cancelTranscription(episodeId: number): Promise<void> {
+    await running.get(episodeId)?.cancel(episodeId);
+}
 
 // =============================================================================
 // ORIGINAL IMPLEMENTATION - COMMENTED OUT (MARKED FOR FUTURE DELETION)
@@ -0,0 +1,85 @@
+/**
+ * Transcription Queue
+ *
+ * Scheduling for transcriptions, so finished downloads don't all start
+ * uploading at once: jobs wait as pending, a few run at a time (the
+ * maxConcurrentTranscriptions preference), and the next to start is the
+ * playing episode, then the queue in order, then the rest in the order they
+ * were added - the same priorities as downloads. usePodcastStore keeps the
+ * jobs and runs them; these helpers decide what happens next.
+ */
+
+import type { Episode } from '../types';
+import { getDownloadPriority } from './downloads';
+
+export type TranscriptionJobStatus = 'pending' | 'running' | 'failed';
+
+export interface TranscriptionJob {
+    episodeId: number;
+    force: boolean; // Re-transcribe even if there is a transcript
+    status: TranscriptionJobStatus;
+    queuedAt: number;
+}
+
+export interface TranscriptionSchedule {
+    concurrency: number;
+    paused: boolean;
+    currentEpisodeId: number | undefined;
+    queue: Episode[];
+}
+
+/**
+ * Adds a job, or puts a failed one back in line. A running job is left alone.
+ */
+export function queueTranscriptionJob(
+    jobs: Record<number, TranscriptionJob>,
+    episodeId: number,
+    force = false,
+    now = Date.now()
+): Record<number, TranscriptionJob> {
+    const existing = jobs[episodeId];
+    if (existing?.status === 'running') return jobs;
+    if (existing?.status === 'pending') {
+        return existing.force || !force ? jobs : { ...jobs, [episodeId]: { ...existing, force } };
+    }
+    return { ...jobs, [episodeId]: { episodeId, force, status: 'pending', queuedAt: now } };
+}
+
+export function withoutTranscriptionJob(jobs: Record<number, TranscriptionJob>, episodeId: number): Record<number, TranscriptionJob> {
+    const remaining = { ...jobs };
+    delete remaining[episodeId];
+    return remaining;
+}
+
+/**
+ * Pending jobs, most urgent first.
+ */
+export function getPendingTranscriptions(jobs: Record<number, TranscriptionJob>, schedule: Pick<TranscriptionSchedule, 'currentEpisodeId' | 'queue'>): TranscriptionJob[] {
+    const priority = (job: TranscriptionJob) => getDownloadPriority(job.episodeId, schedule.currentEpisodeId, schedule.queue);
+    return Object.values(jobs)
+        .filter(job => job.status === 'pending')
+        .sort((a, b) => priority(b) - priority(a) || a.queuedAt - b.queuedAt);
+}
+
+/**
+ * The episodes to start now: the most urgent pending jobs, up to the free slots.
+ */
+export function selectTranscriptionsToStart(jobs: Record<number, TranscriptionJob>, schedule: TranscriptionSchedule): number[] {
+    if (schedule.paused) return [];
+    const running = Object.values(jobs).filter(job => job.status === 'running').length;
+    const free = Math.max(0, Math.max(1, schedule.concurrency) - running);
+    return getPendingTranscriptions(jobs, schedule).slice(0, free).map(job => job.episodeId);
+}
+
+/**
+ * Downloaded episodes with no transcript that aren't queued or being
+ * transcribed already, for "Transcribe all downloaded".
+ */
+export function getUntranscribedDownloads(episodes: Record<number, Episode>, jobs: Record<number, TranscriptionJob>): Episode[] {
+    return Object.values(episodes).filter(episode =>
+        episode.isDownloaded &&
+        !episode.transcript &&
+        episode.transcriptionStatus !== 'processing' &&
+        (!jobs[episode.id] || jobs[episode.id].status === 'failed')
+    );
+}
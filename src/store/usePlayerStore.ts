@@ -1,7 +1,9 @@
 import { create } from 'zustand';
-import type { Episode } from '../types';
+import type { Episode, QueuePlacement } from '../types';
 
 import { db } from '../services/db';
+import { getQueueInsertIndex } from '../services/autoQueueRules';
+import { DOWNLOAD_PRIORITY, canPlayWhileDownloading } from '../services/downloads';
 import {
     upsertQueue,
     debouncedPlayerStateUpdate,
@@ -12,6 +14,59 @@ import {
 import { getDeviceId } from '../services/deviceId';
 import type { QueueItem } from '../types/cloudSync';
 
+// How long to wait for a download to start producing bytes before streaming instead
+const DOWNLOAD_START_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Waits until an episode can be played from disk: fully downloaded, or enough
+ * of a running download has arrived. 'failed' when neither happens.
+ */
+async function waitForPlayableDownload(episodeId: number): Promise<'downloaded' | 'partial' | 'failed'> {
+    const { usePodcastStore } = await import('./usePodcastStore');
+    const startedAt = Date.now();
+
+    for (; ;) {
+        const { episodes, downloadingEpisodes } = usePodcastStore.getState();
+        const download = downloadingEpisodes[episodeId];
+        if (episodes[episodeId]?.isDownloaded) return 'downloaded';
+        if (canPlayWhileDownloading(download)) return 'partial';
+        if (download?.status === 'failed' || download?.status === 'cancelled') return 'failed';
+        // Nothing arriving (e.g. waiting behind other downloads); stream instead
+        if (Date.now() - startedAt > DOWNLOAD_START_TIMEOUT_MS && !download?.receivedBytes) return 'failed';
+        await new Promise(resolve => setTimeout(resolve, 250));
+    }
+}
+
+/**
+ * Switches the player to the finished file once a download that is playing
+ * completes, so the player has the verified file type and the local path.
+ * Ad segments need no switch: AudioController reads them from the library
+ * as transcription produces them.
+ */
+async function followProgressiveDownload(episodeId: number): Promise<void> {
+    const { usePodcastStore } = await import('./usePodcastStore');
+
+    // The entry is removed on success or cancellation and kept on failure
+    const isPending = () => {
+        const status = usePodcastStore.getState().downloadingEpisodes[episodeId]?.status;
+        return status !== undefined && status !== 'failed';
+    };
+    while (isPending()) {
+        await new Promise(resolve => setTimeout(resolve, 500));
+    }
+
+    const { currentEpisode } = usePlayerStore.getState();
+    const downloaded = usePodcastStore.getState().episodes[episodeId];
+    if (currentEpisode?.id !== episodeId) return;
+
+    if (downloaded?.isDownloaded) {
+        console.log(`[PlayerStore] Download of playing episode ${episodeId} finished.`);
+        usePlayerStore.setState({ currentEpisode: downloaded });
+    } else {
+        console.error(`[PlayerStore] Download of playing episode ${episodeId} failed.`);
+    }
+}
+
 // Helper to sync queue to cloud - called after any queue modification
 // This is defined outside the store so it can access store state via getState()
 function syncQueueToCloud(): void {
@@ -53,10 +108,11 @@ interface PlayerState {
     pause: () => void;
     resume: () => void;
     setPlaybackRate: (rate: number) => void;
-    addToQueue: (episode: Episode) => void;
+    addToQueue: (episode: Episode, placement?: QueuePlacement) => void;
     removeFromQueue: (episodeId: number) => void;
     playNextInQueue: () => Promise<void>;
     reorderQueue: (fromIndex: number, toIndex: number) => void;
+    replaceFeedUrl: (oldUrl: string, newUrl: string) => Promise<void>;
     seek: (time: number) => void;
     skipForward: () => Promise<void>;
     skipBackward: () => Promise<void>;
@@ -158,45 +214,34 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
             episode = updatedEpisode;
         }
 
-        // Enforce Download Before Play
-        // We must have the file locally to play it (for ad detection, etc.)
+        // Play from the local file, starting as soon as enough of it is on disk
+        // (the local-media protocol serves downloads in progress)
         const { usePodcastStore } = await import('./usePodcastStore');
 
         // Initial check
-        let podcastStore = usePodcastStore.getState();
+        const podcastStore = usePodcastStore.getState();
         const isDownloaded = podcastStore.isDownloaded(episode.id);
 
         let episodeToPlay = episode;
+        let isProgressive = false;
 
         if (!isDownloaded) {
-            console.log(`[PlayerStore] Episode ${episode.id} not downloaded. Initiating download check...`);
+            console.log(`[PlayerStore] Episode ${episode.id} not downloaded. Starting download...`);
 
-            // Trigger download
-            // If it's already downloading, this returns immediately.
-            // If it starts a new download, this awaits until completion.
-            await podcastStore.downloadEpisode(episode);
-
-            // Re-fetch state because 'podcastStore' variable is now stale
-            // and we need to check if it's still downloading (in case it was already downloading)
-            podcastStore = usePodcastStore.getState();
-
-            if (podcastStore.isDownloading(episode.id)) {
-                console.log(`[PlayerStore] Episode ${episode.id} is currently downloading. Waiting for completion...`);
-
-                // Poll until download finishes
-                while (usePodcastStore.getState().isDownloading(episode.id)) {
-                    await new Promise(resolve => setTimeout(resolve, 500));
-                }
-                console.log(`[PlayerStore] Download wait finished.`);
-            }
+            // Starts the download, or moves a queued one to the front. Not awaited:
+            // it only resolves once the whole file is downloaded and verified.
+            podcastStore.downloadEpisode(episode, DOWNLOAD_PRIORITY.PLAYING);
 
-            // Re-fetch one last time to get the final result
-            podcastStore = usePodcastStore.getState();
-            const updatedEpisode = podcastStore.episodes[episode.id];
+            const readiness = await waitForPlayableDownload(episode.id);
+            const updatedEpisode = usePodcastStore.getState().episodes[episode.id];
 
-            if (updatedEpisode && updatedEpisode.isDownloaded) {
+            if (readiness === 'downloaded' && updatedEpisode) {
                 console.log(`[PlayerStore] Download successful. Playing local file.`);
                 episodeToPlay = updatedEpisode;
+            } else if (readiness === 'partial') {
+                console.log(`[PlayerStore] Playing episode ${episode.id} while it downloads.`);
+                episodeToPlay = updatedEpisode ?? episode;
+                isProgressive = true;
             } else {
                 console.error(`[PlayerStore] Download failed or finished but episode not marked downloaded. Fallback to stream (undesirable).`);
             }
@@ -216,6 +261,8 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
         console.log(`[PlayerStore] Starting playback at ${startTime}s`);
 
         set({ currentEpisode: episodeToPlay, isPlaying: true, playbackRate: defaultRate, currentTime: startTime, playbackError: false });
+
+        if (isProgressive) followProgressiveDownload(episode.id);
     },
 
     pause: () => set({ isPlaying: false }),
@@ -224,7 +271,7 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
 
     setPlaybackRate: (rate: number) => set({ playbackRate: rate }),
 
-    addToQueue: async (episode: Episode) => {
+    addToQueue: async (episode: Episode, placement: QueuePlacement = 'end') => {
         const { queue, isPlaying, currentEpisode } = get();
 
         // If queue is empty and nothing is playing, play immediately
@@ -235,7 +282,9 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
 
         set((state) => {
             if (state.queue.find(e => e.id === episode.id)) return state;
-            return { queue: [...state.queue, episode] };
+            const queue = [...state.queue];
+            queue.splice(getQueueInsertIndex(queue, episode, placement), 0, episode);
+            return { queue };
         });
 
         // FIX: Reset played status if adding a completed episode to queue
@@ -267,11 +316,12 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
             episode = updatedEpisode;
         }
 
-        // Always download when adding to queue (auto-transcription happens in downloadEpisode)
+        // Download in the background when the download policy allows it
+        // (auto-transcription happens in downloadEpisode)
         const { usePodcastStore } = await import('./usePodcastStore');
         const state = usePodcastStore.getState();
         if (!state.isDownloaded(episode.id) && !state.isDownloading(episode.id)) {
-            state.downloadEpisode(episode);
+            state.downloadEpisode(episode, undefined, { automatic: true });
         }
 
         // Sync queue with cloud (fire-and-forget)
@@ -329,6 +379,19 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
         syncQueueToCloud();
     },
 
+    replaceFeedUrl: async (oldUrl: string, newUrl: string) => {
+        const { queue, currentEpisode } = get();
+        const affected = currentEpisode?.feedUrl === oldUrl || queue.some(ep => ep.feedUrl === oldUrl);
+        if (!affected) return;
+
+        set({
+            queue: queue.map(ep => ep.feedUrl === oldUrl ? { ...ep, feedUrl: newUrl } : ep),
+            currentEpisode: currentEpisode?.feedUrl === oldUrl ? { ...currentEpisode, feedUrl: newUrl } : currentEpisode,
+        });
+        await get().saveState();
+        syncQueueToCloud();
+    },
+
     seek: (time: number) => set({ currentTime: time, lastSeekTime: Date.now() }),
 
     skipForward: async () => {
@@ -359,6 +422,7 @@ export const usePlayerStore = create<PlayerState>((set, get) => ({
             const updatedEpisode = {
                 ...episode,
                 isPlayed: true,
+                playedAt: Date.now(),
                 playbackPosition: 0,
                 transcript: undefined,
                 adSegments: undefined,
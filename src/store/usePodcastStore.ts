@@ -1,34 +1,110 @@
 import { create } from 'zustand';
-import type { Podcast, Episode } from '../types';
+import type { Podcast, Episode, AdSegment, AutoQueueRules, FeedState } from '../types';
+import type { FeedRefreshReport } from '../services/feedRefresh';
+import { TranscriptionCancelledError, type ProcessingProgress } from '../services/processingProviders';
+import type { DownloadProgress } from '../types/electron';
+import {
+    applyDownloadProgress,
+    createEpisodeDownload,
+    getDownloadPriority,
+    isActiveDownload,
+    withoutDownload,
+    type EpisodeDownload,
+} from '../services/downloads';
 import { db } from '../services/db';
+import { checkEpisodeFile } from '../services/downloadIntegrity';
+import {
+    AUDIO_TRACK_MEDIA_TYPE,
+    getCompressedFilename,
+    getEpisodeFilename,
+    isVideoMimeType,
+    reconcileMediaType,
+    resolveMediaType,
+    sniffMediaType,
+} from '../services/mediaTypes';
+import { getTrackedCloudJobs, planTranscriptionRecovery, untrackCloudJob } from '../services/cloudJobs';
+import {
+    getUntranscribedDownloads,
+    queueTranscriptionJob,
+    selectTranscriptionsToStart,
+    withoutTranscriptionJob,
+    type TranscriptionJob,
+} from '../services/transcriptionQueue';
+import {
+    cancelTranscription,
+    detectSegmentsForTranscript,
+    getTranscriptSources,
+    getUploadMetadata,
+    needsSeparateDetection,
+    processEpisode,
+} from '../services/transcription';
 import {
     pushSubscription,
     deleteSubscription,
+    updateSubscriptionSettings,
+    getSubscriptionSettings,
     isCloudSyncAvailable,
 } from '../services/cloudSync';
 
+/**
+ * Pushes a subscription's auto-queue settings to the cloud (non-blocking).
+ */
+function syncSubscriptionSettings(podcast: Podcast): void {
+    isCloudSyncAvailable().then(available => {
+        if (available) {
+            updateSubscriptionSettings(podcast.url, getSubscriptionSettings(podcast))
+                .catch(err => console.error('[PodcastStore] Cloud settings sync failed:', err));
+        }
+    });
+}
+
+export interface SubscribeOptions {
+    /** Defaults to true for new subscriptions */
+    autoAddToQueue?: boolean;
+}
+
 interface PodcastState {
     subscriptions: Record<number, Podcast>;
     episodes: Record<number, Episode>;
-    downloadingEpisodes: Set<number>;
+    downloadingEpisodes: Record<number, EpisodeDownload>; // Active and failed downloads, by episode ID
+    transcriptionProgress: Record<number, ProcessingProgress>; // Running transcriptions, by episode ID
+    transcriptionJobs: Record<number, TranscriptionJob>; // Queued, running and failed transcriptions, by episode ID
+    transcriptionQueuePaused: boolean;
+    maxConcurrentTranscriptions: number;
     loading: boolean;
+    isRefreshing: boolean;
+    lastRefreshReport: FeedRefreshReport | null;
+    feedStates: Record<number, FeedState>; // Refresh bookkeeping and feed health, by podcast ID
 
     initialized: boolean;
 
     loadSubscriptions: () => Promise<void>;
     loadEpisodes: () => Promise<void>;
-    subscribe: (podcast: Podcast) => Promise<void>;
+    subscribe: (podcast: Podcast, options?: SubscribeOptions) => Promise<void>;
     unsubscribe: (id: number) => Promise<void>;
     isSubscribed: (id: number) => boolean;
-    downloadEpisode: (episode: Episode) => Promise<void>;
+    downloadEpisode: (episode: Episode, priority?: number, options?: { automatic?: boolean }) => Promise<void>;
     transcribeEpisode: (episodeId: number, force?: boolean) => Promise<void>;
+    cancelTranscription: (episodeId: number) => Promise<void>;
+    resumeTranscriptions: () => Promise<void>;
+    queueTranscription: (episodeId: number, force?: boolean) => void;
+    transcribeAllDownloaded: () => number;
+    removeTranscriptionJob: (episodeId: number) => void;
+    setTranscriptionQueuePaused: (paused: boolean) => void;
+    setTranscriptionConcurrency: (concurrency: number) => void;
+    pumpTranscriptionQueue: () => Promise<void>;
     detectAds: (episodeId: number) => Promise<void>;
+    loadChapters: (episodeId: number) => Promise<void>;
+    acceptSkipCandidate: (episodeId: number, segment: AdSegment) => Promise<void>;
     isDownloading: (episodeId: number) => boolean;
+    handleDownloadProgress: (progress: DownloadProgress) => void;
+    setDownloadPriority: (episodeId: number, priority: number) => Promise<void>;
     isDownloaded: (episodeId: number) => boolean;
     getTranscriptionStatus: (episodeId: number) => 'pending' | 'processing' | 'completed' | 'failed' | undefined;
     deleteEpisodeFile: (episodeId: number) => Promise<void>;
     ensureQueueDownloaded: (queue: Episode[]) => Promise<void>;
     toggleAutoAddToQueue: (podcastId: number) => Promise<void>;
+    updateAutoQueueRules: (podcastId: number, rules: AutoQueueRules | undefined) => Promise<void>;
     cancelDownload: (episodeId: number) => Promise<void>;
     clearAllData: () => Promise<void>;
 }
@@ -36,15 +112,22 @@ interface PodcastState {
 export const usePodcastStore = create<PodcastState>((set, get) => ({
     subscriptions: {},
     episodes: {},
-    downloadingEpisodes: new Set(),
+    downloadingEpisodes: {},
+    transcriptionProgress: {},
+    transcriptionJobs: {},
+    transcriptionQueuePaused: false,
+    maxConcurrentTranscriptions: 1,
     loading: false,
+    isRefreshing: false,
+    lastRefreshReport: null,
+    feedStates: {},
     initialized: false,
 
     loadSubscriptions: async () => {
         set({ loading: true });
         try {
-            const subs = await db.getPodcasts();
-            set({ subscriptions: subs });
+            const [subs, feedStates] = await Promise.all([db.getPodcasts(), db.getFeedStates()]);
+            set({ subscriptions: subs, feedStates });
         } catch (error) {
             console.error('Failed to load subscriptions:', error);
         } finally {
@@ -65,12 +148,12 @@ export const usePodcastStore = create<PodcastState>((set, get) => ({
         }
     },
 
-    subscribe: async (podcast: Podcast) => {
+    subscribe: async (podcast: Podcast, options: SubscribeOptions = {}) => {
         try {
             // Initialize auto-queue settings
             const podcastWithSettings = {
                 ...podcast,
-                autoAddToQueue: true,
+                autoAddToQueue: options.autoAddToQueue ?? true,
                 subscribedAt: Date.now()
             };
 
@@ -86,6 +169,7 @@ export const usePodcastStore = create<PodcastState>((set, get) => ({
                         feed_url: podcast.url,
                         title: podcast.title,
                         image_url: podcast.image || '',
+                        ...getSubscriptionSettings(podcastWithSettings),
                     }).catch(err => console.error('[PodcastStore] Cloud sync failed:', err));
                 }
             });
@@ -100,12 +184,26 @@ export const usePodcastStore = create<PodcastState>((set, get) => ({
             const podcast = get().subscriptions[id];
 
             await db.removePodcast(id);
+            await db.removeFeedState(id);
+            if (podcast?.url) {
+                const { deletePrivateFeedSecret } = await import('../services/privateFeeds');
+                await deletePrivateFeedSecret(podcast.url);
+            }
             set((state) => {
                 const next = { ...state.subscriptions };
                 delete next[id];
-                return { subscriptions: next };
+                const nextFeedStates = { ...state.feedStates };
+                delete nextFeedStates[id];
+                return { subscriptions: next, feedStates: nextFeedStates };
             });
 
+            const prefs = await db.getPreferences();
+            if (prefs.deleteFilesOnUnsubscribe) {
+                const { storageJanitor } = await import('../services/storageJanitor');
+                const deleted = await storageJanitor.deletePodcastFiles(id);
+                console.log(`[PodcastStore] Deleted ${deleted} downloaded episodes of unsubscribed podcast`);
+            }
+
             // Sync with cloud (non-blocking)
             if (podcast?.url) {
                 isCloudSyncAvailable().then(available => {
@@ -135,12 +233,32 @@ export const usePodcastStore = create<PodcastState>((set, get) => ({
             set((state) => ({
                 subscriptions: { ...state.subscriptions, [podcastId]: updatedPodcast }
             }));
+            syncSubscriptionSettings(updatedPodcast);
         } catch (error) {
             console.error('Failed to toggle auto-add to queue:', error);
         }
     },
 
-    downloadEpisode: async (episode: Episode) => {
+    updateAutoQueueRules: async (podcastId: number, rules: AutoQueueRules | undefined) => {
+        const podcast = get().subscriptions[podcastId];
+        if (!podcast) return;
+
+        const updatedPodcast = { ...podcast, autoQueueRules: rules };
+
+        try {
+            await db.savePodcast(updatedPodcast);
+            set((state) => ({
+                subscriptions: { ...state.subscriptions, [podcastId]: updatedPodcast }
+            }));
+            syncSubscriptionSettings(updatedPodcast);
+        } catch (error) {
+            console.error('Failed to update auto-queue rules:', error);
+        }
+    },
+
+    downloadEpisode: async (episode: Episode, priority?: number, options: { automatic?: boolean } = {}) => {
+        const automatic = options.automatic ?? false;
+
         // Check if already downloaded or downloading
         if (get().isDownloaded(episode.id)) {
             console.log('Episode already downloaded:', episode.title);
@@ -148,19 +266,89 @@ export const usePodcastStore = create<PodcastState>((set, get) => ({
         }
         if (get().isDownloading(episode.id)) {
             console.log('Episode already downloading:', episode.title);
+            if (priority !== undefined) await get().setDownloadPriority(episode.id, priority);
+            const running = get().downloadingEpisodes[episode.id];
+            if (!automatic && running?.automatic) {
+                // Asked for by hand: joining the download lifts the policy's hold and bandwidth cap
+                set((state) => ({
+                    downloadingEpisodes: { ...state.downloadingEpisodes, [episode.id]: { ...running, automatic: false } }
+                }));
+                const { storageService } = await import('../services/storage');
+                const { getEnclosureHeaders, getPrivateFeedSecret } = await import('../services/privateFeeds');
+                const secret = await getPrivateFeedSecret(episode.feedUrl ?? '');
+                // Settled by the downloadEpisode call that started it
+                storageService.downloadFile(episode.enclosureUrl, running.filename, getEnclosureHeaders(secret, episode.enclosureUrl), priority, false)
+                    .catch(() => { });
+            }
             return;
         }
 
+        if (automatic) {
+            const { getAutomaticDownloadBlock } = await import('../services/downloadPolicy');
+            const block = getAutomaticDownloadBlock(await db.getPreferences());
+            if (block) {
+                console.log(`Not downloading "${episode.title}" automatically (${block})`);
+                return;
+            }
+        }
+
         console.log('Starting download for episode:', episode.id, episode.title);
 
+        // Named from the enclosure's declared type until the file itself is checked
+        const declaredMedia = resolveMediaType(episode.enclosureType, episode.enclosureUrl);
+        const filename = getEpisodeFilename({ id: episode.id, fileExtension: declaredMedia.extension });
+        const { usePlayerStore } = await import('./usePlayerStore');
+        const { currentEpisode, queue } = usePlayerStore.getState();
+        const downloadPriority = priority ?? getDownloadPriority(episode.id, currentEpisode?.id, queue);
+
         set((state) => ({
-            downloadingEpisodes: new Set(state.downloadingEpisodes).add(episode.id)
+            downloadingEpisodes: {
+                ...state.downloadingEpisodes,
+                [episode.id]: { ...createEpisodeDownload(episode.id, filename, downloadPriority), automatic }
+            }
         }));
 
         try {
             const { storageService } = await import('../services/storage');
-            const filename = `${episode.id}.mp3`;
-            const localPath = await storageService.downloadFile(episode.enclosureUrl, filename);
+            const { getEnclosureHeaders, getPrivateFeedSecret } = await import('../services/privateFeeds');
+            const secret = await getPrivateFeedSecret(episode.feedUrl ?? '');
+            let actualFilename = filename;
+            let localPath = await storageService.downloadFile(episode.enclosureUrl, filename, getEnclosureHeaders(secret, episode.enclosureUrl), downloadPriority, automatic);
+
+            // Feeds often mislabel their media, so trust the file's header over the enclosure type
+            const header = await storageService.readFileHeader(filename).catch(() => new Uint8Array(0));
+            const media = reconcileMediaType(declaredMedia, sniffMediaType(header));
+            if (media.extension !== declaredMedia.extension) {
+                actualFilename = getEpisodeFilename({ id: episode.id, fileExtension: media.extension });
+                console.log(`Episode ${episode.id} is ${media.mimeType}, not ${declaredMedia.mimeType}. Renaming to ${actualFilename}`);
+                await storageService.renameFile(filename, actualFilename);
+                localPath = localPath.slice(0, -filename.length) + actualFilename;
+            }
+
+            // A complete transfer can still be a truncated or broken file; don't keep it
+            let inspection = await storageService.verifyFile(actualFilename);
+            const integrity = checkEpisodeFile(inspection, { enclosureLength: episode.enclosureLength, duration: episode.duration });
+            if (!integrity.ok) {
+                await storageService.deleteFile(actualFilename).catch(() => { });
+                throw new Error(`Downloaded file failed verification: ${integrity.message}`);
+            }
+
+            // Video episodes can be kept as just their audio track
+            let fileMedia = media;
+            if (isVideoMimeType(media.mimeType) && (await db.getPreferences()).videoAudioOnly) {
+                const audioFilename = getEpisodeFilename({ id: episode.id, fileExtension: AUDIO_TRACK_MEDIA_TYPE.extension });
+                try {
+                    await storageService.extractAudio(actualFilename, audioFilename);
+                    await storageService.deleteFile(actualFilename);
+                    localPath = localPath.slice(0, -actualFilename.length) + audioFilename;
+                    actualFilename = audioFilename;
+                    fileMedia = AUDIO_TRACK_MEDIA_TYPE;
+                    inspection = await storageService.verifyFile(audioFilename);
+                } catch (error) {
+                    console.error('Failed to extract audio, keeping the video:', error);
+                    await storageService.deleteFile(audioFilename).catch(() => { });
+                }
+            }
 
             // CRITICAL FIX: Merge with existing episode state to preserve transcript/ads
             // The passed 'episode' object might be stale (e.g. from queue)
@@ -170,41 +358,57 @@ export const usePodcastStore = create<PodcastState>((set, get) => ({
             const updatedEpisode = {
                 ...episodeToUse,
                 isDownloaded: true,
-                localFilePath: localPath
+                localFilePath: localPath,
+                fileExtension: fileMedia.extension,
+                mimeType: fileMedia.mimeType,
+                fileSize: inspection.size,
+                contentHash: inspection.sha256 ?? undefined
             };
 
             set((state) => {
-                const newDownloading = new Set(state.downloadingEpisodes);
-                newDownloading.delete(episode.id);
+                const downloadingEpisodes = withoutDownload(state.downloadingEpisodes, episode.id);
                 return {
                     episodes: { ...state.episodes, [episode.id]: updatedEpisode },
-                    downloadingEpisodes: newDownloading
+                    downloadingEpisodes
                 };
             });
 
             await db.saveEpisode(updatedEpisode);
             console.log('Episode saved with local path');
 
+            // New files may push storage over the configured budget
+            import('../services/storageJanitor').then(({ storageJanitor }) => storageJanitor.requestRun());
+
             // Auto-transcribe after download - ONLY if not already transcribed
             // Double check the updatedEpisode object which now definitely has the latest state
             if (!updatedEpisode.transcript) {
-                get().transcribeEpisode(episode.id);
+                get().queueTranscription(episode.id);
             } else {
                 console.log('Episode already has transcript, skipping auto-transcription');
             }
 
         } catch (error: any) {
-            // Handle cancellation gracefully
-            if (error.message === 'Download cancelled') {
+            // Handle cancellation gracefully (IPC wraps the message, so match loosely)
+            if (error.message?.includes('Download cancelled')) {
                 console.log('Download cancelled for episode:', episode.title);
-            } else {
-                console.error('Failed to download episode:', error);
+                set((state) => {
+                    const downloadingEpisodes = withoutDownload(state.downloadingEpisodes, episode.id);
+                    return { downloadingEpisodes };
+                });
+                return;
             }
 
+            console.error('Failed to download episode:', error);
+            // Keep the failed entry so the UI can show what went wrong
             set((state) => {
-                const newDownloading = new Set(state.downloadingEpisodes);
-                newDownloading.delete(episode.id);
-                return { downloadingEpisodes: newDownloading };
+                const current = state.downloadingEpisodes[episode.id];
+                if (!current) return {};
+                return {
+                    downloadingEpisodes: {
+                        ...state.downloadingEpisodes,
+                        [episode.id]: { ...current, status: 'failed', bytesPerSecond: 0, error: current.error ?? error.message }
+                    }
+                };
             });
         }
     },
@@ -214,14 +418,12 @@ export const usePodcastStore = create<PodcastState>((set, get) => ({
 
         try {
             const { storageService } = await import('../services/storage');
-            const filename = `${episodeId}.mp3`;
-            await storageService.cancelDownload(filename);
+            await storageService.cancelDownload(get().downloadingEpisodes[episodeId].filename);
 
             // State update is handled in downloadEpisode's catch block or here if needed immediately
             set((state) => {
-                const newDownloading = new Set(state.downloadingEpisodes);
-                newDownloading.delete(episodeId);
-                return { downloadingEpisodes: newDownloading };
+                const downloadingEpisodes = withoutDownload(state.downloadingEpisodes, episodeId);
+                return { downloadingEpisodes };
             });
         } catch (error) {
             console.error('Failed to cancel download:', error);
@@ -229,7 +431,28 @@ export const usePodcastStore = create<PodcastState>((set, get) => ({
     },
 
     isDownloading: (episodeId: number) => {
-        return get().downloadingEpisodes.has(episodeId);
+        return isActiveDownload(get().downloadingEpisodes[episodeId]);
+    },
+
+    setDownloadPriority: async (episodeId: number, priority: number) => {
+        const download = get().downloadingEpisodes[episodeId];
+        if (!isActiveDownload(download) || download.priority === priority) return;
+
+        const { storageService } = await import('../services/storage');
+        await storageService.setDownloadPriority(download.filename, priority);
+    },
+
+    handleDownloadProgress: (progress: DownloadProgress) => {
+        const download = Object.values(get().downloadingEpisodes).find(d => d.filename === progress.filename);
+        // Completion and failure are settled by downloadEpisode itself
+        if (!download || !isActiveDownload(download) || progress.status === 'completed' || progress.status === 'cancelled') return;
+
+        set((state) => ({
+            downloadingEpisodes: {
+                ...state.downloadingEpisodes,
+                [download.episodeId]: applyDownloadProgress(download, progress)
+            }
+        }));
     },
 
     isDownloaded: (episodeId: number) => {
@@ -238,7 +461,13 @@ export const usePodcastStore = create<PodcastState>((set, get) => ({
 
     transcribeEpisode: async (episodeId: number, force: boolean = false) => {
         const episode = get().episodes[episodeId];
-        if (!episode || !episode.isDownloaded || !episode.localFilePath) {
+        if (!episode) {
+            console.error('Cannot transcribe: episode not found');
+            return;
+        }
+
+        const sources = getTranscriptSources(episode, force);
+        if (!sources.publisher && !sources.audio) {
             console.error('Cannot transcribe: episode not downloaded');
             return;
         }
@@ -273,50 +502,23 @@ export const usePodcastStore = create<PodcastState>((set, get) => ({
         }));
 
         try {
-            const { processEpisodeInCloud } = await import('../services/cloudApi');
-            const filename = `${episodeId}.mp3`;
-
-            console.log('Starting cloud transcription for episode:', episodeId, force ? '(FORCED)' : '');
-
-            // Read the file for upload - use filename only, not full path
-            // (readFile IPC handler prepends the podcast directory)
-            const fileBuffer = await window.electronAPI!.readFile(filename);
-
-            // Process in cloud - this returns both transcript AND detected segments
-            const results = await processEpisodeInCloud(
-                fileBuffer,
-                filename,
-                {
-                    feedId: episode.feedId,
-                    guid: episode.guid,
-                    title: episode.title,
-                    durationSeconds: episode.duration
-                },
-                (status) => {
-                    console.log(`[Cloud] Status: ${status.status} (${status.progress || 0}%)`);
-                }
-            );
-
-            // Build transcript from cloud results
-            const transcript = {
-                episodeId,
-                text: results.transcript.text,
-                segments: results.transcript.segments,
-                language: results.transcript.language,
-                duration: results.transcript.duration,
-                createdAt: Date.now()
-            };
-
-            console.log('Cloud transcription completed:', transcript.duration, 'seconds');
+            console.log('Starting transcription for episode:', episodeId, force ? '(FORCED)' : '');
+            const { transcript, adSegments, adDetectionType } = await processEpisode(episode, {
+                force,
+                onProgress: (progress) => set((state) => ({
+                    transcriptionProgress: { ...state.transcriptionProgress, [episodeId]: progress }
+                })),
+            });
 
-            // Update state with transcript AND segments from cloud
+            // Update state with transcript AND detected segments
+            const current = get().episodes[episodeId];
             const updatedEpisode = {
-                ...get().episodes[episodeId],
+                ...current,
                 transcript,
                 transcriptionStatus: 'completed' as const,
-                duration: transcript.duration || get().episodes[episodeId].duration,
-                adSegments: results.detectedSegments,
-                adDetectionType: results.detectionMethod
+                duration: transcript.duration || current.duration,
+                adSegments,
+                adDetectionType
             };
 
             set((state) => ({
@@ -329,34 +531,234 @@ export const usePodcastStore = create<PodcastState>((set, get) => ({
             await db.saveTranscript(episodeId, transcript);
             await db.saveEpisode(updatedEpisode);
 
-            console.log(`Cloud processing complete: ${results.detectedSegments.length} skippable segments detected`);
+            console.log(`Transcription complete: ${adSegments?.length ?? 0} skippable segments detected`);
 
         } catch (error) {
-            console.error('Failed to transcribe episode:', error);
+            const cancelled = error instanceof TranscriptionCancelledError;
+            if (cancelled) console.log('Transcription cancelled:', episode.title);
+            else console.error('Failed to transcribe episode:', error);
             set((state) => ({
                 episodes: {
                     ...state.episodes,
                     [episodeId]: {
                         ...state.episodes[episodeId],
-                        transcriptionStatus: 'failed'
+                        transcriptionStatus: cancelled ? undefined : 'failed'
                     }
                 }
             }));
+        } finally {
+            set((state) => {
+                const transcriptionProgress = { ...state.transcriptionProgress };
+                delete transcriptionProgress[episodeId];
+                return { transcriptionProgress };
+            });
+        }
+    },
+
+    cancelTranscription: async (episodeId: number) => {
+        if (get().transcriptionJobs[episodeId]?.status === 'pending') {
+            get().removeTranscriptionJob(episodeId);
+            return;
+        }
+        await cancelTranscription(episodeId);
+    },
+
+    resumeTranscriptions: async () => {
+        const recovery = planTranscriptionRecovery(get().episodes, await getTrackedCloudJobs());
+        await Promise.all(recovery.expired.map(untrackCloudJob));
+
+        // Nothing is working on these any more, so they can be transcribed again
+        if (recovery.stale.length > 0) {
+            console.log(`[PodcastStore] Clearing ${recovery.stale.length} stale transcription(s)`);
+            const updated = recovery.stale.map(id => ({ ...get().episodes[id], transcriptionStatus: undefined }));
+            set((state) => ({
+                episodes: { ...state.episodes, ...Object.fromEntries(updated.map(episode => [episode.id, episode])) }
+            }));
+            await db.saveEpisodes(updated);
+        }
+
+        // Resumed episodes were saved at 'processing', which the queue would
+        // take for a transcription that's already running
+        set((state) => ({
+            episodes: {
+                ...state.episodes,
+                ...Object.fromEntries(recovery.resume.map(id => [id, { ...state.episodes[id], transcriptionStatus: 'pending' as const }]))
+            }
+        }));
+        for (const episodeId of recovery.resume) {
+            console.log('[PodcastStore] Resuming cloud job for episode:', episodeId);
+            get().queueTranscription(episodeId, true);
+        }
+    },
+
+    queueTranscription: (episodeId: number, force: boolean = false) => {
+        const episode = get().episodes[episodeId];
+        if (!episode || (!force && episode.transcript) || episode.transcriptionStatus === 'processing') return;
+
+        set((state) => ({
+            transcriptionJobs: queueTranscriptionJob(state.transcriptionJobs, episodeId, force),
+            episodes: { ...state.episodes, [episodeId]: { ...episode, transcriptionStatus: 'pending' } }
+        }));
+        void get().pumpTranscriptionQueue();
+    },
+
+    transcribeAllDownloaded: () => {
+        const episodes = getUntranscribedDownloads(get().episodes, get().transcriptionJobs);
+        if (episodes.length === 0) return 0;
+
+        console.log(`[PodcastStore] Queueing ${episodes.length} downloaded episode(s) for transcription`);
+        set((state) => ({
+            transcriptionJobs: episodes.reduce((jobs, episode) => queueTranscriptionJob(jobs, episode.id), state.transcriptionJobs),
+            episodes: {
+                ...state.episodes,
+                ...Object.fromEntries(episodes.map(episode => [episode.id, { ...episode, transcriptionStatus: 'pending' as const }]))
+            }
+        }));
+        void get().pumpTranscriptionQueue();
+        return episodes.length;
+    },
+
+    removeTranscriptionJob: (episodeId: number) => {
+        const job = get().transcriptionJobs[episodeId];
+        if (!job || job.status === 'running') return;
+
+        set((state) => {
+            const episode = state.episodes[episodeId];
+            return {
+                transcriptionJobs: withoutTranscriptionJob(state.transcriptionJobs, episodeId),
+                episodes: episode?.transcriptionStatus === 'pending'
+                    ? { ...state.episodes, [episodeId]: { ...episode, transcriptionStatus: undefined } }
+                    : state.episodes
+            };
+        });
+    },
+
+    setTranscriptionQueuePaused: (paused: boolean) => {
+        set({ transcriptionQueuePaused: paused });
+        if (!paused) void get().pumpTranscriptionQueue();
+    },
+
+    setTranscriptionConcurrency: (concurrency: number) => {
+        set({ maxConcurrentTranscriptions: Math.max(1, concurrency) });
+        void get().pumpTranscriptionQueue();
+    },
+
+    pumpTranscriptionQueue: async () => {
+        const { usePlayerStore } = await import('./usePlayerStore');
+        const { currentEpisode, queue } = usePlayerStore.getState();
+        const { transcriptionJobs, transcriptionQueuePaused, maxConcurrentTranscriptions } = get();
+
+        // Picking and marking jobs running happens without awaiting, so
+        // overlapping pumps can't start the same job twice
+        const toStart = selectTranscriptionsToStart(transcriptionJobs, {
+            concurrency: maxConcurrentTranscriptions,
+            paused: transcriptionQueuePaused,
+            currentEpisodeId: currentEpisode?.id,
+            queue,
+        });
+        if (toStart.length === 0) return;
+
+        set((state) => ({
+            transcriptionJobs: {
+                ...state.transcriptionJobs,
+                ...Object.fromEntries(toStart.map(id => [id, { ...state.transcriptionJobs[id], status: 'running' as const }]))
+            }
+        }));
+
+        for (const episodeId of toStart) {
+            get().transcribeEpisode(episodeId, transcriptionJobs[episodeId].force).then(() => {
+                // Failed jobs stay listed for a retry; anything else is done
+                set((state) => {
+                    const episode = state.episodes[episodeId];
+                    const job = state.transcriptionJobs[episodeId];
+                    return {
+                        transcriptionJobs: episode?.transcriptionStatus === 'failed' && job
+                            ? { ...state.transcriptionJobs, [episodeId]: { ...job, status: 'failed' } }
+                            : withoutTranscriptionJob(state.transcriptionJobs, episodeId),
+                        // transcribeEpisode returns early when there's nothing to do
+                        episodes: episode?.transcriptionStatus === 'pending'
+                            ? { ...state.episodes, [episodeId]: { ...episode, transcriptionStatus: undefined } }
+                            : state.episodes
+                    };
+                });
+                void get().pumpTranscriptionQueue();
+            });
         }
     },
 
     detectAds: async (episodeId: number) => {
+        const episode = get().episodes[episodeId];
+
+        // Transcripts that didn't come from the cloud pipeline get detection
+        // separately on the transcript text
+        if (episode?.transcript && needsSeparateDetection(episode.transcript)) {
+            const detection = await detectSegmentsForTranscript(episode.transcript, getUploadMetadata(episode));
+            if (!detection) return;
+
+            const updatedEpisode = {
+                ...get().episodes[episodeId],
+                adSegments: detection.detectedSegments,
+                adDetectionType: detection.detectionMethod
+            };
+            set((state) => ({
+                episodes: { ...state.episodes, [episodeId]: updatedEpisode }
+            }));
+            await db.saveEpisode(updatedEpisode);
+            return;
+        }
+
         // Cloud backend now handles advanced detection during transcription
         // This function is kept for legacy compatibility but does nothing now
         console.log('[detectAds] Advanced detection is now handled by cloud backend during transcription');
 
         // If episode already has segments from cloud, just log them
-        const episode = get().episodes[episodeId];
         if (episode?.adSegments) {
             console.log(`[detectAds] Episode already has ${episode.adSegments.length} segments from cloud (${episode.adDetectionType})`);
         }
     },
 
+    loadChapters: async (episodeId: number) => {
+        const episode = get().episodes[episodeId];
+        if (!episode?.chaptersUrl || episode.chapters) return;
+
+        try {
+            const { fetchChapters } = await import('../services/chapters');
+            const chapters = await fetchChapters(episode.chaptersUrl);
+
+            // Re-read in case the episode changed while we were fetching
+            const latest = get().episodes[episodeId] ?? episode;
+            const updated = { ...latest, chapters };
+            await db.saveEpisode(updated);
+            set((state) => ({
+                episodes: { ...state.episodes, [episodeId]: updated }
+            }));
+            console.log(`[PodcastStore] Loaded ${chapters.length} chapters for episode ${episodeId}`);
+        } catch (error) {
+            console.error(`[PodcastStore] Failed to load chapters for episode ${episodeId}:`, error);
+        }
+    },
+
+    acceptSkipCandidate: async (episodeId: number, segment: AdSegment) => {
+        const episode = get().episodes[episodeId];
+        if (!episode) return;
+
+        const { hasMatchingSegment } = await import('../services/chapters');
+        if (hasMatchingSegment(episode.adSegments, segment)) return;
+
+        const adSegments = [...(episode.adSegments ?? []), segment]
+            .sort((a, b) => a.startTimeSeconds - b.startTimeSeconds);
+        const updated = { ...episode, adSegments };
+
+        try {
+            await db.saveEpisode(updated);
+            set((state) => ({
+                episodes: { ...state.episodes, [episodeId]: updated }
+            }));
+        } catch (error) {
+            console.error('Failed to accept skippable segment:', error);
+        }
+    },
+
     getTranscriptionStatus: (episodeId: number) => {
         return get().episodes[episodeId]?.transcriptionStatus;
     },
@@ -367,14 +769,14 @@ export const usePodcastStore = create<PodcastState>((set, get) => ({
 
         try {
             const { storageService } = await import('../services/storage');
-            const filename = `${episodeId}.mp3`;
+            const filename = getEpisodeFilename(episode);
 
             // Only delete file if it was downloaded
             if (episode.isDownloaded) {
                 await storageService.deleteFile(filename);
 
                 // Also try to delete the compressed file as backup
-                const compressedFilename = `${episodeId}-compressed.mp3`;
+                const compressedFilename = getCompressedFilename(episodeId);
                 await storageService.deleteFile(compressedFilename).catch(() => {
                     // Ignore error if compressed file doesn't exist
                 });
@@ -384,13 +786,18 @@ export const usePodcastStore = create<PodcastState>((set, get) => ({
                 ...episode,
                 isDownloaded: false,
                 localFilePath: undefined,
+                fileSize: undefined,
+                contentHash: undefined,
                 transcript: undefined,
                 adSegments: undefined,
                 transcriptionStatus: undefined
             };
 
             set((state) => ({
-                episodes: { ...state.episodes, [episodeId]: updatedEpisode }
+                episodes: { ...state.episodes, [episodeId]: updatedEpisode },
+                transcriptionJobs: state.transcriptionJobs[episodeId]?.status === 'running'
+                    ? state.transcriptionJobs
+                    : withoutTranscriptionJob(state.transcriptionJobs, episodeId)
             }));
 
             await db.saveEpisode(updatedEpisode);
@@ -402,8 +809,10 @@ export const usePodcastStore = create<PodcastState>((set, get) => ({
     },
 
     ensureQueueDownloaded: async (queue: Episode[]) => {
-        const { downloadEpisode, isDownloaded, isDownloading, episodes } = get();
+        const { downloadEpisode, isDownloaded, isDownloading, setDownloadPriority, episodes } = get();
         const { verifyEpisodeFileExists, recoverMissingEpisode } = await import('../services/episodeRecovery');
+        const { usePlayerStore } = await import('./usePlayerStore');
+        const currentEpisodeId = usePlayerStore.getState().currentEpisode?.id;
 
         for (const queuedEpisode of queue) {
             // CRITICAL: Use fresh episode data from the store, not the potentially stale queue object.
@@ -412,7 +821,8 @@ export const usePodcastStore = create<PodcastState>((set, get) => ({
             const freshEpisode = episodes[queuedEpisode.id] || queuedEpisode;
 
             if (isDownloading(freshEpisode.id)) {
-                // Already downloading, skip
+                // Already downloading; the queue may have been reordered
+                await setDownloadPriority(freshEpisode.id, getDownloadPriority(freshEpisode.id, currentEpisodeId, queue));
                 continue;
             }
 
@@ -424,9 +834,10 @@ export const usePodcastStore = create<PodcastState>((set, get) => ({
                     await recoverMissingEpisode(freshEpisode.id, freshEpisode.playbackPosition);
                 }
             } else {
-                // Not downloaded yet - initiate download
+                // Not downloaded yet - hand it to the download manager, which
+                // runs a few at a time in queue order
                 console.log('Auto-downloading queued episode:', freshEpisode.title);
-                downloadEpisode(freshEpisode);
+                downloadEpisode(freshEpisode, getDownloadPriority(freshEpisode.id, currentEpisodeId, queue), { automatic: true });
             }
         }
     },
@@ -439,7 +850,7 @@ export const usePodcastStore = create<PodcastState>((set, get) => ({
             const episodes = Object.values(get().episodes);
             for (const ep of episodes) {
                 if (ep.isDownloaded) {
-                    const filename = `${ep.id}.mp3`;
+                    const filename = getEpisodeFilename(ep);
                     await storageService.deleteFile(filename).catch(e => console.error(`Failed to delete ${filename}`, e));
                 }
             }
@@ -451,7 +862,9 @@ export const usePodcastStore = create<PodcastState>((set, get) => ({
             set({
                 subscriptions: {},
                 episodes: {},
-                downloadingEpisodes: new Set(),
+                feedStates: {},
+                downloadingEpisodes: {},
+                transcriptionJobs: {},
                 loading: false
             });
 
@@ -5,6 +5,8 @@
  * syncing user library data. Based on backend_integration_guide.md
  */
 
+import type { AutoQueueRules } from './index';
+
 // =========================================================================
 // Subscriptions - which podcasts the user follows
 // =========================================================================
@@ -21,12 +23,22 @@ export interface CloudSubscription {
     image_url: string;
     created_at: string;  // ISO 8601
     test_data: boolean;
+    auto_add_to_queue: boolean | null;       // null for rows created before settings sync
+    auto_queue_rules: AutoQueueRules | null; // jsonb
+}
+
+/**
+ * Per-subscription settings that follow the user across devices.
+ */
+export interface SubscriptionSettingsPayload {
+    auto_add_to_queue?: boolean;
+    auto_queue_rules?: AutoQueueRules | null;
 }
 
 /**
  * Payload for creating a new subscription.
  */
-export interface SubscriptionPayload {
+export interface SubscriptionPayload extends SubscriptionSettingsPayload {
     feed_url: string;
     title: string;
     image_url: string;
@@ -1,12 +1,150 @@
+export interface RemoteTextResponse {
+    ok: boolean;
+    status: number;
+    url: string; // Final URL after redirects
+    permanentUrl?: string; // Set when the request was moved by permanent (301/308) redirects only
+    contentType: string;
+    etag?: string;
+    lastModified?: string;
+    body: string; // Empty for 304 Not Modified
+}
+
+export interface LocalAudioFileInfo {
+    path: string;
+    fileName: string;
+    fileUrl?: string;
+    size?: number;
+    modifiedAt?: number; // ms
+    title?: string;
+    artist?: string;
+    album?: string;
+    comment?: string;
+    duration?: number; // seconds
+    hasArtwork?: boolean;
+    error?: string; // Set when the file couldn't be read
+}
+
+export type DownloadStatus = 'queued' | 'downloading' | 'retrying' | 'completed' | 'failed' | 'cancelled';
+
+// Mirrors DownloadProgress in electron/downloadManager.ts
+export interface DownloadProgress {
+    filename: string;
+    url: string;
+    status: DownloadStatus;
+    priority: number;
+    receivedBytes: number;
+    totalBytes: number | null; // null when the server doesn't say
+    bytesPerSecond: number;
+    resumed: boolean; // Continued from a partial file
+    attempt: number;
+    error?: string;
+}
+
+// Mirror the types in electron/audioExport.ts
+export interface ExportTimeRange {
+    start: number; // seconds
+    end: number;
+}
+
+export interface ExportChapter {
+    start: number; // seconds
+    title: string;
+}
+
+export interface ExportTags {
+    title: string;
+    artist?: string;
+    album?: string;
+    date?: string;
+    track?: string;
+    comment?: string;
+}
+
+export interface ExportRequest {
+    jobId: string;
+    inputFilename: string;
+    outputFilename: string;
+    cuts: ExportTimeRange[];
+    chapters: ExportChapter[] | null; // null = no chapter metadata
+    tags: ExportTags;
+    artworkUrl?: string;
+}
+
+export type ExportStatus = 'preparing' | 'encoding' | 'completed' | 'failed' | 'cancelled';
+
+export interface ExportProgress {
+    jobId: string;
+    status: ExportStatus;
+    progress: number; // 0-1
+    outputPath?: string;
+    error?: string;
+}
+
+// Mirror the types in electron/localTranscription.ts
+export interface LocalTranscriptionStatus {
+    available: boolean;
+    binaryPath: string | null;
+    modelPath: string | null;
+    problem?: string;
+}
+
+export type LocalTranscriptionStage = 'converting' | 'transcribing' | 'completed' | 'failed' | 'cancelled';
+
+export interface LocalTranscriptionProgress {
+    jobId: string;
+    status: LocalTranscriptionStage;
+    progress: number; // 0-1
+    error?: string;
+}
+
+export interface LocalTranscriptionResult {
+    text: string;
+    language: string;
+    duration: number;
+    segments: { id: number; start: number; end: number; text: string; words: { word: string; startTime: number; endTime: number }[] }[];
+}
+
+export interface StoredFile {
+    filename: string;
+    size: number; // bytes
+    modifiedAt: number; // ms
+}
+
+// Mirrors FileInspection in electron/fileIntegrity.ts
+export interface FileInspection {
+    exists: boolean;
+    size: number;
+    sha256: string | null; // null when hashing was skipped
+    duration: number | null; // seconds; null when the file doesn't decode
+    error?: string;
+}
+
 export interface ElectronAPI {
-    downloadFile: (url: string, filename: string) => Promise<string>;
+    downloadFile: (url: string, filename: string, options?: { headers?: Record<string, string>; priority?: number; automatic?: boolean }) => Promise<string>;
     cancelDownload: (filename: string) => Promise<void>;
+    setDownloadPriority: (filename: string, priority: number) => Promise<void>;
+    setDownloadConcurrency: (concurrency: number) => Promise<void>;
+    setDownloadLimits: (limits: { bytesPerSecond?: number; automaticHeld?: boolean }) => Promise<void>;
+    getDownloads: () => Promise<DownloadProgress[]>;
+    onDownloadProgress: (callback: (progress: DownloadProgress) => void) => () => void;
+    exportEpisode: (request: ExportRequest) => Promise<string | null>; // null when no folder was chosen
+    cancelExport: (jobId: string) => Promise<void>;
+    onExportProgress: (callback: (progress: ExportProgress) => void) => () => void;
+    getLocalTranscriptionStatus: () => Promise<LocalTranscriptionStatus>;
+    chooseLocalTranscriptionFile: (kind: 'binary' | 'model') => Promise<LocalTranscriptionStatus>;
+    transcribeLocally: (jobId: string, filename: string, options?: { language?: string }) => Promise<LocalTranscriptionResult>;
+    cancelLocalTranscription: (jobId: string) => Promise<void>;
+    onLocalTranscriptionProgress: (callback: (progress: LocalTranscriptionProgress) => void) => () => void;
     deleteFile: (filename: string) => Promise<void>;
     checkFileExists: (filename: string) => Promise<boolean>;
     readFile: (filename: string) => Promise<ArrayBuffer>;
     getFilePath: (filename: string) => Promise<string>;
     readFileBase64: (filename: string) => Promise<string>;
+    readFileHeader: (filename: string, length?: number) => Promise<Uint8Array>;
+    renameFile: (from: string, to: string) => Promise<void>;
+    verifyFile: (filename: string, options?: { hash?: boolean }) => Promise<FileInspection>;
     compressAudio: (filename: string, bitrateKbps?: number) => Promise<string>;
+    extractAudio: (filename: string, outputFilename: string) => Promise<string>;
     restartApp: () => Promise<void>;
     clearAllData: () => Promise<boolean>;
     openStorageFolder: () => Promise<void>;
@@ -16,7 +154,12 @@ export interface ElectronAPI {
         fileCount: number;
         storagePath: string;
     }>;
+    listStorageFiles: () => Promise<StoredFile[]>;
     openExternal: (url: string) => Promise<void>;
+    fetchText: (url: string, options?: { headers?: Record<string, string> }) => Promise<RemoteTextResponse>;
+    selectLocalAudioFiles: () => Promise<LocalAudioFileInfo[]>;
+    readDroppedAudioFiles: (files: File[]) => Promise<LocalAudioFileInfo[]>;
+    importLocalAudioFile: (sourcePath: string, filename: string, artworkFilename?: string) => Promise<{ filePath: string; artworkFilename?: string }>;
     checkForUpdates: (options?: { allowPrerelease?: boolean; silent?: boolean }) => Promise<any>;
     downloadUpdate: () => Promise<void>;
     quitAndInstall: () => Promise<void>;
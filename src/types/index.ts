@@ -17,9 +17,47 @@ export interface Podcast {
     episodeCount: number;
     // Auto-queue settings
     autoAddToQueue: boolean;
+    autoQueueRules?: AutoQueueRules; // Filters applied when autoAddToQueue is on
     subscribedAt: number;
 }
 
+// Where auto-queued episodes are inserted
+export type QueuePlacement = 'end' | 'top' | 'after-show';
+
+export interface AutoQueueRules {
+    includePatterns: string[]; // Title must match at least one (if any); plain text or /regex/
+    excludePatterns: string[]; // Title must match none
+    minDurationMinutes?: number;
+    maxDurationMinutes?: number;
+    episodeTypes?: EpisodeType[]; // Allowed types (empty/undefined = all)
+    seasons?: number[]; // Allowed seasons (empty/undefined = all)
+    placement: QueuePlacement;
+}
+
+// Per-feed refresh bookkeeping (conditional request validators and change tracking)
+export interface FeedState {
+    podcastId: number;
+    etag?: string;
+    lastModified?: string;
+    lastUpdateTime?: number; // Podcast Index lastUpdateTime, when refreshed via the index
+    lastCheckedAt: number; // ms
+    lastChangedAt?: number; // ms
+    // Health of the raw feed (Podcast Index fallbacks don't count as successes)
+    lastSuccessAt?: number; // ms
+    consecutiveFailures?: number;
+    lastError?: string;
+    // Set when the feed URL was migrated after a permanent redirect or new-feed-url tag
+    movedFrom?: string;
+    movedAt?: number; // ms
+}
+
+// A cloud processing job that hasn't finished, kept so it survives a restart
+export interface CloudJobRecord {
+    episodeId: number;
+    jobId: string;
+    startedAt: number; // ms
+}
+
 export interface TranscriptWord {
     word: string;
     startTime: number; // seconds
@@ -43,6 +81,27 @@ export interface Transcript {
     language: string;
     duration: number;
     createdAt: number; // timestamp
+    source?: 'cloud' | 'publisher' | 'local' | 'fake'; // publisher = parsed from the feed's podcast:transcript, local = whisper.cpp, fake = fixture
+}
+
+// podcast:transcript link from the feed
+export interface TranscriptLink {
+    url: string;
+    type: string; // MIME type, e.g. "application/srt", "text/vtt"
+    language?: string;
+    rel?: string; // "captions" for caption-style files
+}
+
+export type EpisodeType = 'full' | 'trailer' | 'bonus';
+
+// Podcasting 2.0 JSON chapter (https://github.com/Podcastindex-org/podcast-namespace/blob/main/chapters/jsonChapters.md)
+export interface Chapter {
+    startTime: number; // seconds
+    endTime?: number;
+    title: string;
+    img?: string;
+    url?: string;
+    toc: boolean; // false = hidden from the table of contents (often ads/silence)
 }
 
 export interface Episode {
@@ -61,6 +120,7 @@ export interface Episode {
     explicit: 0 | 1;
     episode: number | null;
     season: number | null;
+    episodeType?: EpisodeType; // itunes:episodeType, when the feed provides it
     image: string;
     feedImage: string;
     feedId: number;
@@ -70,8 +130,13 @@ export interface Episode {
 
     // Local state
     isPlayed: boolean;
+    playedAt?: number; // ms, when it was marked as played
     playbackPosition: number; // in seconds
     localFilePath?: string;
+    fileExtension?: string; // Of the downloaded file, e.g. 'm4a'; unset means 'mp3'
+    mimeType?: string; // Of the downloaded file
+    fileSize?: number; // bytes, as verified after the download
+    contentHash?: string; // SHA-256 of the downloaded file
     isDownloaded: boolean;
     inQueue: boolean;
 
@@ -80,6 +145,13 @@ export interface Episode {
     transcriptionStatus?: 'pending' | 'processing' | 'completed' | 'failed';
     adSegments?: AdSegment[];
     adDetectionType?: 'basic' | 'advanced';
+
+    // Chapters (podcast:chapters)
+    chaptersUrl?: string;
+    chapters?: Chapter[];
+
+    // Publisher transcripts (podcast:transcript)
+    transcriptLinks?: TranscriptLink[];
 }
 
 export interface AdSegment {
@@ -88,11 +160,13 @@ export interface AdSegment {
     startTimeSeconds: number; // calculated for easier processing
     endTimeSeconds: number;
     confidence: number;
-    type: 'advertisement' | 'self-promotion' | 'intro/outro' | 'closing credits';
+    type: 'advertisement' | 'self-promotion' | 'intro/outro' | 'closing credits' | 'chapter';
     description: string;
 }
 
 export type TranscriptionProvider = 'whisper' | 'google' | 'assemblyai';
+// Where audio is transcribed: the cloud backend, whisper.cpp on this machine, or local with cloud fallback
+export type TranscriptionMode = 'cloud' | 'local' | 'local-first';
 export type CompressionQuality = 0 | 16 | 32 | 64 | 96 | 128; // kbps (0 = no compression, use original file)
 
 // LLM Model types for OpenRouter integration
@@ -116,17 +190,37 @@ export interface LLMModelConfig {
 // Reasoning effort levels for OpenRouter
 export type ReasoningEffort = 'none' | 'minimal' | 'low' | 'medium' | 'high';
 
+/** Local time of day, "HH:MM"; a window may run past midnight (22:00-06:00) */
+export interface DownloadWindow {
+    start: string;
+    end: string;
+}
+
 export interface UserPreferences {
     playbackSpeed: number;
     theme: 'dark' | 'light';
     volume: number;
     transcriptionProvider: TranscriptionProvider;
+    transcriptionMode: TranscriptionMode;
     compressionQuality: CompressionQuality;
     autoPlayNext: boolean;
     skipForwardSeconds: number;
     skipBackwardSeconds: number;
     debugLogsEnabled: boolean;
     refreshIntervalMinutes: number;
+    maxConcurrentDownloads: number;
+    maxConcurrentTranscriptions: number;
+    // Limits for automatic downloads (queue prefetching, auto-queue); manual downloads ignore them
+    downloadBandwidthLimitKBps: number; // 0 = no limit
+    automaticDownloadWindows: DownloadWindow[]; // Empty = any time
+    pauseAutomaticDownloads: boolean;
+    manualDownloadsOnly: boolean; // Queued episodes wait for a click
+    videoAudioOnly: boolean; // Keep only the audio track of downloaded video episodes
+    // Storage policies, enforced by the storage janitor (0 = no limit)
+    maxStorageMB: number;
+    maxEpisodesPerPodcast: number;
+    deletePlayedAfterDays: number;
+    deleteFilesOnUnsubscribe: boolean;
     // COMMENTED OUT: API keys now handled by cloud backend
     // assemblyAiApiKey?: string;
     // openRouterApiKey?: string;
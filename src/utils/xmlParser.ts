@@ -0,0 +1,275 @@
+/**
+ * Minimal XML Parser
+ *
+ * A small, dependency-free XML reader used for podcast feeds and OPML files.
+ * We can't rely on DOMParser everywhere (it isn't available in the main process
+ * or in unit tests, and some implementations mangle CDATA), so this builds a
+ * simple element tree with namespace-resolved names instead.
+ *
+ * It is intentionally forgiving: unknown entities are left as-is and unclosed
+ * tags are closed at end of input, because real-world feeds are messy.
+ */
+
+export interface XmlElement {
+    /** Qualified name as written in the document, e.g. "itunes:image" */
+    name: string;
+    /** Local name without prefix, e.g. "image" */
+    localName: string;
+    /** Resolved namespace URI ('' when the element is not namespaced) */
+    namespace: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    /** Concatenated text and CDATA content of this element (not descendants) */
+    text: string;
+}
+
+export class XmlParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'XmlParseError';
+    }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+};
+
+/**
+ * Decode XML character and entity references.
+ */
+export function decodeXmlEntities(value: string): string {
+    if (!value.includes('&')) return value;
+
+    return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+        if (entity.startsWith('#x')) {
+            const code = parseInt(entity.slice(2), 16);
+            return Number.isNaN(code) ? match : String.fromCodePoint(code);
+        }
+        if (entity.startsWith('#')) {
+            const code = parseInt(entity.slice(1), 10);
+            return Number.isNaN(code) ? match : String.fromCodePoint(code);
+        }
+        return NAMED_ENTITIES[entity] ?? match;
+    });
+}
+
+/**
+ * Escape a string for use in XML text or attribute values.
+ */
+export function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+interface PendingElement {
+    element: XmlElement;
+    namespaces: Record<string, string>;
+}
+
+function splitName(name: string): { prefix: string; localName: string } {
+    const colon = name.indexOf(':');
+    if (colon === -1) return { prefix: '', localName: name };
+    return { prefix: name.slice(0, colon), localName: name.slice(colon + 1) };
+}
+
+/**
+ * Parse an XML document and return its root element.
+ *
+ * @throws XmlParseError if the input contains no root element
+ */
+export function parseXml(input: string): XmlElement {
+    const stack: PendingElement[] = [];
+    let root: XmlElement | null = null;
+    let pos = 0;
+
+    // Strip BOM
+    if (input.charCodeAt(0) === 0xfeff) pos = 1;
+
+    const appendText = (text: string) => {
+        const parent = stack[stack.length - 1];
+        if (parent) parent.element.text += text;
+    };
+
+    while (pos < input.length) {
+        const lt = input.indexOf('<', pos);
+        if (lt === -1) {
+            appendText(decodeXmlEntities(input.slice(pos)));
+            break;
+        }
+        if (lt > pos) {
+            appendText(decodeXmlEntities(input.slice(pos, lt)));
+        }
+
+        if (input.startsWith('<![CDATA[', lt)) {
+            const end = input.indexOf(']]>', lt + 9);
+            const stop = end === -1 ? input.length : end;
+            appendText(input.slice(lt + 9, stop));
+            pos = end === -1 ? input.length : end + 3;
+            continue;
+        }
+
+        if (input.startsWith('<!--', lt)) {
+            const end = input.indexOf('-->', lt + 4);
+            pos = end === -1 ? input.length : end + 3;
+            continue;
+        }
+
+        if (input.startsWith('<?', lt)) {
+            const end = input.indexOf('?>', lt + 2);
+            pos = end === -1 ? input.length : end + 2;
+            continue;
+        }
+
+        if (input.startsWith('<!', lt)) {
+            // DOCTYPE (may contain an internal subset in brackets)
+            let depth = 0;
+            let i = lt + 2;
+            for (; i < input.length; i++) {
+                const ch = input[i];
+                if (ch === '[') depth++;
+                else if (ch === ']') depth--;
+                else if (ch === '>' && depth <= 0) break;
+            }
+            pos = i + 1;
+            continue;
+        }
+
+        // Find the end of the tag, respecting quoted attribute values
+        let gt = lt + 1;
+        let quote: string | null = null;
+        for (; gt < input.length; gt++) {
+            const ch = input[gt];
+            if (quote) {
+                if (ch === quote) quote = null;
+            } else if (ch === '"' || ch === "'") {
+                quote = ch;
+            } else if (ch === '>') {
+                break;
+            }
+        }
+        const rawTag = input.slice(lt + 1, gt);
+        pos = gt + 1;
+
+        if (rawTag.startsWith('/')) {
+            const closingName = rawTag.slice(1).trim();
+            // Pop until we find the matching element (tolerates unclosed children)
+            for (let i = stack.length - 1; i >= 0; i--) {
+                if (stack[i].element.name === closingName) {
+                    stack.length = i;
+                    break;
+                }
+            }
+            continue;
+        }
+
+        const selfClosing = rawTag.endsWith('/');
+        const body = selfClosing ? rawTag.slice(0, -1) : rawTag;
+        const nameMatch = body.match(/^\s*([^\s/>]+)/);
+        if (!nameMatch) continue;
+
+        const name = nameMatch[1];
+        const attributes: Record<string, string> = {};
+        const parentNamespaces = stack[stack.length - 1]?.namespaces ?? {};
+        const namespaces = { ...parentNamespaces };
+
+        ATTRIBUTE_PATTERN.lastIndex = 0;
+        const attrSource = body.slice(nameMatch[0].length);
+        let attrMatch: RegExpExecArray | null;
+        while ((attrMatch = ATTRIBUTE_PATTERN.exec(attrSource)) !== null) {
+            const attrName = attrMatch[1];
+            const attrValue = decodeXmlEntities(attrMatch[3] ?? attrMatch[4] ?? '');
+            attributes[attrName] = attrValue;
+
+            if (attrName === 'xmlns') {
+                namespaces[''] = attrValue;
+            } else if (attrName.startsWith('xmlns:')) {
+                namespaces[attrName.slice(6)] = attrValue;
+            }
+        }
+
+        const { prefix, localName } = splitName(name);
+        const element: XmlElement = {
+            name,
+            localName,
+            namespace: namespaces[prefix] ?? '',
+            attributes,
+            children: [],
+            text: '',
+        };
+
+        const parent = stack[stack.length - 1];
+        if (parent) {
+            parent.element.children.push(element);
+        } else if (!root) {
+            root = element;
+        }
+
+        if (!selfClosing) {
+            stack.push({ element, namespaces });
+        }
+    }
+
+    if (!root) {
+        throw new XmlParseError('No root element found');
+    }
+
+    return root;
+}
+
+// =========================================================================
+// Query helpers
+// =========================================================================
+
+/**
+ * Returns direct children matching a local name (and optionally a namespace).
+ * Pass `namespace: ''` to only match un-namespaced elements.
+ */
+export function childElements(parent: XmlElement, localName: string, namespace?: string): XmlElement[] {
+    return parent.children.filter(child =>
+        child.localName === localName &&
+        (namespace === undefined || child.namespace === namespace)
+    );
+}
+
+/**
+ * Returns the first direct child matching a local name (and optional namespace).
+ */
+export function childElement(parent: XmlElement, localName: string, namespace?: string): XmlElement | undefined {
+    return parent.children.find(child =>
+        child.localName === localName &&
+        (namespace === undefined || child.namespace === namespace)
+    );
+}
+
+/**
+ * Returns the trimmed text of the first matching child, or '' if missing.
+ */
+export function childText(parent: XmlElement, localName: string, namespace?: string): string {
+    return childElement(parent, localName, namespace)?.text.trim() ?? '';
+}
+
+/**
+ * Depth-first search for all descendants matching a local name.
+ */
+export function findElements(parent: XmlElement, localName: string): XmlElement[] {
+    const results: XmlElement[] = [];
+    const visit = (el: XmlElement) => {
+        for (const child of el.children) {
+            if (child.localName === localName) results.push(child);
+            visit(child);
+        }
+    };
+    visit(parent);
+    return results;
+}
@@ -0,0 +1,260 @@
+/**
+ * Ad-free Export Tests
+ *
+ * Verifies the export plan: which ranges remain after the cuts, how chapters
+ * move onto the shortened timeline, the ffmetadata and ffmpeg arguments, and
+ * the request the renderer builds from an episode.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    buildExportArgs,
+    buildFfmetadata,
+    expectExportRequest,
+    getKeptRanges,
+    mapChapters,
+    parseProgressSeconds,
+    toExportedTime,
+} from '../electron/audioExport';
+import { FileAccessError } from '../electron/fileAccess';
+import {
+    buildExportRequest,
+    getCutSeconds,
+    getExportFilename,
+    getSegmentTypeCounts,
+} from '../src/services/adFreeExport';
+import type { AdSegment, Episode } from '../src/types';
+
+const segment = (type: AdSegment['type'], start: number, end: number): AdSegment => ({
+    startTime: '',
+    endTime: '',
+    startTimeSeconds: start,
+    endTimeSeconds: end,
+    confidence: 90,
+    type,
+    description: '',
+});
+
+const makeEpisode = (overrides: Partial<Episode> = {}): Episode => ({
+    id: 7,
+    title: 'The Episode',
+    feedTitle: 'The Show',
+    description: '<p>Notes &amp; links</p>',
+    datePublished: Date.UTC(2024, 2, 5) / 1000,
+    episode: 12,
+    image: '',
+    feedImage: 'https://example.com/cover.jpg',
+    fileExtension: 'm4a',
+    isDownloaded: true,
+    adSegments: [
+        segment('advertisement', 0, 30),
+        segment('intro/outro', 30, 45),
+        segment('advertisement', 600, 660),
+    ],
+    ...overrides,
+} as Episode);
+
+describe('Ad-free Export', () => {
+    describe('getKeptRanges', () => {
+        it('should keep the parts between the cuts', () => {
+            expect(getKeptRanges(100, [{ start: 10, end: 20 }, { start: 50, end: 60 }])).toEqual([
+                { start: 0, end: 10 },
+                { start: 20, end: 50 },
+                { start: 60, end: 100 },
+            ]);
+        });
+
+        it('should merge overlapping cuts and clamp them to the episode', () => {
+            expect(getKeptRanges(100, [{ start: 40, end: 60 }, { start: -5, end: 10 }, { start: 50, end: 120 }])).toEqual([
+                { start: 10, end: 40 },
+            ]);
+        });
+
+        it('should keep the whole episode without cuts', () => {
+            expect(getKeptRanges(100, [])).toEqual([{ start: 0, end: 100 }]);
+        });
+
+        it('should ignore slivers shorter than half a second', () => {
+            expect(getKeptRanges(100, [{ start: 0.2, end: 50 }, { start: 50.3, end: 100 }])).toEqual([]);
+        });
+    });
+
+    describe('toExportedTime', () => {
+        const kept = [{ start: 0, end: 10 }, { start: 20, end: 50 }];
+
+        it('should subtract the cut time before a position', () => {
+            expect(toExportedTime(5, kept)).toBe(5);
+            expect(toExportedTime(30, kept)).toBe(20);
+            expect(toExportedTime(Infinity, kept)).toBe(40);
+        });
+
+        it('should map a position inside a cut to where the cut was', () => {
+            expect(toExportedTime(15, kept)).toBe(10);
+        });
+    });
+
+    describe('mapChapters', () => {
+        const kept = [{ start: 30, end: 100 }, { start: 160, end: 300 }];
+
+        it('should move chapters onto the exported timeline', () => {
+            const chapters = mapChapters(kept, [
+                { start: 0, title: 'Intro' },
+                { start: 60, title: 'Topic' },
+                { start: 200, title: 'Wrap-up' },
+            ]);
+            expect(chapters).toEqual([
+                { start: 0, end: 30, title: 'Intro' },
+                { start: 30, end: 110, title: 'Topic' },
+                { start: 110, end: 210, title: 'Wrap-up' },
+            ]);
+        });
+
+        it('should drop chapters that were cut out entirely', () => {
+            const chapters = mapChapters(kept, [
+                { start: 0, title: 'Sponsor' },
+                { start: 30, title: 'Show' },
+            ]);
+            expect(chapters).toEqual([{ start: 0, end: 210, title: 'Show' }]);
+        });
+
+        it('should make a chapter per kept part without source chapters', () => {
+            expect(mapChapters(kept, [])).toEqual([
+                { start: 0, end: 70, title: 'Part 1' },
+                { start: 70, end: 210, title: 'Part 2' },
+            ]);
+        });
+    });
+
+    describe('buildFfmetadata', () => {
+        it('should write escaped tags and millisecond chapters', () => {
+            const metadata = buildFfmetadata(
+                { title: 'A=B; #1', artist: 'Show', comment: 'line\nbreak' },
+                [{ start: 0, end: 12.5, title: 'Part 1' }]
+            );
+            expect(metadata).toBe([
+                ';FFMETADATA1',
+                'title=A\\=B\\; \\#1',
+                'artist=Show',
+                'comment=line\\\nbreak',
+                'genre=Podcast',
+                '',
+                '[CHAPTER]',
+                'TIMEBASE=1/1000',
+                'START=0',
+                'END=12500',
+                'title=Part 1',
+                '',
+            ].join('\n'));
+        });
+    });
+
+    describe('buildExportArgs', () => {
+        it('should trim and join the kept ranges into a tagged MP3', () => {
+            const args = buildExportArgs({
+                inputPath: 'in.m4a',
+                metadataPath: 'meta.txt',
+                kept: [{ start: 0, end: 10 }, { start: 20, end: 30.5 }],
+                outputPath: 'out.mp3',
+            });
+            const filter = args[args.indexOf('-filter_complex') + 1];
+            expect(filter).toBe(
+                '[0:a]atrim=start=0.000:end=10.000,asetpts=PTS-STARTPTS[a0];' +
+                '[0:a]atrim=start=20.000:end=30.500,asetpts=PTS-STARTPTS[a1];' +
+                '[a0][a1]concat=n=2:v=0:a=1[out]'
+            );
+            expect(args).toContain('libmp3lame');
+            expect(args).not.toContain('attached_pic');
+            expect(args[args.length - 1]).toBe('out.mp3');
+        });
+
+        it('should attach the cover art when there is one', () => {
+            const args = buildExportArgs({
+                inputPath: 'in.mp3',
+                metadataPath: 'meta.txt',
+                coverPath: 'cover.jpg',
+                kept: [{ start: 0, end: 10 }],
+                outputPath: 'out.mp3',
+            });
+            expect(args.slice(0, 8)).toEqual(['-i', 'in.mp3', '-f', 'ffmetadata', '-i', 'meta.txt', '-i', 'cover.jpg']);
+            expect(args).toContain('attached_pic');
+        });
+    });
+
+    describe('parseProgressSeconds', () => {
+        it('should read the encoded position from progress output', () => {
+            expect(parseProgressSeconds('out_time_us=12500000')).toBe(12.5);
+            expect(parseProgressSeconds('out_time_ms=3000000')).toBe(3);
+            expect(parseProgressSeconds('progress=continue')).toBeNull();
+        });
+    });
+
+    describe('expectExportRequest', () => {
+        const request = buildExportRequest(makeEpisode(), { types: ['advertisement'], includeChapters: true }, 'job-1');
+
+        it('should accept a request built by the renderer', () => {
+            expect(expectExportRequest(request)).toEqual(request);
+        });
+
+        it('should reject unsafe or non-MP3 file names', () => {
+            expect(() => expectExportRequest({ ...request, outputFilename: '../evil.mp3' })).toThrow(FileAccessError);
+            expect(() => expectExportRequest({ ...request, outputFilename: 'copy.wav' })).toThrow(FileAccessError);
+            expect(() => expectExportRequest({ ...request, inputFilename: '/etc/passwd' })).toThrow(FileAccessError);
+        });
+
+        it('should reject malformed cuts and tags', () => {
+            expect(() => expectExportRequest({ ...request, cuts: 'all' })).toThrow(FileAccessError);
+            expect(() => expectExportRequest({ ...request, cuts: [{ start: '0', end: 10 }] })).toThrow(FileAccessError);
+            expect(() => expectExportRequest({ ...request, tags: { title: 42 } })).toThrow(FileAccessError);
+        });
+    });
+
+    describe('renderer helpers', () => {
+        it('should count segment types in order of appearance', () => {
+            expect(getSegmentTypeCounts(makeEpisode().adSegments)).toEqual([
+                { type: 'advertisement', count: 2 },
+                { type: 'intro/outro', count: 1 },
+            ]);
+        });
+
+        it('should only cut the chosen types', () => {
+            const request = buildExportRequest(makeEpisode(), { types: ['advertisement'], includeChapters: false }, 'job-1');
+            expect(request.cuts).toEqual([{ start: 0, end: 30 }, { start: 600, end: 660 }]);
+            expect(request.chapters).toBeNull();
+            expect(request.inputFilename).toBe('7.m4a');
+            expect(request.artworkUrl).toBe('https://example.com/cover.jpg');
+        });
+
+        it('should keep only table-of-contents chapters', () => {
+            const episode = makeEpisode({
+                chapters: [
+                    { startTime: 0, title: 'Ad', toc: false },
+                    { startTime: 45, title: 'Show', toc: true },
+                ],
+            });
+            const request = buildExportRequest(episode, { types: [], includeChapters: true }, 'job-1');
+            expect(request.chapters).toEqual([{ start: 45, title: 'Show' }]);
+            expect(request.cuts).toEqual([]);
+        });
+
+        it('should build ID3 tags from the episode', () => {
+            const { tags } = buildExportRequest(makeEpisode(), { types: [], includeChapters: false }, 'job-1');
+            expect(tags).toEqual({
+                title: 'The Episode',
+                artist: 'The Show',
+                album: 'The Show',
+                date: '2024-03-05',
+                track: '12',
+                comment: 'Notes & links',
+            });
+        });
+
+        it('should make a safe file name', () => {
+            expect(getExportFilename({ id: 1, title: 'Q&A: What/Why?', feedTitle: 'Show' })).toBe('Show - Q&A WhatWhy.mp3');
+            expect(getExportFilename({ id: 1, title: '...', feedTitle: '' })).toBe('Episode 1.mp3');
+        });
+
+        it('should count overlapping cuts once', () => {
+            expect(getCutSeconds([{ start: 0, end: 30 }, { start: 20, end: 40 }, { start: 100, end: 110 }])).toBe(50);
+        });
+    });
+});
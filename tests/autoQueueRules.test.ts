@@ -0,0 +1,116 @@
+/**
+ * Auto-Queue Rules Tests
+ *
+ * Verifies per-podcast filtering of new episodes before they are auto-queued,
+ * and where they land in the queue for each placement.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    DEFAULT_AUTO_QUEUE_RULES,
+    compilePattern,
+    evaluateAutoQueueRules,
+    getQueueInsertIndex,
+    hasActiveFilters,
+    parseSeasonList,
+} from '../src/services/autoQueueRules';
+import type { AutoQueueRules, Episode } from '../src/types';
+
+const createEpisode = (overrides: Partial<Episode>): Episode => ({
+    id: 1,
+    guid: 'guid-1',
+    feedId: 10,
+    title: 'Daily News: Monday',
+    duration: 30 * 60,
+    season: null,
+    ...overrides,
+} as Episode);
+
+const rules = (overrides: Partial<AutoQueueRules>): AutoQueueRules => ({
+    ...DEFAULT_AUTO_QUEUE_RULES,
+    ...overrides,
+});
+
+describe('Auto-Queue Rules', () => {
+    describe('evaluateAutoQueueRules', () => {
+        it('should queue everything without rules', () => {
+            expect(evaluateAutoQueueRules(createEpisode({}), undefined).queue).toBe(true);
+            expect(evaluateAutoQueueRules(createEpisode({}), DEFAULT_AUTO_QUEUE_RULES).queue).toBe(true);
+        });
+
+        it('should require a match for include patterns and none for exclude patterns', () => {
+            const r = rules({ includePatterns: ['daily news'], excludePatterns: ['/\\bbonus\\b/'] });
+            expect(evaluateAutoQueueRules(createEpisode({}), r).queue).toBe(true);
+            expect(evaluateAutoQueueRules(createEpisode({ title: 'Weekend Special' }), r).queue).toBe(false);
+
+            const excluded = evaluateAutoQueueRules(createEpisode({ title: 'Daily News: BONUS round' }), r);
+            expect(excluded.queue).toBe(false);
+            expect(excluded.reason).toContain('exclude');
+        });
+
+        it('should filter by duration but let unknown durations through', () => {
+            const r = rules({ minDurationMinutes: 10, maxDurationMinutes: 60 });
+            expect(evaluateAutoQueueRules(createEpisode({ duration: 5 * 60 }), r).queue).toBe(false);
+            expect(evaluateAutoQueueRules(createEpisode({ duration: 90 * 60 }), r).queue).toBe(false);
+            expect(evaluateAutoQueueRules(createEpisode({ duration: 45 * 60 }), r).queue).toBe(true);
+            expect(evaluateAutoQueueRules(createEpisode({ duration: 0 }), r).queue).toBe(true);
+        });
+
+        it('should filter by episode type, treating missing types as full', () => {
+            const r = rules({ episodeTypes: ['full'] });
+            expect(evaluateAutoQueueRules(createEpisode({ episodeType: 'trailer' }), r).queue).toBe(false);
+            expect(evaluateAutoQueueRules(createEpisode({ episodeType: 'bonus' }), r).queue).toBe(false);
+            expect(evaluateAutoQueueRules(createEpisode({ episodeType: 'full' }), r).queue).toBe(true);
+            expect(evaluateAutoQueueRules(createEpisode({}), r).queue).toBe(true);
+        });
+
+        it('should filter by season when the episode has one', () => {
+            const r = rules({ seasons: [3] });
+            expect(evaluateAutoQueueRules(createEpisode({ season: 2 }), r).queue).toBe(false);
+            expect(evaluateAutoQueueRules(createEpisode({ season: 3 }), r).queue).toBe(true);
+            expect(evaluateAutoQueueRules(createEpisode({ season: null }), r).queue).toBe(true);
+        });
+    });
+
+    describe('getQueueInsertIndex', () => {
+        const queue = [
+            createEpisode({ id: 1, feedId: 10 }),
+            createEpisode({ id: 2, feedId: 20 }),
+            createEpisode({ id: 3, feedId: 10 }),
+            createEpisode({ id: 4, feedId: 30 }),
+        ];
+
+        it('should place at the end or the top', () => {
+            const ep = createEpisode({ id: 99, feedId: 10 });
+            expect(getQueueInsertIndex(queue, ep, 'end')).toBe(4);
+            expect(getQueueInsertIndex(queue, ep, 'top')).toBe(0);
+            expect(getQueueInsertIndex(queue, ep)).toBe(4);
+        });
+
+        it('should place after the last queued episode of the same show', () => {
+            expect(getQueueInsertIndex(queue, createEpisode({ id: 99, feedId: 10 }), 'after-show')).toBe(3);
+            expect(getQueueInsertIndex(queue, createEpisode({ id: 99, feedId: 20 }), 'after-show')).toBe(2);
+            expect(getQueueInsertIndex(queue, createEpisode({ id: 99, feedId: 40 }), 'after-show')).toBe(4);
+        });
+    });
+
+    describe('Helpers', () => {
+        it('should compile plain text as a literal and /.../ as a regex', () => {
+            expect(compilePattern('a+b (c)').test('A+B (C)')).toBe(true);
+            expect(compilePattern('/^ep\\d+/').test('EP12 title')).toBe(true);
+            // Invalid regex falls back to a literal match
+            expect(compilePattern('/[/').test('x /[/ y')).toBe(true);
+        });
+
+        it('should detect whether any filter is active', () => {
+            expect(hasActiveFilters(undefined)).toBe(false);
+            expect(hasActiveFilters(rules({ placement: 'top', includePatterns: ['  '] }))).toBe(false);
+            expect(hasActiveFilters(rules({ seasons: [1] }))).toBe(true);
+        });
+
+        it('should parse season lists', () => {
+            expect(parseSeasonList('1, 3 5,x')).toEqual([1, 3, 5]);
+            expect(parseSeasonList('')).toEqual([]);
+        });
+    });
+});
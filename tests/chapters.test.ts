@@ -0,0 +1,126 @@
+/**
+ * Chapters Service Tests
+ *
+ * Verifies Podcasting 2.0 JSON chapter parsing, chapter navigation helpers,
+ * and the skippable-segment candidates derived from chapters.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    parseChapters,
+    getChapterIndexAt,
+    getNextChapterStart,
+    getPreviousChapterStart,
+    getChapterSkipCandidates,
+    hasMatchingSegment,
+    ChaptersParseError,
+} from '../src/services/chapters';
+import type { Chapter } from '../src/types';
+
+const CHAPTERS_JSON = JSON.stringify({
+    version: '1.2.0',
+    chapters: [
+        { startTime: 600, title: 'Main Topic', img: 'https://example.com/topic.jpg' },
+        { startTime: 0, title: 'Intro' },
+        { startTime: 300, endTime: 360, title: 'Sponsor: Acme Widgets' },
+        { startTime: 360, title: 'Hidden marker', toc: false },
+        { startTime: 'bogus', title: 'Broken' },
+    ],
+});
+
+describe('Chapters Service', () => {
+    describe('parseChapters', () => {
+        const chapters = parseChapters(CHAPTERS_JSON);
+
+        it('should sort chapters and drop entries without a valid start time', () => {
+            expect(chapters.map(c => c.title)).toEqual(['Intro', 'Sponsor: Acme Widgets', 'Hidden marker', 'Main Topic']);
+        });
+
+        it('should fill missing end times from the next chapter', () => {
+            expect(chapters[0].endTime).toBe(300);
+            expect(chapters[1].endTime).toBe(360);
+            expect(chapters[2].endTime).toBe(600);
+            expect(chapters[3].endTime).toBeUndefined();
+        });
+
+        it('should default toc to true and keep optional fields', () => {
+            expect(chapters[0].toc).toBe(true);
+            expect(chapters[2].toc).toBe(false);
+            expect(chapters[3].img).toBe('https://example.com/topic.jpg');
+        });
+
+        it('should reject invalid documents', () => {
+            expect(() => parseChapters('not json')).toThrow(ChaptersParseError);
+            expect(() => parseChapters('{"version":"1.2.0"}')).toThrow(ChaptersParseError);
+        });
+    });
+
+    describe('navigation', () => {
+        const chapters: Chapter[] = [
+            { startTime: 0, endTime: 100, title: 'A', toc: true },
+            { startTime: 100, endTime: 150, title: 'Hidden', toc: false },
+            { startTime: 150, endTime: 300, title: 'B', toc: true },
+            { startTime: 300, title: 'C', toc: true },
+        ];
+
+        it('should find the chapter playing at a given time', () => {
+            expect(getChapterIndexAt(chapters, 0)).toBe(0);
+            expect(getChapterIndexAt(chapters, 120)).toBe(1);
+            expect(getChapterIndexAt(chapters, 1000)).toBe(3);
+            expect(getChapterIndexAt([{ startTime: 10, title: 'Late', toc: true }], 5)).toBe(-1);
+        });
+
+        it('should skip hidden chapters when jumping to the next chapter', () => {
+            expect(getNextChapterStart(chapters, 50)).toBe(150);
+            expect(getNextChapterStart(chapters, 150)).toBe(300);
+            expect(getNextChapterStart(chapters, 310)).toBeNull();
+        });
+
+        it('should restart the current chapter unless near its start', () => {
+            expect(getPreviousChapterStart(chapters, 200)).toBe(150);
+            expect(getPreviousChapterStart(chapters, 151)).toBe(0);
+            expect(getPreviousChapterStart(chapters, 1)).toBe(0);
+        });
+    });
+
+    describe('getChapterSkipCandidates', () => {
+        const chapters = parseChapters(CHAPTERS_JSON);
+        const candidates = getChapterSkipCandidates(chapters, 3600);
+
+        it('should offer sponsor-like and hidden chapters', () => {
+            expect(candidates).toHaveLength(2);
+
+            expect(candidates[0]).toMatchObject({
+                startTimeSeconds: 300,
+                endTimeSeconds: 360,
+                startTime: '05:00',
+                endTime: '06:00',
+                type: 'advertisement',
+                description: 'Chapter: Sponsor: Acme Widgets',
+            });
+
+            expect(candidates[1]).toMatchObject({
+                startTimeSeconds: 360,
+                endTimeSeconds: 600,
+                type: 'chapter',
+            });
+        });
+
+        it('should not flag ordinary chapters', () => {
+            expect(candidates.find(c => c.description.includes('Main Topic'))).toBeUndefined();
+            expect(candidates.find(c => c.description.includes('Intro'))).toBeUndefined();
+        });
+
+        it('should use the episode duration for a trailing chapter', () => {
+            const trailing = getChapterSkipCandidates([{ startTime: 3000, title: 'Ad break', toc: true }], 3600);
+            expect(trailing[0].endTimeSeconds).toBe(3600);
+            expect(trailing[0].endTime).toBe('1:00:00');
+        });
+
+        it('should detect segments that were already accepted', () => {
+            expect(hasMatchingSegment([{ ...candidates[0], startTimeSeconds: 300.4 }], candidates[0])).toBe(true);
+            expect(hasMatchingSegment(undefined, candidates[0])).toBe(false);
+            expect(hasMatchingSegment([candidates[1]], candidates[0])).toBe(false);
+        });
+    });
+});
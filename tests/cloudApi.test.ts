@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // =============================================================================
 // CLOUD API TESTS
@@ -19,13 +19,33 @@ import {
     uploadEpisodeToCloud,
     getCloudJobStatus,
     getCloudJobResults,
-    waitForCloudJobCompletion
+    waitForCloudJobCompletion,
+    detectSegmentsFromTranscript
 } from '../src/services/cloudApi';
 import { getAccessToken } from '../src/services/supabaseClient';
+import { createLocalCloudJobs, type LocalCloudJobs } from './helpers/localCloudJobs';
+import { installFetchBackedXhr } from './helpers/fetchXhr';
+
+installFetchBackedXhr();
+
+// Lets retry delays pass while a request runs
+async function withTimers<T>(request: Promise<T>): Promise<T> {
+    vi.useFakeTimers();
+    try {
+        const settled = request.then(() => undefined, () => undefined);
+        await vi.runAllTimersAsync();
+        await settled;
+        return await request;
+    } finally {
+        vi.useRealTimers();
+    }
+}
 
 describe('Cloud API Service', () => {
     beforeEach(() => {
         vi.clearAllMocks();
+        mockFetch.mockReset();
+        vi.unstubAllEnvs();
         // Default: user is authenticated
         vi.mocked(getAccessToken).mockResolvedValue('mock-access-token');
     });
@@ -83,7 +103,7 @@ describe('Cloud API Service', () => {
         });
 
         it('should throw on upload failure', async () => {
-            mockFetch.mockResolvedValueOnce({
+            mockFetch.mockResolvedValue({
                 ok: false,
                 status: 500,
                 json: () => Promise.resolve({ error: 'Server error' })
@@ -93,9 +113,77 @@ describe('Cloud API Service', () => {
             const metadata = { feedId: 1, guid: 'test-guid' };
 
             await expect(
-                uploadEpisodeToCloud(fileBuffer, 'test.mp3', metadata)
+                withTimers(uploadEpisodeToCloud(fileBuffer, 'test.mp3', metadata))
             ).rejects.toThrow('Server error');
         });
+
+        it('should retry the upload after server and network errors', async () => {
+            mockFetch
+                .mockResolvedValueOnce({ ok: false, status: 503, json: () => Promise.resolve({ error: 'Service unavailable' }) })
+                .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+                .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ jobId: 'test-job-id' }) });
+
+            const jobId = await withTimers(uploadEpisodeToCloud(new ArrayBuffer(100), 'test.mp3', { feedId: 1, guid: 'test-guid' }));
+
+            expect(jobId).toBe('test-job-id');
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+        });
+
+        it('should not retry a rejected upload, and report the status for non-JSON errors', async () => {
+            mockFetch.mockResolvedValueOnce({ ok: false, status: 413, json: () => Promise.reject(new SyntaxError('Unexpected token <')) });
+
+            await expect(
+                uploadEpisodeToCloud(new ArrayBuffer(100), 'test.mp3', { feedId: 1, guid: 'test-guid' })
+            ).rejects.toThrow('Upload failed: 413');
+            expect(mockFetch).toHaveBeenCalledOnce();
+        });
+
+        it('should report bytes as they are sent', async () => {
+            mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ jobId: 'test-job-id' }) });
+            const onProgress = vi.fn();
+
+            await uploadEpisodeToCloud(new ArrayBuffer(1000), 'test.mp3', { feedId: 1, guid: 'test-guid' }, 'audio/mpeg', { onProgress });
+
+            const uploaded = onProgress.mock.calls.map(([status]) => status.uploadedBytes);
+            expect(uploaded.length).toBeGreaterThan(1);
+            expect(uploaded[0]).toBeGreaterThan(0);
+            expect(uploaded[0]).toBeLessThan(1000);
+            expect(uploaded.at(-1)).toBe(1000);
+            expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'uploading', totalBytes: 1000 }));
+        });
+
+        it('should upload in chunks when chunked uploads are enabled', async () => {
+            vi.stubEnv('VITE_CHUNKED_UPLOADS', 'true');
+            mockFetch
+                .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ jobId: 'test-job-id' }) })
+                .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ uploadedBytes: 100 }) })
+                .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ jobId: 'test-job-id' }) });
+
+            const fileBuffer = new ArrayBuffer(100);
+            const metadata = { feedId: 1, guid: 'test-guid', title: 'Test Episode' };
+
+            const jobId = await uploadEpisodeToCloud(fileBuffer, 'test.mp3', metadata);
+
+            expect(jobId).toBe('test-job-id');
+            expect(mockFetch).toHaveBeenNthCalledWith(1,
+                expect.stringContaining(CLOUD_CONFIG.ENDPOINTS.UPLOAD_EPISODE),
+                expect.objectContaining({
+                    method: 'POST',
+                    headers: expect.objectContaining({
+                        'Authorization': 'Bearer mock-access-token'
+                    }),
+                    body: expect.stringContaining('"totalBytes":100')
+                })
+            );
+            expect(mockFetch).toHaveBeenNthCalledWith(2,
+                expect.stringContaining(`${CLOUD_CONFIG.ENDPOINTS.UPLOAD_CHUNK}?jobId=test-job-id&offset=0`),
+                expect.objectContaining({ method: 'PUT' })
+            );
+            expect(mockFetch).toHaveBeenNthCalledWith(3,
+                expect.stringContaining(`${CLOUD_CONFIG.ENDPOINTS.COMPLETE_UPLOAD}?jobId=test-job-id`),
+                expect.objectContaining({ method: 'POST' })
+            );
+        });
     });
 
     describe('getCloudJobStatus', () => {
@@ -220,4 +308,125 @@ describe('Cloud API Service', () => {
             ).rejects.toThrow('Transcription failed');
         });
     });
+
+    describe('detectSegmentsFromTranscript', () => {
+        it('should send transcript text as JSON without audio', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                json: () => Promise.resolve({
+                    detectedSegments: [{
+                        startTime: '01:00',
+                        endTime: '02:00',
+                        startTimeSeconds: 60,
+                        endTimeSeconds: 120,
+                        confidence: 95,
+                        type: 'advertisement',
+                        description: 'Sponsor read'
+                    }],
+                    detectionMethod: 'advanced'
+                })
+            });
+
+            const metadata = { feedId: 1, guid: 'test-guid', title: 'Test Episode' };
+            const results = await detectSegmentsFromTranscript('[0:00] Hello world', metadata);
+
+            expect(results.detectedSegments).toHaveLength(1);
+            expect(results.detectionMethod).toBe('advanced');
+
+            const [url, init] = mockFetch.mock.calls[0];
+            expect(url).toContain(CLOUD_CONFIG.ENDPOINTS.DETECT_SEGMENTS);
+            expect(init.method).toBe('POST');
+            expect(init.headers['Content-Type']).toBe('application/json');
+            expect(JSON.parse(init.body)).toEqual({ metadata, transcript: '[0:00] Hello world' });
+        });
+
+        it('should throw on detection failure', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: false,
+                status: 502,
+                json: () => Promise.resolve({ error: 'Detection unavailable' })
+            });
+
+            await expect(
+                detectSegmentsFromTranscript('text', { feedId: 1, guid: 'g' })
+            ).rejects.toThrow('Detection unavailable');
+        });
+    });
+
+    describe('chunked uploads', () => {
+        const chunk = CLOUD_CONFIG.UPLOAD_CHUNK_BYTES;
+        const metadata = { feedId: 1, guid: 'test-guid', durationSeconds: 600 };
+        let backend: LocalCloudJobs;
+
+        beforeEach(() => {
+            vi.useFakeTimers();
+            vi.stubEnv('VITE_CHUNKED_UPLOADS', 'true');
+            backend = createLocalCloudJobs();
+            mockFetch.mockImplementation(backend.fetch);
+        });
+
+        afterEach(() => {
+            mockFetch.mockReset();
+            vi.unstubAllEnvs();
+            vi.useRealTimers();
+        });
+
+        // Runs an upload while letting retry delays pass
+        async function upload(size: number, onProgress?: Parameters<typeof uploadEpisodeToCloud>[4]['onProgress']) {
+            const uploading = uploadEpisodeToCloud(new ArrayBuffer(size), 'test.mp3', metadata, 'audio/mpeg', { onProgress });
+            const settled = uploading.then(() => undefined, () => undefined);
+            await vi.runAllTimersAsync();
+            await settled;
+            return uploading;
+        }
+
+        it('should send the file in chunks and report byte progress', async () => {
+            const onProgress = vi.fn();
+            const jobId = await upload(chunk * 2 + 10, onProgress);
+
+            expect(backend.chunks).toBe(3);
+            expect(backend.jobs.get(jobId)).toMatchObject({ status: 'pending', uploadedBytes: chunk * 2 + 10 });
+            expect(onProgress.mock.calls.map(([status]) => status.uploadedBytes)).toEqual([0, chunk, chunk * 2, chunk * 2 + 10]);
+            expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'uploading', progress: 100, totalBytes: chunk * 2 + 10 }));
+        });
+
+        it('should retry a failed chunk from where the server got to', async () => {
+            backend.failNextChunks({ keepBytes: 1000 }, { network: true });
+
+            const jobId = await upload(chunk + 10);
+
+            expect(backend.jobs.get(jobId)).toMatchObject({ status: 'pending', uploadedBytes: chunk + 10 });
+            // Two failures, then the rest of the file from byte 1000 in one chunk
+            expect(backend.chunks).toBe(3);
+            expect(mockFetch).toHaveBeenLastCalledWith(expect.stringContaining(CLOUD_CONFIG.ENDPOINTS.COMPLETE_UPLOAD), expect.anything());
+            expect(mockFetch.mock.calls.filter(([url]) => url.includes('offset=1000'))).toHaveLength(2);
+        });
+
+        it('should give up on a chunk after the retries run out', async () => {
+            backend.failNextChunks(...Array(CLOUD_CONFIG.UPLOAD_MAX_RETRIES + 1).fill({}));
+
+            await expect(upload(100)).rejects.toThrow('Service unavailable');
+            expect(backend.chunks).toBe(CLOUD_CONFIG.UPLOAD_MAX_RETRIES + 1);
+        });
+
+        it('should report the job before sending any audio', async () => {
+            const onJobCreated = vi.fn(() => expect(backend.chunks).toBe(0));
+
+            const jobId = await uploadEpisodeToCloud(new ArrayBuffer(100), 'test.mp3', metadata, 'audio/mpeg', { onJobCreated });
+
+            expect(onJobCreated).toHaveBeenCalledWith(jobId);
+        });
+
+        it('should upload the whole file at once when chunked uploads are off', async () => {
+            vi.stubEnv('VITE_CHUNKED_UPLOADS', 'false');
+            const onJobCreated = vi.fn();
+
+            const jobId = await uploadEpisodeToCloud(new ArrayBuffer(chunk + 10), 'test.mp3', metadata, 'audio/mpeg', { onJobCreated });
+
+            expect(backend.uploads).toBe(1);
+            expect(backend.chunks).toBe(0);
+            expect(backend.jobs.get(jobId)).toMatchObject({ status: 'pending', durationSeconds: 600, totalBytes: chunk + 10 });
+            expect(onJobCreated).toHaveBeenCalledWith(jobId);
+        });
+    });
 });
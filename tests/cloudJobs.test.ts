@@ -0,0 +1,200 @@
+/**
+ * Cloud Job Tests
+ *
+ * Verifies that cloud processing jobs survive a restart: the job ID is saved
+ * while the job runs, a saved job is polled again instead of re-uploading,
+ * failed jobs are uploaded again, cancelling stops and forgets the job, and
+ * the startup plan for saved jobs and stale "processing" or queued episodes,
+ * and the store picking saved jobs up again. Runs the
+ * real cloud API against the local stand-in for the job endpoints.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { CloudJobRecord, Episode } from '../src/types';
+
+const mockElectronAPI = {
+    readFile: vi.fn(async () => new ArrayBuffer(100)),
+    deleteFile: vi.fn(),
+};
+
+global.window = { electronAPI: mockElectronAPI } as unknown as Window & typeof globalThis;
+
+vi.mock('../src/services/supabaseClient', () => ({
+    getAccessToken: vi.fn(async () => 'mock-access-token')
+}));
+
+// In-memory db with just what the pipeline touches
+const savedJobs: Record<number, CloudJobRecord> = {};
+vi.mock('../src/services/db', () => ({
+    db: {
+        getPreferences: vi.fn(async () => ({ transcriptionMode: 'cloud' })),
+        getCloudJobs: vi.fn(async () => ({ ...savedJobs })),
+        saveCloudJob: vi.fn(async (job: CloudJobRecord) => { savedJobs[job.episodeId] = job; }),
+        removeCloudJob: vi.fn(async (episodeId: number) => { delete savedJobs[episodeId]; }),
+        saveEpisode: vi.fn(),
+        saveEpisodes: vi.fn(),
+        saveTranscript: vi.fn()
+    }
+}));
+
+import { cancelTranscription, processEpisode } from '../src/services/transcription';
+import { MAX_CLOUD_JOB_AGE_MS, planTranscriptionRecovery, trackCloudJob } from '../src/services/cloudJobs';
+import { createLocalCloudJobs, type LocalCloudJobs } from './helpers/localCloudJobs';
+import { installFetchBackedXhr } from './helpers/fetchXhr';
+import { TranscriptionCancelledError } from '../src/services/processingProviders';
+import { usePodcastStore } from '../src/store/usePodcastStore';
+
+const episode = {
+    id: 42,
+    feedId: 1,
+    guid: 'episode-42',
+    title: 'Test Episode',
+    duration: 600,
+    localFilePath: '/path/to/42.mp3',
+    isDownloaded: true
+} as Episode;
+
+let backend: LocalCloudJobs;
+
+installFetchBackedXhr();
+
+describe('Cloud Jobs', () => {
+    beforeEach(() => {
+        for (const id of Object.keys(savedJobs)) delete savedJobs[Number(id)];
+        backend = createLocalCloudJobs({ pollsToComplete: 1 });
+        global.fetch = backend.fetch;
+    });
+
+    describe('Tracking', () => {
+        it('should save the job while it runs and forget it when done', async () => {
+            let trackedWhilePolling: CloudJobRecord | undefined;
+            const result = await processEpisode(episode, {
+                onProgress: () => { trackedWhilePolling ??= savedJobs[episode.id]; }
+            });
+
+            expect(trackedWhilePolling?.jobId).toBe('local-job-1');
+            expect(savedJobs[episode.id]).toBeUndefined();
+            expect(backend.uploads).toBe(1);
+            expect(result.transcript.source).toBe('cloud');
+            expect(result.adSegments).toHaveLength(1);
+        });
+
+        it('should resume a saved job instead of uploading again', async () => {
+            const jobId = backend.createJob(600);
+            await trackCloudJob(episode.id, jobId);
+
+            const result = await processEpisode(episode);
+
+            expect(backend.uploads).toBe(0);
+            expect(backend.jobs.get(jobId)?.status).toBe('completed');
+            expect(result.transcript.episodeId).toBe(episode.id);
+            expect(savedJobs[episode.id]).toBeUndefined();
+        });
+
+        it('should resume a saved job ahead of the publisher transcript', async () => {
+            await trackCloudJob(episode.id, backend.createJob(600));
+
+            await processEpisode({ ...episode, transcriptLinks: [{ url: 'https://example.com/t.vtt', type: 'text/vtt' }] });
+
+            expect(backend.uploads).toBe(0);
+        });
+
+        it('should upload again when the saved job failed on the server', async () => {
+            const jobId = backend.createJob(600);
+            backend.failJob(jobId, 'Transcription failed');
+            await trackCloudJob(episode.id, jobId);
+
+            await processEpisode(episode);
+
+            expect(backend.uploads).toBe(1);
+            expect(savedJobs[episode.id]).toBeUndefined();
+        });
+
+        it('should upload again when the server no longer knows the job', async () => {
+            await trackCloudJob(episode.id, 'forgotten-job');
+
+            await processEpisode(episode);
+
+            expect(backend.uploads).toBe(1);
+        });
+
+        it('should keep the job when the server is unreachable', async () => {
+            const jobId = backend.createJob(600);
+            await trackCloudJob(episode.id, jobId);
+            global.fetch = vi.fn(async () => { throw new TypeError('Failed to fetch'); });
+
+            await expect(processEpisode(episode)).rejects.toThrow('Failed to fetch');
+
+            expect(savedJobs[episode.id]?.jobId).toBe(jobId);
+        });
+    });
+
+    describe('Cancelling', () => {
+        it('should stop polling, cancel the job on the server and forget it', async () => {
+            vi.useFakeTimers();
+            try {
+                backend = createLocalCloudJobs({ pollsToComplete: 10 });
+                global.fetch = backend.fetch;
+
+                const processing = processEpisode(episode, {
+                    onProgress: ({ stage }) => {
+                        if (stage === 'Transcribing') void cancelTranscription(episode.id);
+                    }
+                });
+                const rejected = expect(processing).rejects.toBeInstanceOf(TranscriptionCancelledError);
+                await vi.advanceTimersByTimeAsync(10_000);
+                await rejected;
+
+                expect(backend.jobs.get('local-job-1')?.status).toBe('cancelled');
+                expect(savedJobs[episode.id]).toBeUndefined();
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+    });
+
+    describe('resumeTranscriptions', () => {
+        it('should pick up a saved job for an episode left at processing', async () => {
+            const jobId = backend.createJob(600);
+            await trackCloudJob(episode.id, jobId);
+            usePodcastStore.setState({
+                episodes: { [episode.id]: { ...episode, transcriptionStatus: 'processing' } },
+                transcriptionJobs: {},
+            });
+
+            await usePodcastStore.getState().resumeTranscriptions();
+            await vi.waitFor(() => expect(usePodcastStore.getState().episodes[episode.id].transcriptionStatus).toBe('completed'));
+
+            expect(backend.uploads).toBe(0);
+            expect(backend.jobs.get(jobId)?.status).toBe('completed');
+            expect(usePodcastStore.getState().transcriptionJobs).toEqual({});
+            expect(savedJobs[episode.id]).toBeUndefined();
+        });
+    });
+
+    describe('planTranscriptionRecovery', () => {
+        const now = 1_000_000_000;
+        const job = (episodeId: number, age = 0): CloudJobRecord => ({ episodeId, jobId: `job-${episodeId}`, startedAt: now - age });
+        const processing = (id: number) => ({ ...episode, id, transcriptionStatus: 'processing' as const });
+
+        it('should resume saved jobs and clear processing episodes without one', () => {
+            const episodes = { 1: processing(1), 2: processing(2), 3: { ...episode, id: 3 } };
+            const jobs = { 1: job(1), 3: job(3) };
+
+            expect(planTranscriptionRecovery(episodes, jobs, now)).toEqual({ resume: [1, 3], stale: [2], expired: [] });
+        });
+
+        it('should drop jobs that are too old or whose episode is gone', () => {
+            const episodes = { 1: processing(1) };
+            const jobs = { 1: job(1, MAX_CLOUD_JOB_AGE_MS + 1), 9: job(9) };
+
+            expect(planTranscriptionRecovery(episodes, jobs, now)).toEqual({ resume: [], stale: [1], expired: [1, 9] });
+        });
+
+        it('should clear episodes left waiting in the transcription queue', () => {
+            const episodes = { 1: { ...episode, id: 1, transcriptionStatus: 'pending' as const } };
+
+            expect(planTranscriptionRecovery(episodes, {}, now)).toEqual({ resume: [], stale: [1], expired: [] });
+        });
+    });
+});
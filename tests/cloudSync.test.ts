@@ -29,6 +29,9 @@ import {
     fetchSubscriptions,
     pushSubscription,
     deleteSubscription,
+    updateSubscriptionSettings,
+    applySubscriptionSettings,
+    migrateFeedUrl,
     fetchEpisodeStates,
     upsertEpisodeState,
     fetchQueue,
@@ -37,6 +40,7 @@ import {
     upsertPlayerState,
     isCloudSyncAvailable,
 } from '../src/services/cloudSync';
+import type { Podcast } from '../src/types';
 
 const mockGetSession = vi.mocked(getSession);
 
@@ -160,6 +164,84 @@ describe('cloudSync service', () => {
         });
     });
 
+    describe('updateSubscriptionSettings', () => {
+        it('patches auto-queue settings by feed URL', async () => {
+            mockFetch.mockResolvedValue({
+                ok: true,
+                status: 204,
+                headers: new Headers(),
+            });
+
+            const settings = {
+                auto_add_to_queue: true,
+                auto_queue_rules: { includePatterns: [], excludePatterns: ['trailer'], placement: 'top' as const },
+            };
+            await updateSubscriptionSettings('https://example.com/rss', settings);
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                expect.stringContaining('feed_url=eq.https%3A%2F%2Fexample.com%2Frss'),
+                expect.objectContaining({
+                    method: 'PATCH',
+                    body: JSON.stringify(settings),
+                })
+            );
+        });
+    });
+
+    describe('migrateFeedUrl', () => {
+        const okResponse = { ok: true, status: 204, headers: new Headers() };
+
+        it('moves the subscription and episode states to the new URL', async () => {
+            mockFetch.mockResolvedValue(okResponse);
+
+            await migrateFeedUrl('https://old.example.com/rss', 'https://new.example.com/rss');
+
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+            const [[subUrl, subInit], [stateUrl, stateInit]] = mockFetch.mock.calls;
+            expect(subUrl).toContain('/subscriptions?feed_url=eq.https%3A%2F%2Fold.example.com%2Frss');
+            expect(subInit).toMatchObject({ method: 'PATCH', body: JSON.stringify({ feed_url: 'https://new.example.com/rss' }) });
+            expect(stateUrl).toContain('/user_episode_state?feed_url=eq.https%3A%2F%2Fold.example.com%2Frss');
+            expect(stateInit).toMatchObject({ method: 'PATCH' });
+        });
+
+        it('drops the old subscription when the new URL is already subscribed', async () => {
+            mockFetch
+                .mockResolvedValueOnce({ ok: false, status: 409, text: () => Promise.resolve('duplicate key') })
+                .mockResolvedValue(okResponse);
+
+            await migrateFeedUrl('https://old.example.com/rss', 'https://new.example.com/rss');
+
+            expect(mockFetch.mock.calls[1][1]).toMatchObject({ method: 'DELETE' });
+            expect(mockFetch.mock.calls[2][0]).toContain('/user_episode_state');
+        });
+    });
+
+    describe('applySubscriptionSettings', () => {
+        const podcast = { id: 1, url: 'https://example.com/rss', autoAddToQueue: true } as Podcast;
+        const cloudSub = {
+            id: 1,
+            user_id: 'user-123',
+            feed_url: 'https://example.com/rss',
+            title: 'Test Podcast',
+            image_url: '',
+            created_at: '2024-01-01T00:00:00Z',
+            test_data: false,
+            auto_add_to_queue: null,
+            auto_queue_rules: null,
+        };
+
+        it('keeps local settings for rows without synced settings', () => {
+            expect(applySubscriptionSettings(podcast, cloudSub)).toEqual(podcast);
+        });
+
+        it('applies synced settings', () => {
+            const rules = { includePatterns: ['news'], excludePatterns: [], placement: 'after-show' as const };
+            const result = applySubscriptionSettings(podcast, { ...cloudSub, auto_add_to_queue: false, auto_queue_rules: rules });
+            expect(result.autoAddToQueue).toBe(false);
+            expect(result.autoQueueRules).toEqual(rules);
+        });
+    });
+
     describe('fetchEpisodeStates', () => {
         it('fetches episode states successfully', async () => {
             const mockStates = [
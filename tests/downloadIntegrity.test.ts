@@ -0,0 +1,115 @@
+/**
+ * Download Integrity Tests
+ *
+ * Verifies file inspection (size, hash, decodability) against real files in
+ * a temporary directory, and how inspections are judged against what was
+ * recorded at download and what the feed advertises.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { inspectMediaFile } from '../electron/fileIntegrity';
+import { checkEpisodeFile } from '../src/services/downloadIntegrity';
+import type { FileInspection } from '../src/types/electron';
+
+// One second of 8 kHz mono 8-bit PCM
+const createWav = (seconds = 1): Buffer => {
+    const data = Buffer.alloc(8000 * seconds, 128);
+    const header = Buffer.alloc(44);
+    header.write('RIFF', 0);
+    header.writeUInt32LE(36 + data.length, 4);
+    header.write('WAVE', 8);
+    header.write('fmt ', 12);
+    header.writeUInt32LE(16, 16);
+    header.writeUInt16LE(1, 20); // PCM
+    header.writeUInt16LE(1, 22); // mono
+    header.writeUInt32LE(8000, 24); // sample rate
+    header.writeUInt32LE(8000, 28); // byte rate
+    header.writeUInt16LE(1, 32); // block align
+    header.writeUInt16LE(8, 34); // bits per sample
+    header.write('data', 36);
+    header.writeUInt32LE(data.length, 40);
+    return Buffer.concat([header, data]);
+};
+
+const inspection = (overrides: Partial<FileInspection> = {}): FileInspection => ({
+    exists: true,
+    size: 1000,
+    sha256: 'abc',
+    duration: 60,
+    ...overrides,
+});
+
+const advertised = { enclosureLength: 0, duration: 0 };
+
+describe('Download Integrity', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'integrity-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    describe('inspectMediaFile', () => {
+        it('should report size, hash and duration of a decodable file', async () => {
+            const wav = createWav();
+            const filePath = path.join(dir, '1.wav');
+            fs.writeFileSync(filePath, wav);
+
+            const result = await inspectMediaFile(filePath);
+
+            expect(result.exists).toBe(true);
+            expect(result.size).toBe(wav.length);
+            expect(result.sha256).toBe(crypto.createHash('sha256').update(wav).digest('hex'));
+            expect(result.duration).toBeCloseTo(1, 1);
+        });
+
+        it('should flag files that do not decode', async () => {
+            const filePath = path.join(dir, '2.mp3');
+            fs.writeFileSync(filePath, '<html><body>Not Found</body></html>');
+
+            const result = await inspectMediaFile(filePath, { hash: false });
+
+            expect(result.duration).toBeNull();
+            expect(result.sha256).toBeNull();
+            expect(result.error).toBeTruthy();
+        });
+
+        it('should report missing files', async () => {
+            expect(await inspectMediaFile(path.join(dir, 'nope.mp3'))).toMatchObject({ exists: false, size: 0 });
+        });
+    });
+
+    describe('checkEpisodeFile', () => {
+        it('should accept an intact file', () => {
+            expect(checkEpisodeFile(inspection(), { ...advertised, fileSize: 1000, contentHash: 'abc' })).toEqual({ ok: true });
+        });
+
+        it('should compare against the recorded size and hash', () => {
+            expect(checkEpisodeFile(inspection({ size: 400 }), { ...advertised, fileSize: 1000 }).problem).toBe('truncated');
+            expect(checkEpisodeFile(inspection({ size: 1200 }), { ...advertised, fileSize: 1000 }).problem).toBe('modified');
+            expect(checkEpisodeFile(inspection({ sha256: 'def' }), { ...advertised, fileSize: 1000, contentHash: 'abc' }).problem).toBe('modified');
+        });
+
+        it('should reject missing, empty and undecodable files', () => {
+            expect(checkEpisodeFile(inspection({ exists: false }), advertised).problem).toBe('missing');
+            expect(checkEpisodeFile(inspection({ size: 0 }), advertised).problem).toBe('empty');
+            expect(checkEpisodeFile(inspection({ duration: null, error: 'bad header' }), advertised))
+                .toEqual({ ok: false, problem: 'undecodable', message: 'bad header' });
+        });
+
+        it('should only call a file truncated when it is well short of the feed', () => {
+            expect(checkEpisodeFile(inspection({ size: 1000 }), { enclosureLength: 1100, duration: 0 }).ok).toBe(true);
+            expect(checkEpisodeFile(inspection({ size: 1000 }), { enclosureLength: 5000, duration: 0 }).problem).toBe('truncated');
+            expect(checkEpisodeFile(inspection({ duration: 60 }), { enclosureLength: 0, duration: 3600 }).problem).toBe('truncated');
+            // e.g. the audio track kept from a video enclosure
+            expect(checkEpisodeFile(inspection({ size: 1000 }), { enclosureLength: 50000, duration: 0, fileSize: 1000 }).ok).toBe(true);
+        });
+    });
+});
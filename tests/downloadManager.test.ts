@@ -0,0 +1,309 @@
+/**
+ * Download Manager Tests
+ *
+ * Verifies scheduling by priority under a concurrency cap, resume of partial
+ * files with HTTP Range requests, retries and cancellation, holding and
+ * capping automatic downloads, against a fake fetch and a temporary directory.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+    BandwidthLimiter,
+    DownloadManager,
+    parseContentRange,
+    pickNextDownload,
+    type DownloadProgress,
+} from '../electron/downloadManager';
+import {
+    applyDownloadProgress,
+    canStartManualDownload,
+    createEpisodeDownload,
+    formatDownloadStatus,
+    getDownloadPercent,
+    getDownloadPriority,
+    isActiveDownload,
+    DOWNLOAD_PRIORITY,
+} from '../src/services/downloads';
+import type { Episode } from '../src/types';
+
+type FetchCall = { url: string; headers: Record<string, string> };
+
+let dir: string;
+
+const createManager = (
+    fetch: (url: string, init: RequestInit) => Promise<Response>,
+    events: DownloadProgress[] = [],
+    concurrency = 2
+) => new DownloadManager({
+    directory: dir,
+    fetch,
+    onProgress: progress => events.push(progress),
+    concurrency,
+    retryDelayMs: 0,
+    progressIntervalMs: 0,
+});
+
+const recordCall = (calls: FetchCall[], url: string, init: RequestInit) => {
+    calls.push({ url, headers: { ...(init.headers as Record<string, string>) } });
+};
+
+describe('Download Manager', () => {
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'downloads-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    describe('Helpers', () => {
+        it('should pick the highest priority, then the oldest', () => {
+            const jobs = [
+                { id: 'a', progress: { priority: 1 }, enqueuedAt: 1 },
+                { id: 'b', progress: { priority: 5 }, enqueuedAt: 3 },
+                { id: 'c', progress: { priority: 5 }, enqueuedAt: 2 },
+            ];
+            expect(pickNextDownload(jobs)?.id).toBe('c');
+            expect(pickNextDownload([])).toBeUndefined();
+        });
+
+        it('should parse Content-Range headers', () => {
+            expect(parseContentRange('bytes 100-199/1000')).toEqual({ start: 100, total: 1000 });
+            expect(parseContentRange('bytes 5-9/*')).toEqual({ start: 5, total: null });
+            expect(parseContentRange(null)).toBeNull();
+        });
+
+        it('should spread bytes over time at the bandwidth limit', () => {
+            const limiter = new BandwidthLimiter(1000);
+            expect(limiter.reserve(500, 0)).toBe(0);
+            expect(limiter.reserve(500, 0)).toBe(500);
+            expect(limiter.reserve(1000, 200)).toBe(800);
+            // Idle time isn't saved up for later
+            expect(limiter.reserve(100, 5000)).toBe(0);
+
+            limiter.setRate(0);
+            expect(limiter.isLimited).toBe(false);
+            expect(limiter.reserve(1_000_000, 5000)).toBe(0);
+        });
+    });
+
+    it('should download into place and report progress', async () => {
+        const events: DownloadProgress[] = [];
+        const manager = createManager(async () => new Response('hello world', {
+            headers: { 'content-length': '11', etag: '"v1"' },
+        }), events);
+
+        const filePath = await manager.enqueue({ url: 'https://cdn.example.com/a.mp3', filename: 'a.mp3' });
+
+        expect(fs.readFileSync(filePath, 'utf-8')).toBe('hello world');
+        expect(fs.existsSync(`${filePath}.part`)).toBe(false);
+        expect(fs.existsSync(`${filePath}.part.json`)).toBe(false);
+        expect(events[0].status).toBe('queued');
+        expect(events.at(-1)).toMatchObject({ status: 'completed', receivedBytes: 11, totalBytes: 11 });
+    });
+
+    it('should resume a partial file with a Range request', async () => {
+        const url = 'https://cdn.example.com/b.mp3';
+        fs.writeFileSync(path.join(dir, 'b.mp3.part'), 'hello ');
+        fs.writeFileSync(path.join(dir, 'b.mp3.part.json'), JSON.stringify({ url, etag: '"v1"', totalBytes: 11 }));
+
+        const calls: FetchCall[] = [];
+        const events: DownloadProgress[] = [];
+        const manager = createManager(async (requestUrl, init) => {
+            recordCall(calls, requestUrl, init);
+            return new Response('world', { status: 206, headers: { 'content-range': 'bytes 6-10/11' } });
+        }, events);
+
+        const filePath = await manager.enqueue({ url, filename: 'b.mp3' });
+
+        expect(calls[0].headers).toMatchObject({ Range: 'bytes=6-', 'If-Range': '"v1"' });
+        expect(fs.readFileSync(filePath, 'utf-8')).toBe('hello world');
+        expect(events.at(-1)).toMatchObject({ status: 'completed', resumed: true, receivedBytes: 11 });
+    });
+
+    it('should start over when the server ignores the range', async () => {
+        const url = 'https://cdn.example.com/c.mp3';
+        fs.writeFileSync(path.join(dir, 'c.mp3.part'), 'stale');
+        fs.writeFileSync(path.join(dir, 'c.mp3.part.json'), JSON.stringify({ url, totalBytes: 9 }));
+
+        const manager = createManager(async () => new Response('new bytes'));
+        const filePath = await manager.enqueue({ url, filename: 'c.mp3' });
+
+        expect(fs.readFileSync(filePath, 'utf-8')).toBe('new bytes');
+    });
+
+    it('should not resume a partial file from a different URL', async () => {
+        fs.writeFileSync(path.join(dir, 'd.mp3.part'), 'other');
+        fs.writeFileSync(path.join(dir, 'd.mp3.part.json'), JSON.stringify({ url: 'https://old.example.com/d.mp3', totalBytes: 10 }));
+
+        const calls: FetchCall[] = [];
+        const manager = createManager(async (requestUrl, init) => {
+            recordCall(calls, requestUrl, init);
+            return new Response('fresh');
+        });
+        const filePath = await manager.enqueue({ url: 'https://new.example.com/d.mp3', filename: 'd.mp3' });
+
+        expect(calls[0].headers.Range).toBeUndefined();
+        expect(fs.readFileSync(filePath, 'utf-8')).toBe('fresh');
+    });
+
+    it('should retry network errors and fail on client errors', async () => {
+        let attempts = 0;
+        const flaky = createManager(async () => {
+            attempts++;
+            if (attempts === 1) throw new TypeError('network down');
+            return new Response('ok');
+        });
+        await expect(flaky.enqueue({ url: 'https://cdn.example.com/e.mp3', filename: 'e.mp3' })).resolves.toContain('e.mp3');
+        expect(attempts).toBe(2);
+
+        const missing = createManager(async () => new Response('', { status: 404, statusText: 'Not Found' }));
+        await expect(missing.enqueue({ url: 'https://cdn.example.com/f.mp3', filename: 'f.mp3' })).rejects.toThrow('404');
+    });
+
+    it('should run at most `concurrency` downloads, highest priority first', async () => {
+        const started: string[] = [];
+        const releases: (() => void)[] = [];
+        const manager = createManager((url) => {
+            started.push(url);
+            return new Promise(resolve => releases.push(() => resolve(new Response('x'))));
+        }, [], 1);
+
+        const first = manager.enqueue({ url: 'first', filename: '1.mp3', priority: 1 });
+        const low = manager.enqueue({ url: 'low', filename: '2.mp3', priority: 1 });
+        const high = manager.enqueue({ url: 'high', filename: '3.mp3', priority: 10 });
+        await vi.waitFor(() => expect(started).toHaveLength(1));
+        expect(started).toEqual(['first']);
+
+        releases[0]();
+        await first;
+        await vi.waitFor(() => expect(started).toHaveLength(2));
+        expect(started).toEqual(['first', 'high']);
+
+        releases[1]();
+        await high;
+        await vi.waitFor(() => expect(started).toHaveLength(3));
+        releases[2]();
+        await low;
+        expect(started).toEqual(['first', 'high', 'low']);
+    });
+
+    it('should cancel queued downloads', async () => {
+        const releases: (() => void)[] = [];
+        const manager = createManager(() => new Promise(resolve => releases.push(() => resolve(new Response('x')))), [], 1);
+
+        const running = manager.enqueue({ url: 'a', filename: 'a.mp3' });
+        const queued = expect(manager.enqueue({ url: 'b', filename: 'b.mp3' })).rejects.toThrow('Download cancelled');
+        await manager.cancel('b.mp3');
+        await queued;
+
+        await vi.waitFor(() => expect(releases).toHaveLength(1));
+        releases[0]();
+        await running;
+        expect(manager.getDownloads()).toEqual([]);
+    });
+
+    describe('Automatic downloads', () => {
+        it('should hold queued automatic downloads but not manual ones', async () => {
+            const started: string[] = [];
+            const manager = createManager(async (url) => {
+                started.push(url);
+                return new Response('x');
+            });
+            manager.setAutomaticHeld(true);
+
+            const automatic = manager.enqueue({ url: 'auto', filename: 'auto.mp3', automatic: true });
+            await manager.enqueue({ url: 'manual', filename: 'manual.mp3' });
+            expect(started).toEqual(['manual']);
+            expect(manager.getDownloads()).toMatchObject([{ filename: 'auto.mp3', status: 'queued' }]);
+
+            manager.setAutomaticHeld(false);
+            await automatic;
+            expect(started).toEqual(['manual', 'auto']);
+        });
+
+        it('should start a held download once it is asked for by hand', async () => {
+            const manager = createManager(async () => new Response('x'));
+            manager.setAutomaticHeld(true);
+
+            const automatic = manager.enqueue({ url: 'a', filename: 'a.mp3', automatic: true });
+            const manual = manager.enqueue({ url: 'a', filename: 'a.mp3' });
+
+            expect(await manual).toBe(await automatic);
+        });
+
+        it('should stop a running automatic download when held and resume it later', async () => {
+            const url = 'https://cdn.example.com/d.mp3';
+            const calls: FetchCall[] = [];
+            const events: DownloadProgress[] = [];
+            const manager = createManager(async (requestUrl, init) => {
+                recordCall(calls, requestUrl, init);
+                if (calls.length === 1) {
+                    // Sends the first bytes, then stalls until aborted
+                    const body = new ReadableStream<Uint8Array>({
+                        start: controller => controller.enqueue(new TextEncoder().encode('hello ')),
+                    });
+                    return new Response(body, { headers: { 'content-length': '11', etag: '"v1"' } });
+                }
+                return new Response('world', { status: 206, headers: { 'content-range': 'bytes 6-10/11' } });
+            }, events);
+
+            const download = manager.enqueue({ url, filename: 'd.mp3', automatic: true });
+            await vi.waitFor(() => expect(fs.statSync(path.join(dir, 'd.mp3.part')).size).toBe(6));
+
+            manager.setAutomaticHeld(true);
+            await vi.waitFor(() => expect(manager.getDownloads()).toMatchObject([{ status: 'queued' }]));
+            expect(fs.existsSync(path.join(dir, 'd.mp3.part'))).toBe(true);
+            expect(calls).toHaveLength(1);
+
+            manager.setAutomaticHeld(false);
+            const filePath = await download;
+            expect(calls[1].headers).toMatchObject({ Range: 'bytes=6-' });
+            expect(fs.readFileSync(filePath, 'utf-8')).toBe('hello world');
+            expect(events.some(event => event.status === 'cancelled')).toBe(false);
+        });
+    });
+});
+
+describe('Download Helpers', () => {
+    const queue = [{ id: 1 }, { id: 2 }] as Episode[];
+
+    it('should rank the playing episode, then the queue, then manual downloads', () => {
+        expect(getDownloadPriority(9, 9, queue)).toBe(DOWNLOAD_PRIORITY.PLAYING);
+        expect(getDownloadPriority(1, 9, queue)).toBeGreaterThan(getDownloadPriority(2, 9, queue));
+        expect(getDownloadPriority(2, 9, queue)).toBeGreaterThan(DOWNLOAD_PRIORITY.MANUAL);
+        expect(getDownloadPriority(5, undefined, queue)).toBe(DOWNLOAD_PRIORITY.MANUAL);
+    });
+
+    it('should fold progress events into the episode download state', () => {
+        const download = createEpisodeDownload(1, '1.mp3', 100, 0);
+        expect(isActiveDownload(download)).toBe(true);
+        expect(formatDownloadStatus(download)).toBe('Waiting');
+
+        const updated = applyDownloadProgress(download, {
+            filename: '1.mp3',
+            url: 'https://cdn.example.com/1.mp3',
+            status: 'downloading',
+            priority: 100,
+            receivedBytes: 250,
+            totalBytes: 1000,
+            bytesPerSecond: 50,
+            resumed: false,
+            attempt: 1,
+        });
+        expect(getDownloadPercent(updated)).toBe(25);
+        expect(formatDownloadStatus(updated)).toBe('25%');
+        expect(isActiveDownload({ ...updated, status: 'failed' })).toBe(false);
+    });
+
+    it('should offer a manual download unless one is already running by hand', () => {
+        const download = createEpisodeDownload(1, '1.mp3', 100, 0);
+        expect(canStartManualDownload(undefined)).toBe(true);
+        expect(canStartManualDownload(download)).toBe(false);
+        expect(canStartManualDownload({ ...download, automatic: true })).toBe(true);
+        expect(canStartManualDownload({ ...download, status: 'failed' })).toBe(true);
+    });
+});
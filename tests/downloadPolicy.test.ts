@@ -0,0 +1,108 @@
+/**
+ * Download Policy Tests
+ *
+ * Verifies when automatic downloads may run: pausing, manual-only mode and
+ * allowed time windows, including windows that run past midnight.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    getAutomaticDownloadBlock,
+    getNextWindowStart,
+    isWithinDownloadWindows,
+    parseTimeOfDay,
+    type DownloadPolicy,
+} from '../src/services/downloadPolicy';
+
+const at = (hours: number, minutes = 0) => new Date(2024, 0, 15, hours, minutes);
+
+const createPolicy = (overrides: Partial<DownloadPolicy> = {}): DownloadPolicy => ({
+    downloadBandwidthLimitKBps: 0,
+    automaticDownloadWindows: [],
+    pauseAutomaticDownloads: false,
+    manualDownloadsOnly: false,
+    ...overrides,
+});
+
+describe('Download Policy', () => {
+    describe('parseTimeOfDay', () => {
+        it('should read HH:MM as minutes since midnight', () => {
+            expect(parseTimeOfDay('00:00')).toBe(0);
+            expect(parseTimeOfDay('6:30')).toBe(390);
+            expect(parseTimeOfDay('23:59')).toBe(1439);
+        });
+
+        it('should reject anything else', () => {
+            expect(parseTimeOfDay('24:00')).toBeNull();
+            expect(parseTimeOfDay('12:60')).toBeNull();
+            expect(parseTimeOfDay('noon')).toBeNull();
+            expect(parseTimeOfDay('')).toBeNull();
+        });
+    });
+
+    describe('isWithinDownloadWindows', () => {
+        it('should allow any time without windows', () => {
+            expect(isWithinDownloadWindows([], at(14))).toBe(true);
+        });
+
+        it('should include the start and exclude the end', () => {
+            const windows = [{ start: '09:00', end: '17:00' }];
+            expect(isWithinDownloadWindows(windows, at(9))).toBe(true);
+            expect(isWithinDownloadWindows(windows, at(16, 59))).toBe(true);
+            expect(isWithinDownloadWindows(windows, at(17))).toBe(false);
+            expect(isWithinDownloadWindows(windows, at(8, 59))).toBe(false);
+        });
+
+        it('should handle windows that run past midnight', () => {
+            const windows = [{ start: '22:00', end: '06:00' }];
+            expect(isWithinDownloadWindows(windows, at(23))).toBe(true);
+            expect(isWithinDownloadWindows(windows, at(3))).toBe(true);
+            expect(isWithinDownloadWindows(windows, at(12))).toBe(false);
+        });
+
+        it('should match any of several windows and skip invalid ones', () => {
+            const windows = [{ start: 'bad', end: '10:00' }, { start: '12:00', end: '13:00' }];
+            expect(isWithinDownloadWindows(windows, at(9))).toBe(false);
+            expect(isWithinDownloadWindows(windows, at(12, 30))).toBe(true);
+        });
+    });
+
+    describe('getAutomaticDownloadBlock', () => {
+        it('should allow automatic downloads by default', () => {
+            expect(getAutomaticDownloadBlock(createPolicy(), at(12))).toBeNull();
+        });
+
+        it('should give pausing precedence over the other limits', () => {
+            const policy = createPolicy({
+                pauseAutomaticDownloads: true,
+                manualDownloadsOnly: true,
+                automaticDownloadWindows: [{ start: '01:00', end: '02:00' }],
+            });
+            expect(getAutomaticDownloadBlock(policy, at(12))).toBe('paused');
+            expect(getAutomaticDownloadBlock({ ...policy, pauseAutomaticDownloads: false }, at(12))).toBe('manual-only');
+        });
+
+        it('should block outside the allowed windows', () => {
+            const policy = createPolicy({ automaticDownloadWindows: [{ start: '01:00', end: '06:00' }] });
+            expect(getAutomaticDownloadBlock(policy, at(12))).toBe('outside-window');
+            expect(getAutomaticDownloadBlock(policy, at(2))).toBeNull();
+        });
+
+        it('should not count the bandwidth limit as a block', () => {
+            expect(getAutomaticDownloadBlock(createPolicy({ downloadBandwidthLimitKBps: 100 }), at(12))).toBeNull();
+        });
+    });
+
+    describe('getNextWindowStart', () => {
+        it('should find the soonest opening, tomorrow if need be', () => {
+            const windows = [{ start: '01:00', end: '06:00' }, { start: '20:00', end: '22:00' }];
+            expect(getNextWindowStart(windows, at(12, 30))).toEqual(at(20));
+            expect(getNextWindowStart(windows, at(23))).toEqual(new Date(2024, 0, 16, 1));
+        });
+
+        it('should return null without valid windows', () => {
+            expect(getNextWindowStart([], at(12))).toBeNull();
+            expect(getNextWindowStart([{ start: 'x', end: '01:00' }], at(12))).toBeNull();
+        });
+    });
+});
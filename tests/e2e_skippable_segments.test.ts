@@ -15,16 +15,26 @@ vi.mock('../src/services/db', () => ({
         saveEpisode: vi.fn(),
         getPodcasts: vi.fn().mockResolvedValue({}),
         getEpisodes: vi.fn().mockResolvedValue({}),
-        getPreferences: vi.fn().mockResolvedValue({})
+        getPreferences: vi.fn().mockResolvedValue({}),
+        getCloudJobs: vi.fn().mockResolvedValue({}),
+        saveCloudJob: vi.fn(),
+        removeCloudJob: vi.fn()
     }
 }));
 
+// The store pulls in the Supabase client through cloud sync
+vi.mock('../src/services/supabaseClient', () => ({
+    getAccessToken: vi.fn(async () => 'mock-access-token')
+}));
+
 // Mock the cloud API - now the primary transcription service
 vi.mock('../src/services/cloudApi', () => ({
-    processEpisodeInCloud: vi.fn().mockImplementation(async (_buffer, _filename, metadata, _onProgress) => {
+    CloudJobFailedError: class CloudJobFailedError extends Error { },
+    uploadEpisodeToCloud: vi.fn().mockResolvedValue('mock-job-id'),
+    waitForCloudJobCompletion: vi.fn().mockImplementation(async () => {
         return {
             jobId: 'mock-job-id',
-            episodeId: metadata.feedId,
+            episodeId: 1,
             transcript: {
                 id: 1,
                 text: 'This is the mock transcript from cloud',
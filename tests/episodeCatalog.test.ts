@@ -0,0 +1,79 @@
+/**
+ * Episode Catalog Tests
+ *
+ * Verifies in-show search, sort orders and season grouping used when
+ * browsing a podcast's back catalog.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { searchEpisodes, sortEpisodes, groupBySeason, hasSeasons } from '../src/services/episodeCatalog';
+import type { Episode } from '../src/types';
+
+const createEpisode = (overrides: Partial<Episode>): Episode => ({
+    id: 1,
+    guid: 'guid-1',
+    feedId: 10,
+    title: 'Episode',
+    description: '',
+    datePublished: 1_000,
+    duration: 600,
+    season: null,
+    ...overrides,
+} as Episode);
+
+const episodes = [
+    createEpisode({ id: 1, title: 'Pilot', description: '<p>Where it all <b>began</b></p>', datePublished: 100, duration: 1200, season: 1 }),
+    createEpisode({ id: 2, title: 'Interview with Ada', description: 'Computing &amp; history', datePublished: 300, duration: 3600, season: 2 }),
+    createEpisode({ id: 3, title: 'Mailbag', datePublished: 200, duration: 1200, season: 1 }),
+    createEpisode({ id: 4, title: 'Trailer', datePublished: 400, duration: 60 }),
+];
+
+describe('Episode Catalog', () => {
+    describe('searchEpisodes', () => {
+        it('should match every term against title and plain-text description', () => {
+            expect(searchEpisodes(episodes, 'ada').map(ep => ep.id)).toEqual([2]);
+            expect(searchEpisodes(episodes, 'all began').map(ep => ep.id)).toEqual([1]);
+            expect(searchEpisodes(episodes, 'computing & history').map(ep => ep.id)).toEqual([2]);
+            expect(searchEpisodes(episodes, 'pilot ada')).toEqual([]);
+        });
+
+        it('should not match markup inside descriptions', () => {
+            expect(searchEpisodes(episodes, '<b>')).toEqual([]);
+        });
+
+        it('should return everything for a blank query', () => {
+            expect(searchEpisodes(episodes, '   ')).toBe(episodes);
+        });
+    });
+
+    describe('sortEpisodes', () => {
+        it('should sort by publish date both ways', () => {
+            expect(sortEpisodes(episodes, 'newest').map(ep => ep.id)).toEqual([4, 2, 3, 1]);
+            expect(sortEpisodes(episodes, 'oldest').map(ep => ep.id)).toEqual([1, 3, 2, 4]);
+        });
+
+        it('should sort by duration with newest first for ties', () => {
+            expect(sortEpisodes(episodes, 'longest').map(ep => ep.id)).toEqual([2, 3, 1, 4]);
+        });
+
+        it('should not mutate the input', () => {
+            const copy = [...episodes];
+            sortEpisodes(episodes, 'oldest');
+            expect(episodes).toEqual(copy);
+        });
+    });
+
+    describe('groupBySeason', () => {
+        it('should keep the sort order and put unseasoned episodes last', () => {
+            const groups = groupBySeason(sortEpisodes(episodes, 'newest'));
+            expect(groups.map(g => g.season)).toEqual([2, 1, null]);
+            expect(groups[1].episodes.map(ep => ep.id)).toEqual([3, 1]);
+            expect(groups[2].episodes.map(ep => ep.id)).toEqual([4]);
+        });
+
+        it('should detect whether any episode has a season', () => {
+            expect(hasSeasons(episodes)).toBe(true);
+            expect(hasSeasons([episodes[3]])).toBe(false);
+        });
+    });
+});
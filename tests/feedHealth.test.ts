@@ -0,0 +1,76 @@
+/**
+ * Feed Health Tests
+ *
+ * Verifies per-feed success/failure bookkeeping, dead feed detection and
+ * deciding when a feed has moved to a new URL.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    DEAD_FEED_FAILURES,
+    recordFeedSuccess,
+    recordFeedFailure,
+    getFeedHealth,
+    detectFeedMove,
+} from '../src/services/feedHealth';
+import type { FeedState } from '../src/types';
+
+const OLD_URL = 'https://old.example.com/feed.xml';
+const NEW_URL = 'https://new.example.com/feed.xml';
+
+describe('Feed Health', () => {
+    describe('recordFeedSuccess / recordFeedFailure', () => {
+        it('should count consecutive failures and reset them on success', () => {
+            let state: FeedState | undefined;
+            state = recordFeedFailure(state, 1, 'Request failed with status 404', 1000);
+            state = recordFeedFailure(state, 1, 'Request failed with status 500', 2000);
+
+            expect(state.consecutiveFailures).toBe(2);
+            expect(state.lastError).toBe('Request failed with status 500');
+            expect(state.lastCheckedAt).toBe(2000);
+
+            state = recordFeedSuccess(state, 1, 3000);
+            expect(state.consecutiveFailures).toBe(0);
+            expect(state.lastError).toBeUndefined();
+            expect(state.lastSuccessAt).toBe(3000);
+        });
+
+        it('should keep unrelated bookkeeping', () => {
+            const previous: FeedState = { podcastId: 1, etag: '"abc"', lastCheckedAt: 0, lastSuccessAt: 500 };
+            const failed = recordFeedFailure(previous, 1, 'offline', 1000);
+            expect(failed.etag).toBe('"abc"');
+            expect(failed.lastSuccessAt).toBe(500);
+        });
+    });
+
+    describe('getFeedHealth', () => {
+        it('should classify feeds by consecutive failures', () => {
+            expect(getFeedHealth(undefined)).toBe('unknown');
+            expect(getFeedHealth({ podcastId: 1, lastCheckedAt: 0 })).toBe('unknown');
+            expect(getFeedHealth({ podcastId: 1, lastCheckedAt: 0, lastSuccessAt: 1, consecutiveFailures: 0 })).toBe('healthy');
+            expect(getFeedHealth({ podcastId: 1, lastCheckedAt: 0, consecutiveFailures: 1 })).toBe('failing');
+            expect(getFeedHealth({ podcastId: 1, lastCheckedAt: 0, consecutiveFailures: DEAD_FEED_FAILURES })).toBe('dead');
+        });
+    });
+
+    describe('detectFeedMove', () => {
+        it('should report no move without signals or when they point at the current URL', () => {
+            expect(detectFeedMove(OLD_URL, {})).toBeNull();
+            expect(detectFeedMove(OLD_URL, { permanentUrl: OLD_URL, newFeedUrl: OLD_URL })).toBeNull();
+        });
+
+        it('should follow permanent redirects and new-feed-url declarations', () => {
+            expect(detectFeedMove(OLD_URL, { permanentUrl: NEW_URL })).toBe(NEW_URL);
+            expect(detectFeedMove(OLD_URL, { newFeedUrl: NEW_URL })).toBe(NEW_URL);
+        });
+
+        it('should prefer the redirect target over the declared URL', () => {
+            expect(detectFeedMove(OLD_URL, { permanentUrl: NEW_URL, newFeedUrl: 'https://other.example.com/rss' })).toBe(NEW_URL);
+        });
+
+        it('should ignore non-HTTP URLs and moves back to the previous URL', () => {
+            expect(detectFeedMove(OLD_URL, { newFeedUrl: 'mailto:host@example.com' })).toBeNull();
+            expect(detectFeedMove(NEW_URL, { newFeedUrl: OLD_URL, movedFrom: OLD_URL })).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,226 @@
+/**
+ * Feed Parser Tests
+ *
+ * Verifies that raw RSS 2.0 / Atom feeds (with iTunes and Podcasting 2.0
+ * namespaces) map correctly into our Podcast and Episode types.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    parseFeed,
+    parseDuration,
+    parseFeedDate,
+    createSyntheticId,
+    FeedParseError,
+} from '../src/services/feedParser';
+import { parseXml, childText } from '../src/utils/xmlParser';
+
+const FEED_URL = 'https://example.com/feed.xml';
+
+const RSS_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0"
+    xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"
+    xmlns:podcast="https://podcastindex.org/namespace/1.0"
+    xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>Test &amp; Friends</title>
+    <link>https://example.com</link>
+    <language>en-us</language>
+    <description><![CDATA[A <b>great</b> show]]></description>
+    <itunes:author>Jane Host</itunes:author>
+    <itunes:owner><itunes:name>Jane Owner</itunes:name></itunes:owner>
+    <itunes:image href="https://example.com/cover.jpg"/>
+    <item>
+      <title>Episode 2</title>
+      <guid isPermaLink="false">ep-2</guid>
+      <pubDate>Tue, 02 Jan 2024 10:00:00 GMT</pubDate>
+      <enclosure url="https://cdn.example.com/ep2.mp3" length="12345" type="audio/mpeg"/>
+      <itunes:duration>1:02:03</itunes:duration>
+      <itunes:explicit>yes</itunes:explicit>
+      <itunes:episodeType>bonus</itunes:episodeType>
+      <podcast:season>3</podcast:season>
+      <podcast:episode>7</podcast:episode>
+      <podcast:chapters url="/chapters/ep2.json" type="application/json+chapters"/>
+      <podcast:transcript url="https://example.com/ep2.srt" type="application/srt" language="en"/>
+      <podcast:transcript url="https://example.com/ep2.vtt" type="text/vtt" rel="captions"/>
+      <content:encoded><![CDATA[<p>Show notes</p>]]></content:encoded>
+    </item>
+    <item>
+      <title>No media here</title>
+      <guid>text-only</guid>
+    </item>
+    <item>
+      <title>Episode 1</title>
+      <pubDate>Mon, 01 Jan 2024 10:00:00 GMT</pubDate>
+      <enclosure url="/media/ep1.mp3" type="audio/mpeg"/>
+      <itunes:duration>125</itunes:duration>
+      <itunes:image href="https://example.com/ep1.jpg"/>
+    </item>
+  </channel>
+</rss>`;
+
+const ATOM_FEED = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="de">
+  <title>Atom Cast</title>
+  <subtitle>Atom based show</subtitle>
+  <updated>2024-03-01T12:00:00Z</updated>
+  <author><name>Atom Author</name></author>
+  <link rel="alternate" href="https://atom.example.com"/>
+  <logo>https://atom.example.com/logo.png</logo>
+  <entry>
+    <id>urn:uuid:1234</id>
+    <title>First Entry</title>
+    <published>2024-02-29T08:00:00Z</published>
+    <summary>Entry summary</summary>
+    <link rel="alternate" href="https://atom.example.com/1"/>
+    <link rel="enclosure" href="https://atom.example.com/1.m4a" type="audio/mp4" length="999"/>
+  </entry>
+</feed>`;
+
+describe('Feed Parser', () => {
+    describe('RSS 2.0', () => {
+        const parsed = parseFeed(RSS_FEED, { feedUrl: FEED_URL });
+
+        it('should map channel metadata to a Podcast', () => {
+            expect(parsed.format).toBe('rss');
+            expect(parsed.podcast.title).toBe('Test & Friends');
+            expect(parsed.podcast.url).toBe(FEED_URL);
+            expect(parsed.podcast.description).toBe('A <b>great</b> show');
+            expect(parsed.podcast.author).toBe('Jane Host');
+            expect(parsed.podcast.ownerName).toBe('Jane Owner');
+            expect(parsed.podcast.image).toBe('https://example.com/cover.jpg');
+            expect(parsed.podcast.language).toBe('en-us');
+        });
+
+        it('should use a synthetic negative ID when no feed ID is given', () => {
+            expect(parsed.podcast.id).toBeLessThan(0);
+            expect(parsed.podcast.id).toBe(createSyntheticId(FEED_URL));
+        });
+
+        it('should keep a known feed ID', () => {
+            const indexed = parseFeed(RSS_FEED, { feedUrl: FEED_URL, feedId: 42 });
+            expect(indexed.podcast.id).toBe(42);
+            expect(indexed.episodes.every(ep => ep.feedId === 42)).toBe(true);
+        });
+
+        it('should skip items without an enclosure', () => {
+            expect(parsed.episodes).toHaveLength(2);
+            expect(parsed.episodes.find(ep => ep.guid === 'text-only')).toBeUndefined();
+        });
+
+        it('should map iTunes and Podcasting 2.0 fields', () => {
+            const ep = parsed.episodes[0];
+            expect(ep.title).toBe('Episode 2');
+            expect(ep.guid).toBe('ep-2');
+            expect(ep.enclosureUrl).toBe('https://cdn.example.com/ep2.mp3');
+            expect(ep.enclosureLength).toBe(12345);
+            expect(ep.duration).toBe(3723);
+            expect(ep.explicit).toBe(1);
+            expect(ep.episodeType).toBe('bonus');
+            expect(ep.season).toBe(3);
+            expect(ep.episode).toBe(7);
+            expect(ep.description).toBe('<p>Show notes</p>');
+            expect(ep.chaptersUrl).toBe('https://example.com/chapters/ep2.json');
+            expect(ep.transcriptLinks).toEqual([
+                { url: 'https://example.com/ep2.srt', type: 'application/srt', language: 'en', rel: undefined },
+                { url: 'https://example.com/ep2.vtt', type: 'text/vtt', language: undefined, rel: 'captions' },
+            ]);
+            expect(ep.datePublished).toBe(Date.UTC(2024, 0, 2, 10) / 1000);
+            expect(ep.feedUrl).toBe(FEED_URL);
+            expect(ep.feedTitle).toBe('Test & Friends');
+            expect(ep.feedImage).toBe('https://example.com/cover.jpg');
+        });
+
+        it('should fall back to the enclosure URL as GUID and resolve relative URLs', () => {
+            const ep = parsed.episodes[1];
+            expect(ep.enclosureUrl).toBe('https://example.com/media/ep1.mp3');
+            expect(ep.guid).toBe('https://example.com/media/ep1.mp3');
+            expect(ep.image).toBe('https://example.com/ep1.jpg');
+            expect(ep.duration).toBe(125);
+            expect(ep.chaptersUrl).toBeUndefined();
+            expect(ep.transcriptLinks).toBeUndefined();
+        });
+
+        it('should derive stable episode IDs from feed URL and GUID', () => {
+            const again = parseFeed(RSS_FEED, { feedUrl: FEED_URL });
+            expect(again.episodes.map(ep => ep.id)).toEqual(parsed.episodes.map(ep => ep.id));
+            expect(parsed.episodes[0].id).not.toBe(parsed.episodes[1].id);
+            expect(parsed.episodes[0].id).toBeLessThan(0);
+        });
+    });
+
+    describe('Feed moves', () => {
+        it('should read itunes:new-feed-url', () => {
+            const xml = RSS_FEED.replace('<language>', '<itunes:new-feed-url>https://new.example.com/feed</itunes:new-feed-url><language>');
+            expect(parseFeed(xml, { feedUrl: FEED_URL }).newFeedUrl).toBe('https://new.example.com/feed');
+        });
+
+        it('should read podcast:newFeedUrl and resolve it against the feed URL', () => {
+            const xml = RSS_FEED.replace('<language>', '<podcast:newFeedUrl>/moved.xml</podcast:newFeedUrl><language>');
+            expect(parseFeed(xml, { feedUrl: FEED_URL }).newFeedUrl).toBe('https://example.com/moved.xml');
+        });
+
+        it('should leave newFeedUrl unset for feeds that have not moved', () => {
+            expect(parseFeed(RSS_FEED, { feedUrl: FEED_URL }).newFeedUrl).toBeUndefined();
+        });
+    });
+
+    describe('Atom', () => {
+        const parsed = parseFeed(ATOM_FEED, { feedUrl: 'https://atom.example.com/feed' });
+
+        it('should map feed metadata and entries', () => {
+            expect(parsed.format).toBe('atom');
+            expect(parsed.podcast.title).toBe('Atom Cast');
+            expect(parsed.podcast.description).toBe('Atom based show');
+            expect(parsed.podcast.author).toBe('Atom Author');
+            expect(parsed.podcast.link).toBe('https://atom.example.com');
+            expect(parsed.podcast.language).toBe('de');
+            expect(parsed.podcast.image).toBe('https://atom.example.com/logo.png');
+
+            expect(parsed.episodes).toHaveLength(1);
+            const ep = parsed.episodes[0];
+            expect(ep.guid).toBe('urn:uuid:1234');
+            expect(ep.link).toBe('https://atom.example.com/1');
+            expect(ep.enclosureUrl).toBe('https://atom.example.com/1.m4a');
+            expect(ep.enclosureType).toBe('audio/mp4');
+            expect(ep.enclosureLength).toBe(999);
+            expect(ep.description).toBe('Entry summary');
+        });
+    });
+
+    describe('Errors', () => {
+        it('should reject documents that are not feeds', () => {
+            expect(() => parseFeed('<html><body/></html>', { feedUrl: FEED_URL })).toThrow(FeedParseError);
+        });
+
+        it('should reject RSS without a channel', () => {
+            expect(() => parseFeed('<rss version="2.0"></rss>', { feedUrl: FEED_URL })).toThrow(FeedParseError);
+        });
+
+        it('should reject empty input', () => {
+            expect(() => parseFeed('   ', { feedUrl: FEED_URL })).toThrow(FeedParseError);
+        });
+    });
+
+    describe('Helpers', () => {
+        it('should parse itunes:duration formats', () => {
+            expect(parseDuration('1:02:03')).toBe(3723);
+            expect(parseDuration('02:03')).toBe(123);
+            expect(parseDuration('90')).toBe(90);
+            expect(parseDuration('')).toBe(0);
+            expect(parseDuration('abc')).toBe(0);
+        });
+
+        it('should parse RFC 822 and ISO 8601 dates', () => {
+            expect(parseFeedDate('Mon, 01 Jan 2024 00:00:00 GMT')).toBe(Date.UTC(2024, 0, 1) / 1000);
+            expect(parseFeedDate('2024-01-01T00:00:00Z')).toBe(Date.UTC(2024, 0, 1) / 1000);
+            expect(parseFeedDate('not a date')).toBe(0);
+        });
+
+        it('should keep CDATA and decode entities in the XML reader', () => {
+            const root = parseXml('<a><b><![CDATA[x < y]]></b><c>&#169; &lt;ok&gt;</c></a>');
+            expect(childText(root, 'b')).toBe('x < y');
+            expect(childText(root, 'c')).toBe('© <ok>');
+        });
+    });
+});
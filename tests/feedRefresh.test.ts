@@ -0,0 +1,129 @@
+/**
+ * Feed Refresh Helper Tests
+ *
+ * Verifies bounded concurrency, the indexed episode lookup used to detect
+ * new episodes, Podcast Index IDs for feed items, and the refresh report.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    mapWithConcurrency,
+    buildEpisodeIndex,
+    addToEpisodeIndex,
+    isKnownEpisode,
+    selectNewEpisodes,
+    applyIndexedIds,
+    buildRefreshReport,
+    type FeedRefreshResult,
+} from '../src/services/feedRefresh';
+import type { Episode, Podcast } from '../src/types';
+
+const podcast = {
+    id: 10,
+    url: 'https://example.com/feed.xml',
+    title: 'Show',
+    subscribedAt: 1_000_000 * 1000,
+} as Podcast;
+
+const createEpisode = (overrides: Partial<Episode>): Episode => ({
+    id: 1,
+    guid: 'guid-1',
+    feedId: podcast.id,
+    feedUrl: podcast.url,
+    datePublished: 2_000_000,
+    title: 'Episode',
+    ...overrides,
+} as Episode);
+
+describe('Feed Refresh Helpers', () => {
+    describe('mapWithConcurrency', () => {
+        it('should never exceed the concurrency limit and keep result order', async () => {
+            let inFlight = 0;
+            let maxInFlight = 0;
+
+            const results = await mapWithConcurrency([30, 10, 20, 5, 15, 1], 3, async (delay, index) => {
+                inFlight++;
+                maxInFlight = Math.max(maxInFlight, inFlight);
+                await new Promise(r => setTimeout(r, delay));
+                inFlight--;
+                return index * 2;
+            });
+
+            expect(maxInFlight).toBe(3);
+            expect(results).toEqual([0, 2, 4, 6, 8, 10]);
+        });
+
+        it('should handle empty input', async () => {
+            expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+        });
+    });
+
+    describe('episode index', () => {
+        const index = buildEpisodeIndex([
+            createEpisode({ id: 1, guid: 'by-id' }),
+            createEpisode({ id: 2, guid: 'by-url', feedId: -5 }),
+            createEpisode({ id: 3, guid: 'other-feed', feedId: 99, feedUrl: 'https://other.example.com/rss' }),
+        ]);
+
+        it('should match by episode ID', () => {
+            expect(isKnownEpisode(index, podcast, createEpisode({ id: 1, guid: 'changed' }))).toBe(true);
+        });
+
+        it('should match by GUID within the same feed ID or URL', () => {
+            expect(isKnownEpisode(index, podcast, createEpisode({ id: 100, guid: 'by-id' }))).toBe(true);
+            expect(isKnownEpisode(index, podcast, createEpisode({ id: 101, guid: 'by-url' }))).toBe(true);
+        });
+
+        it('should not match the same GUID from a different feed', () => {
+            expect(isKnownEpisode(index, podcast, createEpisode({ id: 102, guid: 'other-feed' }))).toBe(false);
+        });
+
+        it('should pick up episodes added later', () => {
+            const fresh = createEpisode({ id: 200, guid: 'fresh' });
+            expect(isKnownEpisode(index, podcast, fresh)).toBe(false);
+            addToEpisodeIndex(index, fresh);
+            expect(isKnownEpisode(index, podcast, fresh)).toBe(true);
+        });
+    });
+
+    describe('selectNewEpisodes', () => {
+        it('should skip known, old and duplicate items', () => {
+            const index = buildEpisodeIndex([createEpisode({ id: 1, guid: 'known' })]);
+            const items = [
+                createEpisode({ id: 11, guid: 'new-1' }),
+                createEpisode({ id: 12, guid: 'known' }),
+                createEpisode({ id: 13, guid: 'old', datePublished: 500_000 }),
+                createEpisode({ id: 14, guid: 'new-1' }),
+                createEpisode({ id: 15, guid: 'new-2' }),
+            ];
+
+            const { newEpisodes, skipped } = selectNewEpisodes(items, podcast, index);
+            expect(newEpisodes.map(ep => ep.id)).toEqual([11, 15]);
+            expect(skipped).toBe(3);
+        });
+    });
+
+    describe('applyIndexedIds', () => {
+        it('should use the Podcast Index ID for items the index has', () => {
+            const items = [createEpisode({ id: -11, guid: 'indexed' }), createEpisode({ id: -12, guid: 'brand-new' })];
+            const indexed = [createEpisode({ id: 501, guid: 'indexed' }), createEpisode({ id: 502, guid: 'older' })];
+
+            expect(applyIndexedIds(items, indexed).map(ep => ep.id)).toEqual([501, -12]);
+        });
+    });
+
+    describe('buildRefreshReport', () => {
+        it('should total new episodes and compute duration', () => {
+            const feeds: FeedRefreshResult[] = [
+                { podcastId: 1, title: 'A', status: 'updated', source: 'feed', newEpisodes: 2, skipped: 18, durationMs: 120 },
+                { podcastId: 2, title: 'B', status: 'unchanged', source: 'feed', newEpisodes: 0, skipped: 0, durationMs: 40 },
+                { podcastId: 3, title: 'C', status: 'error', source: 'podcastindex', newEpisodes: 0, skipped: 0, error: 'boom', durationMs: 300 },
+            ];
+
+            const report = buildRefreshReport(1000, feeds, 1500);
+            expect(report.totalNew).toBe(2);
+            expect(report.durationMs).toBe(500);
+            expect(report.feeds).toBe(feeds);
+        });
+    });
+});
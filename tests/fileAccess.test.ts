@@ -0,0 +1,97 @@
+/**
+ * File Access Tests
+ *
+ * Verifies that renderer-supplied file names only ever resolve to files
+ * directly inside the storage directory, that fetched URLs are http(s), and
+ * the IPC argument checks.
+ */
+
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import {
+    FileAccessError,
+    expectHttpUrl,
+    expectNumber,
+    expectOptionalHeaders,
+    expectOptionalNumber,
+    expectOptions,
+    expectString,
+    expectStringArray,
+    resolveInDirectory,
+    validateFilename,
+} from '../electron/fileAccess';
+
+const DIR = path.resolve('/data/podcasts');
+
+describe('File Access', () => {
+    describe('resolveInDirectory', () => {
+        it('should resolve plain file names inside the directory', () => {
+            expect(resolveInDirectory(DIR, '123.mp3')).toBe(path.join(DIR, '123.mp3'));
+            expect(resolveInDirectory(DIR, '-42.m4a')).toBe(path.join(DIR, '-42.m4a'));
+            expect(resolveInDirectory(DIR, 'episode..mp3')).toBe(path.join(DIR, 'episode..mp3'));
+            expect(resolveInDirectory(`${DIR}/`, 'a.mp3')).toBe(path.join(DIR, 'a.mp3'));
+        });
+
+        it.each([
+            '../secure-keys.enc',
+            '..',
+            '.',
+            'sub/../../secret',
+            'nested/file.mp3',
+            '..\\secure-keys.enc',
+            '/etc/passwd',
+            'C:\\Windows\\win.ini',
+            'C:secret',
+            '\\\\server\\share\\file',
+            'file.mp3:stream',
+            'file\0.mp3',
+            '',
+            'x'.repeat(256),
+        ])('should reject %j', (name) => {
+            expect(() => resolveInDirectory(DIR, name)).toThrow(FileAccessError);
+        });
+
+        it.each([undefined, null, 42, {}, ['a.mp3']])('should reject non-string name %j', (name) => {
+            expect(() => resolveInDirectory(DIR, name)).toThrow('expected a string');
+        });
+
+        it('should name the offending argument', () => {
+            expect(() => validateFilename('../x', 'artwork filename')).toThrow('Invalid artwork filename');
+        });
+    });
+
+    describe('expectHttpUrl', () => {
+        it('should accept http and https URLs', () => {
+            expect(expectHttpUrl('https://example.com/feed.xml')).toBe('https://example.com/feed.xml');
+            expect(expectHttpUrl('http://example.com/episode.mp3?token=1')).toBe('http://example.com/episode.mp3?token=1');
+        });
+
+        it('should reject other schemes and anything that is not a URL', () => {
+            expect(() => expectHttpUrl('file:///etc/passwd')).toThrow(FileAccessError);
+            expect(() => expectHttpUrl('local-media://podcasts/1.mp3')).toThrow('only http and https');
+            expect(() => expectHttpUrl('javascript:alert(1)')).toThrow(FileAccessError);
+            expect(() => expectHttpUrl('/etc/passwd')).toThrow('not a URL');
+            expect(() => expectHttpUrl(42)).toThrow('expected a string');
+        });
+    });
+
+    describe('Argument checks', () => {
+        it('should accept the expected types', () => {
+            expect(expectString('x', 'url')).toBe('x');
+            expect(expectNumber(3, 'priority')).toBe(3);
+            expect(expectOptionalNumber(undefined, 'length')).toBeUndefined();
+            expect(expectStringArray(['a', 'b'], 'paths')).toEqual(['a', 'b']);
+            expect(expectOptions(undefined)).toEqual({});
+            expect(expectOptionalHeaders({ Authorization: 'Basic abc' })).toEqual({ Authorization: 'Basic abc' });
+        });
+
+        it('should reject other types', () => {
+            expect(() => expectString(1, 'url')).toThrow('Invalid url');
+            expect(() => expectNumber(NaN, 'priority')).toThrow(FileAccessError);
+            expect(() => expectNumber('5', 'priority')).toThrow(FileAccessError);
+            expect(() => expectStringArray(['a', 1], 'paths')).toThrow(FileAccessError);
+            expect(() => expectOptions([])).toThrow(FileAccessError);
+            expect(() => expectOptionalHeaders({ Cookie: 1 })).toThrow(FileAccessError);
+        });
+    });
+});
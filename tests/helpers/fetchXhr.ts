@@ -0,0 +1,65 @@
+/**
+ * Fetch-backed XMLHttpRequest
+ *
+ * Just enough of XMLHttpRequest for the cloud API's progress-reporting
+ * uploads to run under Node: requests go through the global `fetch` (a mock
+ * or the local cloud job stand-in), and upload progress is reported halfway
+ * and when the request is done.
+ */
+
+type Handler = (() => void) | null;
+
+export class FetchBackedXhr {
+    status = 0;
+    response: unknown = null;
+    responseType = '';
+    upload: { onprogress: ((event: ProgressEvent) => void) | null } = { onprogress: null };
+    onload: Handler = null;
+    onerror: Handler = null;
+    onabort: Handler = null;
+
+    private method = 'GET';
+    private url = '';
+    private headers: Record<string, string> = {};
+    private controller = new AbortController();
+
+    open(method: string, url: string): void {
+        this.method = method;
+        this.url = url;
+    }
+
+    setRequestHeader(name: string, value: string): void {
+        this.headers[name] = value;
+    }
+
+    abort(): void {
+        this.controller.abort();
+    }
+
+    send(body: BodyInit): void {
+        void this.run(body);
+    }
+
+    private async run(body: BodyInit): Promise<void> {
+        const total = body instanceof FormData
+            ? [...body.values()].reduce((sum, value) => sum + (value instanceof Blob ? value.size : String(value).length), 0)
+            : 0;
+        const progress = (loaded: number) => this.upload.onprogress?.({ lengthComputable: true, loaded, total } as ProgressEvent);
+
+        try {
+            progress(Math.floor(total / 2));
+            const response = await fetch(this.url, { method: this.method, headers: this.headers, body, signal: this.controller.signal });
+            progress(total);
+            this.status = response.status ?? (response.ok ? 200 : 0);
+            this.response = await response.json().catch(() => null);
+            this.onload?.();
+        } catch {
+            if (this.controller.signal.aborted) this.onabort?.();
+            else this.onerror?.();
+        }
+    }
+}
+
+export function installFetchBackedXhr(): void {
+    global.XMLHttpRequest = FetchBackedXhr as unknown as typeof XMLHttpRequest;
+}
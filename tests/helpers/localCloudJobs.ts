@@ -0,0 +1,183 @@
+/**
+ * Local Cloud Jobs
+ *
+ * An in-process stand-in for the backend's job endpoints (whole-file or
+ * chunked upload, status, results, cancel) that answers `fetch` calls to them, so uploads,
+ * job tracking, resuming after a restart and cancelling can be exercised
+ * without the cloud. Chunks can be made to fail, optionally after part of
+ * them arrived. After the upload each status poll moves a job one stage on;
+ * results are the fake provider's fixture transcript and segments.
+ */
+
+import { CLOUD_CONFIG } from '../../src/config/cloud';
+import type { CloudJobResults, CloudJobStatus } from '../../src/services/cloudApi';
+import { buildFixtureDetection, buildFixtureTranscript } from '../../src/services/fakeProvider';
+
+const STAGES: CloudJobStatus['status'][] = ['pending', 'transcribing', 'detecting_basic', 'completed'];
+
+export interface LocalCloudJob {
+    jobId: string;
+    durationSeconds: number;
+    polls: number;
+    status: CloudJobStatus['status'] | 'cancelled';
+    uploadedBytes: number;
+    totalBytes: number;
+    error?: string;
+}
+
+export interface ChunkFailure {
+    /** Keep this many bytes of the chunk before failing */
+    keepBytes?: number;
+    /** Drop the connection instead of answering 503 */
+    network?: boolean;
+}
+
+export interface LocalCloudJobsOptions {
+    /** Status polls before a job completes */
+    pollsToComplete?: number;
+}
+
+export interface LocalCloudJobs {
+    fetch: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+    jobs: Map<string, LocalCloudJob>;
+    uploads: number; // Uploads started
+    chunks: number; // Chunk requests, including failed ones
+    /** A job as if it had been uploaded earlier (e.g. before a restart) */
+    createJob: (durationSeconds?: number) => string;
+    failJob: (jobId: string, error: string) => void;
+    /** The next chunk requests fail, in order */
+    failNextChunks: (...failures: ChunkFailure[]) => void;
+}
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+export function createLocalCloudJobs(options: LocalCloudJobsOptions = {}): LocalCloudJobs {
+    const pollsToComplete = Math.max(1, options.pollsToComplete ?? STAGES.length - 1);
+    let nextId = 1;
+
+    const stageFor = (polls: number): CloudJobStatus['status'] =>
+        polls >= pollsToComplete ? 'completed' : STAGES[Math.min(polls, STAGES.length - 2)];
+
+    const describe = (job: LocalCloudJob): CloudJobStatus => {
+        const now = new Date().toISOString();
+        return {
+            jobId: job.jobId,
+            status: job.status === 'cancelled' ? 'failed' : job.status,
+            progress: Math.round(Math.min(1, job.polls / pollsToComplete) * 100),
+            uploadedBytes: job.uploadedBytes,
+            totalBytes: job.totalBytes,
+            error: job.status === 'cancelled' ? 'Job cancelled' : job.error,
+            createdAt: now,
+            updatedAt: now,
+        };
+    };
+
+    const results = (job: LocalCloudJob): CloudJobResults => {
+        const transcript = buildFixtureTranscript({ id: 0, duration: job.durationSeconds });
+        const detection = buildFixtureDetection(transcript);
+        return {
+            jobId: job.jobId,
+            episodeId: 0,
+            transcript: {
+                id: 0,
+                text: transcript.text,
+                segments: transcript.segments,
+                language: transcript.language,
+                duration: transcript.duration,
+                wordCount: transcript.text.split(' ').length,
+            },
+            ...detection,
+        };
+    };
+
+    const chunkFailures: ChunkFailure[] = [];
+
+    const startJob = (job: Omit<LocalCloudJob, 'jobId' | 'polls'>) => {
+        const jobId = `local-job-${nextId++}`;
+        backend.jobs.set(jobId, { ...job, jobId, polls: 0 });
+        return jobId;
+    };
+
+    const receiveChunk = (job: LocalCloudJob, offset: number, body: BodyInit | null | undefined) => {
+        const length = body instanceof ArrayBuffer ? body.byteLength : 0;
+        if (job.status !== 'uploading') return json({ error: 'Job is not uploading' }, 409);
+        if (offset !== job.uploadedBytes) return json({ error: 'Unexpected offset', uploadedBytes: job.uploadedBytes }, 409);
+
+        const failure = chunkFailures.shift();
+        if (failure) {
+            job.uploadedBytes += Math.min(length, failure.keepBytes ?? 0);
+            if (failure.network) throw new TypeError('Failed to fetch');
+            return json({ error: 'Service unavailable' }, 503);
+        }
+
+        job.uploadedBytes = Math.min(job.totalBytes, offset + length);
+        return json({ uploadedBytes: job.uploadedBytes });
+    };
+
+    const backend: LocalCloudJobs = {
+        jobs: new Map(),
+        uploads: 0,
+        chunks: 0,
+
+        createJob: (durationSeconds = 0) => startJob({ durationSeconds, status: 'pending', uploadedBytes: 0, totalBytes: 0 }),
+
+        failJob: (jobId, error) => {
+            const job = backend.jobs.get(jobId);
+            if (job) Object.assign(job, { status: 'failed', error });
+        },
+
+        failNextChunks: (...failures) => {
+            chunkFailures.push(...failures);
+        },
+
+        fetch: async (input, init) => {
+            init?.signal?.throwIfAborted();
+            const url = new URL(input instanceof Request ? input.url : input.toString());
+            const job = backend.jobs.get(url.searchParams.get('jobId') ?? '');
+
+            switch (url.pathname) {
+                case CLOUD_CONFIG.ENDPOINTS.UPLOAD_EPISODE: {
+                    if (init?.body instanceof FormData) {
+                        const file = init.body.get('file');
+                        const metadata = JSON.parse(String(init.body.get('metadata') ?? '{}'));
+                        const size = file instanceof Blob ? file.size : 0;
+                        backend.uploads++;
+                        return json({
+                            jobId: startJob({ durationSeconds: metadata.durationSeconds ?? 0, status: 'pending', uploadedBytes: size, totalBytes: size })
+                        });
+                    }
+                    const { totalBytes, metadata } = JSON.parse(typeof init?.body === 'string' ? init.body : '{}');
+                    backend.uploads++;
+                    return json({
+                        jobId: startJob({ durationSeconds: metadata?.durationSeconds ?? 0, status: 'uploading', uploadedBytes: 0, totalBytes: totalBytes ?? 0 })
+                    });
+                }
+                case CLOUD_CONFIG.ENDPOINTS.UPLOAD_CHUNK:
+                    backend.chunks++;
+                    if (!job) return json({ error: 'Job not found' }, 404);
+                    return receiveChunk(job, Number(url.searchParams.get('offset')), init?.body);
+                case CLOUD_CONFIG.ENDPOINTS.COMPLETE_UPLOAD:
+                    if (!job) return json({ error: 'Job not found' }, 404);
+                    if (job.uploadedBytes < job.totalBytes) return json({ error: 'Upload is incomplete' }, 409);
+                    job.status = 'pending';
+                    return json({ jobId: job.jobId });
+                case CLOUD_CONFIG.ENDPOINTS.GET_JOB_STATUS:
+                    if (!job) return json({ error: 'Job not found' }, 404);
+                    if (job.status !== 'uploading' && job.status !== 'failed' && job.status !== 'cancelled') job.status = stageFor(++job.polls);
+                    return json(describe(job));
+                case CLOUD_CONFIG.ENDPOINTS.GET_JOB_RESULTS:
+                    if (job?.status !== 'completed') return json({ error: 'Job not completed' }, 404);
+                    return json(results(job));
+                case CLOUD_CONFIG.ENDPOINTS.CANCEL_JOB:
+                    if (!job) return json({ error: 'Job not found' }, 404);
+                    job.status = 'cancelled';
+                    return json({ cancelled: true });
+                default:
+                    return json({ error: `No local stand-in for ${url.pathname}` }, 404);
+            }
+        },
+    };
+
+    return backend;
+}
@@ -0,0 +1,95 @@
+/**
+ * Local Files Tests
+ *
+ * Verifies how imported audio files map onto episodes of the Local Files
+ * pseudo-podcast.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+    buildLocalEpisode,
+    createLocalFilesPodcast,
+    getLocalEpisodes,
+    isLocalFilesUrl,
+    LOCAL_FILES_FEED_URL,
+    LOCAL_FILES_PODCAST_ID,
+} from '../src/services/localFiles';
+import type { LocalAudioFileInfo } from '../src/types/electron';
+import type { Episode } from '../src/types';
+
+// localFiles imports the podcast store, which pulls in the Supabase client
+vi.mock('../src/services/supabaseClient', () => ({
+    getAccessToken: vi.fn(async () => 'mock-access-token')
+}));
+
+const FILE: LocalAudioFileInfo = {
+    path: '/home/me/Talks/keynote.m4a',
+    fileName: 'keynote.m4a',
+    fileUrl: 'file:///home/me/Talks/keynote.m4a',
+    size: 1024,
+    modifiedAt: Date.UTC(2024, 4, 1),
+    title: 'Opening Keynote',
+    artist: 'Jane Speaker',
+    album: 'DevConf 2024',
+    comment: 'Recorded live',
+    duration: 1799.6,
+    hasArtwork: true,
+};
+
+describe('Local Files', () => {
+    it('should identify the Local Files pseudo-feed', () => {
+        expect(isLocalFilesUrl(LOCAL_FILES_FEED_URL)).toBe(true);
+        expect(isLocalFilesUrl('https://example.com/feed.xml')).toBe(false);
+        expect(isLocalFilesUrl(undefined)).toBe(false);
+    });
+
+    it('should create the pseudo-podcast with a stable synthetic ID', () => {
+        const podcast = createLocalFilesPodcast(1000);
+        expect(podcast.id).toBe(LOCAL_FILES_PODCAST_ID);
+        expect(podcast.id).toBeLessThan(0);
+        expect(podcast.url).toBe(LOCAL_FILES_FEED_URL);
+        expect(podcast.autoAddToQueue).toBe(false);
+    });
+
+    it('should map tags onto the episode', () => {
+        const ep = buildLocalEpisode(FILE, Date.UTC(2024, 5, 1));
+        expect(ep.title).toBe('Opening Keynote');
+        expect(ep.description).toBe('Jane Speaker - DevConf 2024\n\nRecorded live');
+        expect(ep.duration).toBe(1800);
+        expect(ep.enclosureType).toBe('audio/mp4');
+        expect(ep.fileExtension).toBe('m4a');
+        expect(ep.enclosureLength).toBe(1024);
+        expect(ep.datePublished).toBe(Date.UTC(2024, 4, 1) / 1000);
+        expect(ep.feedId).toBe(LOCAL_FILES_PODCAST_ID);
+        expect(ep.feedUrl).toBe(LOCAL_FILES_FEED_URL);
+    });
+
+    it('should fall back to the file name without tags', () => {
+        const ep = buildLocalEpisode({ path: '/tmp/My Recording.wav', fileName: 'My Recording.wav' }, 5000);
+        expect(ep.title).toBe('My Recording');
+        expect(ep.description).toBe('');
+        expect(ep.datePublished).toBe(5);
+        expect(ep.enclosureType).toBe('audio/wav');
+    });
+
+    it('should give the same file the same ID on re-import', () => {
+        const first = buildLocalEpisode(FILE, 1);
+        const again = buildLocalEpisode({ ...FILE, path: '/elsewhere/keynote.m4a' }, 2);
+        const edited = buildLocalEpisode({ ...FILE, size: 2048 }, 1);
+        expect(again.id).toBe(first.id);
+        expect(edited.id).not.toBe(first.id);
+        expect(first.id).toBeLessThan(0);
+    });
+
+    it('should default unknown extensions to MP3', () => {
+        expect(buildLocalEpisode({ path: '/tmp/track.FLAC', fileName: 'track.FLAC' }).fileExtension).toBe('flac');
+        expect(buildLocalEpisode({ path: '/tmp/no-extension', fileName: 'no-extension' }).enclosureType).toBe('audio/mpeg');
+    });
+
+    it('should list only imported episodes, newest first', () => {
+        const older = { ...buildLocalEpisode({ ...FILE, fileName: 'a.mp3', modifiedAt: 1000 }), id: 1 };
+        const newer = { ...buildLocalEpisode({ ...FILE, fileName: 'b.mp3', modifiedAt: 2000 }), id: 2 };
+        const other = { ...newer, id: 3, feedId: 42 } as Episode;
+        expect(getLocalEpisodes({ 1: older, 2: newer, 3: other }).map(ep => ep.id)).toEqual([2, 1]);
+    });
+});
@@ -0,0 +1,145 @@
+/**
+ * Local Transcription Tests
+ *
+ * Verifies the whisper.cpp side of local transcription: finding the binary,
+ * the ffmpeg and whisper arguments, progress lines, and turning whisper's JSON
+ * output into segments with word timings. Also covers the renderer helpers
+ * that pick the language and the order of providers.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+    buildWavArgs,
+    buildWhisperArgs,
+    expectLocalTranscriptionOptions,
+    findWhisperBinary,
+    getLocalTranscriptionStatus,
+    parseWhisperOutput,
+    parseWhisperProgress,
+} from '../electron/localTranscription';
+import { getWhisperLanguage, toLocalTranscript } from '../src/services/localTranscription';
+import { getTranscriptionOrder } from '../src/services/processingProviders';
+
+let dir: string;
+
+const token = (text: string, from: number, to: number) => ({ text, offsets: { from, to } });
+
+const whisperOutput = {
+    result: { language: 'en' },
+    transcription: [
+        {
+            offsets: { from: 0, to: 2500 },
+            text: ' Hello world.',
+            tokens: [token('[_BEG_]', 0, 0), token(' Hel', 0, 400), token('lo', 400, 800), token(' world', 900, 2000), token('.', 2000, 2100), token('[_TT_125]', 2500, 2500)],
+        },
+        { offsets: { from: 2500, to: 2600 }, text: '  ', tokens: [] },
+        {
+            offsets: { from: 2600, to: 4000 },
+            text: ' Thanks for listening',
+            tokens: [token(' Thanks', 2600, 3000), token(' for', 3000, 3200), token(' listening', 3200, 4000)],
+        },
+    ],
+};
+
+describe('Local Transcription', () => {
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'whisper-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    describe('Setup', () => {
+        it('should find whisper.cpp on the search path', () => {
+            const bin = path.join(dir, 'bin');
+            fs.mkdirSync(bin);
+            expect(findWhisperBinary([dir, bin].join(path.delimiter), 'linux')).toBeNull();
+
+            fs.writeFileSync(path.join(bin, 'whisper-cli'), '');
+            expect(findWhisperBinary([dir, bin].join(path.delimiter), 'linux')).toBe(path.join(bin, 'whisper-cli'));
+            expect(findWhisperBinary(undefined, 'linux')).toBeNull();
+        });
+
+        it('should report what is missing', () => {
+            const binary = path.join(dir, 'whisper-cli');
+            const model = path.join(dir, 'ggml-base.en.bin');
+            fs.writeFileSync(binary, '');
+
+            expect(getLocalTranscriptionStatus({ binaryPath: null, modelPath: null }, '').problem).toMatch(/not installed/);
+            expect(getLocalTranscriptionStatus({ binaryPath: binary, modelPath: null }, '').problem).toMatch(/No whisper model/);
+            expect(getLocalTranscriptionStatus({ binaryPath: binary, modelPath: model }, '').problem).toMatch(/Model file not found/);
+
+            fs.writeFileSync(model, '');
+            expect(getLocalTranscriptionStatus({ binaryPath: binary, modelPath: model }, '')).toEqual({
+                binaryPath: binary,
+                modelPath: model,
+                available: true,
+                problem: undefined,
+            });
+        });
+
+        it('should only accept language codes', () => {
+            expect(expectLocalTranscriptionOptions(undefined)).toEqual({ language: 'auto' });
+            expect(expectLocalTranscriptionOptions({ language: 'de' })).toEqual({ language: 'de' });
+            expect(() => expectLocalTranscriptionOptions({ language: '--help' })).toThrow('Invalid language');
+        });
+    });
+
+    describe('Running', () => {
+        it('should convert to 16 kHz mono WAV and ask whisper for full JSON', () => {
+            expect(buildWavArgs('/in/1.mp4', '/tmp/a.wav')).toEqual(['-i', '/in/1.mp4', '-vn', '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', '-y', '/tmp/a.wav']);
+            expect(buildWhisperArgs({ modelPath: '/m.bin', wavPath: '/tmp/a.wav', outputBase: '/tmp/t', language: 'en', threads: 0 })).toEqual([
+                '-m', '/m.bin', '-f', '/tmp/a.wav', '-l', 'en', '-t', '1', '-oj', '-ojf', '-of', '/tmp/t', '-pp',
+            ]);
+        });
+
+        it('should read progress lines', () => {
+            expect(parseWhisperProgress('whisper_print_progress_callback: progress =  40%')).toBe(0.4);
+            expect(parseWhisperProgress('whisper_init_from_file: loading model')).toBeNull();
+        });
+    });
+
+    describe('parseWhisperOutput', () => {
+        it('should build segments with word timings', () => {
+            const result = parseWhisperOutput(JSON.stringify(whisperOutput));
+            expect(result.text).toBe('Hello world. Thanks for listening');
+            expect(result.language).toBe('en');
+            expect(result.duration).toBe(4);
+            expect(result.segments.map(segment => segment.id)).toEqual([0, 1]);
+            expect(result.segments[0]).toMatchObject({ start: 0, end: 2.5, text: 'Hello world.' });
+            expect(result.segments[0].words).toEqual([
+                { word: 'Hello', startTime: 0, endTime: 0.8 },
+                { word: 'world.', startTime: 0.9, endTime: 2.1 },
+            ]);
+        });
+
+        it('should reject output without a transcription', () => {
+            expect(() => parseWhisperOutput('not json')).toThrow('not valid JSON');
+            expect(() => parseWhisperOutput('{}')).toThrow('no transcription');
+        });
+    });
+
+    describe('Renderer helpers', () => {
+        it('should pass the feed language to whisper', () => {
+            expect(getWhisperLanguage('en-us')).toBe('en');
+            expect(getWhisperLanguage('DE_at')).toBe('de');
+            expect(getWhisperLanguage(undefined)).toBe('auto');
+            expect(getWhisperLanguage('english')).toBe('auto');
+        });
+
+        it('should try providers in the order of the mode', () => {
+            expect(getTranscriptionOrder('cloud')).toEqual(['cloud']);
+            expect(getTranscriptionOrder('local')).toEqual(['local']);
+            expect(getTranscriptionOrder('local-first')).toEqual(['local', 'cloud']);
+        });
+
+        it('should mark the transcript as local', () => {
+            const transcript = toLocalTranscript(7, parseWhisperOutput(JSON.stringify(whisperOutput)), 123);
+            expect(transcript).toMatchObject({ episodeId: 7, source: 'local', duration: 4, createdAt: 123 });
+        });
+    });
+});
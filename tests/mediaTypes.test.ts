@@ -0,0 +1,105 @@
+/**
+ * Media Types Tests
+ *
+ * Verifies how enclosures map to file extensions and MIME types, header
+ * sniffing of common audio containers, and episode filenames.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    DEFAULT_MEDIA_TYPE,
+    getCompressedFilename,
+    getEpisodeFilename,
+    getEpisodeMimeType,
+    getExtensionForMimeType,
+    getExtensionFromUrl,
+    hasVideo,
+    reconcileMediaType,
+    resolveMediaType,
+    sniffMediaType,
+} from '../src/services/mediaTypes';
+
+const bytes = (...parts: (string | number[])[]): Uint8Array =>
+    Uint8Array.from(parts.flatMap(part => (typeof part === 'string' ? [...part].map(c => c.charCodeAt(0)) : part)));
+
+describe('Media Types', () => {
+    describe('Enclosures', () => {
+        it('should map declared MIME types, including aliases and parameters', () => {
+            expect(getExtensionForMimeType('audio/x-m4a')).toBe('m4a');
+            expect(getExtensionForMimeType('audio/ogg; codecs=opus')).toBe('ogg');
+            expect(getExtensionForMimeType('application/octet-stream')).toBeNull();
+            expect(getExtensionForMimeType(undefined)).toBeNull();
+        });
+
+        it('should read the extension from URLs and file names', () => {
+            expect(getExtensionFromUrl('https://cdn.example.com/ep/42.M4A?token=abc')).toBe('m4a');
+            expect(getExtensionFromUrl('My Recording.flac')).toBe('flac');
+            expect(getExtensionFromUrl('https://cdn.example.com/play/42')).toBeNull();
+            expect(getExtensionFromUrl('https://cdn.example.com/page.html')).toBeNull();
+        });
+
+        it('should prefer the declared type, then the URL, then MP3', () => {
+            expect(resolveMediaType('audio/mp4', 'https://x.com/a.mp3')).toEqual({ extension: 'm4a', mimeType: 'audio/mp4' });
+            expect(resolveMediaType('application/octet-stream', 'https://x.com/a.opus')).toEqual({ extension: 'opus', mimeType: 'audio/ogg' });
+            expect(resolveMediaType(undefined, 'https://x.com/stream')).toEqual(DEFAULT_MEDIA_TYPE);
+        });
+
+        it('should keep video enclosures as video', () => {
+            expect(resolveMediaType('video/mp4', undefined)).toEqual({ extension: 'mp4', mimeType: 'video/mp4' });
+            expect(resolveMediaType('video/webm', undefined)).toEqual({ extension: 'webm', mimeType: 'video/webm' });
+            expect(resolveMediaType('audio/webm', undefined).mimeType).toBe('audio/webm');
+        });
+    });
+
+    describe('Sniffing', () => {
+        it('should recognise common containers', () => {
+            expect(sniffMediaType(bytes([0, 0, 0, 32], 'ftypM4A '))?.extension).toBe('m4a');
+            expect(sniffMediaType(bytes([0, 0, 0, 32], 'ftypM4B '))?.extension).toBe('m4b');
+            expect(sniffMediaType(bytes('OggS', new Array(24).fill(0), 'OpusHead'))?.extension).toBe('opus');
+            expect(sniffMediaType(bytes('fLaC', [0, 0, 0, 34]))?.extension).toBe('flac');
+            expect(sniffMediaType(bytes('RIFF', [0, 0, 0, 0], 'WAVE'))?.extension).toBe('wav');
+            expect(sniffMediaType(bytes([0x1a, 0x45, 0xdf, 0xa3]))?.extension).toBe('webm');
+        });
+
+        it('should tell MP3 and ADTS frames apart', () => {
+            expect(sniffMediaType(bytes('ID3', [4, 0]))?.extension).toBe('mp3');
+            expect(sniffMediaType(bytes([0xff, 0xfb, 0x90, 0x64]))?.extension).toBe('mp3');
+            expect(sniffMediaType(bytes([0xff, 0xf1, 0x50, 0x80]))?.extension).toBe('aac');
+        });
+
+        it('should give up on unknown or short headers', () => {
+            expect(sniffMediaType(bytes('<html>'))).toBeNull();
+            expect(sniffMediaType(bytes('ID'))).toBeNull();
+        });
+
+        it('should only override the declared type when the format differs', () => {
+            const m4b = { extension: 'm4b', mimeType: 'audio/mp4' };
+            expect(reconcileMediaType(m4b, { extension: 'm4a', mimeType: 'audio/mp4' })).toBe(m4b);
+            expect(reconcileMediaType(m4b, null)).toBe(m4b);
+            expect(reconcileMediaType(DEFAULT_MEDIA_TYPE, m4b)).toBe(m4b);
+            // Sniffing can't see video tracks, so an MP4 stays whatever the feed says
+            const video = { extension: 'mp4', mimeType: 'video/mp4' };
+            expect(reconcileMediaType(video, { extension: 'm4a', mimeType: 'audio/mp4' })).toBe(video);
+        });
+    });
+
+    describe('Episode files', () => {
+        it('should default episodes without a recorded type to MP3', () => {
+            expect(getEpisodeFilename({ id: 7 })).toBe('7.mp3');
+            expect(getEpisodeMimeType({})).toBe('audio/mpeg');
+        });
+
+        it('should name files by the recorded extension', () => {
+            expect(getEpisodeFilename({ id: -12, fileExtension: 'ogg' })).toBe('-12.ogg');
+            expect(getEpisodeMimeType({ fileExtension: 'm4a' })).toBe('audio/mp4');
+            expect(getCompressedFilename(7)).toBe('7-compressed.mp3');
+        });
+
+        it('should show video for video enclosures unless only the audio was kept', () => {
+            expect(hasVideo({ isDownloaded: false, enclosureType: 'video/mp4' })).toBe(true);
+            expect(hasVideo({ isDownloaded: true, enclosureType: 'video/mp4', mimeType: 'video/mp4' })).toBe(true);
+            expect(hasVideo({ isDownloaded: true, enclosureType: 'video/mp4', mimeType: 'audio/mp4' })).toBe(false);
+            expect(hasVideo({ isDownloaded: false, enclosureType: 'audio/mpeg' })).toBe(false);
+        });
+    });
+});
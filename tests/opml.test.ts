@@ -0,0 +1,102 @@
+/**
+ * OPML Service Tests
+ *
+ * Verifies OPML parsing from other players and that our own exports
+ * round-trip the per-podcast autoAddToQueue setting.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseOpml, buildOpml, OpmlParseError, OPML_NAMESPACE } from '../src/services/opml';
+import type { Podcast } from '../src/types';
+
+const createPodcast = (overrides: Partial<Podcast>): Podcast => ({
+    id: 1,
+    title: 'Podcast',
+    url: 'https://example.com/feed.xml',
+    originalUrl: 'https://example.com/feed.xml',
+    link: 'https://example.com',
+    description: '',
+    author: '',
+    ownerName: '',
+    image: '',
+    artwork: '',
+    lastUpdateTime: 0,
+    contentType: 'application/rss+xml',
+    itunesId: null,
+    generator: '',
+    language: 'en',
+    episodeCount: 0,
+    autoAddToQueue: true,
+    subscribedAt: 0,
+    ...overrides,
+});
+
+describe('OPML Service', () => {
+    describe('parseOpml', () => {
+        it('should read feeds from nested category outlines', () => {
+            const xml = `<?xml version="1.0"?>
+<opml version="1.0">
+  <head><title>Other Player</title></head>
+  <body>
+    <outline text="Tech">
+      <outline type="rss" text="Show A" xmlUrl="https://a.example.com/rss"/>
+      <outline type="rss" title="Show B" text="B" xmlUrl="https://b.example.com/rss"/>
+    </outline>
+    <outline type="rss" text="Show C &amp; Co" xmlUrl="https://c.example.com/rss?x=1&amp;y=2"/>
+  </body>
+</opml>`;
+
+            const outlines = parseOpml(xml);
+            expect(outlines).toEqual([
+                { feedUrl: 'https://a.example.com/rss', title: 'Show A', autoAddToQueue: undefined },
+                { feedUrl: 'https://b.example.com/rss', title: 'Show B', autoAddToQueue: undefined },
+                { feedUrl: 'https://c.example.com/rss?x=1&y=2', title: 'Show C & Co', autoAddToQueue: undefined },
+            ]);
+        });
+
+        it('should skip outlines without a feed URL and de-duplicate', () => {
+            const xml = `<opml><body>
+                <outline text="Folder"/>
+                <outline text="A" xmlUrl="https://a.example.com/rss"/>
+                <outline text="A again" xmlUrl="https://a.example.com/rss"/>
+            </body></opml>`;
+
+            expect(parseOpml(xml)).toHaveLength(1);
+        });
+
+        it('should read our custom attribute under any bound prefix', () => {
+            const xml = `<opml version="2.0" xmlns:x="${OPML_NAMESPACE}"><body>
+                <outline text="A" xmlUrl="https://a.example.com/rss" x:autoAddToQueue="false"/>
+            </body></opml>`;
+
+            expect(parseOpml(xml)[0].autoAddToQueue).toBe(false);
+        });
+
+        it('should reject documents that are not OPML', () => {
+            expect(() => parseOpml('<rss><channel/></rss>')).toThrow(OpmlParseError);
+            expect(() => parseOpml('')).toThrow(OpmlParseError);
+        });
+    });
+
+    describe('buildOpml', () => {
+        it('should round-trip subscriptions including autoAddToQueue', () => {
+            const podcasts = [
+                createPodcast({ id: 1, title: 'Zebra "Talk"', url: 'https://z.example.com/feed?a=1&b=2', autoAddToQueue: false }),
+                createPodcast({ id: 2, title: 'Alpha <Show>', url: 'https://a.example.com/feed', autoAddToQueue: true }),
+            ];
+
+            const xml = buildOpml(podcasts);
+            expect(xml).toContain('<opml version="2.0"');
+
+            const outlines = parseOpml(xml);
+            expect(outlines).toEqual([
+                { feedUrl: 'https://a.example.com/feed', title: 'Alpha <Show>', autoAddToQueue: true },
+                { feedUrl: 'https://z.example.com/feed?a=1&b=2', title: 'Zebra "Talk"', autoAddToQueue: false },
+            ]);
+        });
+
+        it('should produce an empty body when there are no subscriptions', () => {
+            expect(parseOpml(buildOpml([]))).toEqual([]);
+        });
+    });
+});
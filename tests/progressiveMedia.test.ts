@@ -0,0 +1,137 @@
+/**
+ * Progressive Media Tests
+ *
+ * Verifies Range header handling for the local-media protocol, reading a
+ * file that is still being written (and renamed when done), and when a
+ * running download has enough bytes to start playing.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createGrowingFileStream, parseRangeHeader, type GrowingFileSource } from '../electron/progressiveMedia';
+import { canPlayWhileDownloading, createEpisodeDownload, PROGRESSIVE_START_BYTES } from '../src/services/downloads';
+
+let dir: string;
+
+const collect = async (stream: NodeJS.ReadableStream): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+};
+
+const bytes = (length: number, offset = 0) => Buffer.from(Array.from({ length }, (_, i) => (i + offset) % 256));
+
+describe('Progressive Media', () => {
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'progressive-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    describe('parseRangeHeader', () => {
+        it('should serve the whole file without a usable range', () => {
+            expect(parseRangeHeader(null, 1000)).toBeNull();
+            expect(parseRangeHeader('bytes=-', 1000)).toBeNull();
+            expect(parseRangeHeader('items=0-10', 1000)).toBeNull();
+            expect(parseRangeHeader('bytes=500-100', 1000)).toBeNull();
+        });
+
+        it('should resolve open, closed and suffix ranges', () => {
+            expect(parseRangeHeader('bytes=0-', 1000)).toEqual({ start: 0, end: 999 });
+            expect(parseRangeHeader('bytes=100-199', 1000)).toEqual({ start: 100, end: 199 });
+            expect(parseRangeHeader('bytes=-100', 1000)).toEqual({ start: 900, end: 999 });
+            expect(parseRangeHeader('bytes=-5000', 1000)).toEqual({ start: 0, end: 999 });
+        });
+
+        it('should clamp the end and use the first of several ranges', () => {
+            expect(parseRangeHeader('bytes=900-5000', 1000)).toEqual({ start: 900, end: 999 });
+            expect(parseRangeHeader('bytes=0-9, 20-29', 1000)).toEqual({ start: 0, end: 9 });
+        });
+
+        it('should reject ranges past the end', () => {
+            expect(parseRangeHeader('bytes=1000-', 1000)).toBe('unsatisfiable');
+            expect(parseRangeHeader('bytes=-0', 1000)).toBe('unsatisfiable');
+            expect(parseRangeHeader('bytes=0-', 0)).toBe('unsatisfiable');
+        });
+    });
+
+    describe('createGrowingFileStream', () => {
+        it('should wait for bytes that have not arrived yet', async () => {
+            const partPath = path.join(dir, '1.mp3.part');
+            fs.writeFileSync(partPath, bytes(100));
+            let complete = false;
+            const getSource: GrowingFileSource = async () =>
+                ({ path: partPath, size: fs.statSync(partPath).size, complete });
+
+            const reading = collect(createGrowingFileStream(getSource, 50, 249, { pollMs: 5 }));
+            setTimeout(() => {
+                fs.appendFileSync(partPath, bytes(200, 100));
+                complete = true;
+            }, 30);
+
+            expect(await reading).toEqual(bytes(200, 50));
+        });
+
+        it('should follow the file when the download renames it', async () => {
+            const partPath = path.join(dir, '1.mp3.part');
+            const finalPath = path.join(dir, '1.mp3');
+            fs.writeFileSync(partPath, bytes(10));
+            const getSource: GrowingFileSource = async () => fs.existsSync(partPath)
+                ? { path: partPath, size: fs.statSync(partPath).size, complete: false }
+                : { path: finalPath, size: fs.statSync(finalPath).size, complete: true };
+
+            const reading = collect(createGrowingFileStream(getSource, 0, null, { pollMs: 5, chunkSize: 4 }));
+            setTimeout(() => {
+                fs.appendFileSync(partPath, bytes(20, 10));
+                fs.renameSync(partPath, finalPath);
+            }, 30);
+
+            expect(await reading).toEqual(bytes(30));
+        });
+
+        it('should fail when the download stops', async () => {
+            const partPath = path.join(dir, '1.mp3.part');
+            fs.writeFileSync(partPath, bytes(10));
+            let stopped = false;
+            const getSource: GrowingFileSource = async () =>
+                stopped ? null : { path: partPath, size: 10, complete: false };
+
+            const reading = collect(createGrowingFileStream(getSource, 0, 99, { pollMs: 5 }));
+            setTimeout(() => { stopped = true; }, 20);
+
+            await expect(reading).rejects.toThrow('Download stopped');
+        });
+
+        it('should fail when no bytes arrive for too long', async () => {
+            const partPath = path.join(dir, '1.mp3.part');
+            fs.writeFileSync(partPath, bytes(10));
+            const getSource: GrowingFileSource = async () => ({ path: partPath, size: 10, complete: false });
+
+            await expect(collect(createGrowingFileStream(getSource, 0, 99, { pollMs: 5, stallTimeoutMs: 20 })))
+                .rejects.toThrow('stalled');
+        });
+    });
+
+    describe('canPlayWhileDownloading', () => {
+        const download = (overrides: object) => ({ ...createEpisodeDownload(1, '1.mp3', 0), ...overrides });
+
+        it('should wait for the first bytes', () => {
+            expect(canPlayWhileDownloading(undefined)).toBe(false);
+            expect(canPlayWhileDownloading(download({ status: 'queued' }))).toBe(false);
+            expect(canPlayWhileDownloading(download({ status: 'downloading', receivedBytes: 1000, totalBytes: 50_000_000 }))).toBe(false);
+            expect(canPlayWhileDownloading(download({ status: 'downloading', receivedBytes: PROGRESSIVE_START_BYTES, totalBytes: 50_000_000 }))).toBe(true);
+        });
+
+        it('should accept small files once they are complete', () => {
+            expect(canPlayWhileDownloading(download({ status: 'downloading', receivedBytes: 2000, totalBytes: 2000 }))).toBe(true);
+        });
+
+        it('should not play failed downloads', () => {
+            expect(canPlayWhileDownloading(download({ status: 'failed', receivedBytes: PROGRESSIVE_START_BYTES }))).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,175 @@
+/**
+ * Publisher Transcripts Tests
+ *
+ * Verifies parsing of podcast:transcript formats (SRT, WebVTT, JSON, HTML)
+ * into our Transcript structure, and transcript link selection.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    parseSrt,
+    parseVtt,
+    parseJsonTranscript,
+    parseHtmlTranscript,
+    parseTimestamp,
+    rankTranscriptLinks,
+    getTranscriptFormat,
+    TranscriptParseError,
+} from '../src/services/publisherTranscripts';
+import { preprocessTranscript } from '../src/services/transcriptPreprocessor';
+
+describe('Publisher Transcripts', () => {
+    describe('parseTimestamp', () => {
+        it('should parse SRT, VTT and plain second timestamps', () => {
+            expect(parseTimestamp('00:01:02,500')).toBe(62.5);
+            expect(parseTimestamp('01:02:03.250')).toBe(3723.25);
+            expect(parseTimestamp('02:03.000')).toBe(123);
+            expect(parseTimestamp('12.5')).toBe(12.5);
+            expect(parseTimestamp('abc')).toBeNaN();
+        });
+    });
+
+    describe('parseSrt', () => {
+        const srt = [
+            '1',
+            '00:00:00,000 --> 00:00:02,000',
+            'Welcome to the',
+            'show.',
+            '',
+            '2',
+            '00:00:02,000 --> 00:00:04,000',
+            'Today we talk',
+            '',
+            '3',
+            '00:00:04,000 --> 00:00:06,000',
+            'about <i>parsers</i>.',
+            '',
+        ].join('\r\n');
+
+        const transcript = parseSrt(srt, 42);
+
+        it('should merge cues into sentence-level segments', () => {
+            expect(transcript.episodeId).toBe(42);
+            expect(transcript.source).toBe('publisher');
+            expect(transcript.segments).toHaveLength(2);
+            expect(transcript.segments[0]).toMatchObject({ start: 0, end: 2, text: 'Welcome to the show.' });
+            expect(transcript.segments[1]).toMatchObject({ start: 2, end: 6, text: 'Today we talk about parsers.' });
+            expect(transcript.text).toBe('Welcome to the show. Today we talk about parsers.');
+            expect(transcript.duration).toBe(6);
+        });
+
+        it('should interpolate word timings within each cue', () => {
+            const words = transcript.segments[0].words;
+            expect(words.map(w => w.word)).toEqual(['Welcome', 'to', 'the', 'show.']);
+            expect(words[0].startTime).toBe(0);
+            expect(words[3].endTime).toBeCloseTo(2);
+            // Longer words get proportionally more time
+            expect(words[0].endTime - words[0].startTime).toBeGreaterThan(words[1].endTime - words[1].startTime);
+            for (let i = 1; i < words.length; i++) {
+                expect(words[i].startTime).toBeCloseTo(words[i - 1].endTime);
+            }
+        });
+
+        it('should reject files without cues', () => {
+            expect(() => parseSrt('just some text', 1)).toThrow(TranscriptParseError);
+        });
+    });
+
+    describe('parseVtt', () => {
+        it('should parse speakers and ignore cue settings', () => {
+            const vtt = `WEBVTT
+
+00:00.000 --> 00:03.000 align:start
+<v Alice>Hi Bob.</v>
+
+00:03.000 --> 00:05.000
+<v Bob>Hi Alice, how are you?</v>
+`;
+            const transcript = parseVtt(vtt, 1);
+            expect(transcript.segments).toHaveLength(2);
+            expect(transcript.segments[0]).toMatchObject({ speaker: 'Alice', text: 'Hi Bob.', start: 0, end: 3 });
+            expect(transcript.segments[1]).toMatchObject({ speaker: 'Bob', start: 3, end: 5 });
+            expect(transcript.segments[1].words[0].speaker).toBe('Bob');
+        });
+
+        it('should require the WEBVTT header', () => {
+            expect(() => parseVtt('00:00.000 --> 00:01.000\nHi', 1)).toThrow(TranscriptParseError);
+        });
+    });
+
+    describe('parseJsonTranscript', () => {
+        it('should merge word-level entries into segments', () => {
+            const json = JSON.stringify({
+                version: '1.0.0',
+                segments: [
+                    { speaker: 'Host', startTime: 0, endTime: 0.5, body: 'Hello' },
+                    { speaker: 'Host', startTime: 0.5, endTime: 1, body: 'there.' },
+                    { speaker: 'Guest', startTime: 1.2, endTime: 1.8, body: 'Hey!' },
+                ],
+            });
+
+            const transcript = parseJsonTranscript(json, 7, 'de');
+            expect(transcript.language).toBe('de');
+            expect(transcript.segments).toHaveLength(2);
+            expect(transcript.segments[0]).toMatchObject({ speaker: 'Host', text: 'Hello there.', start: 0, end: 1 });
+            expect(transcript.segments[0].words.map(w => [w.word, w.startTime, w.endTime])).toEqual([
+                ['Hello', 0, 0.5],
+                ['there.', 0.5, 1],
+            ]);
+            expect(transcript.segments[1]).toMatchObject({ speaker: 'Guest', text: 'Hey!' });
+        });
+
+        it('should reject invalid JSON transcripts', () => {
+            expect(() => parseJsonTranscript('{', 1)).toThrow(TranscriptParseError);
+            expect(() => parseJsonTranscript('{"version":"1.0.0"}', 1)).toThrow(TranscriptParseError);
+        });
+    });
+
+    describe('parseHtmlTranscript', () => {
+        it('should read speakers, timestamps and paragraphs', () => {
+            const html = `<html><body>
+<cite>Alice:</cite>
+<time>00:00:00</time>
+<p>Welcome &amp; hello.</p>
+<cite>Bob:</cite>
+<time>00:00:10</time>
+<p>Thanks for having me.</p>
+</body></html>`;
+
+            const transcript = parseHtmlTranscript(html, 3);
+            expect(transcript.segments).toHaveLength(2);
+            expect(transcript.segments[0]).toMatchObject({ speaker: 'Alice', text: 'Welcome & hello.', start: 0, end: 10 });
+            expect(transcript.segments[1]).toMatchObject({ speaker: 'Bob', start: 10 });
+        });
+    });
+
+    describe('link selection', () => {
+        it('should detect formats from MIME type or extension', () => {
+            expect(getTranscriptFormat({ url: 'a', type: 'application/json' })).toBe('json');
+            expect(getTranscriptFormat({ url: 'a', type: 'application/x-subrip' })).toBe('srt');
+            expect(getTranscriptFormat({ url: 'https://x/t.vtt?sig=1', type: '' })).toBe('vtt');
+            expect(getTranscriptFormat({ url: 'https://x/t.txt', type: 'text/plain' })).toBeNull();
+        });
+
+        it('should prefer matching language, then timing precision, then full transcripts', () => {
+            const ranked = rankTranscriptLinks([
+                { url: 'html', type: 'text/html' },
+                { url: 'srt', type: 'application/srt' },
+                { url: 'vtt-captions', type: 'text/vtt', rel: 'captions' },
+                { url: 'vtt', type: 'text/vtt' },
+                { url: 'json-fr', type: 'application/json', language: 'fr' },
+                { url: 'plain', type: 'text/plain' },
+            ], 'en-us');
+
+            expect(ranked.map(l => l.url)).toEqual(['vtt', 'vtt-captions', 'srt', 'html', 'json-fr']);
+        });
+    });
+
+    it('should produce transcripts usable by the AI pre-processor', () => {
+        const transcript = parseVtt('WEBVTT\n\n00:00.000 --> 00:02.000\n<v Host>Hello world.</v>\n', 1);
+        const text = preprocessTranscript(transcript);
+        expect(text).toContain('[0:00]');
+        expect(text).toContain('(Host):');
+        expect(text).toContain('Hello world.');
+    });
+});
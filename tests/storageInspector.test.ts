@@ -0,0 +1,138 @@
+/**
+ * Storage Inspector Tests
+ *
+ * Verifies how files in the podcast directory are matched to episodes:
+ * linked downloads, orphans, leftovers, files that can be re-linked, and
+ * episodes whose file is missing.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { inspectStorage, parseStoredFilename } from '../src/services/storageInspector';
+import type { Episode, Podcast } from '../src/types';
+import type { StoredFile } from '../src/types/electron';
+
+const createEpisode = (id: number, overrides: Partial<Episode> = {}): Episode => ({
+    id,
+    title: `Episode ${id}`,
+    feedId: 1,
+    feedTitle: 'Feed Title',
+    image: '',
+    isPlayed: false,
+    isDownloaded: true,
+    ...overrides,
+} as Episode);
+
+const file = (filename: string, size = 100): StoredFile => ({ filename, size, modifiedAt: 0 });
+
+const subscriptions = { 1: { id: 1, title: 'The Show' } as Podcast };
+
+const inspect = (episodes: Episode[], files: StoredFile[], busyIds: number[] = []) =>
+    inspectStorage({ episodes, files, subscriptions, busyIds: new Set(busyIds) });
+
+const statusOf = (report: ReturnType<typeof inspect>, filename: string) =>
+    report.files.find(f => f.filename === filename)?.status;
+
+describe('Storage Inspector', () => {
+    describe('parseStoredFilename', () => {
+        it('should recognise the names the app gives its files', () => {
+            expect(parseStoredFilename('42.mp3')).toEqual({ episodeId: 42, kind: 'media', extension: 'mp3' });
+            expect(parseStoredFilename('-7.m4a')).toEqual({ episodeId: -7, kind: 'media', extension: 'm4a' });
+            expect(parseStoredFilename('42-compressed.mp3')).toEqual({ episodeId: 42, kind: 'compressed', extension: 'mp3' });
+            expect(parseStoredFilename('42-audio.m4a')).toEqual({ episodeId: 42, kind: 'audio-track', extension: 'm4a' });
+            expect(parseStoredFilename('42.mp3.part')).toEqual({ episodeId: 42, kind: 'partial', extension: 'mp3' });
+            expect(parseStoredFilename('42.mp3.part.json')).toEqual({ episodeId: 42, kind: 'partial', extension: 'mp3' });
+            expect(parseStoredFilename('-7.jpg')).toEqual({ episodeId: -7, kind: 'artwork', extension: 'jpg' });
+        });
+
+        it('should not claim other names', () => {
+            expect(parseStoredFilename('notes.txt')).toBeNull();
+            expect(parseStoredFilename('42.txt')).toBeNull();
+            expect(parseStoredFilename('42-compressed.m4a')).toBeNull();
+            expect(parseStoredFilename('.DS_Store')).toBeNull();
+        });
+    });
+
+    describe('inspectStorage', () => {
+        it('should link downloads to their episode and podcast', () => {
+            const report = inspect([createEpisode(1, { isPlayed: true, playedAt: 5 })], [file('1.mp3', 500)]);
+            expect(report.files).toEqual([{
+                filename: '1.mp3',
+                size: 500,
+                modifiedAt: 0,
+                kind: 'media',
+                status: 'linked',
+                episodeId: 1,
+                episodeTitle: 'Episode 1',
+                podcastId: 1,
+                podcastTitle: 'The Show',
+                isPlayed: true,
+                playedAt: 5,
+            }]);
+            expect(report.dangling).toEqual([]);
+        });
+
+        it('should flag files without an episode as orphans', () => {
+            const report = inspect([createEpisode(1)], [file('1.mp3'), file('99.mp3'), file('99-compressed.mp3'), file('stray.bin')]);
+            expect(statusOf(report, '99.mp3')).toBe('orphan');
+            expect(statusOf(report, '99-compressed.mp3')).toBe('orphan');
+            expect(statusOf(report, 'stray.bin')).toBe('orphan');
+            expect(report.files.find(f => f.filename === 'stray.bin')?.kind).toBe('other');
+        });
+
+        it('should flag upload copies and partial downloads as leftovers', () => {
+            const report = inspect([createEpisode(1)], [file('1.mp3'), file('1-compressed.mp3'), file('1-audio.m4a'), file('1.mp3.part')]);
+            expect(statusOf(report, '1-compressed.mp3')).toBe('leftover');
+            expect(statusOf(report, '1-audio.m4a')).toBe('leftover');
+            expect(statusOf(report, '1.mp3.part')).toBe('leftover');
+        });
+
+        it('should mark files of running downloads and transcriptions as busy', () => {
+            const report = inspect([createEpisode(1), createEpisode(2, { isDownloaded: false })], [
+                file('1.mp3'),
+                file('1-compressed.mp3'),
+                file('2.mp3.part'),
+            ], [1, 2]);
+            expect(statusOf(report, '1.mp3')).toBe('linked');
+            expect(statusOf(report, '1-compressed.mp3')).toBe('busy');
+            expect(statusOf(report, '2.mp3.part')).toBe('busy');
+        });
+
+        it('should report a downloaded episode without its file as dangling', () => {
+            const report = inspect([createEpisode(1), createEpisode(2, { isDownloaded: false })], []);
+            expect(report.dangling).toEqual([{
+                episodeId: 1,
+                title: 'Episode 1',
+                podcastTitle: 'The Show',
+                expectedFilename: '1.mp3',
+                relinkFilename: null,
+            }]);
+        });
+
+        it('should offer a media file under another extension for re-linking', () => {
+            const report = inspect([createEpisode(1)], [file('1.m4a')]);
+            expect(statusOf(report, '1.m4a')).toBe('unlinked');
+            expect(report.dangling[0].relinkFilename).toBe('1.m4a');
+        });
+
+        it('should offer the file of an episode not marked as downloaded for re-linking', () => {
+            const report = inspect([createEpisode(1, { isDownloaded: false })], [file('1.mp3')]);
+            expect(statusOf(report, '1.mp3')).toBe('unlinked');
+            expect(report.dangling).toEqual([]);
+        });
+
+        it('should treat a second copy of a linked download as a leftover', () => {
+            const report = inspect([createEpisode(1, { fileExtension: 'm4a' })], [file('1.m4a'), file('1.mp3')]);
+            expect(statusOf(report, '1.m4a')).toBe('linked');
+            expect(statusOf(report, '1.mp3')).toBe('leftover');
+        });
+
+        it('should link imported artwork to its local episode', () => {
+            const report = inspect(
+                [createEpisode(-5, { image: 'local-media://-5.jpg', fileExtension: 'm4a' }), createEpisode(1)],
+                [file('-5.m4a'), file('-5.jpg'), file('1.mp3'), file('1.jpg')]
+            );
+            expect(statusOf(report, '-5.jpg')).toBe('linked');
+            expect(statusOf(report, '1.jpg')).toBe('orphan');
+        });
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * Storage Policy Tests
+ *
+ * Verifies which episode files the cleanup plan deletes for each policy,
+ * that protected and imported episodes are left alone, and the per-podcast
+ * disk usage breakdown.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { buildDiskUsage, getEpisodeFileSizes, planCleanup, type StoragePolicy } from '../src/services/storagePolicy';
+import { LOCAL_FILES_FEED_URL } from '../src/services/localFiles';
+import type { Episode, Podcast } from '../src/types';
+import type { StoredFile } from '../src/types/electron';
+
+// localFiles imports the podcast store, which pulls in the Supabase client
+vi.mock('../src/services/supabaseClient', () => ({
+    getAccessToken: vi.fn(async () => 'mock-access-token')
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+const NOW = 100 * DAY;
+
+const NO_LIMITS: StoragePolicy = {
+    maxStorageMB: 0,
+    maxEpisodesPerPodcast: 0,
+    deletePlayedAfterDays: 0,
+    deleteFilesOnUnsubscribe: false,
+};
+
+const createEpisode = (id: number, overrides: Partial<Episode> = {}): Episode => ({
+    id,
+    title: `Episode ${id}`,
+    feedId: 1,
+    feedTitle: 'Show',
+    feedUrl: 'https://example.com/feed.xml',
+    datePublished: id,
+    isPlayed: false,
+    isDownloaded: true,
+    ...overrides,
+} as Episode);
+
+const fileFor = (id: number, size = MB, modifiedAt = NOW): StoredFile => ({ filename: `${id}.mp3`, size, modifiedAt });
+
+const plan = (episodes: Episode[], files: StoredFile[], policy: Partial<StoragePolicy>, protectedIds: number[] = [], queuedIds: number[] = []) =>
+    planCleanup({
+        episodes,
+        files,
+        policy: { ...NO_LIMITS, ...policy },
+        protectedIds: new Set(protectedIds),
+        queuedIds: new Set(queuedIds),
+        now: NOW,
+    });
+
+describe('Storage Policy', () => {
+    it('should do nothing without limits', () => {
+        const episodes = [createEpisode(1, { isPlayed: true, playedAt: 0 })];
+        expect(plan(episodes, [fileFor(1)], {})).toEqual([]);
+    });
+
+    it('should delete episodes played more than N days ago', () => {
+        const episodes = [
+            createEpisode(1, { isPlayed: true, playedAt: NOW - 10 * DAY }),
+            createEpisode(2, { isPlayed: true, playedAt: NOW - 2 * DAY }),
+            createEpisode(3),
+        ];
+        const result = plan(episodes, [fileFor(1), fileFor(2), fileFor(3)], { deletePlayedAfterDays: 7 });
+        expect(result.map(item => [item.episodeId, item.reason])).toEqual([[1, 'played']]);
+    });
+
+    it('should fall back to the file date when the play date is unknown', () => {
+        const episodes = [createEpisode(1, { isPlayed: true })];
+        expect(plan(episodes, [fileFor(1, MB, NOW - 30 * DAY)], { deletePlayedAfterDays: 7 })).toHaveLength(1);
+        expect(plan(episodes, [fileFor(1, MB, NOW)], { deletePlayedAfterDays: 7 })).toHaveLength(0);
+    });
+
+    it('should keep the newest N downloads per podcast, counting protected ones', () => {
+        const episodes = [1, 2, 3, 4].map(id => createEpisode(id)).concat(createEpisode(5, { feedId: 2 }));
+        const files = [1, 2, 3, 4, 5].map(id => fileFor(id));
+
+        expect(plan(episodes, files, { maxEpisodesPerPodcast: 2 }).map(item => item.episodeId).sort()).toEqual([1, 2]);
+        // Episode 1 is playing: it stays and uses one of the two slots
+        expect(plan(episodes, files, { maxEpisodesPerPodcast: 2 }, [1]).map(item => item.episodeId).sort()).toEqual([2, 3]);
+    });
+
+    it('should free space by deleting played, then unqueued, then queued episodes', () => {
+        const episodes = [
+            createEpisode(1),
+            createEpisode(2, { isPlayed: true }),
+            createEpisode(3),
+            createEpisode(4),
+        ];
+        const files = [1, 2, 3, 4].map(id => fileFor(id));
+        const result = plan(episodes, files, { maxStorageMB: 1 }, [], [1]);
+        expect(result.map(item => item.episodeId)).toEqual([2, 3, 4]);
+        expect(result.every(item => item.reason === 'storage-limit')).toBe(true);
+    });
+
+    it('should count files that belong to no episode towards the size limit', () => {
+        const episodes = [createEpisode(1), createEpisode(2)];
+        const files = [fileFor(1), fileFor(2), { filename: '9.mp3.part', size: MB, modifiedAt: NOW }];
+        expect(plan(episodes, files, { maxStorageMB: 2 }).map(item => item.episodeId)).toEqual([1]);
+    });
+
+    it('should never delete protected or imported local episodes', () => {
+        const episodes = [
+            createEpisode(1, { isPlayed: true, playedAt: 0 }),
+            createEpisode(2, { isPlayed: true, playedAt: 0, feedUrl: LOCAL_FILES_FEED_URL }),
+        ];
+        const result = plan(episodes, [fileFor(1), fileFor(2)], { deletePlayedAfterDays: 1, maxStorageMB: 1, maxEpisodesPerPodcast: 1 }, [1]);
+        expect(result).toEqual([]);
+    });
+
+    it('should add compressed copies to an episode\'s size', () => {
+        const { sizes, unowned } = getEpisodeFileSizes(
+            [createEpisode(1)],
+            [fileFor(1, 100), { filename: '1-compressed.mp3', size: 20, modifiedAt: NOW }, { filename: 'cover.jpg', size: 5, modifiedAt: NOW }]
+        );
+        expect(sizes.get(1)).toBe(120);
+        expect(unowned).toBe(5);
+    });
+
+    it('should count files by the episode\'s own extension', () => {
+        const { sizes, unowned } = getEpisodeFileSizes(
+            [createEpisode(1, { fileExtension: 'm4a' })],
+            [{ filename: '1.m4a', size: 100, modifiedAt: NOW }, fileFor(1, 7)]
+        );
+        expect(sizes.get(1)).toBe(100);
+        expect(unowned).toBe(7);
+    });
+
+    it('should break disk usage down per podcast, largest first', () => {
+        const episodes = [createEpisode(1), createEpisode(2), createEpisode(3, { feedId: 2, feedTitle: 'Other Show' })];
+        const files = [fileFor(1, 10), fileFor(2, 10), fileFor(3, 50), { filename: 'x.part', size: 1, modifiedAt: NOW }];
+        const subscriptions = { 1: { id: 1, title: 'Show' } as Podcast };
+
+        expect(buildDiskUsage(episodes, files, subscriptions)).toEqual([
+            { podcastId: 2, title: 'Other Show', episodeCount: 1, bytes: 50 },
+            { podcastId: 1, title: 'Show', episodeCount: 2, bytes: 20 },
+            { podcastId: null, title: 'Other files', episodeCount: 0, bytes: 1 },
+        ]);
+    });
+});
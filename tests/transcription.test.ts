@@ -1,8 +1,8 @@
-import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // =============================================================================
-// TRANSCRIPTION SERVICE TESTS
-// Updated for cloud-based transcription backend
+// TRANSCRIPTION PIPELINE TESTS
+// One pipeline over the processing providers: cloud, local and the fixture fake
 // =============================================================================
 
 // Mock window.electronAPI
@@ -10,6 +10,7 @@ const mockElectronAPI = {
     compressAudio: vi.fn(),
     readFile: vi.fn(),
     deleteFile: vi.fn(),
+    getLocalTranscriptionStatus: vi.fn(),
 };
 
 // Setup global window
@@ -19,146 +20,207 @@ global.window = {
 
 // Mock the cloudApi module
 vi.mock('../src/services/cloudApi', () => ({
-    processEpisodeInCloud: vi.fn()
+    uploadEpisodeToCloud: vi.fn(),
+    waitForCloudJobCompletion: vi.fn(),
+    cancelCloudJob: vi.fn(),
+    detectSegmentsFromTranscript: vi.fn(),
+    CloudJobFailedError: class CloudJobFailedError extends Error { }
 }));
 
 // Mock the db module
 vi.mock('../src/services/db', () => ({
     db: {
-        getEpisodes: vi.fn(),
-        getPreferences: vi.fn()
+        getPreferences: vi.fn(),
+        getCloudJobs: vi.fn(async () => ({})),
+        saveCloudJob: vi.fn(),
+        removeCloudJob: vi.fn()
     }
 }));
 
-import { transcribeEpisode } from '../src/services/transcription';
-import { processEpisodeInCloud } from '../src/services/cloudApi';
+import { cancelTranscription, needsSeparateDetection, processEpisode } from '../src/services/transcription';
+import { setProcessingProviderOverride, TranscriptionCancelledError } from '../src/services/processingProviders';
+import { buildFixtureTranscript, resetFakeFixtures, setFakeFixture } from '../src/services/fakeProvider';
+import { uploadEpisodeToCloud, waitForCloudJobCompletion } from '../src/services/cloudApi';
 import { db } from '../src/services/db';
+import type { Episode } from '../src/types';
+
+const episodeId = 12345;
+
+const episode = {
+    id: episodeId,
+    feedId: 1,
+    guid: 'test-episode-guid',
+    title: 'Test Episode',
+    description: 'A test episode',
+    duration: 3600,
+    localFilePath: '/path/to/episode.mp3',
+    isDownloaded: true
+} as Episode;
+
+const mockCloudResults = {
+    jobId: 'test-job',
+    transcript: {
+        id: 1,
+        text: 'This is the transcript text',
+        segments: [{ id: 0, start: 0, end: 10, text: 'Hello', words: [] }],
+        language: 'en',
+        duration: 600,
+        wordCount: 100
+    },
+    detectedSegments: [
+        {
+            startTime: '0:00',
+            endTime: '0:30',
+            startTimeSeconds: 0,
+            endTimeSeconds: 30,
+            confidence: 95,
+            type: 'advertisement' as const,
+            description: 'Sponsor read'
+        }
+    ],
+    detectionMethod: 'advanced' as const
+};
 
-describe('Transcription Service - Cloud Backend', () => {
-    const episodeId = 12345;
+describe('Transcription Pipeline', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(db.getPreferences).mockResolvedValue({ transcriptionMode: 'cloud' } as any);
+        mockElectronAPI.readFile.mockResolvedValue(new ArrayBuffer(100));
+        vi.mocked(uploadEpisodeToCloud).mockResolvedValue('test-job');
+        vi.mocked(waitForCloudJobCompletion).mockResolvedValue(mockCloudResults);
+    });
 
-    beforeAll(() => {
-        // Mock episode in database
-        vi.mocked(db.getEpisodes).mockResolvedValue({
-            [episodeId]: {
-                id: episodeId,
-                feedId: 1,
-                guid: 'test-episode-guid',
-                title: 'Test Episode',
-                description: 'A test episode',
-                duration: 3600,
-                localFilePath: '/path/to/episode.mp3',
-                isDownloaded: true
-            }
-        } as any);
+    afterEach(() => {
+        setProcessingProviderOverride(null);
+        resetFakeFixtures();
     });
 
-    describe('transcribeEpisode', () => {
+    describe('Cloud provider', () => {
         it('should call cloud API with episode metadata', async () => {
-            const mockFileBuffer = new ArrayBuffer(100);
-            mockElectronAPI.readFile.mockResolvedValue(mockFileBuffer);
-
-            const mockCloudResults = {
-                jobId: 'test-job',
-                transcript: {
-                    id: 1,
-                    text: 'This is the transcript text',
-                    segments: [{ id: 0, start: 0, end: 10, text: 'Hello', words: [] }],
-                    language: 'en',
-                    duration: 600,
-                    wordCount: 100
-                },
-                detectedSegments: [
-                    {
-                        startTime: '0:00',
-                        endTime: '0:30',
-                        startTimeSeconds: 0,
-                        endTimeSeconds: 30,
-                        confidence: 95,
-                        type: 'advertisement',
-                        description: 'Sponsor read'
-                    }
-                ],
-                detectionMethod: 'advanced' as const
-            };
-
-            vi.mocked(processEpisodeInCloud).mockResolvedValue(mockCloudResults);
-
-            const result = await transcribeEpisode(`${episodeId}.mp3`, episodeId);
-
-            expect(processEpisodeInCloud).toHaveBeenCalledWith(
-                mockFileBuffer,
+            const result = await processEpisode(episode);
+
+            expect(uploadEpisodeToCloud).toHaveBeenCalledWith(
+                expect.any(ArrayBuffer),
                 `${episodeId}.mp3`,
                 expect.objectContaining({
                     feedId: 1,
                     guid: 'test-episode-guid',
                     title: 'Test Episode'
                 }),
-                undefined // onProgress callback
+                'audio/mpeg',
+                expect.objectContaining({ signal: expect.any(AbortSignal) })
             );
+            expect(waitForCloudJobCompletion).toHaveBeenCalledWith('test-job', expect.any(Function), expect.any(AbortSignal));
 
-            expect(result.episodeId).toBe(episodeId);
-            expect(result.text).toBe('This is the transcript text');
-            expect(result.duration).toBe(600);
+            expect(result.transcript.episodeId).toBe(episodeId);
+            expect(result.transcript.text).toBe('This is the transcript text');
+            expect(result.transcript.source).toBe('cloud');
+            expect(result.adSegments).toHaveLength(1);
+            expect(result.adDetectionType).toBe('advanced');
         });
 
-        it('should throw error if episode not found in database', async () => {
-            vi.mocked(db.getEpisodes).mockResolvedValue({});
+        it('should report cloud job status as progress', async () => {
+            vi.mocked(waitForCloudJobCompletion).mockImplementation(async (_jobId, onProgress) => {
+                onProgress?.({ jobId: 'test-job', status: 'transcribing', progress: 40 });
+                return mockCloudResults;
+            });
+
+            const onProgress = vi.fn();
+            await processEpisode(episode, { onProgress });
 
-            await expect(
-                transcribeEpisode('99999.mp3', 99999)
-            ).rejects.toThrow('Episode 99999 not found in database');
+            expect(onProgress).toHaveBeenCalledWith({ stage: 'Transcribing', progress: 0.4, cancellable: true });
         });
 
         it('should throw error if Electron API not available', async () => {
             const originalElectronAPI = global.window.electronAPI;
             global.window.electronAPI = undefined as any;
 
-            vi.mocked(db.getEpisodes).mockResolvedValue({
-                [episodeId]: {
-                    id: episodeId,
-                    feedId: 1,
-                    guid: 'test',
-                    localFilePath: '/path/to/file.mp3'
-                }
-            } as any);
-
-            await expect(
-                transcribeEpisode(`${episodeId}.mp3`, episodeId)
-            ).rejects.toThrow('Electron API not available');
+            await expect(processEpisode(episode)).rejects.toThrow('Electron API not available');
 
             global.window.electronAPI = originalElectronAPI;
         });
 
-        it('should pass progress callback to cloud API', async () => {
-            const mockFileBuffer = new ArrayBuffer(100);
-            mockElectronAPI.readFile.mockResolvedValue(mockFileBuffer);
+        it('should refuse an episode that is not downloaded', async () => {
+            await expect(processEpisode({ ...episode, isDownloaded: false })).rejects.toThrow('Episode is not downloaded');
+            expect(uploadEpisodeToCloud).not.toHaveBeenCalled();
+        });
+    });
 
-            vi.mocked(db.getEpisodes).mockResolvedValue({
-                [episodeId]: {
-                    id: episodeId,
-                    feedId: 1,
-                    guid: 'test',
-                    localFilePath: '/path/to/file.mp3'
-                }
-            } as any);
-
-            vi.mocked(processEpisodeInCloud).mockResolvedValue({
-                jobId: 'test',
-                transcript: { text: 'test', segments: [], language: 'en', duration: 100 },
-                detectedSegments: [],
-                detectionMethod: 'basic'
-            } as any);
-
-            const progressCallback = vi.fn();
-            await transcribeEpisode(`${episodeId}.mp3`, episodeId, progressCallback);
-
-            expect(processEpisodeInCloud).toHaveBeenCalledWith(
-                expect.anything(),
-                expect.anything(),
-                expect.anything(),
-                progressCallback
-            );
+    describe('Provider order', () => {
+        it('should fall back to the cloud when local transcription is unavailable', async () => {
+            vi.mocked(db.getPreferences).mockResolvedValue({ transcriptionMode: 'local-first' } as any);
+            mockElectronAPI.getLocalTranscriptionStatus.mockResolvedValue({ available: false, binaryPath: null, modelPath: null });
+
+            const result = await processEpisode(episode);
+
+            expect(result.transcript.source).toBe('cloud');
+            expect(uploadEpisodeToCloud).toHaveBeenCalledOnce();
+        });
+
+        it('should fail without the cloud in local-only mode', async () => {
+            vi.mocked(db.getPreferences).mockResolvedValue({ transcriptionMode: 'local' } as any);
+            mockElectronAPI.getLocalTranscriptionStatus.mockResolvedValue({ available: false, binaryPath: null, modelPath: null });
+
+            await expect(processEpisode(episode)).rejects.toThrow('No transcription provider available');
+            expect(uploadEpisodeToCloud).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Fake provider', () => {
+        beforeEach(() => {
+            setProcessingProviderOverride('fake');
+        });
+
+        it('should return the fixture transcript and detection without the cloud', async () => {
+            const result = await processEpisode(episode);
+
+            expect(uploadEpisodeToCloud).not.toHaveBeenCalled();
+            expect(result.transcript.source).toBe('fake');
+            expect(result.transcript.duration).toBe(3600);
+            expect(result.transcript.segments.every(segment => segment.speaker && segment.words?.length)).toBe(true);
+            expect(result.adSegments).toEqual([
+                expect.objectContaining({ type: 'advertisement', startTimeSeconds: 1200, endTimeSeconds: 1800 })
+            ]);
+        });
+
+        it('should return a configured fixture', async () => {
+            const transcript = { ...buildFixtureTranscript(episode), text: 'Custom' };
+            setFakeFixture(episodeId, { transcript, detection: { detectedSegments: [], detectionMethod: 'advanced' } });
+
+            const result = await processEpisode(episode);
+
+            expect(result.transcript.text).toBe('Custom');
+            expect(result.adSegments).toEqual([]);
+            expect(result.adDetectionType).toBe('advanced');
+        });
+
+        it('should stop on cancel without falling back', async () => {
+            setFakeFixture(episodeId, { delayMs: 10_000 });
+
+            // Cancel once the fake has started "transcribing"
+            const processing = processEpisode(episode, {
+                onProgress: () => { setTimeout(() => cancelTranscription(episodeId)); }
+            });
+
+            await expect(processing).rejects.toBeInstanceOf(TranscriptionCancelledError);
+
+            expect(uploadEpisodeToCloud).not.toHaveBeenCalled();
+        });
+
+        it('should surface a configured failure', async () => {
+            setFakeFixture(episodeId, { error: 'Backend exploded' });
+
+            await expect(processEpisode(episode)).rejects.toThrow('Backend exploded');
+        });
+    });
+
+    describe('needsSeparateDetection', () => {
+        it('should only skip detection for cloud transcripts', () => {
+            const transcript = buildFixtureTranscript(episode);
+            expect(needsSeparateDetection({ ...transcript, source: 'cloud' })).toBe(false);
+            expect(needsSeparateDetection({ ...transcript, source: 'publisher' })).toBe(true);
+            expect(needsSeparateDetection({ ...transcript, source: 'local' })).toBe(true);
+            expect(needsSeparateDetection(undefined)).toBe(false);
         });
     });
 });
@@ -0,0 +1,97 @@
+/**
+ * Transcription Queue Tests
+ *
+ * Verifies queueing and re-queueing jobs, the order pending jobs start in
+ * (playing episode, then the queue, then first come first served), the
+ * concurrency limit and pausing, and picking episodes for "Transcribe all
+ * downloaded".
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    getPendingTranscriptions,
+    getUntranscribedDownloads,
+    queueTranscriptionJob,
+    selectTranscriptionsToStart,
+    withoutTranscriptionJob,
+    type TranscriptionJob,
+} from '../src/services/transcriptionQueue';
+import type { Episode } from '../src/types';
+
+const episode = (id: number, extra: Partial<Episode> = {}) => ({ id, title: `Episode ${id}`, isDownloaded: true, ...extra } as Episode);
+const job = (episodeId: number, queuedAt: number, status: TranscriptionJob['status'] = 'pending'): TranscriptionJob =>
+    ({ episodeId, force: false, status, queuedAt });
+const jobsOf = (...list: TranscriptionJob[]) => Object.fromEntries(list.map(j => [j.episodeId, j]));
+
+describe('Transcription Queue', () => {
+    describe('queueTranscriptionJob', () => {
+        it('should add a pending job', () => {
+            expect(queueTranscriptionJob({}, 1, false, 1000)).toEqual({ 1: job(1, 1000) });
+        });
+
+        it('should leave running jobs and keep a pending job in its place', () => {
+            const jobs = jobsOf(job(1, 1000, 'running'), job(2, 2000));
+
+            expect(queueTranscriptionJob(jobs, 1, true, 5000)).toBe(jobs);
+            expect(queueTranscriptionJob(jobs, 2, false, 5000)).toBe(jobs);
+            expect(queueTranscriptionJob(jobs, 2, true, 5000)[2]).toEqual({ ...job(2, 2000), force: true });
+        });
+
+        it('should put a failed job back in line', () => {
+            const jobs = jobsOf(job(1, 1000, 'failed'));
+
+            expect(queueTranscriptionJob(jobs, 1, false, 5000)[1]).toEqual(job(1, 5000));
+        });
+
+        it('should remove a job', () => {
+            expect(withoutTranscriptionJob(jobsOf(job(1, 1000), job(2, 2000)), 1)).toEqual(jobsOf(job(2, 2000)));
+        });
+    });
+
+    describe('getPendingTranscriptions', () => {
+        it('should order the playing episode, then the queue, then the rest by when they were added', () => {
+            const jobs = jobsOf(job(1, 1000), job(2, 2000), job(3, 3000), job(4, 4000), job(5, 500, 'failed'));
+            const pending = getPendingTranscriptions(jobs, { currentEpisodeId: 4, queue: [episode(3), episode(2)] });
+
+            expect(pending.map(j => j.episodeId)).toEqual([4, 3, 2, 1]);
+        });
+    });
+
+    describe('selectTranscriptionsToStart', () => {
+        const schedule = { concurrency: 2, paused: false, currentEpisodeId: undefined, queue: [] };
+
+        it('should fill the free slots with the most urgent jobs', () => {
+            const jobs = jobsOf(job(1, 1000, 'running'), job(2, 2000), job(3, 3000));
+
+            expect(selectTranscriptionsToStart(jobs, schedule)).toEqual([2]);
+            expect(selectTranscriptionsToStart(jobs, { ...schedule, concurrency: 3 })).toEqual([2, 3]);
+        });
+
+        it('should start nothing while paused or full', () => {
+            const jobs = jobsOf(job(1, 1000, 'running'), job(2, 2000, 'running'), job(3, 3000));
+
+            expect(selectTranscriptionsToStart(jobs, schedule)).toEqual([]);
+            expect(selectTranscriptionsToStart(jobsOf(job(3, 3000)), { ...schedule, paused: true })).toEqual([]);
+        });
+
+        it('should always allow one transcription', () => {
+            expect(selectTranscriptionsToStart(jobsOf(job(1, 1000)), { ...schedule, concurrency: 0 })).toEqual([1]);
+        });
+    });
+
+    describe('getUntranscribedDownloads', () => {
+        it('should pick downloaded episodes without a transcript that are not queued or running', () => {
+            const episodes = {
+                1: episode(1),
+                2: episode(2, { isDownloaded: false }),
+                3: episode(3, { transcript: { episodeId: 3, text: '', segments: [], language: 'en', duration: 0, createdAt: 0 } }),
+                4: episode(4, { transcriptionStatus: 'processing' }),
+                5: episode(5),
+                6: episode(6, { transcriptionStatus: 'failed' }),
+            };
+            const jobs = jobsOf(job(5, 1000), job(6, 1000, 'failed'));
+
+            expect(getUntranscribedDownloads(episodes, jobs).map(e => e.id)).toEqual([1, 6]);
+        });
+    });
+});